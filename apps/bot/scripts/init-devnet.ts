@@ -12,6 +12,8 @@
  *   1. sbtc-token::mint               — funds each test wallet with 10 sBTC
  *   2. yield-oracle::set-btc-price    — seeds BTC/USD price ($95,000)
  *   3. yield-oracle::set-stacking-apr — seeds stacking APR (8.00%)
+ *   4. bond-factory::add-series       — lists quarterly maturities on PoX cycle
+ *                                       boundaries (SERIES_CYCLES cycles apart)
  */
 
 import { readFileSync } from "fs";
@@ -60,6 +62,11 @@ const TEST_WALLETS = [
 const STX_AMOUNT_USTX = 500_000_000n; // 500 STX in microSTX
 const EXTRA_STX_WALLETS = ["ST3DQZN7X9FRR0N2DZZCRAVRSCY7BA2D58BXK4C10"];
 
+// Maturity series to list. Six 2100-block reward cycles are about twelve weeks
+// on mainnet; devnet cycles are far shorter, so a devnet "quarter" is minutes.
+const SERIES_COUNT = 4;
+const SERIES_CYCLES = Number(process.env.SERIES_CYCLES ?? "6");
+
 // ---------------------------------------------------------------------------
 // Key derivation — reads the deployer mnemonic from settings/Devnet.toml
 // ---------------------------------------------------------------------------
@@ -146,6 +153,35 @@ async function getNonce(): Promise<number> {
   return data.nonce;
 }
 
+/**
+ * Maturity blocks of the next `count` reward-cycle boundaries whose cycle
+ * number is a multiple of `everyCycles`.
+ *
+ * bond-factory is a Clarity 2 contract, so its block-height is the tenure
+ * height, which advances once per burn block. Each boundary is projected from
+ * the current tenure height by its distance in burn blocks.
+ */
+async function seriesMaturities(count: number, everyCycles: number): Promise<number[]> {
+  const [poxRes, infoRes] = await Promise.all([
+    fetch(`${API_URL}/v2/pox`),
+    fetch(`${API_URL}/v2/info`),
+  ]);
+  const pox = (await poxRes.json()) as {
+    first_burnchain_block_height: number;
+    reward_cycle_length: number;
+    current_burnchain_block_height: number;
+    current_cycle: { id: number };
+  };
+  const info = (await infoRes.json()) as { tenure_height: number };
+
+  const firstCycle = (Math.floor(pox.current_cycle.id / everyCycles) + 1) * everyCycles;
+  return Array.from({ length: count }, (_, i) => {
+    const cycle = firstCycle + i * everyCycles;
+    const boundary = pox.first_burnchain_block_height + cycle * pox.reward_cycle_length;
+    return info.tenure_height + (boundary - pox.current_burnchain_block_height);
+  });
+}
+
 async function call(
   privateKey: string,
   network: InstanceType<typeof StacksDevnet>,
@@ -163,7 +199,8 @@ async function call(
     functionArgs: args,
     senderKey: privateKey,
     anchorMode: AnchorMode.Any,
-    postConditionMode: PostConditionMode.Allow,
+    // Mints, oracle seeds and series move no existing assets.
+    postConditionMode: PostConditionMode.Deny,
     fee: 10_000,
     nonce,
   });
@@ -256,6 +293,20 @@ async function main() {
     nonce++,
   );
 
+  // 4. List quarterly maturity series for create-bond-in-series
+  console.log(`\nListing ${SERIES_COUNT} maturity series every ${SERIES_CYCLES} PoX cycles…`);
+  for (const maturity of await seriesMaturities(SERIES_COUNT, SERIES_CYCLES)) {
+    await call(
+      privateKey,
+      network,
+      "bond-factory",
+      "add-series",
+      [uintCV(maturity)],
+      `bond-factory::add-series (block ${maturity})`,
+      nonce++,
+    );
+  }
+
   console.log("\nDone.");
   console.log(`Each wallet has ${SBTC_AMOUNT / 1e8} sBTC available.`);
 }
@@ -0,0 +1,106 @@
+/**
+ * allocation.ts
+ *
+ * Pure helpers for splitting a reward across bonds. No I/O, no config, so
+ * they can be unit-tested in isolation (see tests/allocation.test.ts).
+ *
+ * Largest-remainder method:
+ *   1. every share gets floor(total * weight / totalWeight)
+ *   2. the satoshis lost to rounding (fewer than the number of shares)
+ *      go one each to the shares with the largest remainders, ties broken
+ *      by input order
+ *
+ * The amounts therefore always sum exactly to `total`. The only case in
+ * which anything is left over is when there is nothing to allocate to
+ * (no shares, or every weight is zero); the caller carries that forward.
+ *
+ * Time weighting: a bond's weight for a reward cycle is its locked sats
+ * times the number of Stacks blocks it was live during the cycle, i.e. the
+ * overlap of [created-block, maturity-block) with the cycle's block range.
+ * A bond created one block before the payout therefore earns one block's
+ * worth, not a full cycle's.
+ */
+
+// -----------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------
+
+export interface WeightedShare {
+  bondId: bigint;
+  /** Relative claim on the total, e.g. the bond's locked sats. */
+  weight: bigint;
+}
+
+export interface AllocatedShare {
+  bondId: bigint;
+  amount: bigint;
+}
+
+export interface BondTerm {
+  bondId: bigint;
+  sbtcAmount: bigint;
+  createdBlock: bigint;
+  maturityBlock: bigint;
+}
+
+/** Half-open Stacks block range [start, end). */
+export interface BlockWindow {
+  start: bigint;
+  end: bigint;
+}
+
+export interface AllocationResult {
+  /** One entry per input share, in input order. Amounts may be zero. */
+  shares: AllocatedShare[];
+  /** Part of `total` that could not be allocated. */
+  leftover: bigint;
+}
+
+// -----------------------------------------------------------------------
+// Allocation
+// -----------------------------------------------------------------------
+
+/** Split `total` across `shares` in proportion to their weights. */
+export function allocateProportional(total: bigint, shares: WeightedShare[]): AllocationResult {
+  if (total < 0n) throw new Error(`Cannot allocate a negative total (${total})`);
+  if (shares.some((s) => s.weight < 0n)) throw new Error("Share weights must be non-negative");
+
+  const totalWeight = shares.reduce((sum, s) => sum + s.weight, 0n);
+  if (totalWeight === 0n) {
+    return { shares: shares.map((s) => ({ bondId: s.bondId, amount: 0n })), leftover: total };
+  }
+
+  const floors = shares.map((s) => (s.weight * total) / totalWeight);
+  const remainders = shares.map((s) => (s.weight * total) % totalWeight);
+  let dust = total - floors.reduce((sum, a) => sum + a, 0n);
+
+  // Largest remainder first; the stable sort keeps input order on ties.
+  const order = shares
+    .map((_, i) => i)
+    .sort((a, b) => (remainders[b]! > remainders[a]! ? 1 : remainders[b]! < remainders[a]! ? -1 : 0));
+  for (const i of order) {
+    if (dust === 0n) break;
+    floors[i]! += 1n;
+    dust -= 1n;
+  }
+
+  return {
+    shares: shares.map((s, i) => ({ bondId: s.bondId, amount: floors[i]! })),
+    leftover: 0n,
+  };
+}
+
+/** Stacks blocks during which `bond` was live inside `window`. */
+export function activeBlocks(bond: BondTerm, window: BlockWindow): bigint {
+  const from = bond.createdBlock > window.start ? bond.createdBlock : window.start;
+  const to = bond.maturityBlock < window.end ? bond.maturityBlock : window.end;
+  return to > from ? to - from : 0n;
+}
+
+/** Weights for allocateProportional: locked sats × blocks live in `window`. */
+export function timeWeightedShares(bonds: BondTerm[], window: BlockWindow): WeightedShare[] {
+  return bonds.map((bond) => ({
+    bondId: bond.bondId,
+    weight: bond.sbtcAmount * activeBlocks(bond, window),
+  }));
+}
@@ -0,0 +1,101 @@
+/**
+ * apr.ts
+ *
+ * Stacking APR estimate from real PoX data.
+ *
+ * For each of the last `aprWindowCycles` completed reward cycles:
+ *   rewards — BTC paid to all PoX reward addresses (satoshis)
+ *   stacked — total STX locked in the cycle (uSTX)
+ *
+ * The stacked STX is converted to satoshis with the oracle's own BTC/USD
+ * and STX/USD prices, and the window is aggregated (stake-weighted) before
+ * annualising:
+ *
+ *   stackedSats = stackedUstx / 1e6 * stxUsd / btcUsd * 1e8
+ *   apr         = sum(rewards) / sum(stackedSats) * cyclesPerYear
+ *
+ * Completed cycles never change, so per-cycle samples are cached in memory.
+ */
+
+import { estimateStackingApr } from "./prices";
+import {
+  fetchPoxInfo,
+  fetchTotalCycleRewards,
+  fetchCycleStackedUstx,
+  PoxInfo,
+} from "./pox";
+import { config } from "./config";
+
+/** Bitcoin blocks per year at ~10 min/block. */
+const BTC_BLOCKS_PER_YEAR = 52_560;
+
+/** Satoshis per BTC and uSTX per STX. */
+const SATS_PER_BTC = 100_000_000n;
+const USTX_PER_STX = 1_000_000n;
+
+export interface CycleSample {
+  cycle: number;
+  rewardsSats: bigint;
+  stackedUstx: bigint;
+}
+
+/** Everything that went into one APR estimate, for audit logging. */
+export interface AprComputation {
+  aprBps: bigint;
+  samples: CycleSample[];
+  /** Oracle prices used for the STX → BTC conversion (6 decimals). */
+  btcUsd: bigint;
+  stxUsd: bigint;
+  totalRewardsSats: bigint;
+  totalStackedSats: bigint;
+  cyclesPerYear: number;
+}
+
+export class StackingAprEstimator {
+  private readonly samples = new Map<number, CycleSample>();
+
+  /** Estimate the APR over the configured window of completed cycles. */
+  async compute(btcUsd: bigint, stxUsd: bigint): Promise<AprComputation> {
+    if (btcUsd === 0n || stxUsd === 0n) {
+      throw new Error("Oracle BTC/STX prices are not set; cannot convert stacked STX to BTC");
+    }
+
+    const info = await fetchPoxInfo();
+    const lastCompleted = info.currentCycle - 1;
+    const first = Math.max(0, lastCompleted - config.relayer.aprWindowCycles + 1);
+
+    const samples: CycleSample[] = [];
+    for (let cycle = first; cycle <= lastCompleted; cycle++) {
+      samples.push(await this.sample(cycle, info));
+    }
+
+    const totalRewardsSats = samples.reduce((sum, s) => sum + s.rewardsSats, 0n);
+    const totalStackedUstx = samples.reduce((sum, s) => sum + s.stackedUstx, 0n);
+    const totalStackedSats =
+      (totalStackedUstx * stxUsd * SATS_PER_BTC) / (USTX_PER_STX * btcUsd);
+    const cyclesPerYear = Math.round(BTC_BLOCKS_PER_YEAR / info.cycleLength);
+
+    return {
+      aprBps: estimateStackingApr(totalRewardsSats, totalStackedSats, cyclesPerYear),
+      samples,
+      btcUsd,
+      stxUsd,
+      totalRewardsSats,
+      totalStackedSats,
+      cyclesPerYear,
+    };
+  }
+
+  private async sample(cycle: number, info: PoxInfo): Promise<CycleSample> {
+    const cached = this.samples.get(cycle);
+    if (cached) return cached;
+
+    const [rewardsSats, stackedUstx] = await Promise.all([
+      fetchTotalCycleRewards(cycle, info),
+      fetchCycleStackedUstx(cycle),
+    ]);
+    const sample = { cycle, rewardsSats, stackedUstx };
+    this.samples.set(cycle, sample);
+    return sample;
+  }
+}
@@ -28,21 +28,76 @@ export const config = {
     yieldOracle: process.env.YIELD_ORACLE_ADDRESS ?? "",
   },
 
+  // Directory for files the relayer persists between restarts.
+  stateDir: process.env.BOT_STATE_DIR ?? ".data",
+
+  pox: {
+    // BTC address that receives the bond pool's PoX rewards.
+    rewardAddress: process.env.POX_REWARD_ADDRESS ?? "",
+  },
+
   redstone: {
     dataServiceId: process.env.REDSTONE_DATA_SERVICE_ID ?? "redstone-rapid-demo",
     uniqueSignersCount: Number(process.env.REDSTONE_UNIQUE_SIGNERS ?? "1"),
   },
 
+  prices: {
+    // Comma-separated list of enabled sources: kraken, redstone, coinbase, binance.
+    sources: (process.env.PRICE_SOURCES ?? "kraken,redstone,coinbase,binance")
+      .split(",").map((s) => s.trim()).filter(Boolean),
+    // Minimum number of agreeing sources required before pushing a price.
+    quorum: Number(process.env.PRICE_QUORUM ?? "2"),
+    // Quotes further than this from the median are discarded.
+    maxDeviationPct: Number(process.env.PRICE_MAX_DEVIATION_PCT ?? "2"),
+    // Base URLs — override to point a source at a local mock.
+    urls: {
+      kraken:   process.env.KRAKEN_API_URL ?? "https://api.kraken.com",
+      redstone: process.env.REDSTONE_GATEWAY_URL ?? "https://oracle-gateway-1.a.redstone.finance",
+      coinbase: process.env.COINBASE_API_URL ?? "https://api.coinbase.com",
+      binance:  process.env.BINANCE_API_URL ?? "https://api.binance.com",
+    },
+  },
+
   relayer: {
-    // How often to push price updates to yield-oracle.clar.
-    // Oracle staleness window is 300 blocks (~25 min); update every 5 min to stay fresh.
-    priceIntervalMs: 5 * 60 * 1000,
+    // How often to poll the price sources and compare against the oracle.
+    // A poll only results in a set-prices call when the deviation or
+    // heartbeat rule below fires.
+    priceIntervalMs: 30 * 1000,
+
+    // Push when BTC or STX moves at least this many bps from the on-chain value.
+    priceDeviationBps: Number(process.env.PRICE_DEVIATION_BPS ?? "50"),
 
-    // How often to sync yield. Roughly one PoX cycle (2016 Bitcoin blocks).
-    // ~14 h on mainnet (2016 * 10 min / 60 / 24). Adjust per environment.
-    yieldIntervalMs: 14 * 60 * 60 * 1000,
+    // Heartbeat: push regardless of movement once the on-chain price is within
+    // this many blocks of the oracle's max-price-age-blocks, leaving room for
+    // the set-prices tx to confirm before the feed goes stale.
+    heartbeatMarginBlocks: Number(process.env.PRICE_HEARTBEAT_MARGIN_BLOCKS ?? "60"),
+
+    // How often to recompute and push the Stacking APR.
+    aprIntervalMs: 60 * 60 * 1000,
+
+    // How often to poll /v2/pox for a cycle boundary. A cycle lasts ~2 weeks
+    // on mainnet, so a 1-minute poll pays out promptly without load on the node.
+    poxPollIntervalMs: 60 * 1000,
+
+    // Number of completed PoX cycles the Stacking APR is smoothed over.
+    aprWindowCycles: Number(process.env.APR_WINDOW_CYCLES ?? "4"),
+
+    // Bonds paid per deposit-yield-many call (the contract's list limit is 50).
+    depositBatchSize: 50,
 
     // Default fee per transaction in microSTX.
     feeMicroStx: 2000,
+
+    // How often to poll a broadcast tx for its status, and how long to wait
+    // before giving up on it (it stays in the mempool and is tracked next run).
+    txPollIntervalMs: 10 * 1000,
+    txTimeoutMs: 30 * 60 * 1000,
+
+    // Replace-by-fee: if a tx is still pending this many Stacks blocks after
+    // broadcast, re-sign it with the same nonce and the fee raised by
+    // rbfFeeBumpPct percent, never above maxFeeMicroStx.
+    rbfAfterBlocks: Number(process.env.RBF_AFTER_BLOCKS ?? "20"),
+    rbfFeeBumpPct: 50,
+    maxFeeMicroStx: Number(process.env.MAX_FEE_MICROSTX ?? "200000"),
   },
 } as const;
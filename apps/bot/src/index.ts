@@ -2,25 +2,57 @@
  * SatCurve Relayer v0.2.0
  *
  * Responsibilities:
- *   - Push BTC/USD + STX/USD prices to yield-oracle.clar every 5 minutes.
- *   - Push Stacking APR to yield-oracle.clar once per PoX cycle.
- *   - Distribute sBTC stacking rewards each PoX cycle:
- *       bond-factory: deposit-yield(bondId, bondReward) per active bond
+ *   - Push BTC/USD + STX/USD prices to yield-oracle.clar when they deviate
+ *     from the on-chain value, or before the oracle's staleness window runs out.
+ *   - Push Stacking APR to yield-oracle.clar every hour.
+ *   - Distribute sBTC stacking rewards each PoX cycle (detected via /v2/pox):
+ *       bond-factory: deposit-yield-many, up to 50 active bonds per transaction
  *
  * Usage:
- *   pnpm dev                          — start the relayer (price loop only)
- *   pnpm dev -- --distribute 1000000  — start + immediately distribute 1000000 sats
+ *   pnpm dev                          — start the relayer (price loop + PoX watcher)
+ *   pnpm dev -- --distribute 1000000  — distribute 1000000 sats for the last completed
+ *                                       cycle (add --cycle N to pick one) and exit;
+ *                                       stop any running relayer first
+ *   pnpm dev -- --ledger [cycle]      — print the yield ledger and exit
  *
  * Environment variables (see .env.example):
  *   BOT_PRIVATE_KEY, STACKS_NETWORK, STACKS_API_URL,
- *   BOND_FACTORY_ADDRESS, YIELD_ORACLE_ADDRESS
+ *   BOND_FACTORY_ADDRESS, YIELD_ORACLE_ADDRESS, POX_REWARD_ADDRESS
  */
 
 import { config } from "./config";
 import { logger } from "./logger";
 import { Relayer } from "./relayer";
+import { YieldLedger } from "./ledger";
+import { fetchPoxInfo } from "./pox";
+
+/** Print the yield ledger (optionally one cycle) for auditing. */
+function printLedger(cycle?: number): void {
+  const entries = new YieldLedger().list(cycle);
+  if (entries.length === 0) {
+    console.log(cycle === undefined ? "Ledger is empty." : `No ledger entries for cycle ${cycle}.`);
+    return;
+  }
+  console.table(entries.map((e) => ({
+    cycle:   e.cycle,
+    bond:    e.bondId.toString(),
+    amount:  e.amount.toString(),
+    status:  e.status,
+    txid:    e.txid ?? "",
+    error:   e.error ?? "",
+    updated: e.updatedAt,
+  })));
+}
 
 async function main() {
+  // Audit mode: print the ledger and exit without starting the relayer.
+  const ledgerArg = process.argv.indexOf("--ledger");
+  if (ledgerArg !== -1) {
+    const cycleStr = process.argv[ledgerArg + 1];
+    printLedger(cycleStr && !cycleStr.startsWith("--") ? Number(cycleStr) : undefined);
+    return;
+  }
+
   logger.info("SatCurve Relayer v0.2.0");
   logger.info(`Network: ${config.network} | API: ${config.apiUrl}`);
 
@@ -29,23 +61,33 @@ async function main() {
     process.exit(1);
   }
 
-  const relayer = new Relayer();
-  relayer.start();
-
-  // Optional: one-shot yield distribution from CLI argument.
-  // Example: pnpm dev -- --distribute 1000000
+  // One-shot yield distribution from CLI argument, then exit.
+  // Example: pnpm dev -- --distribute 1000000 --cycle 84
+  // The relayer is not started in this mode: its PoX watcher could pick up
+  // the same cycle and pay it a second time.
   const distArg = process.argv.indexOf("--distribute");
   if (distArg !== -1) {
     const amtStr = process.argv[distArg + 1];
     const totalRewards = amtStr ? BigInt(amtStr) : 0n;
-    if (totalRewards > 0n) {
-      logger.info(`CLI: distributing ${totalRewards} sats across bonds.`);
-      await relayer.distributeYield({
-        totalBondRewards: totalRewards,
-      });
+    if (totalRewards <= 0n) {
+      logger.error("--distribute needs an amount in sats greater than 0. Exiting.");
+      process.exit(1);
     }
+    const cycleArg = process.argv.indexOf("--cycle");
+    const cycle = cycleArg !== -1
+      ? Number(process.argv[cycleArg + 1])
+      : (await fetchPoxInfo()).currentCycle - 1;
+    logger.info(`CLI: distributing ${totalRewards} sats across bonds for cycle ${cycle}.`);
+    await new Relayer().distributeYield({
+      cycle,
+      totalBondRewards: totalRewards,
+    });
+    return;
   }
 
+  const relayer = new Relayer();
+  relayer.start();
+
   // Graceful shutdown on SIGINT / SIGTERM
   const shutdown = () => {
     relayer.stop();
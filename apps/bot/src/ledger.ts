@@ -0,0 +1,224 @@
+/**
+ * ledger.ts
+ *
+ * Persistent record of every deposit-yield the relayer plans and sends,
+ * keyed by (cycle, bondId).
+ *
+ * Lifecycle of an entry:
+ *   planned   — amount computed, no transaction sent yet
+ *   submitted — broadcast, txid known, not yet anchored. A fee bump adds the
+ *               replacement's txid; any of them may be the one mined.
+ *   confirmed — tx succeeded on-chain
+ *   failed    — broadcast or on-chain failure; retried on the next run
+ *
+ * A distribution is planned once per cycle. Re-running it only re-sends
+ * entries that are still planned or failed, so a crash halfway through a
+ * cycle can be resumed without paying any bond twice.
+ *
+ * Each planned cycle also gets a summary recording the reward, the amount
+ * carried in from the previous cycle and whatever could not be allocated.
+ * That leftover is carried into the next cycle's plan, so no satoshi of
+ * reward is ever dropped.
+ */
+
+import { loadJson, saveJson, statePath } from "./store";
+
+// -----------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------
+
+export type LedgerStatus = "planned" | "submitted" | "confirmed" | "failed";
+
+export interface LedgerEntry {
+  cycle: number;
+  bondId: bigint;
+  /** Planned deposit in satoshis. */
+  amount: bigint;
+  /** Latest txid broadcast for the entry. */
+  txid: string | null;
+  /** Every txid broadcast for the current submission, oldest first. */
+  txids: string[];
+  status: LedgerStatus;
+  /** Last failure reason, if any. */
+  error: string | null;
+  /** ISO timestamp of the last status change. */
+  updatedAt: string;
+}
+
+/** Totals of one planned cycle. */
+export interface CycleSummary {
+  cycle: number;
+  /** Rewards earned in the cycle itself (satoshis). */
+  rewards: bigint;
+  /** Leftover carried in from the previous planned cycle. */
+  carriedIn: bigint;
+  /** Part of rewards + carriedIn that was not allocated to any bond. */
+  leftover: bigint;
+}
+
+/** On-disk shape: bigints are stored as decimal strings. */
+interface StoredEntry extends Omit<LedgerEntry, "bondId" | "amount" | "txids"> {
+  bondId: string;
+  amount: string;
+  /** Absent in ledgers written before replacements were tracked. */
+  txids?: string[];
+}
+
+interface StoredCycle {
+  cycle: number;
+  rewards: string;
+  carriedIn: string;
+  leftover: string;
+}
+
+interface StoredLedger {
+  entries: StoredEntry[];
+  /** Absent in ledgers written before carry-over was tracked. */
+  cycles?: StoredCycle[];
+}
+
+const LEDGER_FILE = "yield-ledger.json";
+
+// -----------------------------------------------------------------------
+// Ledger
+// -----------------------------------------------------------------------
+
+export class YieldLedger {
+  private readonly entries = new Map<string, LedgerEntry>();
+  private readonly cycles = new Map<number, CycleSummary>();
+
+  constructor(private readonly path = statePath(LEDGER_FILE)) {
+    const stored = loadJson<StoredLedger>(path, { entries: [] });
+    for (const e of stored.entries) {
+      const entry: LedgerEntry = {
+        ...e,
+        bondId: BigInt(e.bondId),
+        amount: BigInt(e.amount),
+        txids: e.txids ?? (e.txid ? [e.txid] : []),
+      };
+      this.entries.set(key(entry.cycle, entry.bondId), entry);
+    }
+    for (const c of stored.cycles ?? []) {
+      this.cycles.set(c.cycle, {
+        cycle: c.cycle,
+        rewards: BigInt(c.rewards),
+        carriedIn: BigInt(c.carriedIn),
+        leftover: BigInt(c.leftover),
+      });
+    }
+  }
+
+  /** All entries, optionally filtered to one cycle, ordered by (cycle, bondId). */
+  list(cycle?: number): LedgerEntry[] {
+    return [...this.entries.values()]
+      .filter((e) => cycle === undefined || e.cycle === cycle)
+      .sort((a, b) => a.cycle - b.cycle || (a.bondId < b.bondId ? -1 : a.bondId > b.bondId ? 1 : 0));
+  }
+
+  /** True once a distribution has been planned for `cycle`. */
+  hasCycle(cycle: number): boolean {
+    return this.cycles.has(cycle) || this.list(cycle).length > 0;
+  }
+
+  /** Summary of a planned cycle, if it was planned with carry-over tracking. */
+  summary(cycle: number): CycleSummary | undefined {
+    return this.cycles.get(cycle);
+  }
+
+  /**
+   * Leftover to carry into `cycle`: the unallocated remainder of the most
+   * recent cycle planned before it.
+   */
+  carryInto(cycle: number): bigint {
+    const previous = [...this.cycles.values()]
+      .filter((c) => c.cycle < cycle)
+      .sort((a, b) => b.cycle - a.cycle)[0];
+    return previous?.leftover ?? 0n;
+  }
+
+  /**
+   * Record the planned per-bond amounts for a cycle and what was left
+   * unallocated. Zero amounts are not recorded. No-op if already planned.
+   */
+  plan(
+    cycle: number,
+    amounts: Array<{ bondId: bigint; amount: bigint }>,
+    totals: Omit<CycleSummary, "cycle"> = { rewards: 0n, carriedIn: 0n, leftover: 0n }
+  ): void {
+    if (this.hasCycle(cycle)) return;
+    const now = new Date().toISOString();
+    for (const { bondId, amount } of amounts) {
+      if (amount === 0n) continue;
+      this.entries.set(key(cycle, bondId), {
+        cycle, bondId, amount, txid: null, txids: [], status: "planned", error: null, updatedAt: now,
+      });
+    }
+    this.cycles.set(cycle, { cycle, ...totals });
+    this.save();
+  }
+
+  /** Entries of `cycle` that still need to be (re)sent. */
+  unsent(cycle: number): LedgerEntry[] {
+    return this.list(cycle).filter((e) => e.status === "planned" || e.status === "failed");
+  }
+
+  /** Entries of `cycle` that were broadcast but are not yet known to be final. */
+  inFlight(cycle: number): LedgerEntry[] {
+    return this.list(cycle).filter((e) => e.status === "submitted");
+  }
+
+  /**
+   * Record a broadcast. On an entry already submitted, `txid` is a fee bump
+   * of the same nonce and is added to its txids; otherwise it starts a new
+   * submission.
+   */
+  markSubmitted(cycle: number, bondId: bigint, txid: string): void {
+    const entry = this.get(cycle, bondId);
+    const txids = entry.status !== "submitted" ? [txid]
+      : entry.txids.includes(txid) ? entry.txids
+      : [...entry.txids, txid];
+    this.update(cycle, bondId, { status: "submitted", txid, txids, error: null });
+  }
+
+  markConfirmed(cycle: number, bondId: bigint): void {
+    this.update(cycle, bondId, { status: "confirmed", error: null });
+  }
+
+  markFailed(cycle: number, bondId: bigint, error: string): void {
+    this.update(cycle, bondId, { status: "failed", error });
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal helpers
+  // -----------------------------------------------------------------------
+
+  private get(cycle: number, bondId: bigint): LedgerEntry {
+    const entry = this.entries.get(key(cycle, bondId));
+    if (!entry) throw new Error(`No ledger entry for cycle ${cycle}, bond ${bondId}`);
+    return entry;
+  }
+
+  private update(cycle: number, bondId: bigint, patch: Partial<LedgerEntry>): void {
+    Object.assign(this.get(cycle, bondId), patch, { updatedAt: new Date().toISOString() });
+    this.save();
+  }
+
+  private save(): void {
+    const entries: StoredEntry[] = this.list().map((e) => ({
+      ...e, bondId: e.bondId.toString(), amount: e.amount.toString(),
+    }));
+    const cycles: StoredCycle[] = [...this.cycles.values()]
+      .sort((a, b) => a.cycle - b.cycle)
+      .map((c) => ({
+        cycle: c.cycle,
+        rewards: c.rewards.toString(),
+        carriedIn: c.carriedIn.toString(),
+        leftover: c.leftover.toString(),
+      }));
+    saveJson(this.path, { entries, cycles });
+  }
+}
+
+function key(cycle: number, bondId: bigint): string {
+  return `${cycle}:${bondId}`;
+}
@@ -0,0 +1,232 @@
+/**
+ * pox.ts
+ *
+ * PoX reward-cycle helpers and the cycle watcher that drives yield
+ * distribution.
+ *
+ * The watcher polls the node's /v2/pox endpoint. When the reported
+ * reward cycle moves past the last cycle we paid out, it sums the BTC the
+ * bond pool's reward address received during that cycle and hands the
+ * amount to the relayer. The last processed cycle is saved to disk so a
+ * restart never pays the same cycle twice.
+ */
+
+import { config } from "./config";
+import { logger } from "./logger";
+import { loadJson, saveJson, statePath } from "./store";
+
+// -----------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------
+
+export interface PoxInfo {
+  /** Reward cycle currently in progress. */
+  currentCycle: number;
+  /** Bitcoin block height at which PoX cycle 0 started. */
+  firstBurnBlock: number;
+  /** Length of one reward cycle in Bitcoin blocks (2100 on mainnet). */
+  cycleLength: number;
+  /** Latest Bitcoin block height seen by the node. */
+  currentBurnBlock: number;
+  /** uSTX stacked in the current cycle. */
+  stackedUstx: bigint;
+}
+
+/** Called once per completed cycle with the pool's reward for that cycle. */
+export type CycleHandler = (cycle: number, rewardSats: bigint) => Promise<void>;
+
+interface WatcherState {
+  lastProcessedCycle: number | null;
+}
+
+const STATE_FILE = "pox-watcher.json";
+
+/** Page size for /extended/v1/burnchain/rewards (API maximum is 250). */
+const REWARDS_PAGE_LIMIT = 250;
+
+/** How far past a burn block to look for the first Stacks block anchored to it. */
+const MAX_EMPTY_BURN_BLOCKS = 20;
+
+// -----------------------------------------------------------------------
+// PoX API helpers
+// -----------------------------------------------------------------------
+
+/** Fetch the node's current PoX parameters. */
+export async function fetchPoxInfo(): Promise<PoxInfo> {
+  const resp = await fetch(`${config.apiUrl}/v2/pox`);
+  if (!resp.ok) throw new Error(`/v2/pox returned ${resp.status}`);
+  const json = await resp.json() as {
+    first_burnchain_block_height: number;
+    reward_cycle_length: number;
+    current_burnchain_block_height: number;
+    current_cycle: { id: number; stacked_ustx: number };
+  };
+  return {
+    currentCycle:     json.current_cycle.id,
+    firstBurnBlock:   json.first_burnchain_block_height,
+    cycleLength:      json.reward_cycle_length,
+    currentBurnBlock: json.current_burnchain_block_height,
+    stackedUstx:      BigInt(json.current_cycle.stacked_ustx),
+  };
+}
+
+/** Bitcoin block range [start, end) covered by a reward cycle. */
+export function cycleBurnRange(info: PoxInfo, cycle: number): { start: number; end: number } {
+  const start = info.firstBurnBlock + cycle * info.cycleLength;
+  return { start, end: start + info.cycleLength };
+}
+
+/** Sum the BTC (satoshis) paid to `btcAddress` during `cycle`. */
+export async function fetchCycleRewards(
+  btcAddress: string,
+  cycle: number,
+  info: PoxInfo
+): Promise<bigint> {
+  const { start, end } = cycleBurnRange(info, cycle);
+  return sumBurnchainRewards(`/extended/v1/burnchain/rewards/${btcAddress}`, start, end);
+}
+
+/** Sum the BTC (satoshis) paid to every PoX reward address during `cycle`. */
+export async function fetchTotalCycleRewards(cycle: number, info: PoxInfo): Promise<bigint> {
+  const { start, end } = cycleBurnRange(info, cycle);
+  return sumBurnchainRewards("/extended/v1/burnchain/rewards", start, end);
+}
+
+/** Total uSTX stacked in `cycle`, from the API's PoX cycle index. */
+export async function fetchCycleStackedUstx(cycle: number): Promise<bigint> {
+  const resp = await fetch(`${config.apiUrl}/extended/v2/pox/cycles/${cycle}`);
+  if (!resp.ok) throw new Error(`pox cycle ${cycle} returned ${resp.status}`);
+  const json = await resp.json() as { total_stacked_amount: string };
+  return BigInt(json.total_stacked_amount);
+}
+
+/**
+ * Stacks block range [start, end) covered by a reward cycle: from the first
+ * Stacks block anchored in the cycle's first burn block to the first Stacks
+ * block of the next cycle. Bond created/maturity heights are Stacks heights,
+ * so this is the window yield is time-weighted over.
+ */
+export async function fetchCycleStacksRange(
+  cycle: number,
+  info: PoxInfo
+): Promise<{ start: bigint; end: bigint }> {
+  const { start, end } = cycleBurnRange(info, cycle);
+  const [stacksStart, stacksEnd] = await Promise.all([
+    firstStacksBlockAtBurn(start),
+    firstStacksBlockAtBurn(end),
+  ]);
+  return { start: BigInt(stacksStart), end: BigInt(stacksEnd) };
+}
+
+/**
+ * Height of the first Stacks block anchored at or after `burnHeight`.
+ * Burn blocks without a sortition have no Stacks blocks, so this walks
+ * forward until it finds one.
+ */
+async function firstStacksBlockAtBurn(burnHeight: number): Promise<number> {
+  for (let height = burnHeight; height < burnHeight + MAX_EMPTY_BURN_BLOCKS; height++) {
+    const page = await fetchBurnBlockStacksBlocks(height, 0);
+    if (page.total === 0) continue;
+    // Blocks are listed newest-first; the last one is the first anchored.
+    const oldest = await fetchBurnBlockStacksBlocks(height, page.total - 1);
+    if (oldest.results[0]) return oldest.results[0].height;
+  }
+  throw new Error(`No Stacks block found within ${MAX_EMPTY_BURN_BLOCKS} burn blocks of ${burnHeight}`);
+}
+
+async function fetchBurnBlockStacksBlocks(
+  burnHeight: number,
+  offset: number
+): Promise<{ total: number; results: Array<{ height: number }> }> {
+  const resp = await fetch(`${config.apiUrl}/extended/v2/burn-blocks/${burnHeight}/blocks?limit=1&offset=${offset}`);
+  if (resp.status === 404) return { total: 0, results: [] };
+  if (!resp.ok) throw new Error(`burn block ${burnHeight} blocks returned ${resp.status}`);
+  return await resp.json() as { total: number; results: Array<{ height: number }> };
+}
+
+/**
+ * Sum canonical reward amounts from a burnchain rewards endpoint for burn
+ * blocks in [start, end).
+ *
+ * Results are returned newest-first, so pagination stops as soon as a page
+ * reaches blocks older than `start`.
+ */
+async function sumBurnchainRewards(path: string, start: number, end: number): Promise<bigint> {
+  let total = 0n;
+
+  for (let offset = 0; ; offset += REWARDS_PAGE_LIMIT) {
+    const resp = await fetch(`${config.apiUrl}${path}?limit=${REWARDS_PAGE_LIMIT}&offset=${offset}`);
+    if (!resp.ok) throw new Error(`burnchain rewards returned ${resp.status}`);
+    const json = await resp.json() as {
+      results: Array<{ canonical: boolean; burn_block_height: number; reward_amount: string }>;
+    };
+
+    for (const r of json.results) {
+      if (r.canonical && r.burn_block_height >= start && r.burn_block_height < end) {
+        total += BigInt(r.reward_amount);
+      }
+    }
+
+    const oldest = json.results[json.results.length - 1];
+    if (json.results.length < REWARDS_PAGE_LIMIT || !oldest || oldest.burn_block_height < start) break;
+  }
+
+  return total;
+}
+
+// -----------------------------------------------------------------------
+// Cycle watcher
+// -----------------------------------------------------------------------
+
+export class PoxCycleWatcher {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private readonly statePath = statePath(STATE_FILE);
+
+  constructor(private readonly onCycleComplete: CycleHandler) {}
+
+  start(): void {
+    logger.info(`PoX watcher polling every ${config.relayer.poxPollIntervalMs / 1000}s (reward address: ${config.pox.rewardAddress})`);
+    this.tick();
+    this.timer = setInterval(() => this.tick(), config.relayer.poxPollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  private async tick(): Promise<void> {
+    // A distribution can outlast the poll interval; never run two at once.
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.processCompletedCycles();
+    } catch (err) {
+      logger.error(`PoX watcher tick failed: ${err}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processCompletedCycles(): Promise<void> {
+    const info = await fetchPoxInfo();
+    const lastCompleted = info.currentCycle - 1;
+    const state = loadJson<WatcherState>(this.statePath, { lastProcessedCycle: null });
+
+    // First run: start from the current cycle rather than back-paying history.
+    if (state.lastProcessedCycle === null) {
+      logger.info(`PoX watcher initialised at cycle ${info.currentCycle}; cycles up to ${lastCompleted} are treated as already paid.`);
+      saveJson(this.statePath, { lastProcessedCycle: lastCompleted });
+      return;
+    }
+
+    for (let cycle = state.lastProcessedCycle + 1; cycle <= lastCompleted; cycle++) {
+      const reward = await fetchCycleRewards(config.pox.rewardAddress, cycle, info);
+      logger.info(`PoX cycle ${cycle} complete — bond pool earned ${reward} sats.`);
+
+      // Persist only after the handler succeeds so a failure is retried next tick.
+      await this.onCycleComplete(cycle, reward);
+      saveJson(this.statePath, { lastProcessedCycle: cycle });
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * priceSources.ts
+ *
+ * Price-source adapters used by the oracle relayer. Each adapter quotes
+ * one asset at a time as a plain USD float, so a source that fails on one
+ * asset still counts towards the other; aggregation and fixed-point
+ * conversion happen in prices.ts.
+ *
+ * Every adapter's base URL comes from config, so any of them can be
+ * pointed at a local mock server (e.g. KRAKEN_API_URL=http://localhost:8081).
+ */
+
+import { config } from "./config";
+
+/** Assets the oracle prices in USD. */
+export type Asset = "BTC" | "STX";
+
+export interface PriceSource {
+  /** Short identifier used in logs and PRICE_SOURCES, e.g. "kraken". */
+  readonly name: string;
+  fetchPrice(asset: Asset): Promise<number>;
+}
+
+// -----------------------------------------------------------------------
+// Adapters
+// -----------------------------------------------------------------------
+
+/** Kraken public ticker (no auth required). */
+export class KrakenSource implements PriceSource {
+  readonly name = "kraken";
+  constructor(private readonly baseUrl: string) {}
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    const pair = asset === "BTC" ? "XBTUSD" : "STXUSD";
+    const json = await getJson<{
+      error: string[];
+      result?: Record<string, { c: [string, string] }>;
+    }>(`${this.baseUrl}/0/public/Ticker?pair=${pair}`);
+    if (json.error.length) throw new Error(`Kraken error: ${json.error.join(", ")}`);
+    const ticker = Object.values(json.result ?? {})[0];
+    return requirePrice(ticker ? parseFloat(ticker.c[0]) : NaN, `Kraken ${pair}`);
+  }
+}
+
+/**
+ * RedStone signed data packages from the oracle gateway. Takes the median
+ * across signers and requires at least `uniqueSignersCount` of them.
+ */
+export class RedStoneSource implements PriceSource {
+  readonly name = "redstone";
+  constructor(
+    private readonly baseUrl: string,
+    private readonly dataServiceId: string,
+    private readonly uniqueSignersCount: number
+  ) {}
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    const json = await getJson<Record<string, Array<{ dataPoints: Array<{ dataFeedId: string; value: number }> }>>>(
+      `${this.baseUrl}/data-packages/latest/${this.dataServiceId}`
+    );
+    const values = (json[asset] ?? [])
+      .flatMap((pkg) => pkg.dataPoints)
+      .filter((dp) => dp.dataFeedId === asset)
+      .map((dp) => dp.value);
+    if (values.length < this.uniqueSignersCount) {
+      throw new Error(`RedStone ${asset}: ${values.length} signer(s), need ${this.uniqueSignersCount}`);
+    }
+    return requirePrice(median(values), `RedStone ${asset}`);
+  }
+}
+
+/** Coinbase public spot prices. */
+export class CoinbaseSource implements PriceSource {
+  readonly name = "coinbase";
+  constructor(private readonly baseUrl: string) {}
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    const pair = `${asset}-USD`;
+    const json = await getJson<{ data?: { amount: string } }>(`${this.baseUrl}/v2/prices/${pair}/spot`);
+    return requirePrice(parseFloat(json.data?.amount ?? ""), `Coinbase ${pair}`);
+  }
+}
+
+/** Binance public ticker. USDT pairs are treated as USD. */
+export class BinanceSource implements PriceSource {
+  readonly name = "binance";
+  constructor(private readonly baseUrl: string) {}
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    const symbol = `${asset}USDT`;
+    const json = await getJson<{ price?: string }>(`${this.baseUrl}/api/v3/ticker/price?symbol=${symbol}`);
+    return requirePrice(parseFloat(json.price ?? ""), `Binance ${symbol}`);
+  }
+}
+
+// -----------------------------------------------------------------------
+// Registry
+// -----------------------------------------------------------------------
+
+/** Build the adapters named in config.prices.sources. */
+export function createPriceSources(): PriceSource[] {
+  const { urls } = config.prices;
+  const factories: Record<string, () => PriceSource> = {
+    kraken:   () => new KrakenSource(urls.kraken),
+    redstone: () => new RedStoneSource(urls.redstone, config.redstone.dataServiceId, config.redstone.uniqueSignersCount),
+    coinbase: () => new CoinbaseSource(urls.coinbase),
+    binance:  () => new BinanceSource(urls.binance),
+  };
+
+  return config.prices.sources.map((name) => {
+    const factory = factories[name];
+    if (!factory) throw new Error(`Unknown price source "${name}" in PRICE_SOURCES`);
+    return factory();
+  });
+}
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+/** Median of a non-empty list. */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const resp = await fetch(url, { headers: { "Accept": "application/json" } });
+  if (!resp.ok) throw new Error(`${url} returned ${resp.status}`);
+  return await resp.json() as T;
+}
+
+function requirePrice(price: number, label: string): number {
+  if (!Number.isFinite(price) || price <= 0) throw new Error(`${label} price missing from response`);
+  return price;
+}
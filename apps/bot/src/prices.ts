@@ -1,16 +1,25 @@
 /**
  * prices.ts
  *
- * Fetches BTC/USD and STX/USD spot prices from Kraken's public API
- * and converts them to the fixed-point format expected by yield-oracle.clar.
+ * Aggregates BTC/USD and STX/USD spot prices from several sources
+ * (see priceSources.ts) and converts them to the fixed-point format
+ * expected by yield-oracle.clar.
+ *
+ * Aggregation, per asset:
+ *   1. take the median of every source that quoted the asset (a source
+ *      that fails on one asset still counts for the other)
+ *   2. drop quotes more than `maxDeviationPct` away from that median
+ *   3. refuse to price if fewer than `quorum` quotes remain
+ *   4. the pushed price is the median of the remaining quotes
  *
  * yield-oracle.clar format:
  *   Price  — 6 decimal places: $1.00 USD = u1_000_000
  *   APR    — basis points:     5.00 %    = u500
  */
 
-import https from "https";
+import { config } from "./config";
 import { logger } from "./logger";
+import { createPriceSources, median, Asset, PriceSource } from "./priceSources";
 
 const PRICE_PRECISION = 1_000_000; // 6 decimals
 
@@ -19,20 +28,152 @@ export interface MarketPrices {
   btcUsd: bigint;
   /** STX/USD scaled to 6 decimals */
   stxUsd: bigint;
+  /** Sources whose quotes made it into each aggregate. */
+  sources: { btc: string[]; stx: string[] };
+}
+
+export interface SourceQuote {
+  source: string;
+  price: number;
+}
+
+export interface AggregatedPrice {
+  price: number;
+  used: SourceQuote[];
+  rejected: SourceQuote[];
+}
+
+/** Prices currently stored in yield-oracle.clar, with their age. */
+export interface OnChainPrices {
+  btcUsd: bigint;
+  stxUsd: bigint;
+  /** Stacks block height of the older of the two updates. */
+  updatedBlock: bigint;
+  tipHeight: bigint;
+  /** Oracle staleness window (get-max-price-age-blocks). */
+  maxAgeBlocks: bigint;
 }
 
-/** Pull the latest BTC and STX prices from Kraken's public API (no auth required). */
+let priceSources: PriceSource[] | null = null;
+
+/**
+ * Query every configured source and aggregate the responses.
+ * Throws if either asset lacks a quorum of agreeing sources.
+ */
 export async function fetchMarketPrices(): Promise<MarketPrices> {
-  const [btcRaw, stxRaw] = await Promise.all([
-    fetchKrakenPrice("XBTUSD"),
-    fetchKrakenPrice("STXUSD"),
+  priceSources ??= createPriceSources();
+  const { quorum, maxDeviationPct } = config.prices;
+
+  const [btcQuotes, stxQuotes] = await Promise.all([
+    fetchQuotes(priceSources, "BTC"),
+    fetchQuotes(priceSources, "STX"),
   ]);
 
-  const btcUsd = BigInt(Math.round(btcRaw * PRICE_PRECISION));
-  const stxUsd = BigInt(Math.round(stxRaw * PRICE_PRECISION));
+  const btc = aggregateQuotes(btcQuotes, maxDeviationPct, quorum, "BTC");
+  const stx = aggregateQuotes(stxQuotes, maxDeviationPct, quorum, "STX");
+
+  logger.info(
+    `Prices aggregated — BTC: $${btc.price.toFixed(2)} [${describe(btc)}], ` +
+    `STX: $${stx.price.toFixed(4)} [${describe(stx)}]`
+  );
+
+  return {
+    btcUsd: BigInt(Math.round(btc.price * PRICE_PRECISION)),
+    stxUsd: BigInt(Math.round(stx.price * PRICE_PRECISION)),
+    sources: {
+      btc: btc.used.map((q) => q.source),
+      stx: stx.used.map((q) => q.source),
+    },
+  };
+}
+
+/**
+ * Ask every source for `asset`. A source that fails is logged and left out
+ * of this asset's quotes only.
+ */
+export async function fetchQuotes(sources: PriceSource[], asset: Asset): Promise<SourceQuote[]> {
+  const settled = await Promise.allSettled(sources.map((s) => s.fetchPrice(asset)));
+  const quotes: SourceQuote[] = [];
+  settled.forEach((res, i) => {
+    const source = sources[i]!.name;
+    if (res.status === "fulfilled") {
+      quotes.push({ source, price: res.value });
+    } else {
+      logger.warn(`Price source ${source} failed for ${asset}: ${res.reason}`);
+    }
+  });
+  return quotes;
+}
+
+/**
+ * Median of `quotes` after rejecting outliers more than `maxDeviationPct`
+ * away from the median of all quotes. Throws below `quorum`.
+ */
+export function aggregateQuotes(
+  quotes: SourceQuote[],
+  maxDeviationPct: number,
+  quorum: number,
+  asset: string
+): AggregatedPrice {
+  if (quotes.length < quorum) {
+    throw new Error(`${asset}: only ${quotes.length} source(s) responded, quorum is ${quorum}`);
+  }
+
+  const center = median(quotes.map((q) => q.price));
+  const used: SourceQuote[] = [];
+  const rejected: SourceQuote[] = [];
+  for (const q of quotes) {
+    const deviationPct = (Math.abs(q.price - center) / center) * 100;
+    (deviationPct > maxDeviationPct ? rejected : used).push(q);
+  }
+
+  if (used.length < quorum) {
+    throw new Error(
+      `${asset}: only ${used.length} source(s) within ${maxDeviationPct}% of median $${center}, quorum is ${quorum}`
+    );
+  }
 
-  logger.info(`Prices fetched — BTC: $${btcRaw.toFixed(2)}, STX: $${stxRaw.toFixed(4)}`);
-  return { btcUsd, stxUsd };
+  return { price: median(used.map((q) => q.price)), used, rejected };
+}
+
+/**
+ * Absolute move from `previous` to `next` in basis points of `previous`.
+ * Used to decide whether a fresh aggregate is worth pushing on-chain.
+ */
+export function deviationBps(next: bigint, previous: bigint): bigint {
+  if (previous === 0n) return 0n;
+  const diff = next > previous ? next - previous : previous - next;
+  return (diff * 10_000n) / previous;
+}
+
+/**
+ * Why `market` should be pushed over `onChain` now, or null if the on-chain
+ * feed is good enough: the oracle has no price, the feed is within
+ * `heartbeatMarginBlocks` of going stale, or either asset moved at least
+ * `thresholdBps`.
+ */
+export function pushReason(
+  market: MarketPrices,
+  onChain: OnChainPrices,
+  thresholdBps: number,
+  heartbeatMarginBlocks: number
+): string | null {
+  if (onChain.btcUsd === 0n || onChain.stxUsd === 0n) return "oracle has no price yet";
+
+  const age = onChain.tipHeight - onChain.updatedBlock;
+  const heartbeat = onChain.maxAgeBlocks - BigInt(heartbeatMarginBlocks);
+  if (age >= heartbeat) {
+    return `heartbeat — last update ${age} blocks ago (max age ${onChain.maxAgeBlocks})`;
+  }
+
+  const threshold = BigInt(thresholdBps);
+  const btcMove = deviationBps(market.btcUsd, onChain.btcUsd);
+  const stxMove = deviationBps(market.stxUsd, onChain.stxUsd);
+  if (btcMove >= threshold || stxMove >= threshold) {
+    return `deviation — BTC ${btcMove} bps, STX ${stxMove} bps (threshold ${threshold})`;
+  }
+
+  return null;
 }
 
 /**
@@ -51,27 +192,8 @@ export function estimateStackingApr(
 // Internal helpers
 // -----------------------------------------------------------------------
 
-function fetchKrakenPrice(pair: string): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const url = `https://api.kraken.com/0/public/Ticker?pair=${pair}`;
-    https.get(url, { headers: { "Accept": "application/json" } }, (res) => {
-      let data = "";
-      res.on("data", (chunk) => { data += chunk; });
-      res.on("end", () => {
-        try {
-          const json = JSON.parse(data) as {
-            error: string[];
-            result?: Record<string, { c: [string, string] }>;
-          };
-          if (json.error.length) throw new Error(`Kraken error: ${json.error.join(", ")}`);
-          const ticker = Object.values(json.result ?? {})[0];
-          const price = ticker ? parseFloat(ticker.c[0]) : null;
-          if (!price) throw new Error(`${pair} price missing from Kraken response`);
-          resolve(price);
-        } catch (e) {
-          reject(e);
-        }
-      });
-    }).on("error", reject);
-  });
+function describe(agg: AggregatedPrice): string {
+  const used = agg.used.map((q) => `${q.source}=${q.price}`).join(", ");
+  const rejected = agg.rejected.map((q) => `${q.source}=${q.price}`).join(", ");
+  return rejected ? `${used}; rejected ${rejected}` : used;
 }
@@ -3,34 +3,48 @@
  *
  * The SatCurve relayer has two independent duty loops:
  *
- *  1. Price loop  (every ~5 min)
- *     Fetches BTC/USD and STX/USD from RedStone and pushes them to
- *     yield-oracle.clar via set-prices. Also pushes the Stacking APR
- *     once per PoX cycle (reuses the same loop with a separate counter).
+ *  1. Price loop  (polls every ~30 s)
+ *     Aggregates BTC/USD and STX/USD from several sources (Kraken,
+ *     RedStone, Coinbase, Binance) and compares the median with the
+ *     value currently stored in yield-oracle.clar. set-prices is only
+ *     sent when
+ *       - BTC or STX moved at least `priceDeviationBps` from on-chain, or
+ *       - the on-chain price is about to exceed the oracle's
+ *         max-price-age-blocks (heartbeat, minus `heartbeatMarginBlocks`).
+ *     The Stacking APR is recomputed and pushed every `aprIntervalMs`
+ *     from the same loop.
  *
- *  2. Yield loop  (every PoX cycle, ~14 h on mainnet)
- *     Distributes sBTC stacking rewards to bond-factory bonds:
- *       - iterates active bonds, calls deposit-yield(bondId, bondReward)
+ *  2. Yield loop  (every PoX cycle, ~2 weeks on mainnet)
+ *     PoxCycleWatcher detects the cycle boundary, sums the bond pool's
+ *     BTC rewards for the cycle that just ended, and calls distributeYield:
+ *       - splits the reward across bonds, weighted by sats locked and
+ *         blocks live during the cycle, and pays them with
+ *         deposit-yield-many, up to `depositBatchSize` bonds per transaction
  *
- * PoX reward amounts are provided via distributeYield(). In production,
- * call this after detecting PoX cycle completion on-chain and computing
- * the reward amounts from the PoX contract data.
+ * distributeYield() can also be called directly (e.g. from the CLI) to
+ * pay out an amount computed elsewhere.
+ *
+ * Every planned deposit is recorded in the YieldLedger, keyed by
+ * (cycle, bondId). Distributing a cycle that is already in the ledger
+ * resumes it: only deposits that were never sent or that failed are sent.
  */
 
-import { uintCV } from "@stacks/transactions";
+import { BondFactory, YieldOracle, depositYieldPostConditions, describeError } from "@satcurve/contracts";
 import { config } from "./config";
-import { fetchMarketPrices } from "./prices";
-import { contractCall, readOnly, readUint, getBotAddress } from "./stacks";
+import { fetchMarketPrices, pushReason, OnChainPrices } from "./prices";
+import { PoxCycleWatcher, fetchPoxInfo, fetchCycleStacksRange } from "./pox";
+import { read, getBotAddress, fetchTx, fetchTipHeight } from "./stacks";
+import { txManager, SubmittedTx, parseResponseList } from "./transactions";
+import { YieldLedger } from "./ledger";
+import { allocateProportional, timeWeightedShares, BondTerm } from "./allocation";
+import { StackingAprEstimator } from "./apr";
 import { logger } from "./logger";
 
 // -----------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------
 
-export interface BondInfo {
-  bondId: bigint;
-  sbtcAmount: bigint;
-  maturityBlock: bigint;
+export interface BondInfo extends BondTerm {
   combined: boolean;
   principalRedeemed: boolean;
 }
@@ -38,6 +52,8 @@ export interface BondInfo {
 export interface YieldDistribution {
   /** Total sBTC rewards to distribute across ALL active bonds (satoshis). */
   totalBondRewards: bigint;
+  /** PoX reward cycle the rewards were earned in. Keys the ledger entries. */
+  cycle: number;
 }
 
 // -----------------------------------------------------------------------
@@ -46,8 +62,15 @@ export interface YieldDistribution {
 
 export class Relayer {
   private priceTimer: ReturnType<typeof setInterval> | null = null;
-  private aprCycleCounter = 0;
-  private readonly APR_UPDATE_EVERY_N_PRICE_TICKS = 12; // update APR every hour (12 × 5 min)
+  private poxWatcher: PoxCycleWatcher | null = null;
+  private readonly bondFactory = new BondFactory(config.contracts.bondFactory);
+  private readonly oracle = new YieldOracle(config.contracts.yieldOracle);
+  private readonly aprEstimator = new StackingAprEstimator();
+  private priceTickRunning = false;
+  private lastAprPushAt = 0;
+  private maxPriceAgeBlocks: bigint | null = null;
+
+  constructor(private readonly ledger = new YieldLedger()) {}
 
   // -----------------------------------------------------------------------
   // Public: lifecycle
@@ -55,18 +78,30 @@ export class Relayer {
 
   start(): void {
     logger.info(`Relayer starting — network: ${config.network}, bot: ${getBotAddress()}`);
-    logger.info(`Price interval: ${config.relayer.priceIntervalMs / 1000}s`);
-    logger.info(`Yield interval: ${config.relayer.yieldIntervalMs / 3_600_000}h`);
+    logger.info(
+      `Price poll: ${config.relayer.priceIntervalMs / 1000}s, deviation ${config.relayer.priceDeviationBps} bps, ` +
+      `heartbeat margin ${config.relayer.heartbeatMarginBlocks} blocks`
+    );
 
     // Run immediately on start, then on a timer
     this.runPriceTick();
     this.priceTimer = setInterval(() => this.runPriceTick(), config.relayer.priceIntervalMs);
 
-    logger.info("Relayer running. Call relayer.distributeYield(…) each PoX cycle.");
+    if (config.pox.rewardAddress) {
+      this.poxWatcher = new PoxCycleWatcher((cycle, rewardSats) =>
+        this.distributeYield({ cycle, totalBondRewards: rewardSats })
+      );
+      this.poxWatcher.start();
+    } else {
+      logger.warn("POX_REWARD_ADDRESS is not set — automatic yield distribution disabled.");
+    }
+
+    logger.info("Relayer running.");
   }
 
   stop(): void {
     if (this.priceTimer) clearInterval(this.priceTimer);
+    this.poxWatcher?.stop();
     logger.info("Relayer stopped.");
   }
 
@@ -82,10 +117,31 @@ export class Relayer {
    * (e.g. from monitoring the PoX contract or a rewards API).
    *
    * The bond rewards are split proportionally by each bond's sbtcAmount.
+   * If the cycle was already planned, the stored split is resumed instead
+   * and `totalBondRewards` is ignored.
+   *
+   * Throws if a batch failed or is still unconfirmed, so the PoX watcher
+   * does not mark the cycle processed and resumes it on its next tick.
+   * Bonds that deposit-yield-many skipped are recorded as failed but do not
+   * count: re-sending them would only be skipped again.
    */
   async distributeYield(distribution: YieldDistribution): Promise<void> {
-    logger.info(`Yield distribution — bonds: ${distribution.totalBondRewards} sats`);
-    await this.depositBondYield(distribution.totalBondRewards);
+    const { cycle, totalBondRewards } = distribution;
+    logger.info(`Yield distribution (cycle ${cycle}) — bonds: ${totalBondRewards} sats`);
+
+    if (this.ledger.hasCycle(cycle)) {
+      logger.info(`Cycle ${cycle} is already in the ledger — resuming unsent deposits.`);
+    } else {
+      await this.planBondYield(cycle, totalBondRewards);
+    }
+
+    await this.reconcileInFlight(cycle);
+    const failed = await this.depositBondYield(cycle);
+
+    const unconfirmed = this.ledger.inFlight(cycle).length;
+    if (failed > 0 || unconfirmed > 0) {
+      throw new Error(`Cycle ${cycle} is not fully paid: ${failed} deposits failed, ${unconfirmed} unconfirmed.`);
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -93,49 +149,103 @@ export class Relayer {
   // -----------------------------------------------------------------------
 
   private async runPriceTick(): Promise<void> {
+    // A set-prices tx can take longer to confirm than the poll interval;
+    // never compare against an on-chain value we are about to replace.
+    if (this.priceTickRunning) return;
+    this.priceTickRunning = true;
     try {
-      await this.pushPrices();
-    } catch (err) {
-      logger.error(`Price tick failed: ${err}`);
-    }
-
-    this.aprCycleCounter++;
-    if (this.aprCycleCounter >= this.APR_UPDATE_EVERY_N_PRICE_TICKS) {
-      this.aprCycleCounter = 0;
       try {
-        await this.pushStackingApr();
+        await this.pushPrices();
       } catch (err) {
-        logger.error(`APR push failed: ${err}`);
+        logger.error(`Price tick failed: ${err}`);
       }
+
+      if (Date.now() - this.lastAprPushAt >= config.relayer.aprIntervalMs) {
+        try {
+          await this.pushStackingApr();
+          this.lastAprPushAt = Date.now();
+        } catch (err) {
+          logger.error(`APR push failed: ${err}`);
+        }
+      }
+    } finally {
+      this.priceTickRunning = false;
     }
   }
 
+  /** Push the aggregated prices if they deviate from on-chain or the heartbeat is due. */
   private async pushPrices(): Promise<void> {
-    const { btcUsd, stxUsd } = await fetchMarketPrices();
-    await contractCall(
-      config.contracts.yieldOracle,
-      "set-prices",
-      [uintCV(btcUsd), uintCV(stxUsd)]
-    );
-    logger.info(`Pushed prices — BTC: u${btcUsd}, STX: u${stxUsd}`);
+    const market = await fetchMarketPrices();
+    const onChain = await this.readOnChainPrices();
+    const { priceDeviationBps, heartbeatMarginBlocks } = config.relayer;
+    const reason = pushReason(market, onChain, priceDeviationBps, heartbeatMarginBlocks);
+    if (!reason) {
+      logger.debug(
+        `Prices within ${priceDeviationBps} bps of on-chain ` +
+        `(BTC u${market.btcUsd} vs u${onChain.btcUsd}, STX u${market.stxUsd} vs u${onChain.stxUsd}) — skipping set-prices.`
+      );
+      return;
+    }
+
+    const { btcUsd, stxUsd, sources } = market;
+    logger.info(`Pushing prices: ${reason}`);
+    const result = await txManager.send(this.oracle.setPrices(btcUsd, stxUsd));
+    if (result.status !== "success") {
+      throw new Error(`set-prices ${result.status} ${result.resultRepr ?? ""} (tx ${result.txid})`);
+    }
+    logger.info(`Pushed prices — BTC: u${btcUsd} (${sources.btc.join(", ")}), STX: u${stxUsd} (${sources.stx.join(", ")})`);
+  }
+
+  /** Read the oracle's current prices, their last update block and the chain tip. */
+  private async readOnChainPrices(): Promise<OnChainPrices> {
+    const oracle = this.oracle;
+    // The staleness window is a contract constant; read it once.
+    this.maxPriceAgeBlocks ??= await read(oracle.getMaxPriceAgeBlocks());
+
+    const [btcUsd, stxUsd, btcUpdated, stxUpdated, tip] = await Promise.all([
+      read(oracle.getBtcPrice()),
+      read(oracle.getStxPrice()),
+      read(oracle.getBtcUpdatedBlock()),
+      read(oracle.getStxUpdatedBlock()),
+      fetchTipHeight(),
+    ]);
+
+    return {
+      btcUsd,
+      stxUsd,
+      updatedBlock: btcUpdated < stxUpdated ? btcUpdated : stxUpdated,
+      tipHeight: BigInt(tip),
+      maxAgeBlocks: this.maxPriceAgeBlocks,
+    };
   }
 
   /**
    * Compute and push the Stacking APR to yield-oracle.clar.
    *
-   * The APR is estimated from the ratio of pool rewards to total locked
-   * principal, annualised over 26 PoX cycles. Replace this calculation
-   * with on-chain PoX cycle data for a production deployment.
+   * The APR comes from the last `aprWindowCycles` completed PoX cycles:
+   * BTC paid to reward addresses against total STX stacked, valued with
+   * the oracle's current BTC and STX prices (see apr.ts).
    */
   private async pushStackingApr(): Promise<void> {
-    // Placeholder: 5 % APR (500 bps). Replace with real PoX cycle data.
-    const aprBps = 500n;
-
-    await contractCall(
-      config.contracts.yieldOracle,
-      "set-stacking-apr",
-      [uintCV(aprBps)]
+    const [btcUsd, stxUsd] = await Promise.all([
+      read(this.oracle.getBtcPrice()),
+      read(this.oracle.getStxPrice()),
+    ]);
+    const apr = await this.aprEstimator.compute(btcUsd, stxUsd);
+    const aprBps = apr.aprBps;
+
+    const cycles = apr.samples
+      .map((s) => `#${s.cycle} rewards=${s.rewardsSats} sats stacked=${s.stackedUstx} uSTX`)
+      .join("; ");
+    logger.info(
+      `APR inputs — cycles [${cycles}] | BTC u${btcUsd}, STX u${stxUsd} | ` +
+      `total rewards ${apr.totalRewardsSats} sats / stacked ${apr.totalStackedSats} sats × ${apr.cyclesPerYear} cycles/yr → ${aprBps} bps`
     );
+
+    const result = await txManager.send(this.oracle.setStackingApr(aprBps));
+    if (result.status !== "success") {
+      throw new Error(`set-stacking-apr ${result.status} ${result.resultRepr ?? ""} (tx ${result.txid})`);
+    }
     logger.info(`Pushed stacking APR: ${aprBps} bps (${Number(aprBps) / 100}%)`);
   }
 
@@ -143,40 +253,179 @@ export class Relayer {
   // Yield: bond-factory bonds
   // -----------------------------------------------------------------------
 
-  private async depositBondYield(totalBondRewards: bigint): Promise<void> {
-    if (totalBondRewards === 0n) {
+  /**
+   * Split `totalBondRewards`, plus anything left over from the previous
+   * cycle, across bonds and record the plan in the ledger.
+   *
+   * Each bond is weighted by its locked sats times the Stacks blocks it was
+   * live during the cycle (see allocation.ts), and the split uses
+   * largest-remainder allocation so it sums exactly to the amount
+   * available. Bonds that have matured since cannot receive deposit-yield;
+   * their share, and everything if there is nobody to pay, is carried into
+   * the next cycle. Nothing is planned if the chain tip cannot be read: the
+   * error reaches the PoX watcher, which retries the cycle on its next tick.
+   */
+  private async planBondYield(cycle: number, totalBondRewards: bigint): Promise<void> {
+    const carriedIn = this.ledger.carryInto(cycle);
+    const available = totalBondRewards + carriedIn;
+    const totals = { rewards: totalBondRewards, carriedIn };
+
+    if (available === 0n) {
       logger.info("Bond rewards = 0, skipping bond deposit-yield.");
+      this.ledger.plan(cycle, [], { ...totals, leftover: 0n });
       return;
     }
 
-    const bonds = await this.fetchActiveBonds();
-    if (bonds.length === 0) {
-      logger.info("No active bonds found.");
-      return;
+    const [window, bonds, currentBlock] = await Promise.all([
+      fetchPoxInfo().then((info) => fetchCycleStacksRange(cycle, info)),
+      this.fetchBonds(),
+      fetchTipHeight().then(BigInt),
+    ]);
+    logger.info(
+      `Planning ${available} sats (${totalBondRewards} earned + ${carriedIn} carried in) ` +
+      `across ${bonds.length} bonds, time-weighted over Stacks blocks [${window.start}, ${window.end}).`
+    );
+
+    const { shares, leftover } = allocateProportional(available, timeWeightedShares(bonds, window));
+
+    const payable = new Set(bonds.filter((b) => b.maturityBlock > currentBlock).map((b) => b.bondId));
+    const unpayable = shares
+      .filter((s) => !payable.has(s.bondId))
+      .reduce((sum, s) => sum + s.amount, 0n);
+    const carriedOut = leftover + unpayable;
+    if (carriedOut > 0n) {
+      logger.info(`Carrying ${carriedOut} sats into the next cycle (${unpayable} owed to bonds that have matured).`);
     }
 
-    const totalStacked = bonds.reduce((sum, b) => sum + b.sbtcAmount, 0n);
-    logger.info(`Distributing ${totalBondRewards} sats across ${bonds.length} active bonds (total stacked: ${totalStacked} sats).`);
+    this.ledger.plan(cycle, shares.filter((s) => payable.has(s.bondId)), { ...totals, leftover: carriedOut });
+  }
 
-    for (const bond of bonds) {
-      const bondReward = totalStacked > 0n
-        ? (bond.sbtcAmount * totalBondRewards) / totalStacked
-        : 0n;
+  /**
+   * Settle ledger entries whose transactions were broadcast on a previous
+   * run. Every txid of a submission is checked: a fee bump replaces one txid
+   * with another for the same nonce, and either may be the one mined.
+   */
+  private async reconcileInFlight(cycle: number): Promise<void> {
+    // Entries paid by the same deposit-yield-many share their txids.
+    const batches = new Map<string, { txids: string[]; bondIds: bigint[] }>();
+    for (const entry of this.ledger.inFlight(cycle)) {
+      const batchKey = entry.txids.join(",");
+      const batch = batches.get(batchKey) ?? { txids: entry.txids, bondIds: [] };
+      batch.bondIds.push(entry.bondId);
+      batches.set(batchKey, batch);
+    }
 
-      if (bondReward === 0n) continue;
+    for (const { txids, bondIds } of batches.values()) {
+      try {
+        const lookups = await Promise.all(txids.map(async (txid) => ({ txid, tx: await fetchTx(txid) })));
+        // At most one txid of a nonce is ever mined; the others are dropped.
+        const mined = lookups.find(({ tx }) => tx && tx.status !== "pending" && !tx.status.startsWith("dropped"));
+        if (mined?.tx!.status === "success") {
+          this.settleBatch(cycle, bondIds, mined.txid, mined.tx.resultRepr);
+        } else if (mined) {
+          for (const bondId of bondIds) {
+            this.ledger.markFailed(cycle, bondId, `tx ${mined.txid} ended with ${mined.tx!.status} ${mined.tx!.resultRepr ?? ""}`.trim());
+          }
+        } else if (lookups.every(({ tx }) => tx?.status.startsWith("dropped"))) {
+          if (lookups.some(({ tx }) => tx!.status.startsWith("dropped_replace"))) {
+            // Replaced by a transaction the ledger never recorded, which may
+            // yet pay these bonds: sending again could pay them twice.
+            logger.error(
+              `Bonds ${bondIds.join(", ")}: txs ${txids.join(", ")} were replaced by an unrecorded tx ` +
+              `for the same nonce — check the bot's account and settle the ledger manually.`
+            );
+          } else {
+            for (const bondId of bondIds) {
+              this.ledger.markFailed(cycle, bondId, `txs ${txids.join(", ")} were dropped from the mempool`);
+            }
+          }
+        }
+      } catch (err) {
+        logger.error(`Could not check txs ${txids.join(", ")} for bonds ${bondIds.join(", ")}: ${err}`);
+      }
+    }
+  }
 
+  /**
+   * Send every planned or failed deposit of `cycle`, batched into
+   * deposit-yield-many calls of at most `depositBatchSize` bonds. Returns
+   * the number of bonds whose batch failed to send or failed on-chain.
+   */
+  private async depositBondYield(cycle: number): Promise<number> {
+    const unsent = this.ledger.unsent(cycle);
+    if (unsent.length === 0) {
+      logger.info(`Cycle ${cycle}: nothing left to deposit.`);
+      return 0;
+    }
+    let failed = 0;
+
+    // Broadcast every batch first (nonces are assigned locally), then wait.
+    const { depositBatchSize } = config.relayer;
+    const submitted: Array<{ bondIds: bigint[]; tx: SubmittedTx }> = [];
+    for (let i = 0; i < unsent.length; i += depositBatchSize) {
+      const batch = unsent.slice(i, i + depositBatchSize);
+      const bondIds = batch.map((e) => e.bondId);
+      const total = batch.reduce((sum, e) => sum + e.amount, 0n);
       try {
-        await contractCall(
-          config.contracts.bondFactory,
-          "deposit-yield",
-          [uintCV(bond.bondId), uintCV(bondReward)]
-        );
-        logger.info(`bond-factory::deposit-yield — bond ${bond.bondId}: ${bondReward} sats`);
+        const tx = await txManager.submit({
+          ...this.bondFactory.depositYieldMany(batch),
+          postConditions: depositYieldPostConditions(this.bondFactory, getBotAddress(), total),
+        });
+        for (const bondId of bondIds) this.ledger.markSubmitted(cycle, bondId, tx.txid);
+        submitted.push({ bondIds, tx });
+        logger.info(`bond-factory::deposit-yield-many — ${batch.length} bonds (${bondIds[0]}…${bondIds[bondIds.length - 1]}): ${total} sats`);
       } catch (err) {
-        // Log and continue; a single bond failure should not block the rest
-        logger.error(`deposit-yield failed for bond ${bond.bondId}: ${err}`);
+        // Record and continue; one failed batch should not block the rest
+        for (const bondId of bondIds) this.ledger.markFailed(cycle, bondId, String(err));
+        failed += bondIds.length;
+        logger.error(`deposit-yield-many failed for bonds ${bondIds.join(", ")}: ${err}`);
       }
     }
+
+    await Promise.all(submitted.map(async ({ bondIds, tx }) => {
+      // Record each fee bump as soon as it is broadcast, so that a restart
+      // still knows every txid that may pay these bonds.
+      const result = await txManager.waitForResult(tx, (txid) => {
+        for (const bondId of bondIds) this.ledger.markSubmitted(cycle, bondId, txid);
+      });
+
+      if (result.status === "success") {
+        this.settleBatch(cycle, bondIds, result.txid, result.resultRepr);
+      } else if (result.status !== "timeout") {
+        const reason = result.errorCode !== null ? describeError("bond-factory", result.errorCode) : result.status;
+        for (const bondId of bondIds) this.ledger.markFailed(cycle, bondId, `tx ${result.txid}: ${reason}`);
+        failed += bondIds.length;
+        logger.error(`deposit-yield-many for bonds ${bondIds.join(", ")} failed on-chain: ${reason}`);
+      }
+    }));
+    return failed;
+  }
+
+  /**
+   * Apply the per-entry results of a successful deposit-yield-many to the
+   * ledger. The contract skips invalid entries (e.g. a bond that matured
+   * since planning) instead of aborting, so a successful tx can still carry
+   * (err uN) entries; those are marked failed. `bondIds` must be in the
+   * order they were sent.
+   */
+  private settleBatch(cycle: number, bondIds: bigint[], txid: string, repr: string | null): void {
+    const results = parseResponseList(repr);
+    if (results.length !== bondIds.length) {
+      // Leave the entries submitted rather than risk paying a bond twice.
+      logger.error(`tx ${txid}: expected ${bondIds.length} results, got ${repr} — check the ledger manually.`);
+      return;
+    }
+
+    bondIds.forEach((bondId, i) => {
+      const { ok, value } = results[i]!;
+      if (ok) {
+        this.ledger.markConfirmed(cycle, bondId);
+      } else {
+        const reason = describeError("bond-factory", value);
+        this.ledger.markFailed(cycle, bondId, `tx ${txid}: ${reason}`);
+        logger.error(`deposit-yield-many skipped bond ${bondId}: ${reason}`);
+      }
+    });
   }
 
   // -----------------------------------------------------------------------
@@ -184,61 +433,37 @@ export class Relayer {
   // -----------------------------------------------------------------------
 
   /**
-   * Return all bonds that are eligible to receive yield:
-   *   - not combined (early exit)
-   *   - not principal-redeemed (matured and closed)
-   *   - before their maturity block (yield deposits reject after maturity)
+   * Return every bond that can have earned yield, i.e. all bonds except
+   * combined ones (burned early, at a block the contract does not record).
+   * Matured and redeemed bonds are included: they may still have been live
+   * for part of the cycle being paid.
    *
-   * Bond IDs are 0-indexed: 0 .. (next-bond-id - 1).
+   * Bond IDs are 0-indexed: 0 .. (next-bond-id - 1). A bond that cannot be
+   * read fails the whole enumeration, since a split made without it would
+   * hand its share to the others.
    */
-  async fetchActiveBonds(): Promise<BondInfo[]> {
-    const count = await readUint(config.contracts.bondFactory, "get-bond-count");
+  async fetchBonds(): Promise<BondInfo[]> {
+    const count = await read(this.bondFactory.getBondCount());
     logger.info(`Enumerating ${count} bonds…`);
 
-    const currentBlock = await this.getCurrentBlockHeight();
-    const active: BondInfo[] = [];
+    const bonds: BondInfo[] = [];
 
     for (let id = 0n; id < count; id++) {
-      try {
-        const bondJson = await readOnly(
-          config.contracts.bondFactory,
-          "get-bond",
-          [uintCV(id)]
-        );
-
-        const bond: BondInfo = {
-          bondId:           id,
-          sbtcAmount:       BigInt(bondJson["sbtc-amount"].value as string),
-          maturityBlock:    BigInt(bondJson["maturity-block"].value as string),
-          combined:         bondJson["combined"].value as boolean,
-          principalRedeemed: bondJson["principal-redeemed"].value as boolean,
-        };
-
-        if (!bond.combined && !bond.principalRedeemed && bond.maturityBlock > currentBlock) {
-          active.push(bond);
-        }
-      } catch (err) {
-        logger.error(`Failed to fetch bond ${id}: ${err}`);
-      }
+      const bond = await read(this.bondFactory.getBond(id)).catch((err: unknown) => {
+        throw new Error(`Failed to fetch bond ${id}: ${err}`);
+      });
+      if (bond.combined) continue;
+      bonds.push({
+        bondId:            id,
+        sbtcAmount:        bond.sbtcAmount,
+        createdBlock:      BigInt(bond.createdBlock),
+        maturityBlock:     BigInt(bond.maturityBlock),
+        combined:          bond.combined,
+        principalRedeemed: bond.principalRedeemed,
+      });
     }
 
-    logger.info(`Found ${active.length} active bonds out of ${count} total.`);
-    return active;
-  }
-
-  // -----------------------------------------------------------------------
-  // Helpers
-  // -----------------------------------------------------------------------
-
-  private async getCurrentBlockHeight(): Promise<bigint> {
-    try {
-      const resp = await fetch(`${config.apiUrl}/v2/info`);
-      const json = await resp.json() as { stacks_tip_height: number };
-      return BigInt(json.stacks_tip_height);
-    } catch {
-      // Fall back to 0 — will exclude bonds by block check below
-      logger.error("Could not fetch current block height; using 0 as fallback.");
-      return 0n;
-    }
+    logger.info(`Found ${bonds.length} uncombined bonds out of ${count} total.`);
+    return bonds;
   }
 }
@@ -2,9 +2,10 @@
  * stacks.ts
  *
  * Low-level helpers for building, signing, and broadcasting Stacks
- * contract-call transactions, and for calling read-only functions.
+ * contract-call transactions, and for running read-only calls built by
+ * @satcurve/contracts.
  *
- * Uses @stacks/transactions v6 API (uintCV, cvToJSON, makeContractCall…).
+ * Uses @stacks/transactions v6 API (makeContractCall, callReadOnlyFunction…).
  */
 
 import {
@@ -13,16 +14,13 @@ import {
   callReadOnlyFunction,
   AnchorMode,
   PostConditionMode,
-  uintCV,
-  ClarityValue,
-  ClarityType,
-  cvToJSON,
   getAddressFromPrivateKey,
   TransactionVersion,
+  StacksTransaction,
 } from "@stacks/transactions";
 import { StacksMainnet, StacksTestnet, StacksDevnet } from "@stacks/network";
+import type { ContractCall, ReadOnlyCall } from "@satcurve/contracts";
 import { config } from "./config";
-import { logger } from "./logger";
 
 // -----------------------------------------------------------------------
 // Network
@@ -50,95 +48,118 @@ export function getBotAddress(): string {
   return getAddressFromPrivateKey(config.botPrivateKey, getTxVersion());
 }
 
-// -----------------------------------------------------------------------
-// Contract address parsing
-// -----------------------------------------------------------------------
-
-/** Split "ST1ABC…XYZ.contract-name" into [contractAddress, contractName]. */
-function parseContractId(id: string): [string, string] {
-  const dot = id.lastIndexOf(".");
-  if (dot < 0) throw new Error(`Invalid contract id: "${id}"`);
-  return [id.slice(0, dot), id.slice(dot + 1)];
-}
-
 // -----------------------------------------------------------------------
 // Public API
 // -----------------------------------------------------------------------
 
 /**
- * Build, sign, and broadcast a contract-call transaction.
- * Returns the txid on success. Throws on broadcast failure.
+ * Build and sign a contract-call transaction with an explicit nonce and fee.
+ * It is signed in PostConditionMode.Deny, so the call's post-conditions must
+ * cover everything it moves. Broadcasting is left to the caller (see
+ * transactions.ts).
  */
-export async function contractCall(
-  contractId: string,
-  functionName: string,
-  functionArgs: ClarityValue[]
-): Promise<string> {
-  const [contractAddress, contractName] = parseContractId(contractId);
-  const network = getNetwork();
-
-  const tx = await makeContractCall({
-    network,
+export async function buildContractCall(
+  call: ContractCall,
+  nonce: bigint,
+  fee: bigint
+): Promise<StacksTransaction> {
+  const { contractAddress, contractName, functionName, functionArgs, postConditions = [] } = call;
+
+  return makeContractCall({
+    network: getNetwork(),
     contractAddress,
     contractName,
     functionName,
     functionArgs,
     senderKey: config.botPrivateKey,
     anchorMode: AnchorMode.Any,
-    postConditionMode: PostConditionMode.Allow,
-    fee: config.relayer.feeMicroStx,
+    postConditionMode: PostConditionMode.Deny,
+    postConditions,
+    nonce,
+    fee,
   });
+}
 
-  const result = await broadcastTransaction(tx, network);
+/**
+ * Broadcast a signed transaction. Returns the txid on success.
+ * Throws a BroadcastError (carrying the node's rejection reason) on failure.
+ */
+export async function broadcast(tx: StacksTransaction, label: string): Promise<string> {
+  const result = await broadcastTransaction(tx, getNetwork());
 
   if ("error" in result && result.error) {
-    throw new Error(`Broadcast failed [${contractName}::${functionName}]: ${result.error} — ${result.reason ?? ""}`);
+    throw new BroadcastError(label, result.error, result.reason ?? "");
+  }
+
+  return (result as { txid: string }).txid;
+}
+
+export class BroadcastError extends Error {
+  constructor(label: string, readonly error: string, readonly reason: string) {
+    super(`Broadcast failed [${label}]: ${error} — ${reason}`);
+    this.name = "BroadcastError";
   }
+}
+
+/** Next nonce the bot account can use, accounting for its pending mempool txs. */
+export async function fetchNextNonce(): Promise<bigint> {
+  const resp = await fetch(`${config.apiUrl}/extended/v1/address/${getBotAddress()}/nonces`);
+  if (!resp.ok) throw new Error(`nonce lookup returned ${resp.status}`);
+  const json = await resp.json() as { possible_next_nonce: number };
+  return BigInt(json.possible_next_nonce);
+}
 
-  const txid = (result as { txid: string }).txid;
-  logger.info(`${contractName}::${functionName} → txid ${txid}`);
-  return txid;
+/** Current Stacks chain tip height. */
+export async function fetchTipHeight(): Promise<number> {
+  const resp = await fetch(`${config.apiUrl}/v2/info`);
+  if (!resp.ok) throw new Error(`/v2/info returned ${resp.status}`);
+  const json = await resp.json() as { stacks_tip_height: number };
+  return json.stacks_tip_height;
 }
 
 /**
- * Call a read-only contract function and return the parsed JSON value.
- * Unwraps a top-level (ok …) automatically; throws on (err …).
+ * Run a read-only call from @satcurve/contracts and decode its result.
+ * Calls that return a response throw a ContractError on (err …).
  */
-export async function readOnly(
-  contractId: string,
-  functionName: string,
-  functionArgs: ClarityValue[] = []
-): Promise<ReturnType<typeof cvToJSON>> {
-  const [contractAddress, contractName] = parseContractId(contractId);
-  const network = getNetwork();
-  const senderAddress = getBotAddress();
-
+export async function read<T>(call: ReadOnlyCall<T>): Promise<T> {
+  const { contractAddress, contractName, functionName, functionArgs, decode } = call;
   const result = await callReadOnlyFunction({
-    network,
+    network: getNetwork(),
     contractAddress,
     contractName,
     functionName,
     functionArgs,
-    senderAddress,
+    senderAddress: getBotAddress(),
   });
-
-  if (result.type === ClarityType.ResponseErr) {
-    const json = cvToJSON(result);
-    throw new Error(`${contractName}::${functionName} returned err ${JSON.stringify(json.value)}`);
-  }
-
-  if (result.type === ClarityType.ResponseOk) {
-    return cvToJSON((result as { value: ClarityValue }).value);
-  }
-
-  return cvToJSON(result);
+  return decode(result);
 }
 
-/** Convenience: read a uint from a read-only function that returns (ok uint). */
-export async function readUint(contractId: string, functionName: string): Promise<bigint> {
-  const json = await readOnly(contractId, functionName);
-  return BigInt(json.value as string);
+/** Subset of /extended/v1/tx/{txid} the relayer cares about. */
+export interface TxLookup {
+  /**
+   * "pending", "success", "abort_by_response", "abort_by_post_condition",
+   * or one of the "dropped_*" states.
+   */
+  status: string;
+  /** Clarity repr of the result, e.g. "(ok true)" or "(err u208)". Absent while pending. */
+  resultRepr: string | null;
+  /** Stacks block the tx was anchored in, if any. */
+  blockHeight: number | null;
 }
 
-/** Re-export uintCV so callers don't need a second import. */
-export { uintCV };
+/** Look up a transaction. Returns null if the API does not know the txid (yet). */
+export async function fetchTx(txid: string): Promise<TxLookup | null> {
+  const resp = await fetch(`${config.apiUrl}/extended/v1/tx/${txid}`);
+  if (resp.status === 404) return null;
+  if (!resp.ok) throw new Error(`tx lookup for ${txid} returned ${resp.status}`);
+  const json = await resp.json() as {
+    tx_status: string;
+    tx_result?: { repr: string };
+    block_height?: number;
+  };
+  return {
+    status:      json.tx_status,
+    resultRepr:  json.tx_result?.repr ?? null,
+    blockHeight: json.block_height ?? null,
+  };
+}
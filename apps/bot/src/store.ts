@@ -0,0 +1,30 @@
+/**
+ * store.ts
+ *
+ * Tiny JSON-file persistence for relayer state that must survive a restart.
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated file behind.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { config } from "./config";
+
+/** Absolute-or-relative path of a file inside the bot's state directory. */
+export function statePath(fileName: string): string {
+  return join(config.stateDir, fileName);
+}
+
+/** Read and parse a JSON file, returning `fallback` when it does not exist yet. */
+export function loadJson<T>(path: string, fallback: T): T {
+  if (!existsSync(path)) return fallback;
+  return JSON.parse(readFileSync(path, "utf-8")) as T;
+}
+
+/** Atomically replace `path` with the JSON encoding of `data`. */
+export function saveJson(path: string, data: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data, null, 2) + "\n");
+  renameSync(tmp, path);
+}
@@ -0,0 +1,236 @@
+/**
+ * transactions.ts
+ *
+ * Transaction manager for the relayer wallet.
+ *
+ *   - Nonces are assigned locally, so many contract calls can be broadcast
+ *     back-to-back without ConflictingNonceInMempool / BadNonce rejections.
+ *   - Broadcasts go through a single queue; nonce assignment and broadcast
+ *     happen in submission order.
+ *   - waitForResult() polls /extended/v1/tx/{txid} until the tx is anchored
+ *     or fails, and returns a typed result including the Clarity error code.
+ *   - A tx still sitting in the mempool after `rbfAfterBlocks` blocks is
+ *     re-signed with the same nonce and a higher fee (replace-by-fee). The
+ *     caller hears of each replacement as soon as it is broadcast, so it
+ *     can persist the new txid before anything else can go wrong.
+ */
+
+import { parseErrorCode } from "@satcurve/contracts";
+import type { ContractCall } from "@satcurve/contracts";
+import { config } from "./config";
+import { logger } from "./logger";
+import {
+  buildContractCall,
+  broadcast,
+  BroadcastError,
+  fetchNextNonce,
+  fetchTipHeight,
+  fetchTx,
+} from "./stacks";
+
+// -----------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------
+
+/** A call built by one of the @satcurve/contracts clients. */
+export type ContractCallRequest = ContractCall;
+
+/** A broadcast transaction, possibly replaced by fee bumps since. */
+export interface SubmittedTx {
+  request: ContractCallRequest;
+  nonce: bigint;
+  fee: bigint;
+  /** Latest txid (changes on every fee bump). */
+  txid: string;
+  /** Every txid broadcast for this nonce, oldest first. */
+  txids: string[];
+  /** Stacks tip height when the latest txid was broadcast. */
+  broadcastHeight: number;
+}
+
+export type TxOutcome =
+  | "success"
+  | "abort_by_response"
+  | "abort_by_post_condition"
+  | "dropped"
+  | "timeout";
+
+export interface TxResult {
+  /** The txid that reached a final state (or the latest one on timeout). */
+  txid: string;
+  status: TxOutcome;
+  /** Clarity repr of the result, e.g. "(ok u42)". Null if never anchored. */
+  resultRepr: string | null;
+  /** Error code of an (err uN) result, e.g. 208n for err-deposit-after-maturity. */
+  errorCode: bigint | null;
+  blockHeight: number | null;
+  nonce: bigint;
+  fee: bigint;
+}
+
+/** Broadcast rejections that mean our local nonce is out of sync with the node. */
+const NONCE_ERRORS = new Set(["BadNonce", "ConflictingNonceInMempool"]);
+
+// -----------------------------------------------------------------------
+// Manager
+// -----------------------------------------------------------------------
+
+export class TxManager {
+  private nextNonce: bigint | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Queue a contract call for broadcast. Resolves once the tx has been
+   * accepted by the node's mempool; does not wait for confirmation.
+   */
+  submit(request: ContractCallRequest): Promise<SubmittedTx> {
+    const job = this.queue.then(() => this.broadcastNext(request));
+    // Keep the queue alive after a failed job.
+    this.queue = job.catch(() => undefined);
+    return job;
+  }
+
+  /** Submit a contract call and wait for its final result. */
+  async send(request: ContractCallRequest): Promise<TxResult> {
+    return this.waitForResult(await this.submit(request));
+  }
+
+  /**
+   * Poll until the tx is anchored, aborts, or is dropped. Bumps the fee
+   * when it lingers in the mempool for `rbfAfterBlocks` blocks, calling
+   * `onReplace` with each replacement txid right after its broadcast.
+   */
+  async waitForResult(tx: SubmittedTx, onReplace?: (txid: string) => void): Promise<TxResult> {
+    const { txPollIntervalMs, txTimeoutMs, rbfAfterBlocks } = config.relayer;
+    const deadline = Date.now() + txTimeoutMs;
+
+    while (Date.now() < deadline) {
+      await sleep(txPollIntervalMs);
+
+      // Any of the txids for this nonce may be the one that gets mined.
+      let allDropped = true;
+      for (const txid of [...tx.txids].reverse()) {
+        const lookup = await fetchTx(txid);
+        if (!lookup) {
+          allDropped = false;
+          continue;
+        }
+        if (lookup.status === "pending") {
+          allDropped = false;
+        } else if (!lookup.status.startsWith("dropped")) {
+          return toResult(tx, txid, lookup.status as TxOutcome, lookup.resultRepr, lookup.blockHeight);
+        }
+      }
+
+      if (allDropped) return toResult(tx, tx.txid, "dropped", null, null);
+
+      const tip = await fetchTipHeight();
+      if (tip - tx.broadcastHeight >= rbfAfterBlocks) {
+        await this.bumpFee(tx, tip, onReplace);
+      }
+    }
+
+    logger.warn(`tx ${tx.txid} still pending after ${txTimeoutMs / 1000}s`);
+    return toResult(tx, tx.txid, "timeout", null, null);
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal helpers
+  // -----------------------------------------------------------------------
+
+  private async broadcastNext(request: ContractCallRequest): Promise<SubmittedTx> {
+    if (this.nextNonce === null) this.nextNonce = await fetchNextNonce();
+
+    const fee = BigInt(config.relayer.feeMicroStx);
+    const nonce = this.nextNonce;
+
+    let txid: string;
+    try {
+      txid = await this.signAndBroadcast(request, nonce, fee);
+    } catch (err) {
+      // Resync from the node before the next submission.
+      if (err instanceof BroadcastError && NONCE_ERRORS.has(err.error)) this.nextNonce = null;
+      throw err;
+    }
+
+    this.nextNonce = nonce + 1n;
+    const broadcastHeight = await fetchTipHeight();
+    return { request, nonce, fee, txid, txids: [txid], broadcastHeight };
+  }
+
+  private async bumpFee(tx: SubmittedTx, tip: number, onReplace?: (txid: string) => void): Promise<void> {
+    const { rbfFeeBumpPct, maxFeeMicroStx } = config.relayer;
+    const bumped = (tx.fee * BigInt(100 + rbfFeeBumpPct)) / 100n;
+    const fee = bumped > BigInt(maxFeeMicroStx) ? BigInt(maxFeeMicroStx) : bumped;
+
+    if (fee <= tx.fee) {
+      // Already at the cap; keep waiting rather than rebroadcasting the same tx.
+      tx.broadcastHeight = tip;
+      return;
+    }
+
+    let txid: string;
+    try {
+      txid = await this.signAndBroadcast(tx.request, tx.nonce, fee);
+    } catch (err) {
+      // Most likely the original was mined in the meantime; the next poll will tell.
+      logger.warn(`RBF for ${tx.txid} failed: ${err}`);
+      tx.broadcastHeight = tip;
+      return;
+    }
+
+    logger.warn(`RBF: ${tx.txid} pending ${tip - tx.broadcastHeight} blocks — replaced by ${txid} (fee ${tx.fee} → ${fee} uSTX)`);
+    tx.fee = fee;
+    tx.txid = txid;
+    tx.txids.push(txid);
+    tx.broadcastHeight = tip;
+    onReplace?.(txid);
+  }
+
+  private async signAndBroadcast(request: ContractCallRequest, nonce: bigint, fee: bigint): Promise<string> {
+    const label = `${request.contractName}::${request.functionName}`;
+
+    const tx = await buildContractCall(request, nonce, fee);
+    const txid = await broadcast(tx, label);
+    logger.info(`${label} → txid ${txid} (nonce ${nonce}, fee ${fee} uSTX)`);
+    return txid;
+  }
+}
+
+/** Shared manager for the bot wallet; all contract calls must go through it. */
+export const txManager = new TxManager();
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+function toResult(
+  tx: SubmittedTx,
+  txid: string,
+  status: TxOutcome,
+  resultRepr: string | null,
+  blockHeight: number | null
+): TxResult {
+  return {
+    txid,
+    status,
+    resultRepr,
+    errorCode: parseErrorCode(resultRepr),
+    blockHeight,
+    nonce: tx.nonce,
+    fee: tx.fee,
+  };
+}
+
+/**
+ * Extract every "(ok uN)" / "(err uN)" in a result repr, in order. Used to
+ * read the per-entry results of batch calls such as deposit-yield-many.
+ */
+export function parseResponseList(repr: string | null): Array<{ ok: boolean; value: bigint }> {
+  if (!repr) return [];
+  return [...repr.matchAll(/\((ok|err) u(\d+)\)/g)].map((m) => ({ ok: m[1] === "ok", value: BigInt(m[2]!) }));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,31 @@
+import "dotenv/config";
+
+/** Comma-separated contract ids, one per vault bucket. */
+function contractIds(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((id) => id.trim()).filter(Boolean);
+}
+
+export const config = {
+  network: process.env.STACKS_NETWORK ?? "devnet",
+  apiUrl: process.env.STACKS_API_URL ?? "http://localhost:3999",
+
+  contracts: {
+    bondFactory: process.env.BOND_FACTORY_ADDRESS ?? "",
+    market: process.env.MARKET_ADDRESS ?? "",
+    ptAmm: process.env.PT_AMM_ADDRESS ?? "",
+    ptVaults: contractIds(process.env.PT_VAULT_ADDRESSES),
+    ytVaults: contractIds(process.env.YT_VAULT_ADDRESSES),
+  },
+
+  // SQLite database file; created on first start.
+  dbPath: process.env.INDEXER_DB_PATH ?? ".data/indexer.sqlite",
+
+  // Port of the REST API.
+  port: Number(process.env.INDEXER_PORT ?? "3002"),
+
+  // How often to ask the Stacks API for new contract transactions.
+  pollIntervalMs: Number(process.env.INDEXER_POLL_INTERVAL_MS ?? "10000"),
+
+  // Page size for /extended/v1/address/{contract}/transactions (API maximum is 50).
+  pageLimit: 50,
+} as const;
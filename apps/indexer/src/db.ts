@@ -0,0 +1,457 @@
+/**
+ * db.ts
+ *
+ * SQLite store for the indexed contract state.
+ *
+ *   bonds          — latest get-bond tuple per bond
+ *   nft_owners     — current holder of each PT / YT NFT
+ *   listings       — open market listings
+ *   bids           — open PT bids and their remaining escrow
+ *   sales          — completed market purchases (including bid fills), the
+ *                    trade tape behind the web app's price history
+ *   yield_deposits — per-bond yield deposits
+ *   meta           — follower cursor (last applied block height)
+ *
+ * Satoshi amounts are stored as decimal TEXT so they never lose precision.
+ * Every block is applied inside one SQLite transaction together with the
+ * cursor update, so a crash can never leave a half-applied block behind.
+ */
+
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type {
+  IndexedBid,
+  IndexedBond,
+  IndexedListing,
+  IndexedSale,
+  IndexedYieldDeposit,
+  IndexerStatus,
+  TokenType,
+} from "@satcurve/types";
+
+// -----------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------
+
+/** Bond fields as returned by bond-factory get-bond. */
+export interface BondState {
+  bondId: number;
+  sbtcAmount: bigint;
+  maturityBlock: number;
+  createdBlock: number;
+  principalRedeemed: boolean;
+  combined: boolean;
+  yieldDeposited: bigint;
+  yieldWithdrawn: bigint;
+}
+
+interface BondRow {
+  bond_id: number;
+  sbtc_amount: string;
+  maturity_block: number;
+  created_block: number;
+  principal_redeemed: number;
+  combined: number;
+  yield_deposited: string;
+  yield_withdrawn: string;
+}
+
+interface ListingRow {
+  token_type: TokenType;
+  bond_id: number;
+  seller: string;
+  price_sats: string;
+  expires_at: number | null;
+  listed_block: number;
+  txid: string;
+}
+
+interface BidRow {
+  bid_id: number;
+  bidder: string;
+  bond_id: number | null;
+  min_maturity: number;
+  max_maturity: number;
+  price_per_sbtc: string;
+  remaining_sats: string;
+  placed_block: number;
+  txid: string;
+}
+
+/** A sales row joined with the traded bond's face value and maturity. */
+interface SaleRow {
+  txid: string;
+  token_type: TokenType;
+  bond_id: number;
+  seller: string;
+  buyer: string;
+  price_sats: string;
+  fee_sats: string;
+  block_height: number;
+  block_time: number;
+  sbtc_amount: string | null;
+  maturity_block: number | null;
+}
+
+/** A sale as the follower records it; the bond fields are joined in on read. */
+export type NewSale = Omit<IndexedSale, "sbtcAmount" | "maturityBlock">;
+
+interface DepositRow {
+  txid: string;
+  bond_id: number;
+  amount: string;
+  block_height: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS bonds (
+    bond_id            INTEGER PRIMARY KEY,
+    sbtc_amount        TEXT    NOT NULL,
+    maturity_block     INTEGER NOT NULL,
+    created_block      INTEGER NOT NULL,
+    principal_redeemed INTEGER NOT NULL,
+    combined           INTEGER NOT NULL,
+    yield_deposited    TEXT    NOT NULL,
+    yield_withdrawn    TEXT    NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS nft_owners (
+    token_type TEXT    NOT NULL,
+    bond_id    INTEGER NOT NULL,
+    owner      TEXT    NOT NULL,
+    PRIMARY KEY (token_type, bond_id)
+  );
+  CREATE INDEX IF NOT EXISTS nft_owners_owner ON nft_owners (owner);
+  CREATE TABLE IF NOT EXISTS listings (
+    token_type   TEXT    NOT NULL,
+    bond_id      INTEGER NOT NULL,
+    seller       TEXT    NOT NULL,
+    price_sats   TEXT    NOT NULL,
+    expires_at   INTEGER,
+    listed_block INTEGER NOT NULL,
+    txid         TEXT    NOT NULL,
+    PRIMARY KEY (token_type, bond_id)
+  );
+  CREATE INDEX IF NOT EXISTS listings_seller ON listings (seller);
+  CREATE TABLE IF NOT EXISTS bids (
+    bid_id         INTEGER PRIMARY KEY,
+    bidder         TEXT    NOT NULL,
+    bond_id        INTEGER,
+    min_maturity   INTEGER NOT NULL,
+    max_maturity   INTEGER NOT NULL,
+    price_per_sbtc TEXT    NOT NULL,
+    remaining_sats TEXT    NOT NULL,
+    placed_block   INTEGER NOT NULL,
+    txid           TEXT    NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sales (
+    txid         TEXT PRIMARY KEY,
+    token_type   TEXT    NOT NULL,
+    bond_id      INTEGER NOT NULL,
+    seller       TEXT    NOT NULL,
+    buyer        TEXT    NOT NULL,
+    price_sats   TEXT    NOT NULL,
+    fee_sats     TEXT    NOT NULL DEFAULT '0',
+    block_height INTEGER NOT NULL,
+    block_time   INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sales_bond ON sales (bond_id);
+  CREATE INDEX IF NOT EXISTS sales_block ON sales (block_height);
+  CREATE TABLE IF NOT EXISTS yield_deposits (
+    txid         TEXT    NOT NULL,
+    entry_index  INTEGER NOT NULL,
+    bond_id      INTEGER NOT NULL,
+    amount       TEXT    NOT NULL,
+    block_height INTEGER NOT NULL,
+    PRIMARY KEY (txid, entry_index)
+  );
+  CREATE INDEX IF NOT EXISTS yield_deposits_bond ON yield_deposits (bond_id);
+`;
+
+// -----------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------
+
+export class IndexerDb {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+
+    // Stores created before listings could expire, or before the market
+    // charged a trade fee, lack these columns.
+    this.addMissingColumn("listings", "expires_at", "INTEGER");
+    this.addMissingColumn("sales", "fee_sats", "TEXT NOT NULL DEFAULT '0'");
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /** Run `fn` atomically. Used to apply one block at a time. */
+  transaction(fn: () => void): void {
+    this.db.transaction(fn)();
+  }
+
+  // -----------------------------------------------------------------------
+  // Cursor
+  // -----------------------------------------------------------------------
+
+  lastBlockHeight(): number {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'last_block_height'").get() as
+      | { value: string }
+      | undefined;
+    return row ? Number(row.value) : 0;
+  }
+
+  setLastBlockHeight(height: number): void {
+    this.db
+      .prepare("INSERT INTO meta (key, value) VALUES ('last_block_height', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+      .run(String(height));
+  }
+
+  // -----------------------------------------------------------------------
+  // Writes
+  // -----------------------------------------------------------------------
+
+  upsertBond(bond: BondState): void {
+    this.db.prepare(`
+      INSERT INTO bonds (bond_id, sbtc_amount, maturity_block, created_block, principal_redeemed, combined, yield_deposited, yield_withdrawn)
+      VALUES (@bond_id, @sbtc_amount, @maturity_block, @created_block, @principal_redeemed, @combined, @yield_deposited, @yield_withdrawn)
+      ON CONFLICT(bond_id) DO UPDATE SET
+        sbtc_amount = excluded.sbtc_amount,
+        maturity_block = excluded.maturity_block,
+        created_block = excluded.created_block,
+        principal_redeemed = excluded.principal_redeemed,
+        combined = excluded.combined,
+        yield_deposited = excluded.yield_deposited,
+        yield_withdrawn = excluded.yield_withdrawn
+    `).run({
+      bond_id: bond.bondId,
+      sbtc_amount: bond.sbtcAmount.toString(),
+      maturity_block: bond.maturityBlock,
+      created_block: bond.createdBlock,
+      principal_redeemed: bond.principalRedeemed ? 1 : 0,
+      combined: bond.combined ? 1 : 0,
+      yield_deposited: bond.yieldDeposited.toString(),
+      yield_withdrawn: bond.yieldWithdrawn.toString(),
+    });
+  }
+
+  /** Record the new holder of an NFT, or delete it when `owner` is null (burned). */
+  setNftOwner(tokenType: TokenType, bondId: number, owner: string | null): void {
+    if (owner === null) {
+      this.db.prepare("DELETE FROM nft_owners WHERE token_type = ? AND bond_id = ?").run(tokenType, bondId);
+      return;
+    }
+    this.db
+      .prepare("INSERT INTO nft_owners (token_type, bond_id, owner) VALUES (?, ?, ?) ON CONFLICT(token_type, bond_id) DO UPDATE SET owner = excluded.owner")
+      .run(tokenType, bondId, owner);
+  }
+
+  putListing(listing: IndexedListing): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO listings (token_type, bond_id, seller, price_sats, expires_at, listed_block, txid) VALUES (?, ?, ?, ?, ?, ?, ?)")
+      .run(listing.tokenType, listing.bondId, listing.seller, listing.priceSats, listing.expiresAt, listing.listedBlock, listing.txid);
+  }
+
+  /** Apply update-pt-price / update-yt-price; the listing keeps its expiry. */
+  repriceListing(tokenType: TokenType, bondId: number, priceSats: string): void {
+    this.db
+      .prepare("UPDATE listings SET price_sats = ? WHERE token_type = ? AND bond_id = ?")
+      .run(priceSats, tokenType, bondId);
+  }
+
+  /** Remove a listing and return it, if it existed. */
+  takeListing(tokenType: TokenType, bondId: number): IndexedListing | null {
+    const listing = this.getListing(tokenType, bondId);
+    this.db.prepare("DELETE FROM listings WHERE token_type = ? AND bond_id = ?").run(tokenType, bondId);
+    return listing;
+  }
+
+  putBid(bid: IndexedBid): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO bids (bid_id, bidder, bond_id, min_maturity, max_maturity, price_per_sbtc, remaining_sats, placed_block, txid) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)")
+      .run(bid.bidId, bid.bidder, bid.bondId, bid.minMaturity, bid.maxMaturity, bid.pricePerSbtc, bid.remainingSats, bid.placedBlock, bid.txid);
+  }
+
+  /**
+   * Take `spentSats` out of a bid's escrow, dropping the bid once it is
+   * empty. Returns the bid as it was before the fill.
+   */
+  fillBid(bidId: number, spentSats: bigint): IndexedBid | null {
+    const bid = this.getBid(bidId);
+    if (!bid) return null;
+    const remaining = BigInt(bid.remainingSats) - spentSats;
+    if (remaining <= 0n) {
+      this.deleteBid(bidId);
+    } else {
+      this.db.prepare("UPDATE bids SET remaining_sats = ? WHERE bid_id = ?").run(remaining.toString(), bidId);
+    }
+    return bid;
+  }
+
+  deleteBid(bidId: number): void {
+    this.db.prepare("DELETE FROM bids WHERE bid_id = ?").run(bidId);
+  }
+
+  addSale(sale: NewSale): void {
+    this.db
+      .prepare("INSERT OR IGNORE INTO sales (txid, token_type, bond_id, seller, buyer, price_sats, fee_sats, block_height, block_time) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)")
+      .run(sale.txid, sale.tokenType, sale.bondId, sale.seller, sale.buyer, sale.priceSats, sale.feeSats, sale.blockHeight, sale.blockTime);
+  }
+
+  addYieldDeposit(deposit: IndexedYieldDeposit, entryIndex: number): void {
+    this.db
+      .prepare("INSERT OR IGNORE INTO yield_deposits (txid, entry_index, bond_id, amount, block_height) VALUES (?, ?, ?, ?, ?)")
+      .run(deposit.txid, entryIndex, deposit.bondId, deposit.amount, deposit.blockHeight);
+  }
+
+  // -----------------------------------------------------------------------
+  // Reads
+  // -----------------------------------------------------------------------
+
+  status(): IndexerStatus {
+    const { count } = this.db.prepare("SELECT COUNT(*) AS count FROM bonds").get() as { count: number };
+    return { lastBlockHeight: this.lastBlockHeight(), bondCount: count };
+  }
+
+  getBond(bondId: number): IndexedBond | null {
+    const row = this.db.prepare("SELECT * FROM bonds WHERE bond_id = ?").get(bondId) as BondRow | undefined;
+    return row ? this.toBond(row) : null;
+  }
+
+  /** All bonds, or only those whose PT/YT `holder` owns or has listed. */
+  listBonds(holder?: string): IndexedBond[] {
+    const rows = holder
+      ? this.db.prepare(`
+          SELECT * FROM bonds WHERE bond_id IN (
+            SELECT bond_id FROM nft_owners WHERE owner = @holder
+            UNION SELECT bond_id FROM listings WHERE seller = @holder
+          ) ORDER BY bond_id
+        `).all({ holder }) as BondRow[]
+      : this.db.prepare("SELECT * FROM bonds ORDER BY bond_id").all() as BondRow[];
+    return rows.map((row) => this.toBond(row));
+  }
+
+  getListing(tokenType: TokenType, bondId: number): IndexedListing | null {
+    const row = this.db
+      .prepare("SELECT * FROM listings WHERE token_type = ? AND bond_id = ?")
+      .get(tokenType, bondId) as ListingRow | undefined;
+    return row ? toListing(row) : null;
+  }
+
+  listListings(): IndexedListing[] {
+    const rows = this.db.prepare("SELECT * FROM listings ORDER BY bond_id, token_type").all() as ListingRow[];
+    return rows.map(toListing);
+  }
+
+  getBid(bidId: number): IndexedBid | null {
+    const row = this.db.prepare("SELECT * FROM bids WHERE bid_id = ?").get(bidId) as BidRow | undefined;
+    return row ? toBid(row) : null;
+  }
+
+  listBids(): IndexedBid[] {
+    const rows = this.db.prepare("SELECT * FROM bids ORDER BY bid_id").all() as BidRow[];
+    return rows.map(toBid);
+  }
+
+  /** Sales newest first, of every bond or only `bondId`, at most `limit` of them. */
+  listSales(bondId?: number, limit?: number): IndexedSale[] {
+    const rows = this.db.prepare(`
+      SELECT s.*, b.sbtc_amount, b.maturity_block
+      FROM sales s LEFT JOIN bonds b ON b.bond_id = s.bond_id
+      WHERE @bond_id IS NULL OR s.bond_id = @bond_id
+      ORDER BY s.block_height DESC, s.rowid DESC
+      LIMIT @limit
+    `).all({ bond_id: bondId ?? null, limit: limit ?? -1 }) as SaleRow[];
+    return rows.map((r) => ({
+      txid: r.txid,
+      bondId: r.bond_id,
+      tokenType: r.token_type,
+      seller: r.seller,
+      buyer: r.buyer,
+      priceSats: r.price_sats,
+      feeSats: r.fee_sats,
+      blockHeight: r.block_height,
+      blockTime: r.block_time,
+      sbtcAmount: r.sbtc_amount,
+      maturityBlock: r.maturity_block,
+    }));
+  }
+
+  listYieldDeposits(bondId?: number): IndexedYieldDeposit[] {
+    const rows = (bondId === undefined
+      ? this.db.prepare("SELECT * FROM yield_deposits ORDER BY block_height DESC, entry_index").all()
+      : this.db.prepare("SELECT * FROM yield_deposits WHERE bond_id = ? ORDER BY block_height DESC").all(bondId)) as DepositRow[];
+    return rows.map((r) => ({ txid: r.txid, bondId: r.bond_id, amount: r.amount, blockHeight: r.block_height }));
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal helpers
+  // -----------------------------------------------------------------------
+
+  private addMissingColumn(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  private owner(tokenType: TokenType, bondId: number): string | null {
+    const row = this.db
+      .prepare("SELECT owner FROM nft_owners WHERE token_type = ? AND bond_id = ?")
+      .get(tokenType, bondId) as { owner: string } | undefined;
+    return row?.owner ?? null;
+  }
+
+  private toBond(row: BondRow): IndexedBond {
+    return {
+      bondId: row.bond_id,
+      sbtcAmount: row.sbtc_amount,
+      maturityBlock: row.maturity_block,
+      createdBlock: row.created_block,
+      principalRedeemed: row.principal_redeemed === 1,
+      combined: row.combined === 1,
+      yieldDeposited: row.yield_deposited,
+      yieldWithdrawn: row.yield_withdrawn,
+      ptOwner: this.owner("PT", row.bond_id),
+      ytOwner: this.owner("YT", row.bond_id),
+      ptListing: this.getListing("PT", row.bond_id),
+      ytListing: this.getListing("YT", row.bond_id),
+    };
+  }
+}
+
+function toListing(row: ListingRow): IndexedListing {
+  return {
+    bondId: row.bond_id,
+    tokenType: row.token_type,
+    seller: row.seller,
+    priceSats: row.price_sats,
+    expiresAt: row.expires_at,
+    listedBlock: row.listed_block,
+    txid: row.txid,
+  };
+}
+
+function toBid(row: BidRow): IndexedBid {
+  return {
+    bidId: row.bid_id,
+    bidder: row.bidder,
+    bondId: row.bond_id,
+    minMaturity: row.min_maturity,
+    maxMaturity: row.max_maturity,
+    pricePerSbtc: row.price_per_sbtc,
+    remainingSats: row.remaining_sats,
+    placedBlock: row.placed_block,
+    txid: row.txid,
+  };
+}
@@ -0,0 +1,389 @@
+/**
+ * follower.ts
+ *
+ * Follows bond-factory, market, pt-amm and vault transactions through the
+ * Stacks API and applies them to the SQLite store.
+ *
+ * Each poll pins the API's chain tip, fetches every transaction of those
+ * contracts anchored after the stored cursor and up to that tip, merges the
+ * lists, and applies them block by block in (block_height, tx_index) order:
+ *
+ *   bond-factory  deposit-yield(-many)
+ *                   → record the per-bond amounts actually credited
+ *   market        list-*  → open listing;  cancel-*  → drop listing
+ *                 update-*-price → reprice listing
+ *                 buy-*   → drop listing and record the sale, price and fee
+ *                           as the printed buy event reports them
+ *                 place-bid, place-bond-bid → open bid;  cancel-bid → drop bid
+ *                 sell-into-bid → spend the bid's escrow and record the sale
+ *   any tx        bond-factory create-bond, deposit-yield, collect-yield,
+ *                 redeem-principal, combine prints → re-read the touched
+ *                 bonds with get-bond, so calls made through the AMM or a
+ *                 vault are caught too
+ *                 PT / YT NFT mint, transfer, burn events → holder table
+ *
+ * All network I/O for a block happens before its writes, and the writes
+ * plus the cursor update run in one SQLite transaction.
+ */
+
+import {
+  hexToCV,
+  ClarityType,
+  ClarityValue,
+  ListCV,
+  ResponseOkCV,
+  TupleCV,
+  UIntCV,
+} from "@stacks/transactions";
+import { config } from "./config";
+import { logger } from "./logger";
+import { IndexerDb } from "./db";
+import { fetchContractTxs, fetchTipHeight, fetchTxEvents, readBond } from "./stacksApi";
+import type { ContractCallTx, NftEvent, PrintEvent } from "./stacksApi";
+import { decodeContractLog } from "@satcurve/types";
+import type { SatCurveEvent, TokenType } from "@satcurve/types";
+
+/** A deferred write, run inside the block's SQLite transaction. */
+type Write = () => void;
+
+/** bond-factory events printed by the calls that change a bond's get-bond tuple. */
+const BOND_MUTATIONS = new Set<SatCurveEvent["topic"]>([
+  "create-bond",
+  "deposit-yield",
+  "collect-yield",
+  "redeem-principal",
+  "combine",
+]);
+
+/** market functions that open, spend or close a PT bid. */
+const BID_FUNCTIONS = new Set(["place-bid", "place-bond-bid", "cancel-bid", "sell-into-bid"]);
+
+// -----------------------------------------------------------------------
+// Follower
+// -----------------------------------------------------------------------
+
+export class ContractFollower {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(private readonly db: IndexerDb) {}
+
+  start(): void {
+    logger.info(`Following ${followedContracts().join(", ")} every ${config.pollIntervalMs / 1000}s`);
+    this.tick();
+    this.timer = setInterval(() => this.tick(), config.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  private async tick(): Promise<void> {
+    // Catching up from genesis can outlast the poll interval; never sync twice at once.
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.sync();
+    } catch (err) {
+      logger.error(`Indexer sync failed: ${err}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** Apply every followed transaction anchored after the cursor, up to the API's current tip. */
+  async sync(): Promise<void> {
+    const from = this.db.lastBlockHeight();
+    // A block anchored mid-poll would reach the contracts fetched after it and
+    // not those before; the cursor would then pass it with txs missing.
+    const tip = await fetchTipHeight();
+    if (tip <= from) return;
+
+    const txs = await this.fetchNewTxs(from, tip);
+    if (txs.length === 0) return;
+
+    const blocks = new Map<number, ContractCallTx[]>();
+    for (const tx of txs) blocks.set(tx.block_height, [...(blocks.get(tx.block_height) ?? []), tx]);
+
+    for (const [height, blockTxs] of blocks) {
+      const writes: Write[] = [];
+      for (const tx of blockTxs) writes.push(...await this.collect(tx));
+
+      this.db.transaction(() => {
+        for (const write of writes) write();
+        this.db.setLastBlockHeight(height);
+      });
+      logger.info(`Block ${height}: applied ${blockTxs.length} tx(s).`);
+    }
+  }
+
+  /**
+   * Every successful transaction of the followed contracts anchored after
+   * `from` and no later than `tip`, oldest first. A call that moves an NFT
+   * shows up under both its own contract and bond-factory, so the lists are
+   * de-duplicated by txid.
+   */
+  private async fetchNewTxs(from: number, tip: number): Promise<ContractCallTx[]> {
+    const byId = new Map<string, ContractCallTx>();
+
+    for (const contractId of followedContracts()) {
+      // Pages are newest-first; stop once a page reaches already-indexed blocks.
+      for (let offset = 0; ; offset += config.pageLimit) {
+        const page = await fetchContractTxs(contractId, offset);
+        for (const tx of page) {
+          const inRange = tx.block_height > from && tx.block_height <= tip;
+          if (inRange && tx.tx_status === "success" && tx.tx_type === "contract_call") {
+            byId.set(tx.tx_id, tx);
+          }
+        }
+        const oldest = page[page.length - 1];
+        if (page.length < config.pageLimit || !oldest || oldest.block_height <= from) break;
+      }
+    }
+
+    return [...byId.values()].sort((a, b) => a.block_height - b.block_height || a.tx_index - b.tx_index);
+  }
+
+  // -----------------------------------------------------------------------
+  // Per-transaction handlers
+  // -----------------------------------------------------------------------
+
+  /** Fetch whatever `tx` needs and return the writes that apply it. */
+  private async collect(tx: ContractCallTx): Promise<Write[]> {
+    const call = tx.contract_call!;
+    const events = await fetchTxEvents(tx.tx_id);
+    const writes: Write[] = [];
+
+    if (call.contract_id === config.contracts.bondFactory) {
+      writes.push(...this.collectDeposits(tx));
+    } else if (call.contract_id === config.contracts.market) {
+      writes.push(...this.collectMarket(tx, events.prints));
+    }
+
+    writes.push(...await this.collectBonds(events.prints));
+    writes.push(...this.collectNftMoves(events.nft));
+    return writes;
+  }
+
+  private collectDeposits(tx: ContractCallTx): Write[] {
+    const fn = tx.contract_call!.function_name;
+
+    if (fn === "deposit-yield") {
+      const deposit = { txid: tx.tx_id, bondId: uintArg(tx, 0), amount: String(uintArg(tx, 1)), blockHeight: tx.block_height };
+      return [() => this.db.addYieldDeposit(deposit, 0)];
+    }
+    if (fn !== "deposit-yield-many") return [];
+
+    const entries = (arg(tx, 0) as ListCV<TupleCV>).list;
+    const results = ((resultOk(tx) as TupleCV).data["results"] as ListCV).list;
+    const writes: Write[] = [];
+    results.forEach((r, i) => {
+      // Skipped entries come back as (err uN) and credited nothing.
+      if (r.type !== ClarityType.ResponseOk) return;
+      const bondId = Number((entries[i]!.data["bond-id"] as UIntCV).value);
+      const amount = ((r as ResponseOkCV).value as UIntCV).value.toString();
+      const deposit = { txid: tx.tx_id, bondId, amount, blockHeight: tx.block_height };
+      writes.push(() => this.db.addYieldDeposit(deposit, i));
+    });
+    return writes;
+  }
+
+  /**
+   * Re-read every bond whose get-bond tuple `prints` show changing. bond-factory
+   * prints its events whoever called it, so this covers a PT the AMM redeemed
+   * or yield a YT vault collected as well as direct calls.
+   */
+  private async collectBonds(prints: PrintEvent[]): Promise<Write[]> {
+    const bondIds = new Set<number>();
+    for (const print of prints) {
+      if (print.contractId !== config.contracts.bondFactory) continue;
+      const event = decodeContractLog(print.valueHex);
+      if (event && BOND_MUTATIONS.has(event.topic) && "bondId" in event) bondIds.add(Number(event.bondId));
+    }
+
+    const writes: Write[] = [];
+    for (const bondId of bondIds) {
+      const bond = await readBond(bondId);
+      if (bond) writes.push(() => this.db.upsertBond(bond));
+    }
+    return writes;
+  }
+
+  private collectMarket(tx: ContractCallTx, prints: PrintEvent[]): Write[] {
+    const fn = tx.contract_call!.function_name;
+    if (BID_FUNCTIONS.has(fn)) return this.collectBid(tx);
+
+    const reprice = /^update-(pt|yt)-price$/.exec(fn);
+    if (reprice) {
+      const tokenType = reprice[1]!.toUpperCase() as TokenType;
+      const bondId = uintArg(tx, 0);
+      const priceSats = String(uintArg(tx, 1));
+      return [() => this.db.repriceListing(tokenType, bondId, priceSats)];
+    }
+
+    const match = /^(list|cancel|buy)-(pt|yt)$/.exec(fn);
+    if (!match) return [];
+
+    const action = match[1]!;
+    const tokenType = match[2]!.toUpperCase() as TokenType;
+    const bondId = uintArg(tx, 0);
+
+    if (action === "list") {
+      const listing = {
+        bondId,
+        tokenType,
+        seller: tx.sender_address,
+        priceSats: String(uintArg(tx, 1)),
+        expiresAt: optionalUintArg(tx, 2),
+        listedBlock: tx.block_height,
+        txid: tx.tx_id,
+      };
+      return [() => this.db.putListing(listing)];
+    }
+
+    if (action === "cancel") {
+      return [() => { this.db.takeListing(tokenType, bondId); }];
+    }
+
+    // The listing is gone from the chain once bought, so the price comes from the print.
+    const sale = marketEvent(prints, "buy");
+    return [() => {
+      this.db.takeListing(tokenType, bondId);
+      if (!sale) {
+        logger.warn(`Sale ${tx.tx_id} of ${tokenType} #${bondId} printed no buy event; skipping sale record.`);
+        return;
+      }
+      this.db.addSale({
+        txid: tx.tx_id,
+        bondId,
+        tokenType,
+        seller: sale.seller,
+        buyer: sale.buyer,
+        priceSats: sale.priceSats.toString(),
+        feeSats: sale.feeSats.toString(),
+        blockHeight: tx.block_height,
+        blockTime: tx.block_time,
+      });
+    }];
+  }
+
+  private collectBid(tx: ContractCallTx): Write[] {
+    const fn = tx.contract_call!.function_name;
+
+    if (fn === "cancel-bid") {
+      const bidId = uintArg(tx, 0);
+      return [() => this.db.deleteBid(bidId)];
+    }
+
+    if (fn === "sell-into-bid") {
+      const bidId = uintArg(tx, 0);
+      const bondId = uintArg(tx, 1);
+      const price = (resultOk(tx) as UIntCV).value;
+      return [() => {
+        const bid = this.db.fillBid(bidId, BigInt(price));
+        if (!bid) {
+          logger.warn(`Fill ${tx.tx_id} of bid #${bidId} has no indexed bid; skipping sale record.`);
+          return;
+        }
+        this.db.addSale({
+          txid: tx.tx_id,
+          bondId,
+          tokenType: "PT",
+          seller: tx.sender_address,
+          buyer: bid.bidder,
+          priceSats: price.toString(),
+          feeSats: "0",
+          blockHeight: tx.block_height,
+          blockTime: tx.block_time,
+        });
+      }];
+    }
+
+    // place-bid (min, max, price, amount) / place-bond-bid (bond-id, price, amount)
+    const bidId = Number((resultOk(tx) as UIntCV).value);
+    const single = fn === "place-bond-bid";
+    const base = {
+      bidId,
+      bidder: tx.sender_address,
+      pricePerSbtc: String(uintArg(tx, single ? 1 : 2)),
+      remainingSats: String(uintArg(tx, single ? 2 : 3)),
+      placedBlock: tx.block_height,
+      txid: tx.tx_id,
+    };
+    if (!single) {
+      const bid = { ...base, bondId: null, minMaturity: uintArg(tx, 0), maxMaturity: uintArg(tx, 1) };
+      return [() => this.db.putBid(bid)];
+    }
+
+    const bondId = uintArg(tx, 0);
+    return [() => {
+      // The contract pins a single-bond bid's range to that bond's maturity.
+      const maturity = this.db.getBond(bondId)?.maturityBlock;
+      if (maturity === undefined) {
+        logger.warn(`Bid #${bidId} (${tx.tx_id}) names unindexed bond #${bondId}; skipping.`);
+        return;
+      }
+      this.db.putBid({ ...base, bondId, minMaturity: maturity, maxMaturity: maturity });
+    }];
+  }
+
+  /** Track PT / YT holders from the NFT events the tx emitted. */
+  private collectNftMoves(events: NftEvent[]): Write[] {
+    const assets: Record<string, TokenType> = {
+      [`${config.contracts.bondFactory}::principal-token`]: "PT",
+      [`${config.contracts.bondFactory}::yield-token`]: "YT",
+    };
+
+    return events
+      .filter((e) => assets[e.assetId])
+      .map((e) => {
+        const bondId = Number((hexToCV(e.valueHex) as UIntCV).value);
+        return () => this.db.setNftOwner(assets[e.assetId]!, bondId, e.recipient);
+      });
+  }
+}
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+/** Contract ids whose transactions are followed; unset ones are skipped. */
+function followedContracts(): string[] {
+  const { bondFactory, market, ptAmm, ptVaults, ytVaults } = config.contracts;
+  return [bondFactory, market, ptAmm, ...ptVaults, ...ytVaults].filter(Boolean);
+}
+
+function arg(tx: ContractCallTx, index: number): ClarityValue {
+  const a = tx.contract_call?.function_args?.[index];
+  if (!a) throw new Error(`tx ${tx.tx_id} has no argument ${index}`);
+  return hexToCV(a.hex);
+}
+
+function uintArg(tx: ContractCallTx, index: number): number {
+  return Number((arg(tx, index) as UIntCV).value);
+}
+
+function optionalUintArg(tx: ContractCallTx, index: number): number | null {
+  const value = arg(tx, index);
+  return value.type === ClarityType.OptionalSome ? Number((value.value as UIntCV).value) : null;
+}
+
+/** The first event with `topic` that the market printed, if any. */
+function marketEvent<T extends SatCurveEvent["topic"]>(
+  prints: PrintEvent[],
+  topic: T,
+): Extract<SatCurveEvent, { topic: T }> | null {
+  for (const print of prints) {
+    if (print.contractId !== config.contracts.market) continue;
+    const event = decodeContractLog(print.valueHex);
+    if (event?.topic === topic) return event as Extract<SatCurveEvent, { topic: T }>;
+  }
+  return null;
+}
+
+/** The value inside a successful tx's (ok …) result. */
+function resultOk(tx: ContractCallTx): ClarityValue {
+  const result = hexToCV(tx.tx_result.hex);
+  if (result.type !== ClarityType.ResponseOk) throw new Error(`tx ${tx.tx_id} result is not (ok …): ${tx.tx_result.repr}`);
+  return result.value;
+}
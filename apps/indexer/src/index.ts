@@ -0,0 +1,48 @@
+/**
+ * SatCurve Indexer v0.1.0
+ *
+ * Mirrors bond-factory.clar and market.clar state into SQLite so the web
+ * app can read bonds, PT/YT holders, listings, sales and yield deposits
+ * with one HTTP request instead of one read-only call per bond.
+ *
+ * Usage:
+ *   pnpm dev     — start following the contracts and serve the REST API
+ *
+ * Environment variables (see .env.example):
+ *   STACKS_NETWORK, STACKS_API_URL, BOND_FACTORY_ADDRESS, MARKET_ADDRESS,
+ *   INDEXER_DB_PATH, INDEXER_PORT
+ */
+
+import { config } from "./config";
+import { logger } from "./logger";
+import { IndexerDb } from "./db";
+import { ContractFollower } from "./follower";
+import { startServer } from "./server";
+
+function main() {
+  logger.info("SatCurve Indexer v0.1.0");
+  logger.info(`Network: ${config.network} | API: ${config.apiUrl} | DB: ${config.dbPath}`);
+
+  if (!config.contracts.bondFactory || !config.contracts.market) {
+    logger.error("BOND_FACTORY_ADDRESS and MARKET_ADDRESS must be set. Exiting.");
+    process.exit(1);
+  }
+
+  const db = new IndexerDb(config.dbPath);
+  const follower = new ContractFollower(db);
+  const server = startServer(db);
+  follower.start();
+
+  // Graceful shutdown
+  const shutdown = () => {
+    logger.info("Shutting down…");
+    follower.stop();
+    server.close();
+    db.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main();
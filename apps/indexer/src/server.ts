@@ -0,0 +1,79 @@
+/**
+ * server.ts
+ *
+ * Read-only REST API over the indexed state. All responses are JSON;
+ * satoshi amounts are decimal strings.
+ *
+ *   GET /status                 cursor and bond count
+ *   GET /bonds[?holder=SP…]     all bonds, or those a principal holds or has listed
+ *   GET /bonds/:id              one bond
+ *   GET /listings               open PT / YT listings
+ *   GET /bids                   open PT bids
+ *   GET /sales[?bondId=N][&limit=N]
+ *                               completed purchases and bid fills, newest first
+ *   GET /deposits[?bondId=N]    yield deposits, newest first
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { config } from "./config";
+import { logger } from "./logger";
+import { IndexerDb } from "./db";
+
+export function startServer(db: IndexerDb): Server {
+  const server = createServer((req, res) => {
+    try {
+      route(db, req, res);
+    } catch (err) {
+      logger.error(`${req.method} ${req.url} failed: ${err}`);
+      send(res, 500, { error: "Internal error" });
+    }
+  });
+  server.listen(config.port, () => logger.info(`Indexer API listening on :${config.port}`));
+  return server;
+}
+
+function route(db: IndexerDb, req: IncomingMessage, res: ServerResponse): void {
+  if (req.method === "OPTIONS") return send(res, 204, null);
+  if (req.method !== "GET") return send(res, 405, { error: "Method not allowed" });
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const path = url.pathname.replace(/\/+$/, "") || "/";
+  const bondIdParam = optionalInt(url.searchParams.get("bondId"));
+  if (bondIdParam === null) return send(res, 400, { error: "bondId must be a non-negative integer" });
+  const limitParam = optionalInt(url.searchParams.get("limit"));
+  if (limitParam === null) return send(res, 400, { error: "limit must be a non-negative integer" });
+
+  if (path === "/status") return send(res, 200, db.status());
+  if (path === "/bonds") return send(res, 200, db.listBonds(url.searchParams.get("holder") ?? undefined));
+  if (path === "/listings") return send(res, 200, db.listListings());
+  if (path === "/bids") return send(res, 200, db.listBids());
+  if (path === "/sales") return send(res, 200, db.listSales(bondIdParam, limitParam));
+  if (path === "/deposits") return send(res, 200, db.listYieldDeposits(bondIdParam));
+
+  const bondMatch = /^\/bonds\/(\d+)$/.exec(path);
+  if (bondMatch) {
+    const bond = db.getBond(Number(bondMatch[1]));
+    return bond ? send(res, 200, bond) : send(res, 404, { error: "Bond not found" });
+  }
+
+  send(res, 404, { error: "Not found" });
+}
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The web app is served from a different origin.
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(body === null ? undefined : JSON.stringify(body));
+}
+
+/** Parse an optional non-negative integer query param: undefined if absent, null if invalid. */
+function optionalInt(value: string | null): number | undefined | null {
+  if (value === null) return undefined;
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
@@ -0,0 +1,153 @@
+/**
+ * stacksApi.ts
+ *
+ * Stacks API calls used by the follower: reading the indexed chain tip,
+ * paging through a contract's transactions, fetching a transaction's NFT and
+ * print events, and reading a bond with the get-bond read-only function.
+ */
+
+import { callReadOnlyFunction } from "@stacks/transactions";
+import { StacksMainnet, StacksTestnet, StacksDevnet } from "@stacks/network";
+import { BondFactory, ContractError } from "@satcurve/contracts";
+import { config } from "./config";
+import type { BondState } from "./db";
+
+// -----------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------
+
+/** Subset of a Stacks API contract-call transaction the indexer uses. */
+export interface ContractCallTx {
+  tx_id: string;
+  tx_status: string;
+  tx_type: string;
+  sender_address: string;
+  block_height: number;
+  block_time: number;
+  tx_index: number;
+  tx_result: { hex: string; repr: string };
+  contract_call?: {
+    contract_id: string;
+    function_name: string;
+    function_args?: Array<{ hex: string; repr: string; name: string }>;
+  };
+}
+
+/** An NFT mint / transfer / burn emitted by a transaction. */
+export interface NftEvent {
+  assetId: string;
+  type: "mint" | "transfer" | "burn";
+  /** Hex-encoded Clarity value of the token id. */
+  valueHex: string;
+  recipient: string | null;
+}
+
+/** A value printed by a contract (a SatCurve event tuple, for ours). */
+export interface PrintEvent {
+  contractId: string;
+  /** Hex-encoded Clarity value, as decodeContractLog takes it. */
+  valueHex: string;
+}
+
+/** The events of one transaction that the follower applies. */
+export interface TxEvents {
+  nft: NftEvent[];
+  prints: PrintEvent[];
+}
+
+// -----------------------------------------------------------------------
+// Network
+// -----------------------------------------------------------------------
+
+function getNetwork() {
+  switch (config.network) {
+    case "mainnet":
+      return new StacksMainnet({ url: config.apiUrl });
+    case "testnet":
+      return new StacksTestnet({ url: config.apiUrl });
+    default:
+      return new StacksDevnet({ url: config.apiUrl });
+  }
+}
+
+
+// -----------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------
+
+/** Height of the newest block the API has indexed; its tx lists are complete up to here. */
+export async function fetchTipHeight(): Promise<number> {
+  const resp = await fetch(`${config.apiUrl}/extended`);
+  if (!resp.ok) throw new Error(`/extended returned ${resp.status}`);
+  const json = await resp.json() as { chain_tip: { block_height: number } };
+  return json.chain_tip.block_height;
+}
+
+/** One page of transactions involving `contractId`, newest first. */
+export async function fetchContractTxs(contractId: string, offset: number): Promise<ContractCallTx[]> {
+  const resp = await fetch(
+    `${config.apiUrl}/extended/v1/address/${contractId}/transactions?limit=${config.pageLimit}&offset=${offset}`
+  );
+  if (!resp.ok) throw new Error(`transactions for ${contractId} returned ${resp.status}`);
+  const json = await resp.json() as { results: ContractCallTx[] };
+  return json.results;
+}
+
+/** NFT asset events and contract prints emitted by a transaction. */
+export async function fetchTxEvents(txid: string): Promise<TxEvents> {
+  const events: TxEvents = { nft: [], prints: [] };
+  for (let offset = 0; ; offset += config.pageLimit) {
+    const resp = await fetch(`${config.apiUrl}/extended/v1/tx/events?tx_id=${txid}&limit=${config.pageLimit}&offset=${offset}`);
+    if (!resp.ok) throw new Error(`events for ${txid} returned ${resp.status}`);
+    const json = await resp.json() as {
+      events: Array<{
+        event_type: string;
+        contract_log?: { contract_id: string; topic: string; value: { hex: string } };
+        asset?: {
+          asset_event_type: "mint" | "transfer" | "burn";
+          asset_id: string;
+          recipient?: string;
+          value?: { hex: string };
+        };
+      }>;
+    };
+
+    for (const e of json.events) {
+      if (e.event_type === "smart_contract_log" && e.contract_log?.topic === "print") {
+        events.prints.push({ contractId: e.contract_log.contract_id, valueHex: e.contract_log.value.hex });
+        continue;
+      }
+      if (e.event_type !== "non_fungible_token_asset" || !e.asset?.value) continue;
+      events.nft.push({
+        assetId:   e.asset.asset_id,
+        type:      e.asset.asset_event_type,
+        valueHex:  e.asset.value.hex,
+        recipient: e.asset.asset_event_type === "burn" ? null : e.asset.recipient ?? null,
+      });
+    }
+
+    if (json.events.length < config.pageLimit) return events;
+  }
+}
+
+/** Read a bond's current state from bond-factory get-bond. Null if it does not exist. */
+export async function readBond(bondId: number): Promise<BondState | null> {
+  const bondFactory = new BondFactory(config.contracts.bondFactory);
+  const { contractAddress, contractName, functionName, functionArgs, decode } = bondFactory.getBond(bondId);
+  const result = await callReadOnlyFunction({
+    network: getNetwork(),
+    contractAddress,
+    contractName,
+    functionName,
+    functionArgs,
+    senderAddress: contractAddress,
+  });
+
+  try {
+    const { tokenId, ...state } = decode(result);
+    return { bondId: Number(tokenId), ...state };
+  } catch (err) {
+    if (err instanceof ContractError && err.name === "BondNotFound") return null;
+    throw err;
+  }
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { formatSats } from "../lib/format";
+import { curveTermStructure } from "../lib/yieldCurve";
+import type { CurvePoint } from "../lib/yieldCurve";
+import {
+  ANNUAL,
+  CONTINUOUS,
+  PER_CYCLE,
+  bondRisk,
+  flatCurve,
+  stackingApy,
+  withCompounding,
+} from "../lib/valuation";
+import type { Compounding, DayCount, RiskMetrics } from "../lib/valuation";
+
+const COMPOUNDING_OPTIONS: { label: string; compounding: Compounding }[] = [
+  { label: "Annual", compounding: ANNUAL },
+  { label: "Per cycle", compounding: PER_CYCLE },
+  { label: "Continuous", compounding: CONTINUOUS },
+];
+
+const DAY_COUNT_OPTIONS: DayCount[] = ["ACT/365", "ACT/360"];
+
+type CurveSource = "market" | "oracle";
+
+function OptionPicker<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: T[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <span className="text-text-muted mr-1">{label}</span>
+      {options.map((option) => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(option)}
+          className={`rounded border px-2 py-0.5 transition-colors ${
+            value === option
+              ? "border-brand bg-brand-muted text-brand"
+              : "border-border text-text-muted hover:border-muted-foreground"
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function sats(value: number): string {
+  return `${formatSats(BigInt(Math.round(value)))} sBTC`;
+}
+
+const ROWS: { label: string; format: (m: RiskMetrics) => string }[] = [
+  { label: "Present value", format: (m) => sats(m.valueSats) },
+  { label: "Macaulay duration", format: (m) => `${m.macaulayDuration.toFixed(3)} yr` },
+  { label: "Modified duration", format: (m) => m.modifiedDuration.toFixed(3) },
+  { label: "Convexity", format: (m) => m.convexity.toFixed(3) },
+  { label: "DV01", format: (m) => sats(m.dv01Sats) },
+];
+
+interface BondRiskMetricsProps {
+  sbtcAmount: bigint;
+  maturityBlock: number;
+  currentBlock: number;
+  /** Yield deposited for the YT and not yet collected. */
+  uncollectedSats: bigint;
+  /** Oracle stacking APR, in basis points. */
+  aprBps: number;
+  /** From useYieldCurve; the oracle APR is used flat when it is empty. */
+  marketCurve: CurvePoint[];
+}
+
+/** PT and YT value, duration, convexity and DV01 on the market or oracle curve. */
+export function BondRiskMetrics({
+  sbtcAmount,
+  maturityBlock,
+  currentBlock,
+  uncollectedSats,
+  aprBps,
+  marketCurve,
+}: BondRiskMetricsProps) {
+  const [source, setSource] = useState<CurveSource>("market");
+  const [compoundingLabel, setCompoundingLabel] = useState("Annual");
+  const [dayCount, setDayCount] = useState<DayCount>("ACT/365");
+
+  const apr = aprBps / 10_000;
+  const market = curveTermStructure(marketCurve);
+  const usingMarket = source === "market" && market !== null;
+  const compounding = COMPOUNDING_OPTIONS.find((o) => o.label === compoundingLabel)!.compounding;
+  const curve = withCompounding(usingMarket ? market : flatCurve(apr), compounding);
+  const risk = bondRisk(sbtcAmount, maturityBlock, currentBlock, uncollectedSats, apr, curve, dayCount);
+  const quoted = marketCurve.filter((p) => p.source === "market");
+
+  return (
+    <Card className="bg-surface border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-xs text-text-muted font-normal uppercase tracking-wider">
+          Risk Metrics
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+          {market !== null && (
+            <OptionPicker<CurveSource>
+              label="Curve"
+              options={["market", "oracle"]}
+              value={source}
+              onChange={setSource}
+            />
+          )}
+          <OptionPicker
+            label="Compounding"
+            options={COMPOUNDING_OPTIONS.map((o) => o.label)}
+            value={compoundingLabel}
+            onChange={setCompoundingLabel}
+          />
+          <OptionPicker label="Day count" options={DAY_COUNT_OPTIONS} value={dayCount} onChange={setDayCount} />
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-text-faint">
+              <th className="text-left font-normal pb-2" />
+              <th className="text-right font-normal pb-2">PT</th>
+              <th className="text-right font-normal pb-2">YT</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map((row) => (
+              <tr key={row.label}>
+                <td className="text-text-muted py-1">{row.label}</td>
+                <td className="text-right font-mono py-1">{row.format(risk.pt)}</td>
+                <td className="text-right font-mono py-1">{row.format(risk.yt)}</td>
+              </tr>
+            ))}
+            <tr>
+              <td className="text-text-muted py-1">Stacking APR +1 bp</td>
+              <td className="text-right font-mono py-1 text-text-faint">—</td>
+              <td className="text-right font-mono py-1">+{sats(risk.yt.aprDv01Sats)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <p className="text-xs text-text-faint">
+          {usingMarket
+            ? `Discounted on the PT market curve (${quoted.length} quoted maturit${quoted.length === 1 ? "y" : "ies"}, interpolated between them).`
+            : `Discounted at the oracle's ${(apr * 100).toFixed(2)}% stacking APR at every maturity.`}{" "}
+          YT yield is paid each PoX cycle at the oracle APR, {(stackingApy(apr) * 100).toFixed(2)}% a year
+          once compounded. DV01 is the value lost if rates rise one basis point.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { Link } from "@tanstack/react-router";
 import type { Bond } from "@satcurve/types";
+import type { TrackedTx } from "../lib/transactions";
 import { Card, CardContent } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { BlockTooltip } from "./BlockTooltip";
@@ -24,9 +25,11 @@ const STATUS_BADGE: Record<BondStatus, { label: string; className: string }> = {
 interface BondRowProps {
   bond: Bond;
   currentBlock: number;
+  /** Unconfirmed transactions acting on this bond. */
+  pending?: TrackedTx[];
 }
 
-export function BondRow({ bond, currentBlock }: BondRowProps) {
+export function BondRow({ bond, currentBlock, pending = [] }: BondRowProps) {
   const status = getBondStatus(bond, currentBlock);
   const { label, className } = STATUS_BADGE[status];
   const claimable = bond.yieldDeposited - bond.yieldWithdrawn;
@@ -42,6 +45,15 @@ export function BondRow({ bond, currentBlock }: BondRowProps) {
               Bond #{bondIdStr.padStart(3, "0")}
             </span>
             <div className="flex items-center gap-2">
+              {pending.length > 0 && (
+                <span
+                  className="flex items-center gap-1.5 text-xs text-brand"
+                  title={pending.map((t) => t.functionName).join(", ")}
+                >
+                  <span className="h-1.5 w-1.5 rounded-full bg-brand animate-pulse" />
+                  Pending
+                </span>
+              )}
               {/* PT / YT ownership chips */}
               {bond.holdsPt && (
                 <span className="text-xs font-mono px-1.5 py-0.5 rounded bg-brand/10 text-brand border border-brand/30">
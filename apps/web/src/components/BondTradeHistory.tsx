@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { useTrades } from "../hooks/useTrades";
+import { TradeTable } from "./TradeTable";
+import { CandleTable } from "./CandleTable";
+import { ImpliedRateChart } from "./ImpliedRateChart";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Skeleton } from "./ui/skeleton";
+import { buildCandles, impliedRateSeries } from "../lib/trades";
+import type { TokenType } from "@satcurve/types";
+
+interface BondTradeHistoryProps {
+  bondId: number;
+}
+
+/** A bond's executed trades: PT implied rate over time, daily OHLC per token, and the full list. */
+export function BondTradeHistory({ bondId }: BondTradeHistoryProps) {
+  const { trades, loading, error, available } = useTrades(bondId);
+
+  const ratePoints = useMemo(() => impliedRateSeries(trades), [trades]);
+  const candlesByToken = useMemo(
+    () => (["PT", "YT"] as TokenType[]).map((t) => ({
+      tokenType: t,
+      candles: buildCandles(trades.filter((trade) => trade.tokenType === t)),
+    })).filter((c) => c.candles.length > 0),
+    [trades],
+  );
+
+  if (!available) return null;
+
+  return (
+    <Card className="bg-surface border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-xs text-text-muted font-normal uppercase tracking-wider">
+          Trade History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-6">
+        {loading ? (
+          <Skeleton className="h-24 w-full bg-secondary" />
+        ) : error ? (
+          <p className="text-error text-sm">{error}</p>
+        ) : trades.length === 0 ? (
+          <p className="text-text-muted text-sm">This bond's PT and YT have not traded on the market yet.</p>
+        ) : (
+          <>
+            {ratePoints.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs text-text-faint">PT implied APR at each trade</p>
+                <ImpliedRateChart points={ratePoints} />
+              </div>
+            )}
+            {candlesByToken.map(({ tokenType, candles }) => (
+              <div key={tokenType} className="space-y-2">
+                <p className="text-xs text-text-faint">{tokenType} daily price (sBTC)</p>
+                <CandleTable candles={candles} />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <p className="text-xs text-text-faint">All trades</p>
+              <TradeTable trades={trades} />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { TxButton } from "./TxButton";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "./ui/dialog";
+import { formatSats } from "../lib/format";
+import type { ListingCost } from "../lib/orderBook";
+import type { FeeConfig, TokenType } from "@satcurve/types";
+
+/** The listing being bought, priced with the current trade fee. */
+export interface BuyOrder extends ListingCost {
+  tokenType: TokenType;
+  bondId: number;
+}
+
+interface BuyListingDialogProps {
+  /** null keeps the dialog closed. */
+  order: BuyOrder | null;
+  /** null while the fee is still loading; buying waits for it. */
+  feeConfig: FeeConfig | null;
+  pending: boolean;
+  onClose: () => void;
+  /** Sign buy-pt / buy-yt with the order's total as max-price-sats. */
+  onConfirm: (order: BuyOrder) => void;
+}
+
+/** Breaks a listing's cost down into price, trade fee and total before the buyer signs. */
+export function BuyListingDialog({ order, feeConfig, pending, onClose, onConfirm }: BuyListingDialogProps) {
+  return (
+    <Dialog open={order !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-surface border-border text-text">
+        {order && (
+          <>
+            <DialogHeader>
+              <DialogTitle>
+                Buy {order.tokenType} · Bond #{String(order.bondId).padStart(3, "0")}
+              </DialogTitle>
+              <DialogDescription className="text-text-muted">
+                The seller receives the listing price; the trade fee goes to the SatCurve treasury.
+                If the listing costs more by the time your transaction confirms, it fails and you pay nothing.
+              </DialogDescription>
+            </DialogHeader>
+            <dl className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-text-muted">Price</dt>
+                <dd className="font-mono">{formatSats(order.priceSats)} sBTC</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-text-muted">
+                  Trade fee{feeConfig && ` (${(feeConfig.feeBps / 100).toFixed(2)}%)`}
+                </dt>
+                <dd className="font-mono">{feeConfig ? `${formatSats(order.feeSats)} sBTC` : "…"}</dd>
+              </div>
+              <div className="flex justify-between border-t border-border pt-2 font-semibold">
+                <dt>Total</dt>
+                <dd className="font-mono">{feeConfig ? `${formatSats(order.totalSats)} sBTC` : "…"}</dd>
+              </div>
+            </dl>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onClose}
+                className="border-border text-text hover:bg-secondary"
+              >
+                Cancel
+              </Button>
+              <TxButton
+                size="sm"
+                pending={pending}
+                disabled={pending || !feeConfig}
+                onClick={() => onConfirm(order)}
+              >
+                Confirm Buy
+              </TxButton>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
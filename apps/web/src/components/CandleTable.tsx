@@ -0,0 +1,41 @@
+import { formatSats, formatDate } from "../lib/format";
+import type { Candle } from "../lib/trades";
+
+interface CandleTableProps {
+  /** Oldest first, as buildCandles returns them; shown newest first. */
+  candles: Candle[];
+}
+
+/** Daily open / high / low / close of one bond's PT or YT trades, in sBTC. */
+export function CandleTable({ candles }: CandleTableProps) {
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border bg-surface">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs uppercase tracking-wider text-text-muted border-b border-border">
+            <th className="px-4 py-2 text-left font-medium">Day</th>
+            <th className="px-4 py-2 text-right font-medium">Open</th>
+            <th className="px-4 py-2 text-right font-medium">High</th>
+            <th className="px-4 py-2 text-right font-medium">Low</th>
+            <th className="px-4 py-2 text-right font-medium">Close</th>
+            <th className="px-4 py-2 text-right font-medium">Volume</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {[...candles].reverse().map((c) => (
+            <tr key={c.startBlock} className="border-b border-border last:border-0">
+              <td className="px-4 py-2 font-sans text-text-muted">{formatDate(new Date(c.startTime * 1000))}</td>
+              <td className="px-4 py-2 text-right">{formatSats(c.open)}</td>
+              <td className="px-4 py-2 text-right text-success">{formatSats(c.high)}</td>
+              <td className="px-4 py-2 text-right text-error">{formatSats(c.low)}</td>
+              <td className="px-4 py-2 text-right font-semibold">{formatSats(c.close)}</td>
+              <td className="px-4 py-2 text-right text-text-muted">
+                {formatSats(c.volumeSats)} ({c.trades})
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
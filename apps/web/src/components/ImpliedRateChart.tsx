@@ -0,0 +1,63 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { formatDate } from "../lib/format";
+import type { RatePoint } from "../lib/trades";
+
+interface ImpliedRateChartProps {
+  /** Oldest first, as impliedRateSeries returns them. */
+  points: RatePoint[];
+}
+
+/** Implied APR of each PT trade over time, from its price via computeImpliedRate. */
+export function ImpliedRateChart({ points }: ImpliedRateChartProps) {
+  const data = points.map((p) => ({
+    time: p.blockTime * 1000,
+    apr: Number((p.rate * 100).toFixed(2)),
+    bond: `#${String(p.bondId).padStart(3, "0")}`,
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(t: number) => formatDate(new Date(t))}
+          stroke="#8c8c8c"
+          tick={{ fontSize: 12 }}
+        />
+        <YAxis stroke="#8c8c8c" unit="%" tick={{ fontSize: 12 }} />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: "#121212",
+            border: "1px solid #262626",
+            borderRadius: "0.5rem",
+          }}
+          labelStyle={{ color: "#fafafa" }}
+          itemStyle={{ color: "#f7931a" }}
+          labelFormatter={(t: number) => formatDate(new Date(t))}
+          formatter={(apr: number, _name, item) => [`${apr}% (bond ${item.payload.bond})`, "Implied APR"]}
+        />
+        <Line
+          type="monotone"
+          dataKey="apr"
+          stroke="#f7931a"
+          strokeWidth={2}
+          dot={{ fill: "#f7931a", r: 3 }}
+          activeDot={{ r: 5, fill: "#f7931a" }}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { TxButton } from "./TxButton";
+import { parseSbtcInput } from "../lib/format";
+
+interface ListingPriceEditorProps {
+  /** True while the seller's update-pt-price / update-yt-price is unconfirmed. */
+  pending: boolean;
+  onSave: (priceSats: bigint) => void;
+}
+
+/** "Edit price" link that opens an inline input for repricing a live listing in place. */
+export function ListingPriceEditor({ pending, onSave }: ListingPriceEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState("");
+  const price = parseSbtcInput(value);
+
+  if (!editing && !pending) {
+    return (
+      <button onClick={() => setEditing(true)} className="text-xs text-text-muted underline hover:text-text">
+        Edit price
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex gap-2 items-center">
+      <input
+        type="text"
+        placeholder="New price in sBTC"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="w-36 rounded border border-border bg-secondary px-2 py-1 text-sm text-text placeholder:text-text-faint focus:border-brand focus:outline-none"
+      />
+      <TxButton
+        variant="outline"
+        size="sm"
+        pending={pending}
+        disabled={!price}
+        onClick={() => {
+          if (!price) return;
+          onSave(price);
+          setEditing(false);
+          setValue("");
+        }}
+        className="border-border text-text hover:bg-secondary"
+      >
+        Save
+      </TxButton>
+      {!pending && (
+        <button onClick={() => setEditing(false)} className="text-xs text-text-faint hover:text-text">
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+}
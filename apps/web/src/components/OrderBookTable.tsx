@@ -0,0 +1,48 @@
+import type { MaturityBucket } from "../lib/orderBook";
+import { formatSats } from "../lib/format";
+
+interface OrderBookTableProps {
+  buckets: MaturityBucket[];
+}
+
+function price(value: bigint | null) {
+  return value === null ? <span className="text-text-faint">—</span> : formatSats(value);
+}
+
+/** Best bid / ask, spread and depth per maturity bucket. Prices are per 1 sBTC of face value. */
+export function OrderBookTable({ buckets }: OrderBookTableProps) {
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border bg-surface">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs uppercase tracking-wider text-text-muted border-b border-border">
+            <th className="px-4 py-2 text-left font-medium">Matures in</th>
+            <th className="px-4 py-2 text-right font-medium">Bid depth</th>
+            <th className="px-4 py-2 text-right font-medium">Best bid</th>
+            <th className="px-4 py-2 text-right font-medium">Best ask</th>
+            <th className="px-4 py-2 text-right font-medium">Ask depth</th>
+            <th className="px-4 py-2 text-right font-medium">Spread</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {buckets.map((b) => (
+            <tr key={b.index} className="border-b border-border last:border-0">
+              <td className="px-4 py-2 font-sans">{b.label}</td>
+              <td className="px-4 py-2 text-right text-text-muted">
+                {b.bids.length > 0 ? `${formatSats(b.bidDepthSats)} (${b.bids.length})` : "—"}
+              </td>
+              <td className="px-4 py-2 text-right text-success">{price(b.bestBid)}</td>
+              <td className="px-4 py-2 text-right text-brand">{price(b.bestAsk)}</td>
+              <td className="px-4 py-2 text-right text-text-muted">
+                {b.asks.length > 0 ? `${formatSats(b.askDepthSats)} (${b.asks.length})` : "—"}
+              </td>
+              <td className={`px-4 py-2 text-right ${b.spread !== null && b.spread < 0n ? "text-error" : ""}`}>
+                {price(b.spread)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Input } from "./ui/input";
+import { AmountInput } from "./AmountInput";
+import { TxButton } from "./TxButton";
+import { BUCKET_BLOCKS, MAX_TERM_BLOCKS, SATS_PER_SBTC } from "../lib/orderBook";
+import { formatSats, parseSbtcInput } from "../lib/format";
+
+// One option per 3-month maturity window, up to the 2-year maximum term.
+const BUCKET_OPTIONS = Array.from(
+  { length: Math.floor(MAX_TERM_BLOCKS / BUCKET_BLOCKS) + 1 },
+  (_, i) => ({ index: i, label: `${i * 3}–${(i + 1) * 3}M` }),
+);
+
+interface PlaceBidFormProps {
+  currentBlock: number;
+  sbtcBalance: bigint | null;
+  pending: boolean;
+  onSubmit: (minMaturity: number, maxMaturity: number, pricePerSbtc: bigint, amountSats: bigint) => void;
+}
+
+export function PlaceBidForm({ currentBlock, sbtcBalance, pending, onSubmit }: PlaceBidFormProps) {
+  const [bucket, setBucket] = useState(0);
+  const [price, setPrice] = useState("");
+  const [amount, setAmount] = useState("");
+
+  const pricePerSbtc = parseSbtcInput(price);
+  const amountSats = parseSbtcInput(amount);
+
+  const priceError =
+    price && (pricePerSbtc === null || pricePerSbtc <= 0n)
+      ? "Price must be greater than 0"
+      : pricePerSbtc !== null && pricePerSbtc > SATS_PER_SBTC
+      ? "A PT never pays out more than its face value (1 sBTC)"
+      : undefined;
+  const amountError =
+    amount && (amountSats === null || amountSats <= 0n)
+      ? "Amount must be greater than 0"
+      : amountSats !== null && sbtcBalance !== null && amountSats > sbtcBalance
+      ? `Insufficient sBTC — you have ${formatSats(sbtcBalance)} sBTC`
+      : undefined;
+
+  const canSubmit =
+    pricePerSbtc !== null && pricePerSbtc > 0n && amountSats !== null && amountSats > 0n &&
+    !priceError && !amountError;
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    const minMaturity = currentBlock + bucket * BUCKET_BLOCKS;
+    onSubmit(minMaturity, minMaturity + BUCKET_BLOCKS - 1, pricePerSbtc!, amountSats!);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-xs text-text-muted uppercase tracking-wider">Matures in</p>
+        <div className="flex gap-2 flex-wrap">
+          {BUCKET_OPTIONS.map((opt) => (
+            <button
+              key={opt.index}
+              onClick={() => setBucket(opt.index)}
+              disabled={pending}
+              className={`px-3 py-1 rounded-md text-sm border transition-colors ${
+                bucket === opt.index
+                  ? "border-brand text-brand bg-brand/10"
+                  : "border-border text-text-muted hover:text-text"
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs text-text-muted uppercase tracking-wider">Price per 1 sBTC of face value</p>
+        <Input
+          type="text"
+          inputMode="decimal"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          disabled={pending}
+          placeholder="0.95"
+          className="font-mono bg-secondary border-border text-text"
+        />
+        {priceError && <p className="text-error text-xs pl-1">{priceError}</p>}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs text-text-muted uppercase tracking-wider">sBTC to escrow</p>
+        <AmountInput
+          value={amount}
+          onChange={setAmount}
+          maxBalance={sbtcBalance ?? undefined}
+          error={amountError}
+          disabled={pending}
+        />
+      </div>
+
+      <TxButton
+        onClick={handleSubmit}
+        disabled={!canSubmit || pending}
+        pending={pending}
+        className="w-full bg-brand text-primary-foreground font-semibold hover:bg-brand-hover"
+      >
+        Place PT bid
+      </TxButton>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Link } from "@tanstack/react-router";
 import { WalletConnectButton } from "./WalletConnectButton";
+import { TransactionsDrawer } from "./TransactionsDrawer";
 import type { ReactNode } from "react";
 
 const STACKS_NETWORK = import.meta.env.VITE_STACKS_NETWORK ?? "devnet";
@@ -35,7 +36,10 @@ export function RootLayout({ children }: { children: ReactNode }) {
             </Link>
           ))}
         </div>
-        <WalletConnectButton />
+        <div className="flex items-center gap-3">
+          <TransactionsDrawer />
+          <WalletConnectButton />
+        </div>
       </nav>
       <main className="max-w-5xl mx-auto px-6 py-10">{children}</main>
     </div>
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { errorMessage } from "@satcurve/contracts";
+import { TxButton } from "./TxButton";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { formatSats, formatBlockNumber } from "../lib/format";
+import {
+  ONE,
+  blocksLeft,
+  fillRateBps,
+  impliedRateBps,
+  lpShareValue,
+  maxSbtcIn,
+  minSbtcOut,
+  priceImpactBps,
+  ptProportion,
+  quoteBuyPt,
+  quoteSellPt,
+  spotPrice,
+} from "../lib/amm";
+import type { Quote } from "../lib/amm";
+import type { AmmPoolState } from "../hooks/useAmmPools";
+import type { Bond } from "@satcurve/types";
+
+type Side = "sell" | "buy";
+
+const SLIPPAGE_OPTIONS = [50n, 100n, 200n];
+
+// pt-amm.clar codes for the quote failures, so the UI shows the contract's own messages.
+const QUOTE_ERROR_CODES: Record<Extract<Quote, { ok: false }>["error"], bigint> = {
+  "insufficient-liquidity": 507n,
+  "zero-amount": 511n,
+};
+
+function formatBps(bps: bigint): string {
+  return `${(Number(bps) / 100).toFixed(2)}%`;
+}
+
+interface SwapPanelProps {
+  pools: AmmPoolState[];
+  /** The connected wallet's bonds; only held PTs can be sold. */
+  bonds: Bond[];
+  sbtcBalance: bigint | null;
+  currentBlock: number;
+  isConnected: boolean;
+  pending: boolean;
+  onSell: (poolId: number, bondId: number, minSbtcOut: bigint) => void;
+  onBuy: (poolId: number, bondId: number, maxSbtcIn: bigint) => void;
+}
+
+export function SwapPanel({
+  pools, bonds, sbtcBalance, currentBlock, isConnected, pending, onSell, onBuy,
+}: SwapPanelProps) {
+  const [poolId, setPoolId] = useState(pools[0]?.poolId ?? 0);
+  const [side, setSide] = useState<Side>("sell");
+  const [bondId, setBondId] = useState<number | null>(null);
+  const [slippageBps, setSlippageBps] = useState(SLIPPAGE_OPTIONS[0]!);
+
+  const pool = pools.find((p) => p.poolId === poolId) ?? pools[0];
+  if (!pool) return <p className="text-text-muted text-sm">No AMM pools yet.</p>;
+
+  const remaining = blocksLeft(pool.maturityBlock, currentBlock);
+  const spot = spotPrice(pool, currentBlock);
+  const rate = impliedRateBps(pool.anchorRateBps, ptProportion(pool.ptReserve, pool.sbtcReserve));
+
+  // PTs this side of the trade can pick from.
+  const choices = side === "sell"
+    ? bonds
+        .filter((b) => b.holdsPt && b.maturityBlock >= pool.minMaturity && b.maturityBlock <= pool.maturityBlock)
+        .map((b) => ({ bondId: Number(b.tokenId), face: b.sbtcAmount, maturityBlock: b.maturityBlock }))
+    : pool.pts.map((pt) => ({ bondId: pt.bondId, face: pt.sbtcAmount, maturityBlock: pt.maturityBlock }));
+  const choice = choices.find((c) => c.bondId === bondId) ?? choices[0];
+
+  const quote = choice
+    ? side === "sell"
+      ? quoteSellPt(pool, choice.face, choice.maturityBlock, currentBlock)
+      : quoteBuyPt(pool, choice.face, choice.maturityBlock, currentBlock)
+    : null;
+  const limit = quote?.ok
+    ? side === "sell" ? minSbtcOut(quote.sbtc, slippageBps) : maxSbtcIn(quote.sbtc, slippageBps)
+    : null;
+  const insufficient = side === "buy" && limit !== null && sbtcBalance !== null && limit > sbtcBalance;
+
+  function handleSwap() {
+    if (!choice || limit === null) return;
+    if (side === "sell") onSell(pool!.poolId, choice.bondId, limit);
+    else onBuy(pool!.poolId, choice.bondId, limit);
+  }
+
+  return (
+    <div className="space-y-6">
+      {pools.length > 1 && (
+        <div className="flex gap-2 flex-wrap">
+          {pools.map((p) => (
+            <button
+              key={p.poolId}
+              onClick={() => { setPoolId(p.poolId); setBondId(null); }}
+              className={`px-3 py-1 rounded-md text-sm border transition-colors ${
+                p.poolId === pool.poolId
+                  ? "border-brand text-brand bg-brand/10"
+                  : "border-border text-text-muted hover:text-text"
+              }`}
+            >
+              Pool #{p.poolId} · matures {formatBlockNumber(p.maturityBlock)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-4">
+        <div>
+          <p className="text-xs text-text-muted uppercase tracking-wider">PT price</p>
+          <p className="font-mono text-sm font-semibold">{formatSats(spot)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-muted uppercase tracking-wider">Implied rate</p>
+          <p className="font-mono text-sm font-semibold text-brand">{formatBps(rate)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-muted uppercase tracking-wider">sBTC reserve</p>
+          <p className="font-mono text-sm">{formatSats(pool.sbtcReserve)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-muted uppercase tracking-wider">PT reserve (face)</p>
+          <p className="font-mono text-sm">{formatSats(pool.ptReserve)}</p>
+        </div>
+      </div>
+      <p className="text-xs text-text-faint">
+        Takes PTs maturing between blocks {formatBlockNumber(pool.minMaturity)} and{" "}
+        {formatBlockNumber(pool.maturityBlock)}. The price rises to 1 sBTC per 1 sBTC of face value
+        as the pool approaches maturity.
+      </p>
+
+      <Card className="bg-surface border-border">
+        <CardHeader>
+          <CardTitle className="text-base">Swap</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            {(["sell", "buy"] as const).map((s) => (
+              <button
+                key={s}
+                onClick={() => { setSide(s); setBondId(null); }}
+                disabled={pending}
+                className={`px-3 py-1 rounded-md text-sm border transition-colors ${
+                  side === s
+                    ? "border-brand text-brand bg-brand/10"
+                    : "border-border text-text-muted hover:text-text"
+                }`}
+              >
+                {s === "sell" ? "Sell PT" : "Buy PT"}
+              </button>
+            ))}
+          </div>
+
+          {choices.length === 0 ? (
+            <p className="text-text-muted text-sm">
+              {side === "sell"
+                ? "You hold no PT that this pool accepts."
+                : "The pool holds no PT right now."}
+            </p>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-xs text-text-muted uppercase tracking-wider">PT</p>
+              <div className="flex gap-2 flex-wrap">
+                {choices.map((c) => (
+                  <button
+                    key={c.bondId}
+                    onClick={() => setBondId(c.bondId)}
+                    disabled={pending}
+                    className={`px-3 py-1 rounded-md text-sm border font-mono transition-colors ${
+                      c.bondId === choice?.bondId
+                        ? "border-brand text-brand bg-brand/10"
+                        : "border-border text-text-muted hover:text-text"
+                    }`}
+                  >
+                    #{String(c.bondId).padStart(3, "0")} · {formatSats(c.face)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <p className="text-xs text-text-muted uppercase tracking-wider">Slippage tolerance</p>
+            <div className="flex gap-2">
+              {SLIPPAGE_OPTIONS.map((bps) => (
+                <button
+                  key={String(bps)}
+                  onClick={() => setSlippageBps(bps)}
+                  disabled={pending}
+                  className={`px-3 py-1 rounded-md text-sm border transition-colors ${
+                    slippageBps === bps
+                      ? "border-brand text-brand bg-brand/10"
+                      : "border-border text-text-muted hover:text-text"
+                  }`}
+                >
+                  {formatBps(bps)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {choice && quote && (
+            quote.ok ? (
+              <dl className="grid grid-cols-2 gap-y-1 text-sm">
+                <dt className="text-text-muted">{side === "sell" ? "You receive" : "You pay"}</dt>
+                <dd className="text-right font-mono font-semibold">{formatSats(quote.sbtc)} sBTC</dd>
+                <dt className="text-text-muted">{side === "sell" ? "Minimum received" : "Maximum paid"}</dt>
+                <dd className="text-right font-mono">{formatSats(limit!)} sBTC</dd>
+                <dt className="text-text-muted">Rate locked in</dt>
+                <dd className="text-right font-mono">
+                  {formatBps(fillRateBps(quote.sbtc, choice.face, blocksLeft(choice.maturityBlock, currentBlock)))}
+                </dd>
+                <dt className="text-text-muted">Price impact incl. fee</dt>
+                <dd className="text-right font-mono">{formatBps(priceImpactBps(pool, choice.face, choice.maturityBlock, quote.sbtc, currentBlock))}</dd>
+              </dl>
+            ) : (
+              <p className="text-error text-xs">{errorMessage("pt-amm", QUOTE_ERROR_CODES[quote.error])}</p>
+            )
+          )}
+          {insufficient && (
+            <p className="text-error text-xs">Insufficient sBTC — you have {formatSats(sbtcBalance!)} sBTC</p>
+          )}
+
+          <TxButton
+            onClick={handleSwap}
+            disabled={!isConnected || limit === null || insufficient || remaining === 0n || pending}
+            pending={pending}
+            className="w-full bg-brand text-primary-foreground font-semibold hover:bg-brand-hover"
+          >
+            {!isConnected ? "Connect a wallet to swap" : side === "sell" ? "Sell PT" : "Buy PT"}
+          </TxButton>
+        </CardContent>
+      </Card>
+
+      {pool.lpShares > 0n && (
+        <p className="text-xs text-text-muted">
+          Your liquidity: {formatSats(lpShareValue(pool, pool.lpShares, currentBlock))} sBTC
+          ({((Number(pool.lpShares) / Number(pool.totalShares)) * 100).toFixed(2)}% of the pool, PT marked at{" "}
+          {formatSats(spot)} per {formatSats(ONE)} face)
+        </p>
+      )}
+    </div>
+  );
+}
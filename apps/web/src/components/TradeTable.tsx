@@ -0,0 +1,62 @@
+import { Link } from "@tanstack/react-router";
+import { formatSats, formatRelative, shortAddress } from "../lib/format";
+import { tradeImpliedRate } from "../lib/trades";
+import type { Trade } from "../lib/trades";
+
+interface TradeTableProps {
+  /** Newest first. */
+  trades: Trade[];
+  /** Add a bond column, for the market-wide tape. */
+  showBond?: boolean;
+}
+
+/** Executed trades with their price, fee and, for PT, the implied yield at the time. */
+export function TradeTable({ trades, showBond = false }: TradeTableProps) {
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border bg-surface">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs uppercase tracking-wider text-text-muted border-b border-border">
+            <th className="px-4 py-2 text-left font-medium">When</th>
+            {showBond && <th className="px-4 py-2 text-left font-medium">Bond</th>}
+            <th className="px-4 py-2 text-left font-medium">Token</th>
+            <th className="px-4 py-2 text-right font-medium">Price</th>
+            <th className="px-4 py-2 text-right font-medium">Fee</th>
+            <th className="px-4 py-2 text-right font-medium">Implied APR</th>
+            <th className="px-4 py-2 text-left font-medium">Seller → Buyer</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {trades.map((t) => {
+            const rate = tradeImpliedRate(t);
+            return (
+              <tr key={t.txid} className="border-b border-border last:border-0">
+                <td className="px-4 py-2 font-sans text-text-muted">{formatRelative(new Date(t.blockTime * 1000))}</td>
+                {showBond && (
+                  <td className="px-4 py-2 font-sans">
+                    <Link
+                      to="/bonds/$bondId"
+                      params={{ bondId: String(t.bondId) }}
+                      className="hover:text-brand transition-colors"
+                    >
+                      #{String(t.bondId).padStart(3, "0")}
+                    </Link>
+                  </td>
+                )}
+                <td className={`px-4 py-2 font-sans ${t.tokenType === "PT" ? "text-brand" : "text-success"}`}>
+                  {t.tokenType}
+                </td>
+                <td className="px-4 py-2 text-right">{formatSats(t.priceSats)}</td>
+                <td className="px-4 py-2 text-right text-text-muted">{t.feeSats > 0n ? formatSats(t.feeSats) : "—"}</td>
+                <td className="px-4 py-2 text-right">{rate !== null ? `${(rate * 100).toFixed(2)}%` : "—"}</td>
+                <td className="px-4 py-2 text-xs text-text-faint">
+                  {shortAddress(t.seller)} → {shortAddress(t.buyer)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { Link } from "@tanstack/react-router";
+import { useTransactions } from "../hooks/useTransactions";
+import type { TrackedTx } from "../lib/transactions";
+import { Button } from "./ui/button";
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "./ui/sheet";
+
+const STATUS_STYLE: Record<TrackedTx["status"], { label: string; className: string }> = {
+  pending: { label: "Pending",   className: "text-brand" },
+  success: { label: "Confirmed", className: "text-success" },
+  failed:  { label: "Failed",    className: "text-error" },
+};
+
+function TxItem({ tx }: { tx: TrackedTx }) {
+  const { label, className } = STATUS_STYLE[tx.status];
+  return (
+    <li className="rounded-md border border-border p-3 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-mono">{tx.functionName}</span>
+        <span className={`text-xs font-semibold flex items-center gap-1.5 ${className}`}>
+          {tx.status === "pending" && <span className="h-1.5 w-1.5 rounded-full bg-brand animate-pulse" />}
+          {label}
+        </span>
+      </div>
+      <p className="text-xs text-text-muted font-mono">
+        {tx.txid.slice(0, 10)}…{tx.txid.slice(-6)} · {new Date(tx.submittedAt).toLocaleTimeString()}
+      </p>
+      {tx.bondId !== null && (
+        <SheetClose asChild>
+          <Link
+            to="/bonds/$bondId"
+            params={{ bondId: tx.bondId.toString() }}
+            className="text-xs text-text-muted underline hover:text-text"
+          >
+            Bond #{tx.bondId.toString().padStart(3, "0")}
+          </Link>
+        </SheetClose>
+      )}
+      {tx.error && <p className="text-xs text-error">{tx.error}</p>}
+    </li>
+  );
+}
+
+export function TransactionsDrawer() {
+  const { transactions, clearSettled } = useTransactions();
+  const pending = transactions.filter((t) => t.status === "pending");
+  const settled = transactions.filter((t) => t.status !== "pending");
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          Activity
+          {pending.length > 0 && (
+            <span className="rounded-full bg-brand px-1.5 text-[10px] font-semibold text-primary-foreground">
+              {pending.length}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Transactions</SheetTitle>
+          <SheetDescription>
+            Submitted from this browser. Data refreshes once a transaction confirms.
+          </SheetDescription>
+        </SheetHeader>
+
+        <section className="space-y-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-text-muted">
+            Pending
+          </h3>
+          {pending.length === 0 ? (
+            <p className="text-sm text-text-muted">Nothing in flight.</p>
+          ) : (
+            <ul className="space-y-2">
+              {pending.map((tx) => <TxItem key={tx.txid} tx={tx} />)}
+            </ul>
+          )}
+        </section>
+
+        {settled.length > 0 && (
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-text-muted">
+                Recent
+              </h3>
+              <button onClick={clearSettled} className="text-xs text-text-muted underline hover:text-text">
+                Clear
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {settled.map((tx) => <TxItem key={tx.txid} tx={tx} />)}
+            </ul>
+          </section>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import {
+  PtVault,
+  YtVault,
+  harvestPostConditions,
+  settlePostConditions,
+  unwrapPostConditions,
+  wrapPostConditions,
+} from "@satcurve/contracts";
+import type { ContractCall } from "@satcurve/contracts";
+import type { Bond, TokenType } from "@satcurve/types";
+import { TxButton } from "./TxButton";
+import { Separator } from "./ui/separator";
+import { formatSats, formatBlockNumber } from "../lib/format";
+import { vaultClient } from "../lib/contracts";
+import type { VaultState } from "../hooks/useVaults";
+
+interface VaultActionsProps {
+  tokenType: TokenType;
+  bond: Bond;
+  /** Connected wallet, null when disconnected. */
+  address: string | null;
+  /** Current owner of the bond's PT or YT, null once burned. */
+  holder: string | null;
+  isHolder: boolean;
+  matured: boolean;
+  vaults: VaultState[];
+  /** Function names of this bond's unconfirmed transactions. */
+  pendingFns: Set<string>;
+  callContract: (call: ContractCall, setPending: (v: boolean) => void) => void;
+}
+
+/**
+ * Wrap a bond's PT or YT into the fungible shares of its maturity bucket, or
+ * take one back out. Renders nothing when no configured vault applies.
+ */
+export function VaultActions({
+  tokenType, bond, address, holder, isHolder, matured, vaults, pendingFns, callContract,
+}: VaultActionsProps) {
+  const [pending, setPending] = useState(false);
+  const suffix = tokenType === "PT" ? "pt" : "yt";
+  const uncollected = bond.yieldDeposited - bond.yieldWithdrawn;
+
+  const holdingVault = vaults.find((v) => v.contractId === holder);
+  const eligible = vaults.filter(
+    (v) =>
+      v.tokenType === tokenType &&
+      bond.maturityBlock >= v.minMaturity &&
+      bond.maturityBlock <= v.maxMaturity &&
+      // A matured YT earns nothing more, so YT vaults refuse it.
+      (tokenType === "PT" || !matured),
+  );
+
+  if (holdingVault) {
+    const client = vaultClient(holdingVault.contractId);
+    const canUnwrap = holdingVault.balance >= bond.sbtcAmount;
+    return (
+      <>
+        <Separator className="bg-border" />
+        <div className="space-y-2">
+          <p className="text-xs text-text-muted uppercase tracking-wider">Vault</p>
+          <p className="text-sm">
+            Wrapped in <span className="font-mono">{holdingVault.symbol}</span>
+            <span className="text-text-faint"> · {holdingVault.name}</span>
+          </p>
+          <div className="flex gap-2 flex-wrap">
+            {client instanceof PtVault && matured && (
+              <TxButton
+                variant="outline"
+                size="sm"
+                pending={pending || pendingFns.has("settle")}
+                onClick={() =>
+                  callContract(
+                    {
+                      ...client.settle(Number(bond.tokenId)),
+                      postConditions: settlePostConditions(client, bond.tokenId, bond.sbtcAmount),
+                    },
+                    setPending,
+                  )
+                }
+                className="border-brand text-brand hover:bg-brand/10"
+              >
+                Settle into vault
+              </TxButton>
+            )}
+            {/* A matured YT needs one harvest, even with nothing to collect, before the shares redeem. */}
+            {client instanceof YtVault && (uncollected > 0n || (matured && holdingVault.unharvested > 0n)) && (
+              <TxButton
+                variant="outline"
+                size="sm"
+                pending={pending || pendingFns.has("harvest")}
+                onClick={() =>
+                  callContract(
+                    { ...client.harvest(Number(bond.tokenId)), postConditions: harvestPostConditions(client, uncollected) },
+                    setPending,
+                  )
+                }
+                className="border-success text-success hover:bg-success/10"
+              >
+                {uncollected > 0n ? `Harvest ${formatSats(uncollected)} sBTC for holders` : "Harvest for redemption"}
+              </TxButton>
+            )}
+            {client && address && canUnwrap && (
+              <TxButton
+                variant="outline"
+                size="sm"
+                pending={pending || pendingFns.has(`unwrap-${suffix}`)}
+                onClick={() =>
+                  callContract(
+                    {
+                      ...client.unwrap(Number(bond.tokenId)),
+                      postConditions: unwrapPostConditions(client, bond.tokenId, address, bond.sbtcAmount),
+                    },
+                    setPending,
+                  )
+                }
+                className="border-border text-text hover:bg-secondary"
+              >
+                Unwrap for {formatSats(bond.sbtcAmount)} {holdingVault.symbol}
+              </TxButton>
+            )}
+          </div>
+          {!canUnwrap && (
+            <p className="text-xs text-text-faint">
+              Unwrapping this {tokenType} burns {formatSats(bond.sbtcAmount)} {holdingVault.symbol}; you hold{" "}
+              {formatSats(holdingVault.balance)}.
+            </p>
+          )}
+        </div>
+      </>
+    );
+  }
+
+  if (!isHolder || eligible.length === 0) return null;
+
+  return (
+    <>
+      <Separator className="bg-border" />
+      <div className="space-y-2">
+        <p className="text-xs text-text-muted uppercase tracking-wider">Vault</p>
+        {eligible.map((vault) => {
+          const client = vaultClient(vault.contractId);
+          return (
+            <div key={vault.contractId} className="space-y-1">
+              <TxButton
+                variant="outline"
+                size="sm"
+                pending={pending || pendingFns.has(`wrap-${suffix}`)}
+                onClick={() =>
+                  client && holder && callContract(
+                    {
+                      ...client.wrap(Number(bond.tokenId)),
+                      postConditions: wrapPostConditions(client, bond.tokenId, holder, uncollected),
+                    },
+                    setPending,
+                  )
+                }
+                className="border-border text-text hover:bg-secondary"
+              >
+                Wrap into {formatSats(bond.sbtcAmount)} {vault.symbol}
+              </TxButton>
+              <p className="text-xs text-text-faint">
+                {vault.symbol} is fungible across every {tokenType} maturing between blocks{" "}
+                {formatBlockNumber(vault.minMaturity)} and {formatBlockNumber(vault.maxMaturity)}.
+                {tokenType === "YT" && uncollected > 0n &&
+                  ` Your ${formatSats(uncollected)} sBTC of uncollected yield is paid out first.`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
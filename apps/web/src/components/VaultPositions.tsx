@@ -0,0 +1,104 @@
+import { Card, CardContent } from "./ui/card";
+import { TxButton } from "./TxButton";
+import { BlockTooltip } from "./BlockTooltip";
+import { formatSats } from "../lib/format";
+import type { VaultState } from "../hooks/useVaults";
+
+interface VaultPositionsProps {
+  /** Vaults the wallet holds shares in or can claim from. */
+  vaults: VaultState[];
+  currentBlock: number;
+  /** Contract ids of vaults with an unconfirmed transaction from this wallet. */
+  busy: Set<string>;
+  onClaim: (contractId: string) => void;
+  onRedeem: (contractId: string, shares: bigint) => void;
+}
+
+export function VaultPositions({ vaults, currentBlock, busy, onClaim, onRedeem }: VaultPositionsProps) {
+  return (
+    <div className="space-y-3">
+      {vaults.map((vault) => {
+        const matured = currentBlock >= vault.maxMaturity;
+        const pending = busy.has(vault.contractId);
+        const share = vault.totalSupply > 0n ? Number(vault.balance) / Number(vault.totalSupply) : 0;
+        return (
+          <Card key={vault.contractId} className="bg-surface border-border">
+            <CardContent className="pt-4 pb-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold">
+                  <span className="font-mono">{vault.symbol}</span>
+                  <span className="text-text-faint font-normal"> · {vault.name}</span>
+                </span>
+                <span
+                  className={`text-xs font-mono px-1.5 py-0.5 rounded border ${
+                    vault.tokenType === "PT"
+                      ? "bg-brand/10 text-brand border-brand/30"
+                      : "bg-success/10 text-success border-success/30"
+                  }`}
+                >
+                  {vault.tokenType}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-y-1 text-sm sm:grid-cols-4">
+                <div>
+                  <p className="text-xs text-text-muted">Shares (face)</p>
+                  <p className="font-mono">{formatSats(vault.balance)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-text-muted">Of the vault</p>
+                  <p className="font-mono">{(share * 100).toFixed(2)}%</p>
+                </div>
+                {vault.tokenType === "YT" && (
+                  <div>
+                    <p className="text-xs text-text-muted">Claimable</p>
+                    <p className={`font-mono ${vault.claimable > 0n ? "text-success" : "text-text-faint"}`}>
+                      {formatSats(vault.claimable)} sBTC
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <p className="text-xs text-text-muted">{matured ? "Matured at" : "Redeemable at"}</p>
+                  <p>
+                    <BlockTooltip block={vault.maxMaturity} currentBlock={currentBlock} />
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                {vault.tokenType === "YT" && (
+                  <TxButton
+                    variant="outline"
+                    size="sm"
+                    pending={pending}
+                    disabled={pending || vault.claimable === 0n}
+                    onClick={() => onClaim(vault.contractId)}
+                    className="border-success text-success hover:bg-success/10"
+                  >
+                    Claim {formatSats(vault.claimable)} sBTC
+                  </TxButton>
+                )}
+                {matured && vault.balance > 0n && (
+                  <TxButton
+                    variant="outline"
+                    size="sm"
+                    pending={pending}
+                    disabled={pending || vault.unharvested > 0n}
+                    onClick={() => onRedeem(vault.contractId, vault.balance)}
+                    className="border-brand text-brand hover:bg-brand/10"
+                  >
+                    {vault.tokenType === "PT"
+                      ? `Redeem for ${formatSats(vault.balance)} sBTC`
+                      : vault.unharvested > 0n
+                        ? `Redeem after ${vault.unharvested} YT harvest${vault.unharvested === 1n ? "" : "s"}`
+                        : "Redeem shares"}
+                  </TxButton>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
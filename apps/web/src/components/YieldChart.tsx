@@ -5,70 +5,130 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
 } from "recharts";
+import type { TooltipProps } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Skeleton } from "./ui/skeleton";
+import { formatSats } from "../lib/format";
+import type { CurvePoint } from "../lib/yieldCurve";
 
-export interface YieldDataPoint {
-  maturity: string;
-  apy: number;
+interface YieldChartProps {
+  /** From buildYieldCurve; empty until some PT is listed below face. */
+  curve: CurvePoint[];
+  /** Stacking APR in basis points; null if the oracle is unavailable. */
+  oracleAprBps: bigint | null;
+  loading?: boolean;
 }
 
-const PLACEHOLDER_DATA: YieldDataPoint[] = [
-  { maturity: "3M", apy: 3.2 },
-  { maturity: "6M", apy: 4.1 },
-  { maturity: "1Y", apy: 5.0 },
-  { maturity: "2Y", apy: 5.8 },
-];
+interface ChartRow {
+  label: string;
+  market: number;
+  oracle: number | null;
+  point: CurvePoint;
+}
 
-interface YieldChartProps {
-  data?: YieldDataPoint[];
-  loading?: boolean;
+function percent(rate: number): number {
+  return Number((rate * 100).toFixed(2));
+}
+
+/** Quoted buckets get a solid dot sized by listed face value; filled-in ones a hollow dot. */
+function CurveDot({ cx, cy, payload }: { cx?: number; cy?: number; payload?: ChartRow }) {
+  if (cx === undefined || cy === undefined || !payload) return <g />;
+  const { point } = payload;
+  if (point.source !== "market") {
+    return <circle cx={cx} cy={cy} r={3} fill="#121212" stroke="#f7931a" strokeWidth={1.5} />;
+  }
+  const sbtc = Number(point.depthSats) / 1e8;
+  const r = Math.min(8, 3 + Math.sqrt(sbtc) * 2);
+  return <circle cx={cx} cy={cy} r={r} fill="#f7931a" />;
+}
+
+function CurveTooltip({ active, payload }: TooltipProps<number, string>) {
+  const row = payload?.[0]?.payload as ChartRow | undefined;
+  if (!active || !row) return null;
+  const { point } = row;
+  return (
+    <div className="rounded-lg border border-[#262626] bg-[#121212] px-3 py-2 text-xs space-y-1">
+      <p className="text-[#fafafa]">{point.label}</p>
+      <p className="text-[#f7931a]">Market: {row.market}%</p>
+      {row.oracle !== null && <p className="text-[#8c8c8c]">Stacking APR: {row.oracle}%</p>}
+      <p className="text-[#8c8c8c]">
+        {point.source === "market"
+          ? `${point.listings} listing${point.listings === 1 ? "" : "s"} · ${formatSats(point.depthSats)} sBTC face`
+          : point.source === "interpolated"
+            ? "No listings; interpolated from neighbouring maturities"
+            : "No listings; nearest quoted maturity held flat"}
+      </p>
+    </div>
+  );
 }
 
-export function YieldChart({ data, loading }: YieldChartProps) {
-  const chartData = data ?? PLACEHOLDER_DATA;
-  const isPlaceholder = !data;
+/** PT-implied APR by time to maturity, against the oracle's stacking APR. */
+export function YieldChart({ curve, oracleAprBps, loading }: YieldChartProps) {
+  const oracle = oracleAprBps !== null ? percent(Number(oracleAprBps) / 10_000) : null;
+  const data: ChartRow[] = curve.map((point) => ({
+    label: point.label,
+    market: percent(point.rate),
+    oracle,
+    point,
+  }));
 
   return (
     <Card className="bg-surface border-border">
       <CardHeader className="pb-2">
         <CardTitle className="text-sm font-medium text-text-muted">
           Implied APY by Maturity
-          {isPlaceholder && (
-            <span className="ml-2 text-xs text-text-faint">(placeholder)</span>
-          )}
         </CardTitle>
       </CardHeader>
       <CardContent>
         {loading ? (
           <Skeleton className="h-60 w-full bg-secondary" />
+        ) : data.length === 0 ? (
+          <p className="py-12 text-center text-sm text-text-muted">
+            No PTs are listed below face value, so the market has no curve yet.
+            {oracle !== null && ` The oracle's stacking APR is ${oracle}%.`}
+          </p>
         ) : (
-          <ResponsiveContainer width="100%" height={240}>
-            <LineChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
-              <XAxis dataKey="maturity" stroke="#8c8c8c" tick={{ fontSize: 12 }} />
-              <YAxis stroke="#8c8c8c" unit="%" tick={{ fontSize: 12 }} />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: "#121212",
-                  border: "1px solid #262626",
-                  borderRadius: "0.5rem",
-                }}
-                labelStyle={{ color: "#fafafa" }}
-                itemStyle={{ color: "#f7931a" }}
-              />
-              <Line
-                type="monotone"
-                dataKey="apy"
-                stroke="#f7931a"
-                strokeWidth={2}
-                dot={{ fill: "#f7931a", r: 4 }}
-                activeDot={{ r: 6, fill: "#f7931a" }}
-              />
-            </LineChart>
-          </ResponsiveContainer>
+          <>
+            <ResponsiveContainer width="100%" height={240}>
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                <XAxis dataKey="label" stroke="#8c8c8c" tick={{ fontSize: 12 }} />
+                <YAxis stroke="#8c8c8c" unit="%" tick={{ fontSize: 12 }} />
+                <Tooltip content={<CurveTooltip />} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line
+                  name="Market implied"
+                  type="monotone"
+                  dataKey="market"
+                  stroke="#f7931a"
+                  strokeWidth={2}
+                  dot={<CurveDot />}
+                  activeDot={{ r: 6, fill: "#f7931a" }}
+                  isAnimationActive={false}
+                />
+                {oracle !== null && (
+                  <Line
+                    name="Stacking APR (oracle)"
+                    type="linear"
+                    dataKey="oracle"
+                    stroke="#8c8c8c"
+                    strokeDasharray="4 4"
+                    strokeWidth={1.5}
+                    dot={false}
+                    activeDot={false}
+                    isAnimationActive={false}
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+            <p className="mt-2 text-xs text-text-faint">
+              Solid dots are priced by PT listings, larger for more face value listed.
+              Hollow dots have no listings and are filled in from the nearest maturities.
+            </p>
+          </>
         )}
       </CardContent>
     </Card>
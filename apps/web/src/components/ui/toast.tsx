@@ -0,0 +1,87 @@
+import * as React from "react"
+import { XIcon } from "lucide-react"
+import { Toast as ToastPrimitive } from "radix-ui"
+
+import { cn } from "@/lib/utils"
+
+function ToastProvider({
+  ...props
+}: React.ComponentProps<typeof ToastPrimitive.Provider>) {
+  return <ToastPrimitive.Provider data-slot="toast-provider" {...props} />
+}
+
+function ToastViewport({
+  className,
+  ...props
+}: React.ComponentProps<typeof ToastPrimitive.Viewport>) {
+  return (
+    <ToastPrimitive.Viewport
+      data-slot="toast-viewport"
+      className={cn(
+        "fixed right-0 bottom-0 z-[100] flex max-h-screen w-full flex-col gap-2 p-4 outline-none sm:max-w-sm",
+        className
+      )}
+      {...props}
+    />
+  )
+}
+
+function Toast({
+  className,
+  variant = "default",
+  children,
+  ...props
+}: React.ComponentProps<typeof ToastPrimitive.Root> & {
+  variant?: "default" | "success" | "error"
+}) {
+  return (
+    <ToastPrimitive.Root
+      data-slot="toast"
+      data-variant={variant}
+      className={cn(
+        "relative grid gap-1 rounded-lg border border-border bg-surface p-4 pr-8 shadow-lg data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:animate-in data-[state=open]:slide-in-from-bottom-2",
+        variant === "success" && "border-success/40",
+        variant === "error" && "border-error/40",
+        className
+      )}
+      {...props}
+    >
+      {children}
+      <ToastPrimitive.Close
+        data-slot="toast-close"
+        className="absolute top-3 right-3 rounded-xs opacity-70 transition-opacity hover:opacity-100 [&_svg]:size-4"
+      >
+        <XIcon />
+        <span className="sr-only">Dismiss</span>
+      </ToastPrimitive.Close>
+    </ToastPrimitive.Root>
+  )
+}
+
+function ToastTitle({
+  className,
+  ...props
+}: React.ComponentProps<typeof ToastPrimitive.Title>) {
+  return (
+    <ToastPrimitive.Title
+      data-slot="toast-title"
+      className={cn("text-sm font-semibold", className)}
+      {...props}
+    />
+  )
+}
+
+function ToastDescription({
+  className,
+  ...props
+}: React.ComponentProps<typeof ToastPrimitive.Description>) {
+  return (
+    <ToastPrimitive.Description
+      data-slot="toast-description"
+      className={cn("text-sm text-text-muted", className)}
+      {...props}
+    />
+  )
+}
+
+export { ToastProvider, ToastViewport, Toast, ToastTitle, ToastDescription }
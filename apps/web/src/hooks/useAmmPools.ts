@@ -0,0 +1,85 @@
+import { useState, useEffect } from "react";
+import { readContract } from "../lib/rpc";
+import { bondFactory, ptAmm } from "../lib/contracts";
+import { useTransactions } from "./useTransactions";
+import type { AmmPool } from "@satcurve/types";
+
+const POLL_INTERVAL_MS = 30_000;
+
+/** A PT escrowed by a pool, which a trader can buy out. */
+export interface PoolPt {
+  bondId: number;
+  sbtcAmount: bigint;
+  maturityBlock: number;
+}
+
+export interface AmmPoolState extends AmmPool {
+  pts: PoolPt[];
+  /** The connected wallet's LP shares. */
+  lpShares: bigint;
+}
+
+export interface AmmPools {
+  pools: AmmPoolState[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useAmmPools(address: string | null): AmmPools {
+  const [pools, setPools] = useState<AmmPoolState[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { versions } = useTransactions();
+
+  useEffect(() => {
+    if (!bondFactory || !ptAmm) {
+      setLoading(false);
+      return;
+    }
+    const bf = bondFactory;
+    const amm = ptAmm;
+
+    const senderAddress = bf.contractAddress; // arbitrary valid address for read-only calls
+
+    async function load() {
+      try {
+        const [poolCount, bondCount] = await Promise.all([
+          readContract(amm.getPoolCount(), senderAddress),
+          readContract(bf.getBondCount(), senderAddress),
+        ]);
+        const poolIds = Array.from({ length: Number(poolCount) }, (_, i) => i);
+        const bondIds = Array.from({ length: Number(bondCount) }, (_, i) => i);
+
+        // The contract does not enumerate a pool's PTs, so find them bond by bond.
+        const [raw, poolOf, shares] = await Promise.all([
+          Promise.all(poolIds.map((id) => readContract(amm.getPool(id), senderAddress))),
+          Promise.all(bondIds.map((id) => readContract(amm.getPoolOfPt(id), senderAddress))),
+          Promise.all(poolIds.map((id) => (address ? readContract(amm.getLpShares(id, address), senderAddress) : 0n))),
+        ]);
+        const held = bondIds.filter((_, i) => poolOf[i] !== null);
+        const bonds = await Promise.all(held.map((id) => readContract(bf.getBond(id), senderAddress)));
+
+        setPools(raw.flatMap((pool, i) => {
+          if (!pool) return [];
+          const pts = held.flatMap((bondId, j) => {
+            if (poolOf[bondId] !== pool.poolId) return [];
+            const bond = bonds[j]!;
+            return [{ bondId, sbtcAmount: bond.sbtcAmount, maturityBlock: bond.maturityBlock }];
+          });
+          return [{ ...pool, pts, lpShares: shares[i]! }];
+        }));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load pools");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void load();
+    const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [address, versions.listings]);
+
+  return { pools, loading, error };
+}
@@ -1,18 +1,15 @@
-import { useState, useEffect } from "react";
-import { cvToValue, uintCV } from "@stacks/transactions";
-import { callReadOnly } from "../lib/rpc";
+import { useState, useEffect, useMemo } from "react";
+import { readContract } from "../lib/rpc";
 import { stacksNetwork } from "../lib/stacks";
-import { CONTRACT_ADDRESSES } from "../lib/contracts";
+import { bondFactory, market } from "../lib/contracts";
+import { INDEXER_URL, fetchIndexedBonds } from "../lib/indexer";
+import { applyPendingTxs } from "../lib/transactions";
+import { useTransactions } from "./useTransactions";
 import type { Bond } from "@satcurve/types";
 
 const POLL_INTERVAL_MS = 30_000;
 const NFT_PAGE_LIMIT = 200;
 
-function parseContractId(fullAddress: string) {
-  const parts = fullAddress.split(".");
-  return { contractAddress: parts[0] ?? "", contractName: parts[1] ?? "" };
-}
-
 interface NftHoldingsResponse {
   results: Array<{ value: { repr: string } }>;
 }
@@ -49,6 +46,8 @@ export function useBonds(address: string | null): UseBondsResult {
   const [error, setError] = useState<string | null>(null);
   const [tick, setTick] = useState(0);
 
+  const { transactions, versions } = useTransactions();
+
   const refetch = () => setTick((t) => t + 1);
 
   useEffect(() => {
@@ -57,86 +56,46 @@ export function useBonds(address: string | null): UseBondsResult {
       return;
     }
 
-    const { contractAddress, contractName } = parseContractId(
-      CONTRACT_ADDRESSES.bondFactory,
-    );
-    if (!contractAddress || !contractName) return;
-
-    const { contractAddress: mktCA, contractName: mktCN } = parseContractId(
-      CONTRACT_ADDRESSES.market,
-    );
+    if (!bondFactory || !market) return;
+    const bf = bondFactory;
+    const mkt = market;
 
     const apiUrl = stacksNetwork.coreApiUrl;
-    const ptAsset = `${contractAddress}.${contractName}::principal-token`;
-    const ytAsset = `${contractAddress}.${contractName}::yield-token`;
+    const ptAsset = `${bf.contractId}::principal-token`;
+    const ytAsset = `${bf.contractId}::yield-token`;
 
     setLoading(true);
 
     async function load() {
       try {
+        // One indexer request replaces the per-bond read-only calls below.
+        if (INDEXER_URL) {
+          setBonds(await fetchIndexedBonds(address!));
+          setError(null);
+          return;
+        }
+
         // Fetch PT and YT holdings + bond count in parallel
-        const [ptIds, ytIds, bondCountRes] = await Promise.all([
+        const [ptIds, ytIds, bondCount] = await Promise.all([
           fetchNftBondIds(apiUrl, address!, ptAsset),
           fetchNftBondIds(apiUrl, address!, ytAsset),
-          callReadOnly({
-            contractAddress,
-            contractName,
-            functionName: "get-bond-count",
-            functionArgs: [],
-            network: stacksNetwork,
-            senderAddress: address!,
-          }),
+          readContract(bf.getBondCount(), address!),
         ]);
 
         // Check market listings — bonds whose NFTs are escrowed (both PT and YT listed)
         // would otherwise disappear from the user's portfolio entirely.
-        const bondCount = Number(
-          (cvToValue(bondCountRes) as { value: string }).value,
-        );
-        const bondIdsRange = Array.from({ length: bondCount }, (_, i) => i);
-
-        const [ptListingResults, ytListingResults] = await Promise.all([
-          Promise.all(
-            bondIdsRange.map((id) =>
-              callReadOnly({
-                contractAddress: mktCA,
-                contractName: mktCN,
-                functionName: "get-pt-listing",
-                functionArgs: [uintCV(id)],
-                network: stacksNetwork,
-                senderAddress: address!,
-              }),
-            ),
-          ),
-          Promise.all(
-            bondIdsRange.map((id) =>
-              callReadOnly({
-                contractAddress: mktCA,
-                contractName: mktCN,
-                functionName: "get-yt-listing",
-                functionArgs: [uintCV(id)],
-                network: stacksNetwork,
-                senderAddress: address!,
-              }),
-            ),
-          ),
+        const bondIdsRange = Array.from({ length: Number(bondCount) }, (_, i) => i);
+
+        const [ptListings, ytListings] = await Promise.all([
+          Promise.all(bondIdsRange.map((id) => readContract(mkt.getPtListing(id), address!))),
+          Promise.all(bondIdsRange.map((id) => readContract(mkt.getYtListing(id), address!))),
         ]);
 
         const ptListedIds = new Set<number>();
         const ytListedIds = new Set<number>();
         bondIdsRange.forEach((id, i) => {
-          const ptRaw = cvToValue(ptListingResults[i]!) as {
-            value: Record<string, { value: unknown }>;
-          } | null;
-          if (ptRaw?.value && String(ptRaw.value["seller"]!.value) === address) {
-            ptListedIds.add(id);
-          }
-          const ytRaw = cvToValue(ytListingResults[i]!) as {
-            value: Record<string, { value: unknown }>;
-          } | null;
-          if (ytRaw?.value && String(ytRaw.value["seller"]!.value) === address) {
-            ytListedIds.add(id);
-          }
+          if (ptListings[i]?.seller === address) ptListedIds.add(id);
+          if (ytListings[i]?.seller === address) ytListedIds.add(id);
         });
 
         // Union: directly held + listed on market (escrowed)
@@ -152,42 +111,18 @@ export function useBonds(address: string | null): UseBondsResult {
         }
 
         // Fetch bond data for every relevant ID in parallel
-        const bondDataResults = await Promise.all(
-          allIds.map((id) =>
-            callReadOnly({
-              contractAddress,
-              contractName,
-              functionName: "get-bond",
-              functionArgs: [uintCV(id)],
-              network: stacksNetwork,
-              senderAddress: address!,
-            }),
-          ),
+        const bondData = await Promise.all(
+          allIds.map((id) => readContract(bf.getBond(id), address!)),
         );
 
-        const parsedBonds: Bond[] = allIds.map((id, i) => {
-          // cvToValue(ResponseOkCV(TupleCV)) in @stacks/transactions@6.17.0 returns:
-          // { type: "tuple", value: { "sbtc-amount": { type: "uint", value: "n" }, ... } }
-          const wrapper = cvToValue(bondDataResults[i]!) as {
-            value: Record<string, { value: unknown }>;
-          };
-          const f = wrapper.value;
-          return {
-            tokenId: BigInt(id),
-            owner: address!,
-            sbtcAmount: BigInt(String(f["sbtc-amount"]!.value)),
-            maturityBlock: Number(f["maturity-block"]!.value),
-            createdBlock: Number(f["created-block"]!.value),
-            principalRedeemed: Boolean(f["principal-redeemed"]!.value),
-            combined: Boolean(f["combined"]!.value),
-            yieldDeposited: BigInt(String(f["yield-deposited"]!.value)),
-            yieldWithdrawn: BigInt(String(f["yield-withdrawn"]!.value)),
-            holdsPt: ptIds.has(id),
-            holdsYt: ytIds.has(id),
-            ptListed: ptListedIds.has(id),
-            ytListed: ytListedIds.has(id),
-          };
-        });
+        const parsedBonds: Bond[] = allIds.map((id, i) => ({
+          ...bondData[i]!,
+          owner: address!,
+          holdsPt: ptIds.has(id),
+          holdsYt: ytIds.has(id),
+          ptListed: ptListedIds.has(id),
+          ytListed: ytListedIds.has(id),
+        }));
 
         setBonds(parsedBonds);
         setError(null);
@@ -201,7 +136,13 @@ export function useBonds(address: string | null): UseBondsResult {
     void load();
     const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [address, tick]);
+  }, [address, tick, versions.bonds]);
+
+  // Show pending actions as if they had already confirmed.
+  const withPending = useMemo(() => {
+    const pending = transactions.filter((t) => t.status === "pending");
+    return pending.length === 0 ? bonds : bonds.map((b) => applyPendingTxs(b, pending));
+  }, [bonds, transactions]);
 
-  return { bonds, loading, error, refetch };
+  return { bonds: withPending, loading, error, refetch };
 }
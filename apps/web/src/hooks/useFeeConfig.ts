@@ -0,0 +1,48 @@
+import { useState, useEffect } from "react";
+import { readContract } from "../lib/rpc";
+import { market } from "../lib/contracts";
+import { useTransactions } from "./useTransactions";
+import type { FeeConfig } from "@satcurve/types";
+
+const POLL_INTERVAL_MS = 30_000;
+
+export interface FeeConfigState {
+  /** null until the first read returns. */
+  feeConfig: FeeConfig | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/** The market's trade fee, which every buy-pt / buy-yt pays on top of the listing price. */
+export function useFeeConfig(): FeeConfigState {
+  const [feeConfig, setFeeConfig] = useState<FeeConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { versions } = useTransactions();
+
+  useEffect(() => {
+    if (!market) {
+      setLoading(false);
+      return;
+    }
+    const mkt = market;
+    const senderAddress = mkt.contractAddress; // arbitrary valid address for read-only calls
+
+    async function load() {
+      try {
+        setFeeConfig(await readContract(mkt.getFeeConfig(), senderAddress));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load the trade fee");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void load();
+    const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [versions.listings]);
+
+  return { feeConfig, loading, error };
+}
@@ -1,100 +1,79 @@
-import { useState, useEffect } from "react";
-import { cvToValue, uintCV } from "@stacks/transactions";
-import { callReadOnly } from "../lib/rpc";
-import { stacksNetwork } from "../lib/stacks";
-import { CONTRACT_ADDRESSES } from "../lib/contracts";
+import { useState, useEffect, useMemo } from "react";
+import { readContract } from "../lib/rpc";
+import { bondFactory, market } from "../lib/contracts";
+import { INDEXER_URL, fetchIndexedListings } from "../lib/indexer";
+import { listingCost } from "../lib/orderBook";
+import type { ListingCost } from "../lib/orderBook";
+import { useTransactions } from "./useTransactions";
+import { useFeeConfig } from "./useFeeConfig";
+import type { FeeConfig, NftListing } from "@satcurve/types";
 
 const POLL_INTERVAL_MS = 30_000;
 
-function parseContractId(fullAddress: string) {
-  const parts = fullAddress.split(".");
-  return { contractAddress: parts[0] ?? "", contractName: parts[1] ?? "" };
-}
-
-export interface NftListing {
-  bondId: number;
-  tokenType: "PT" | "YT";
-  seller: string;
-  priceSats: bigint;
-}
+/** A listing with what it costs a buyer once the trade fee is added. */
+export type MarketListing = NftListing & ListingCost;
 
 export interface MarketListings {
-  nftListings: NftListing[];
+  /** Costs use a zero fee until `feeConfig` has loaded. */
+  nftListings: MarketListing[];
+  feeConfig: FeeConfig | null;
   loading: boolean;
   error: string | null;
   refetch: () => void;
 }
 
-function parseListing(raw: Record<string, { value: unknown }>) {
-  return {
-    seller: String(raw["seller"]!.value),
-    priceSats: BigInt(String(raw["price-sats"]!.value)),
-  };
-}
-
 export function useMarketListings(): MarketListings {
-  const [nftListings, setNftListings] = useState<NftListing[]>([]);
+  const [listings, setListings] = useState<NftListing[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [tick, setTick] = useState(0);
 
+  const { versions } = useTransactions();
+  const { feeConfig } = useFeeConfig();
+
   const refetch = () => setTick((t) => t + 1);
 
   useEffect(() => {
-    const { contractAddress: bfCA, contractName: bfCN } = parseContractId(CONTRACT_ADDRESSES.bondFactory);
-    const { contractAddress: mktCA, contractName: mktCN } = parseContractId(CONTRACT_ADDRESSES.market);
-    if (!mktCA || !mktCN) return;
+    if (!bondFactory || !market) return;
+    const bf = bondFactory;
+    const mkt = market;
 
-    const senderAddress = bfCA; // arbitrary valid address for read-only calls
+    const senderAddress = bf.contractAddress; // arbitrary valid address for read-only calls
 
     async function load() {
       try {
-        const bondCountRes = await callReadOnly({
-          contractAddress: bfCA,
-          contractName: bfCN,
-          functionName: "get-bond-count",
-          functionArgs: [],
-          network: stacksNetwork,
-          senderAddress,
-        });
-
-        const bondCount = Number((cvToValue(bondCountRes) as { value: string }).value);
-        const bondIds = Array.from({ length: bondCount }, (_, i) => i);
-
-        const [ptListingResults, ytListingResults] = await Promise.all([
+        if (INDEXER_URL) {
+          const indexed = await fetchIndexedListings();
+          setListings(indexed.map((l) => ({
+            bondId: l.bondId,
+            tokenType: l.tokenType,
+            seller: l.seller,
+            priceSats: BigInt(l.priceSats),
+            expiresAt: l.expiresAt,
+          })));
+          setError(null);
+          return;
+        }
+
+        const bondCount = await readContract(bf.getBondCount(), senderAddress);
+        const bondIds = Array.from({ length: Number(bondCount) }, (_, i) => i);
+
+        const [ptListings, ytListings] = await Promise.all([
           // NFT PT listings -- one per bond
-          Promise.all(bondIds.map((id) =>
-            callReadOnly({
-              contractAddress: mktCA, contractName: mktCN,
-              functionName: "get-pt-listing", functionArgs: [uintCV(id)],
-              network: stacksNetwork, senderAddress,
-            })
-          )),
+          Promise.all(bondIds.map((id) => readContract(mkt.getPtListing(id), senderAddress))),
           // NFT YT listings
-          Promise.all(bondIds.map((id) =>
-            callReadOnly({
-              contractAddress: mktCA, contractName: mktCN,
-              functionName: "get-yt-listing", functionArgs: [uintCV(id)],
-              network: stacksNetwork, senderAddress,
-            })
-          )),
+          Promise.all(bondIds.map((id) => readContract(mkt.getYtListing(id), senderAddress))),
         ]);
 
         const nft: NftListing[] = [];
         bondIds.forEach((bondId, i) => {
-          const ptRaw = cvToValue(ptListingResults[i]!) as { value: Record<string, { value: unknown }> } | null;
-          if (ptRaw?.value) {
-            const { seller, priceSats } = parseListing(ptRaw.value);
-            nft.push({ bondId, tokenType: "PT", seller, priceSats });
-          }
-          const ytRaw = cvToValue(ytListingResults[i]!) as { value: Record<string, { value: unknown }> } | null;
-          if (ytRaw?.value) {
-            const { seller, priceSats } = parseListing(ytRaw.value);
-            nft.push({ bondId, tokenType: "YT", seller, priceSats });
-          }
+          const pt = ptListings[i];
+          if (pt) nft.push({ bondId, tokenType: "PT", ...pt });
+          const yt = ytListings[i];
+          if (yt) nft.push({ bondId, tokenType: "YT", ...yt });
         });
 
-        setNftListings(nft);
+        setListings(nft);
         setError(null);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load listings");
@@ -106,7 +85,12 @@ export function useMarketListings(): MarketListings {
     void load();
     const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [tick]);
+  }, [tick, versions.listings]);
+
+  const nftListings = useMemo(
+    () => listings.map((l) => ({ ...l, ...listingCost(l.priceSats, feeConfig ?? { feeBps: 0 }) })),
+    [listings, feeConfig],
+  );
 
-  return { nftListings, loading, error, refetch };
+  return { nftListings, feeConfig, loading, error, refetch };
 }
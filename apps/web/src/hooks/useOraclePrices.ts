@@ -1,19 +1,6 @@
 import { useState, useEffect } from "react";
-import { cvToValue } from "@stacks/transactions";
-import { callReadOnly } from "../lib/rpc";
-import { stacksNetwork } from "../lib/stacks";
-import { CONTRACT_ADDRESSES } from "../lib/contracts";
-
-function parseContractId(fullAddress: string): {
-  contractAddress: string;
-  contractName: string;
-} {
-  const parts = fullAddress.split(".");
-  return {
-    contractAddress: parts[0] ?? "",
-    contractName: parts[1] ?? "",
-  };
-}
+import { readContract } from "../lib/rpc";
+import { yieldOracle } from "../lib/contracts";
 
 interface OraclePrices {
   btcPriceUsd: bigint | null;
@@ -31,10 +18,7 @@ export function useOraclePrices(): OraclePrices {
   });
 
   useEffect(() => {
-    const { contractAddress, contractName } = parseContractId(
-      CONTRACT_ADDRESSES.yieldOracle
-    );
-    if (!contractAddress || !contractName) {
+    if (!yieldOracle) {
       setState((s) => ({
         ...s,
         loading: false,
@@ -43,32 +27,16 @@ export function useOraclePrices(): OraclePrices {
       return;
     }
 
+    const oracleContract = yieldOracle;
+
     async function load() {
       try {
-        const [btcRes, aprRes] = await Promise.all([
-          callReadOnly({
-            contractAddress,
-            contractName,
-            functionName: "get-btc-price",
-            functionArgs: [],
-            network: stacksNetwork,
-            senderAddress: contractAddress,
-          }),
-          callReadOnly({
-            contractAddress,
-            contractName,
-            functionName: "get-stacking-apr",
-            functionArgs: [],
-            network: stacksNetwork,
-            senderAddress: contractAddress,
-          }),
+        const senderAddress = oracleContract.contractAddress;
+        const [btcPriceUsd, stackingAprBps] = await Promise.all([
+          readContract(oracleContract.getBtcPrice(), senderAddress),
+          readContract(oracleContract.getStackingApr(), senderAddress),
         ]);
-        setState({
-          btcPriceUsd: BigInt(String(cvToValue(btcRes, true))),
-          stackingAprBps: BigInt(String(cvToValue(aprRes, true))),
-          loading: false,
-          error: null,
-        });
+        setState({ btcPriceUsd, stackingAprBps, loading: false, error: null });
       } catch (err) {
         setState((s) => ({
           ...s,
@@ -0,0 +1,91 @@
+import { useState, useEffect } from "react";
+import { readContract } from "../lib/rpc";
+import { bondFactory, market } from "../lib/contracts";
+import { INDEXER_URL, fetchIndexedBids, fetchIndexedBond } from "../lib/indexer";
+import type { BookAsk } from "../lib/orderBook";
+import { useTransactions } from "./useTransactions";
+import type { Bid, NftListing } from "@satcurve/types";
+
+const POLL_INTERVAL_MS = 30_000;
+
+export interface OrderBook {
+  bids: Bid[];
+  /** PT listings with their bond's face value and maturity. */
+  asks: BookAsk[];
+  loading: boolean;
+  error: string | null;
+}
+
+/** Open PT bids plus the bond data needed to place `listings` in the book. */
+export function useOrderBook(listings: NftListing[]): OrderBook {
+  const [bids, setBids] = useState<Bid[]>([]);
+  const [asks, setAsks] = useState<BookAsk[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { versions } = useTransactions();
+
+  // Re-run when the set of PT listings changes, not on every poll of them.
+  const listingsKey = listings
+    .filter((l) => l.tokenType === "PT")
+    .map((l) => `${l.bondId}:${l.priceSats}:${l.seller}`)
+    .join(",");
+
+  useEffect(() => {
+    if (!bondFactory || !market) return;
+    const bf = bondFactory;
+    const mkt = market;
+
+    const senderAddress = bf.contractAddress; // arbitrary valid address for read-only calls
+    const listed = listingsKey
+      ? listingsKey.split(",").map((entry) => {
+          const [bondId, priceSats, seller] = entry.split(":");
+          return { bondId: Number(bondId), priceSats: BigInt(priceSats!), seller: seller! };
+        })
+      : [];
+
+    async function loadBids(): Promise<Bid[]> {
+      if (INDEXER_URL) return fetchIndexedBids();
+      const count = await readContract(mkt.getBidCount(), senderAddress);
+      const all = await Promise.all(
+        Array.from({ length: Number(count) }, (_, id) => readContract(mkt.getBid(id), senderAddress)),
+      );
+      return all.filter((b): b is Bid => b !== null);
+    }
+
+    async function loadBond(bondId: number): Promise<{ sbtcAmount: bigint; maturityBlock: number } | null> {
+      if (INDEXER_URL) {
+        const bond = await fetchIndexedBond(bondId);
+        return bond && { sbtcAmount: BigInt(bond.sbtcAmount), maturityBlock: bond.maturityBlock };
+      }
+      const bond = await readContract(bf.getBond(bondId), senderAddress);
+      return { sbtcAmount: bond.sbtcAmount, maturityBlock: bond.maturityBlock };
+    }
+
+    async function load() {
+      try {
+        const [openBids, bonds] = await Promise.all([
+          loadBids(),
+          Promise.all(listed.map((l) => loadBond(l.bondId))),
+        ]);
+        setBids(openBids);
+        setAsks(listed.flatMap((l, i) => {
+          const bond = bonds[i];
+          return bond
+            ? [{ ...l, sbtcAmount: bond.sbtcAmount, maturityBlock: bond.maturityBlock }]
+            : [];
+        }));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load order book");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void load();
+    const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [listingsKey, versions.listings]);
+
+  return { bids, asks, loading, error };
+}
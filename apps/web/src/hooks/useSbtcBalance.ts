@@ -1,16 +1,13 @@
 import { useState, useEffect } from "react";
 import { cvToValue, principalCV } from "@stacks/transactions";
+import { parseContractId } from "@satcurve/contracts";
 import { callReadOnly } from "../lib/rpc";
 import { stacksNetwork } from "../lib/stacks";
 import { CONTRACT_ADDRESSES } from "../lib/contracts";
+import { useTransactions } from "./useTransactions";
 
 const POLL_INTERVAL_MS = 30_000;
 
-function parseContractId(fullAddress: string) {
-  const parts = fullAddress.split(".");
-  return { contractAddress: parts[0] ?? "", contractName: parts[1] ?? "" };
-}
-
 interface UseSbtcBalanceResult {
   balance: bigint | null;
   loading: boolean;
@@ -21,6 +18,7 @@ export function useSbtcBalance(address: string | null): UseSbtcBalanceResult {
   const [balance, setBalance] = useState<bigint | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { versions } = useTransactions();
 
   useEffect(() => {
     if (!address) {
@@ -28,10 +26,10 @@ export function useSbtcBalance(address: string | null): UseSbtcBalanceResult {
       return;
     }
 
+    if (!CONTRACT_ADDRESSES.sbtcToken) return;
     const { contractAddress, contractName } = parseContractId(
       CONTRACT_ADDRESSES.sbtcToken,
     );
-    if (!contractAddress || !contractName) return;
 
     setLoading(true);
 
@@ -62,7 +60,7 @@ export function useSbtcBalance(address: string | null): UseSbtcBalanceResult {
     void load();
     const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [address]);
+  }, [address, versions.balance]);
 
   return { balance, loading, error };
 }
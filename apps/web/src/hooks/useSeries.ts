@@ -0,0 +1,49 @@
+import { useState, useEffect } from "react";
+import { readContract } from "../lib/rpc";
+import { bondFactory } from "../lib/contracts";
+import { useTransactions } from "./useTransactions";
+import type { Series } from "@satcurve/types";
+
+const POLL_INTERVAL_MS = 30_000;
+
+export interface SeriesList {
+  /** Every series ever added, in id order, closed and matured ones included. */
+  series: Series[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useSeries(): SeriesList {
+  const [series, setSeries] = useState<Series[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { versions } = useTransactions();
+
+  useEffect(() => {
+    if (!bondFactory) {
+      setLoading(false);
+      return;
+    }
+    const bf = bondFactory;
+    const senderAddress = bf.contractAddress; // arbitrary valid address for read-only calls
+
+    async function load() {
+      try {
+        const count = await readContract(bf.getSeriesCount(), senderAddress);
+        const ids = Array.from({ length: Number(count) }, (_, i) => i);
+        setSeries(await Promise.all(ids.map((id) => readContract(bf.getSeries(id), senderAddress))));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load maturity series");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void load();
+    const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [versions.bonds]);
+
+  return { series, loading, error };
+}
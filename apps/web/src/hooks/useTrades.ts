@@ -0,0 +1,47 @@
+import { useState, useEffect } from "react";
+import { INDEXER_URL, fetchIndexedSales } from "../lib/indexer";
+import { useTransactions } from "./useTransactions";
+import type { Trade } from "../lib/trades";
+
+const POLL_INTERVAL_MS = 30_000;
+
+export interface TradeHistory {
+  /** Newest first. */
+  trades: Trade[];
+  loading: boolean;
+  error: string | null;
+  /**
+   * Trades are gone from the chain once settled, so history needs the
+   * indexer; false when VITE_INDEXER_URL is not set.
+   */
+  available: boolean;
+}
+
+/** Executed trades of one bond, or the market-wide tape when `bondId` is undefined. */
+export function useTrades(bondId?: number, limit?: number): TradeHistory {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [loading, setLoading] = useState(Boolean(INDEXER_URL));
+  const [error, setError] = useState<string | null>(null);
+  const { versions } = useTransactions();
+
+  useEffect(() => {
+    if (!INDEXER_URL) return;
+
+    async function load() {
+      try {
+        setTrades(await fetchIndexedSales(bondId, limit));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load trades");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void load();
+    const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [bondId, limit, versions.listings]);
+
+  return { trades, loading, error, available: Boolean(INDEXER_URL) };
+}
@@ -0,0 +1,8 @@
+import { useContext } from "react";
+import { TransactionsContext, type TransactionsContextValue } from "../providers/transactionsContext";
+
+export function useTransactions(): TransactionsContextValue {
+  const ctx = useContext(TransactionsContext);
+  if (!ctx) throw new Error("useTransactions must be inside TransactionsProvider");
+  return ctx;
+}
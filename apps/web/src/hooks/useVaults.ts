@@ -0,0 +1,67 @@
+import { useState, useEffect } from "react";
+import { YtVault } from "@satcurve/contracts";
+import { readContract } from "../lib/rpc";
+import { vaults as vaultClients } from "../lib/contracts";
+import { useTransactions } from "./useTransactions";
+import type { VaultInfo } from "@satcurve/types";
+
+const POLL_INTERVAL_MS = 30_000;
+
+export interface VaultState extends VaultInfo {
+  /** The connected wallet's shares. */
+  balance: bigint;
+  /** Harvested yield the wallet can claim; always 0 for PT vaults. */
+  claimable: bigint;
+  /** Vaulted YTs to harvest after maturity before shares can be redeemed; always 0 for PT vaults. */
+  unharvested: bigint;
+}
+
+export interface Vaults {
+  vaults: VaultState[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useVaults(address: string | null): Vaults {
+  const [vaults, setVaults] = useState<VaultState[]>([]);
+  const [loading, setLoading] = useState(vaultClients.length > 0);
+  const [error, setError] = useState<string | null>(null);
+  const { versions } = useTransactions();
+
+  useEffect(() => {
+    if (vaultClients.length === 0) return;
+
+    async function load() {
+      try {
+        const loaded = await Promise.all(vaultClients.map(async (vault): Promise<VaultState> => {
+          const sender = address ?? vault.contractAddress; // arbitrary valid address for read-only calls
+          const [name, symbol, range, totalSupply, balance, claimable, unharvested] = await Promise.all([
+            readContract(vault.getName(), sender),
+            readContract(vault.getSymbol(), sender),
+            readContract(vault.getMaturityRange(), sender),
+            readContract(vault.getTotalSupply(), sender),
+            address ? readContract(vault.getBalance(address), sender) : 0n,
+            address && vault instanceof YtVault ? readContract(vault.getClaimable(address), sender) : 0n,
+            vault instanceof YtVault ? readContract(vault.getUnharvestedCount(), sender) : 0n,
+          ]);
+          return {
+            contractId: vault.contractId, tokenType: vault.tokenType, name, symbol, ...range,
+            totalSupply, balance, claimable, unharvested,
+          };
+        }));
+        setVaults(loaded);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load vaults");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void load();
+    const interval = setInterval(() => void load(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [address, versions.vaults]);
+
+  return { vaults, loading, error };
+}
@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { useOrderBook } from "./useOrderBook";
+import { listingLive } from "../lib/orderBook";
+import { buildYieldCurve } from "../lib/yieldCurve";
+import type { CurvePoint } from "../lib/yieldCurve";
+import type { NftListing } from "@satcurve/types";
+
+export interface YieldCurveState {
+  /** Empty until the block height is known and some PT is listed below face. */
+  curve: CurvePoint[];
+  loading: boolean;
+}
+
+/** The PT yield curve implied by the live listings among `listings`. */
+export function useYieldCurve(listings: NftListing[], currentBlock: number | null): YieldCurveState {
+  const liveListings = useMemo(
+    () => (currentBlock !== null ? listings.filter((l) => listingLive(l, currentBlock)) : listings),
+    [listings, currentBlock],
+  );
+  const { asks, loading } = useOrderBook(liveListings);
+  const curve = useMemo(
+    () => (currentBlock !== null ? buildYieldCurve(asks, currentBlock) : []),
+    [asks, currentBlock],
+  );
+  return { curve, loading };
+}
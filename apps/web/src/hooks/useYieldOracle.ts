@@ -1,15 +1,9 @@
 import { useState, useEffect } from "react";
-import { callReadOnlyFunction, cvToValue } from "@stacks/transactions";
-import { stacksNetwork } from "../lib/stacks";
-import { CONTRACT_ADDRESSES } from "../lib/contracts";
+import { readContract } from "../lib/rpc";
+import { yieldOracle } from "../lib/contracts";
 
 const POLL_INTERVAL_MS = 60_000; // oracle updates once per PoX cycle (~2 weeks), 1-min poll is fine
 
-function parseContractId(fullAddress: string) {
-  const parts = fullAddress.split(".");
-  return { contractAddress: parts[0] ?? "", contractName: parts[1] ?? "" };
-}
-
 export interface YieldOracleData {
   /** Stacking APR in basis points (1 bps = 0.01%). e.g. 800 = 8.00% */
   aprBps: number;
@@ -27,42 +21,22 @@ export function useYieldOracle(): UseYieldOracleResult {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const { contractAddress, contractName } = parseContractId(
-      CONTRACT_ADDRESSES.yieldOracle,
-    );
-    if (!contractAddress || !contractName) return;
+    if (!yieldOracle) return;
+    const oracleContract = yieldOracle;
 
     async function load() {
       try {
         // Use get-stacking-apr and get-btc-price (non-reverting) rather than
         // the trusted variants, so the UI still shows estimates even when data
         // is slightly stale.
-        const [aprRes, btcRes] = await Promise.all([
-          callReadOnlyFunction({
-            contractAddress,
-            contractName,
-            functionName: "get-stacking-apr",
-            functionArgs: [],
-            network: stacksNetwork,
-            senderAddress: contractAddress,
-          }),
-          callReadOnlyFunction({
-            contractAddress,
-            contractName,
-            functionName: "get-btc-price",
-            functionArgs: [],
-            network: stacksNetwork,
-            senderAddress: contractAddress,
-          }),
+        const senderAddress = oracleContract.contractAddress;
+        const [apr, btc] = await Promise.all([
+          readContract(oracleContract.getStackingApr(), senderAddress),
+          readContract(oracleContract.getBtcPrice(), senderAddress),
         ]);
 
-        // Both functions return (ok uint).
-        // cvToValue(ResponseOkCV(UIntCV)) → { type: "uint", value: "n" }
-        const aprRaw = cvToValue(aprRes) as { value: string };
-        const btcRaw = cvToValue(btcRes) as { value: string };
-
-        const aprBps = Number(aprRaw.value);
-        const btcUsdPrice = Number(btcRaw.value);
+        const aprBps = Number(apr);
+        const btcUsdPrice = Number(btc);
 
         // Only update if we got sensible values (btc price must be > 0)
         if (btcUsdPrice > 0) {
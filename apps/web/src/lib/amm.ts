@@ -0,0 +1,153 @@
+import type { AmmPool } from "@satcurve/types";
+
+// Mirror of the pricing in pt-amm.clar. Every division truncates (or rounds
+// up) exactly where the contract's does, so quotes match the chain to the sat;
+// tests/pt-amm.test.ts checks the two against each other.
+
+export const ONE = 100_000_000n;
+export const BPS = 10_000n;
+export const BLOCKS_PER_YEAR = 6_307_200n;
+export const RATE_SCALAR_BPS = 1_000n;
+export const FEE_BPS = 30n;
+
+/** Why a quote is unavailable, named after the contract's error. */
+export type QuoteError = "insufficient-liquidity" | "zero-amount";
+
+export type Quote = { ok: true; sbtc: bigint } | { ok: false; error: QuoteError };
+
+type Reserves = Pick<AmmPool, "anchorRateBps" | "maturityBlock" | "sbtcReserve" | "ptReserve">;
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+/** PT share of the pool's value at face, ONE = 100%. An empty pool sits at 50%. */
+export function ptProportion(ptReserve: bigint, sbtcReserve: bigint): bigint {
+  const total = ptReserve + sbtcReserve;
+  return total === 0n ? ONE / 2n : (ptReserve * ONE) / total;
+}
+
+/** The anchor rate, pushed up as PT piles into the pool and down (to 0) as it leaves. */
+export function impliedRateBps(anchorRateBps: bigint, proportion: bigint): bigint {
+  const half = ONE / 2n;
+  if (proportion >= half) return anchorRateBps + (RATE_SCALAR_BPS * (proportion - half)) / ONE;
+  const cut = (RATE_SCALAR_BPS * (half - proportion)) / ONE;
+  return cut > anchorRateBps ? 0n : anchorRateBps - cut;
+}
+
+/** Sats paid for ONE sats of face value with `blocksRemaining` to go. */
+export function ptPrice(rateBps: bigint, blocksRemaining: bigint): bigint {
+  return (ONE * ONE) / (ONE + (rateBps * (ONE / BPS) * blocksRemaining) / BLOCKS_PER_YEAR);
+}
+
+export function blocksLeft(maturityBlock: number, currentBlock: number): bigint {
+  return maturityBlock > currentBlock ? BigInt(maturityBlock - currentBlock) : 0n;
+}
+
+/** Price of a PT maturing at `maturityBlock`, at the rate the reserves imply (price-until). */
+function priceUntil(
+  pool: Reserves,
+  ptReserve: bigint,
+  sbtcReserve: bigint,
+  maturityBlock: number,
+  currentBlock: number,
+): bigint {
+  return ptPrice(
+    impliedRateBps(pool.anchorRateBps, ptProportion(ptReserve, sbtcReserve)),
+    blocksLeft(maturityBlock, currentBlock),
+  );
+}
+
+function priceAt(pool: Reserves, ptReserve: bigint, sbtcReserve: bigint, currentBlock: number): bigint {
+  return priceUntil(pool, ptReserve, sbtcReserve, pool.maturityBlock, currentBlock);
+}
+
+/** Fee-free price of a PT maturing at `maturityBlock`, the pool's own maturity by default. */
+export function spotPrice(pool: Reserves, currentBlock: number, maturityBlock = pool.maturityBlock): bigint {
+  return priceUntil(pool, pool.ptReserve, pool.sbtcReserve, maturityBlock, currentBlock);
+}
+
+/**
+ * sBTC paid out for selling `ptFace` of PT maturing at `maturityBlock` to the
+ * pool, after fees (quote-sell-pt).
+ */
+export function quoteSellPt(pool: Reserves, ptFace: bigint, maturityBlock: number, currentBlock: number): Quote {
+  const price = priceUntil(pool, pool.ptReserve + ptFace, pool.sbtcReserve, maturityBlock, currentBlock);
+  const sbtc = (((ptFace * price) / ONE) * (BPS - FEE_BPS)) / BPS;
+  if (sbtc === 0n) return { ok: false, error: "zero-amount" };
+  if (sbtc > pool.sbtcReserve) return { ok: false, error: "insufficient-liquidity" };
+  return { ok: true, sbtc };
+}
+
+/**
+ * sBTC charged for buying `ptFace` of PT maturing at `maturityBlock` from the
+ * pool, after fees (quote-buy-pt).
+ */
+export function quoteBuyPt(pool: Reserves, ptFace: bigint, maturityBlock: number, currentBlock: number): Quote {
+  if (ptFace > pool.ptReserve) return { ok: false, error: "insufficient-liquidity" };
+  const price = priceUntil(pool, pool.ptReserve - ptFace, pool.sbtcReserve, maturityBlock, currentBlock);
+  const gross = ceilDiv(ptFace * price, ONE);
+  if (gross === 0n) return { ok: false, error: "zero-amount" };
+  return { ok: true, sbtc: ceilDiv(gross * (BPS + FEE_BPS), BPS) };
+}
+
+/** The implied annual rate of a fill, in bps: what the PT earns if held to maturity. */
+export function fillRateBps(sbtc: bigint, ptFace: bigint, blocksRemaining: bigint): bigint {
+  if (sbtc === 0n || blocksRemaining === 0n) return 0n;
+  return ((ptFace - sbtc) * BPS * BLOCKS_PER_YEAR) / (sbtc * blocksRemaining);
+}
+
+/** How far a quote sits from the fee-free spot value of the same face and maturity, in bps. */
+export function priceImpactBps(
+  pool: Reserves,
+  ptFace: bigint,
+  maturityBlock: number,
+  sbtc: bigint,
+  currentBlock: number,
+): bigint {
+  const spotValue = (ptFace * spotPrice(pool, currentBlock, maturityBlock)) / ONE;
+  if (spotValue === 0n) return 0n;
+  const diff = sbtc > spotValue ? sbtc - spotValue : spotValue - sbtc;
+  return (diff * BPS) / spotValue;
+}
+
+/** Least sBTC to accept when selling, `slippageBps` below the quote. */
+export function minSbtcOut(quote: bigint, slippageBps: bigint): bigint {
+  return (quote * (BPS - slippageBps)) / BPS;
+}
+
+/** Most sBTC to pay when buying, `slippageBps` above the quote. */
+export function maxSbtcIn(quote: bigint, slippageBps: bigint): bigint {
+  return ceilDiv(quote * (BPS + slippageBps), BPS);
+}
+
+/** Pool value in sats, PT marked at spot. */
+export function poolValue(pool: Reserves, currentBlock: number): bigint {
+  return pool.sbtcReserve + (pool.ptReserve * spotPrice(pool, currentBlock)) / ONE;
+}
+
+/**
+ * Shares add-liquidity would mint for a deposit of sBTC and PT face value.
+ * After the first deposit, the part out of step with the pool's mix pays the
+ * swap fee (deposit-shares).
+ */
+export function sharesForDeposit(pool: AmmPool, sbtcAmount: bigint, ptFace: bigint, currentBlock: number): bigint {
+  if (pool.totalShares === 0n) return sbtcAmount + (ptFace * spotPrice(pool, currentBlock)) / ONE;
+  const price = priceAt(pool, pool.ptReserve + ptFace, pool.sbtcReserve + sbtcAmount, currentBlock);
+  const ptIn = (ptFace * price) / ONE;
+  const ptPool = (pool.ptReserve * price) / ONE;
+  const valueIn = sbtcAmount + ptIn;
+  const value = pool.sbtcReserve + ptPool;
+  if (value === 0n) return valueIn;
+  const a = ptIn * pool.sbtcReserve;
+  const b = sbtcAmount * ptPool;
+  const excess = ceilDiv(a > b ? a - b : b - a, value);
+  const fee = ceilDiv(excess * FEE_BPS, BPS - FEE_BPS);
+  return ((valueIn - fee) * pool.totalShares) / (value + fee);
+}
+
+/** What `shares` are worth in sats, PT marked at spot. */
+export function lpShareValue(pool: AmmPool, shares: bigint, currentBlock: number): bigint {
+  if (pool.totalShares === 0n) return 0n;
+  return (poolValue(pool, currentBlock) * shares) / pool.totalShares;
+}
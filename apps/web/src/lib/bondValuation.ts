@@ -1,16 +1,14 @@
 import type { YieldOracleData } from "../hooks/useYieldOracle";
-
-/** Stacks blocks per year at ~5 s/block (Nakamoto). */
-const BLOCKS_PER_YEAR = 6_307_200;
+import { flatCurve, presentValue, ptCashFlows, yearFraction, ytCashFlows } from "./valuation";
+import type { DayCount, TermStructure } from "./valuation";
 
 export interface BondValuation {
   // ── PT ──────────────────────────────────────────────────────────────────
   /**
-   * Oracle-implied fair value of the PT in satoshis.
-   * Computed as: face_value / (1 + apr)^years_remaining
+   * Fair value of the PT in satoshis: face value discounted on the curve to
+   * maturity. By default the curve is flat at the oracle APR, compounded
+   * annually: face_value / (1 + apr)^years_remaining.
    * When the bond is matured this equals face_value exactly.
-   *
-   * FUTURE: swap in secondary-market PT price when available.
    */
   ptValueSats: bigint;
   ptValueUsd: number;
@@ -26,7 +24,8 @@ export interface BondValuation {
   ytCertainUsd: number;
 
   /**
-   * Expected additional yield from now until maturity at the oracle APR.
+   * Expected additional yield from now until maturity at the oracle APR,
+   * paid each PoX cycle and discounted on the curve.
    * Purely an estimate — actual stacking rewards will differ.
    * Zero once the bond has matured.
    */
@@ -41,6 +40,11 @@ export interface BondValuation {
   yearsRemaining: number;
 }
 
+/** Years from `atBlock` until `maturityBlock`; zero once matured. */
+export function yearsUntil(maturityBlock: number, atBlock: number, dayCount: DayCount = "ACT/365"): number {
+  return yearFraction(maturityBlock - atBlock, dayCount);
+}
+
 /**
  * Pendle-style implied yield rate derived from a PT market price.
  *
@@ -59,7 +63,8 @@ export function computeImpliedRate(
 }
 
 /**
- * Compute oracle-implied valuations for a bond's PT and YT.
+ * Compute oracle-implied valuations for a bond's PT and YT. Cash flows are
+ * discounted on `curve`, flat at the oracle APR unless given.
  *
  * Returns null if the oracle data is unavailable or the bond has already been
  * combined/redeemed (valuation is meaningless at that point).
@@ -71,23 +76,22 @@ export function computeBondValuation(
   yieldDeposited: bigint,
   yieldWithdrawn: bigint,
   oracle: YieldOracleData,
+  curve: TermStructure = flatCurve(oracle.aprBps / 10_000),
+  dayCount: DayCount = "ACT/365",
 ): BondValuation {
-  const blocksLeft = Math.max(0, maturityBlock - currentBlock);
-  const yearsRemaining = blocksLeft / BLOCKS_PER_YEAR;
+  const yearsRemaining = yearsUntil(maturityBlock, currentBlock, dayCount);
 
   const aprDecimal = oracle.aprBps / 10_000;
 
   // ── PT fair value (zero-coupon bond discounting) ──────────────────────────
-  const discountFactor = yearsRemaining > 0
-    ? Math.pow(1 + aprDecimal, yearsRemaining)
-    : 1;
-  const ptValueSats = BigInt(Math.round(Number(sbtcAmountSats) / discountFactor));
+  const ptValueSats = yearsRemaining > 0
+    ? BigInt(Math.round(presentValue(ptCashFlows(sbtcAmountSats, maturityBlock, currentBlock, dayCount), curve)))
+    : sbtcAmountSats;
 
   // ── YT value ─────────────────────────────────────────────────────────────
   const ytCertainSats = yieldDeposited - yieldWithdrawn; // already accumulated
-  const ytExpectedSats = yearsRemaining > 0
-    ? BigInt(Math.round(Number(sbtcAmountSats) * aprDecimal * yearsRemaining))
-    : 0n;
+  const ytFlows = ytCashFlows(sbtcAmountSats, aprDecimal, maturityBlock, currentBlock, dayCount);
+  const ytExpectedSats = BigInt(Math.round(presentValue(ytFlows, curve)));
   const ytTotalEstSats = ytCertainSats + ytExpectedSats;
 
   // ── USD conversion ────────────────────────────────────────────────────────
@@ -1,8 +1,43 @@
+import { BondFactory, Market, PtAmm, PtVault, YieldOracle, YtVault } from "@satcurve/contracts";
+import type { ContractName, Vault } from "@satcurve/contracts";
 import type { ContractAddresses } from "@satcurve/types";
 
+/** Comma-separated contract ids, one per vault bucket. */
+function contractIds(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((id) => id.trim()).filter(Boolean);
+}
+
 export const CONTRACT_ADDRESSES: ContractAddresses = {
   bondFactory: import.meta.env.VITE_BOND_FACTORY_ADDRESS ?? "",
   yieldOracle: import.meta.env.VITE_YIELD_ORACLE_ADDRESS ?? "",
   sbtcToken: import.meta.env.VITE_SBTC_TOKEN_ADDRESS ?? "",
   market: import.meta.env.VITE_MARKET_ADDRESS ?? "",
+  ptAmm: import.meta.env.VITE_PT_AMM_ADDRESS ?? "",
+  ptVaults: contractIds(import.meta.env.VITE_PT_VAULT_ADDRESSES),
+  ytVaults: contractIds(import.meta.env.VITE_YT_VAULT_ADDRESSES),
 };
+
+// Typed clients; null while the contract address is not configured.
+export const bondFactory = CONTRACT_ADDRESSES.bondFactory ? new BondFactory(CONTRACT_ADDRESSES.bondFactory) : null;
+export const market = CONTRACT_ADDRESSES.market ? new Market(CONTRACT_ADDRESSES.market) : null;
+export const ptAmm = CONTRACT_ADDRESSES.ptAmm ? new PtAmm(CONTRACT_ADDRESSES.ptAmm) : null;
+export const yieldOracle = CONTRACT_ADDRESSES.yieldOracle ? new YieldOracle(CONTRACT_ADDRESSES.yieldOracle) : null;
+export const vaults: Vault[] = [
+  ...CONTRACT_ADDRESSES.ptVaults.map((id) => new PtVault(id)),
+  ...CONTRACT_ADDRESSES.ytVaults.map((id) => new YtVault(id)),
+];
+
+export function vaultClient(contractId: string): Vault | null {
+  return vaults.find((v) => v.contractId === contractId) ?? null;
+}
+
+/** Which SatCurve contract a "<address>.<name>" id refers to, if any. */
+export function contractNameOf(contractId: string): ContractName | null {
+  if (contractId === bondFactory?.contractId) return "bond-factory";
+  if (contractId === market?.contractId) return "market";
+  if (contractId === ptAmm?.contractId) return "pt-amm";
+  if (contractId === yieldOracle?.contractId) return "yield-oracle";
+  const vault = vaultClient(contractId);
+  if (vault) return vault.tokenType === "PT" ? "pt-vault" : "yt-vault";
+  return null;
+}
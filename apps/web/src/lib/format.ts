@@ -5,6 +5,26 @@ export function formatSats(sats: bigint): string {
   return `${whole}.${frac.toString().padStart(8, "0")}`;
 }
 
+/** Parse a decimal sBTC string ("0.95") into satoshis; null if malformed. */
+export function parseSbtcInput(value: string): bigint | null {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === ".") return null;
+  const parts = trimmed.split(".");
+  if (parts.length > 2) return null;
+  const whole = parts[0] ?? "0";
+  const frac = (parts[1] ?? "").padEnd(8, "0").slice(0, 8);
+  try {
+    return BigInt(whole) * 100_000_000n + BigInt(frac);
+  } catch {
+    return null;
+  }
+}
+
+/** First six and last four characters of a Stacks address. */
+export function shortAddress(addr: string): string {
+  return `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+}
+
 export function formatBlockNumber(block: number): string {
   return block.toLocaleString("en-US");
 }
@@ -41,10 +61,3 @@ export function formatUsd(usd: number): string {
     maximumFractionDigits: 2,
   });
 }
-
-export const TERM_PRESET_BLOCKS: Record<string, number> = {
-  "3M": 1_555_200,
-  "6M": 3_110_400,
-  "1Y": 6_307_200,
-  "2Y": 12_614_400,
-};
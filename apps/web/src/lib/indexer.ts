@@ -0,0 +1,83 @@
+import type { Bid, Bond, IndexedBid, IndexedBond, IndexedListing, IndexedSale } from "@satcurve/types";
+import type { Trade } from "./trades";
+
+/**
+ * Base URL of the @satcurve/indexer REST API. When set, bond and listing
+ * hooks read from the indexer instead of issuing one read-only call per bond.
+ */
+export const INDEXER_URL: string = import.meta.env.VITE_INDEXER_URL ?? "";
+
+async function getJson<T>(path: string): Promise<T> {
+  const res = await fetch(`${INDEXER_URL}${path}`);
+  if (!res.ok) throw new Error(`Indexer ${path} failed: ${res.status}`);
+  return (await res.json()) as T;
+}
+
+/** Bonds whose PT or YT `holder` owns or has listed on the market. */
+export async function fetchIndexedBonds(holder: string): Promise<Bond[]> {
+  const bonds = await getJson<IndexedBond[]>(`/bonds?holder=${encodeURIComponent(holder)}`);
+  return bonds.map((b) => ({
+    tokenId: BigInt(b.bondId),
+    owner: holder,
+    sbtcAmount: BigInt(b.sbtcAmount),
+    maturityBlock: b.maturityBlock,
+    createdBlock: b.createdBlock,
+    principalRedeemed: b.principalRedeemed,
+    combined: b.combined,
+    yieldDeposited: BigInt(b.yieldDeposited),
+    yieldWithdrawn: BigInt(b.yieldWithdrawn),
+    holdsPt: b.ptOwner === holder,
+    holdsYt: b.ytOwner === holder,
+    ptListed: b.ptListing?.seller === holder,
+    ytListed: b.ytListing?.seller === holder,
+  }));
+}
+
+/** Every open PT / YT listing. */
+export function fetchIndexedListings(): Promise<IndexedListing[]> {
+  return getJson<IndexedListing[]>("/listings");
+}
+
+/** Every open PT bid. */
+export async function fetchIndexedBids(): Promise<Bid[]> {
+  const bids = await getJson<IndexedBid[]>("/bids");
+  return bids.map((b) => ({
+    bidId: b.bidId,
+    bidder: b.bidder,
+    bondId: b.bondId,
+    minMaturity: b.minMaturity,
+    maxMaturity: b.maxMaturity,
+    pricePerSbtc: BigInt(b.pricePerSbtc),
+    remainingSats: BigInt(b.remainingSats),
+  }));
+}
+
+/** Completed trades newest first: every bond's, or only `bondId`'s; at most `limit`. */
+export async function fetchIndexedSales(bondId?: number, limit?: number): Promise<Trade[]> {
+  const params = new URLSearchParams();
+  if (bondId !== undefined) params.set("bondId", String(bondId));
+  if (limit !== undefined) params.set("limit", String(limit));
+  const query = params.toString();
+  const sales = await getJson<IndexedSale[]>(query ? `/sales?${query}` : "/sales");
+  return sales.map((s) => ({
+    txid: s.txid,
+    bondId: s.bondId,
+    tokenType: s.tokenType,
+    seller: s.seller,
+    buyer: s.buyer,
+    priceSats: BigInt(s.priceSats),
+    feeSats: BigInt(s.feeSats),
+    blockHeight: s.blockHeight,
+    blockTime: s.blockTime,
+    sbtcAmount: s.sbtcAmount === null ? null : BigInt(s.sbtcAmount),
+    maturityBlock: s.maturityBlock,
+  }));
+}
+
+/** One bond by id; null if the indexer has not seen it. */
+export async function fetchIndexedBond(bondId: number): Promise<IndexedBond | null> {
+  const res = await fetch(`${INDEXER_URL}/bonds/${bondId}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Indexer /bonds/${bondId} failed: ${res.status}`);
+  return (await res.json()) as IndexedBond;
+}
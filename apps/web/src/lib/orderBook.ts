@@ -0,0 +1,128 @@
+import type { Bid, FeeConfig, Listing } from "@satcurve/types";
+
+/** Bid prices, and asks normalised for the book, are sats per 1 sBTC of face value. */
+export const SATS_PER_SBTC = 100_000_000n;
+
+/** Width of one maturity bucket: three months of blocks. */
+export const BUCKET_BLOCKS = 1_555_200;
+
+/** bond-factory's MAX-TERM-BLOCKS: two years. */
+export const MAX_TERM_BLOCKS = 12_614_400;
+
+// Bonds mature at most two years out, so every order lands in bucket 0…8.
+const LAST_BUCKET = Math.floor(MAX_TERM_BLOCKS / BUCKET_BLOCKS);
+
+/** A PT listing with the face value and maturity of the bond it sells. */
+export interface BookAsk {
+  bondId: number;
+  seller: string;
+  priceSats: bigint;
+  sbtcAmount: bigint;
+  maturityBlock: number;
+}
+
+export interface MaturityBucket {
+  index: number;
+  /** e.g. "3–6M" from now. */
+  label: string;
+  bestBid: bigint | null;
+  bestAsk: bigint | null;
+  /** bestAsk − bestBid; negative when the book is crossed. */
+  spread: bigint | null;
+  /** sBTC escrowed by bids that accept this bucket. */
+  bidDepthSats: bigint;
+  /** Face value of the PTs listed in this bucket. */
+  askDepthSats: bigint;
+  bids: Bid[];
+  asks: BookAsk[];
+}
+
+export function pricePerSbtc(priceSats: bigint, faceSats: bigint): bigint {
+  return faceSats > 0n ? (priceSats * SATS_PER_SBTC) / faceSats : 0n;
+}
+
+/** What a bid pays for a PT of `faceSats`, rounded down as in market.clar. */
+export function bidFillPrice(bid: Bid, faceSats: bigint): bigint {
+  return (faceSats * bid.pricePerSbtc) / SATS_PER_SBTC;
+}
+
+/** What a buyer pays for a listing: the seller's price plus the market's trade fee. */
+export interface ListingCost {
+  priceSats: bigint;
+  feeSats: bigint;
+  totalSats: bigint;
+}
+
+/** The trade fee on `priceSats`, rounded down as in market.clar's trade-fee. */
+export function listingCost(priceSats: bigint, fee: Pick<FeeConfig, "feeBps">): ListingCost {
+  const feeSats = (priceSats * BigInt(fee.feeBps)) / 10_000n;
+  return { priceSats, feeSats, totalSats: priceSats + feeSats };
+}
+
+/** Whether a listing can still be bought or repriced, as market.clar's is-live. */
+export function listingLive(listing: Listing, currentBlock: number): boolean {
+  return listing.expiresAt === null || currentBlock < listing.expiresAt;
+}
+
+/** Whether a PT maturing at `maturityBlock` can be sold into `bid`. */
+export function bidAccepts(bid: Bid, bondId: number, maturityBlock: number): boolean {
+  return bid.bondId !== null
+    ? bid.bondId === bondId
+    : maturityBlock >= bid.minMaturity && maturityBlock <= bid.maxMaturity;
+}
+
+/** Matured bonds fall into the first bucket. */
+export function bucketIndex(maturityBlock: number, currentBlock: number): number {
+  const index = Math.floor((maturityBlock - currentBlock) / BUCKET_BLOCKS);
+  return Math.min(Math.max(index, 0), LAST_BUCKET);
+}
+
+/** e.g. "3–6M" for bucket 1. */
+export function bucketLabel(index: number): string {
+  return `${index * 3}–${(index + 1) * 3}M`;
+}
+
+/**
+ * Group PT asks and bids into maturity buckets, relative to `currentBlock`.
+ * A range bid is counted in every bucket it overlaps, so bid depth across
+ * buckets can add up to more than the sBTC actually escrowed.
+ */
+export function buildOrderBook(asks: BookAsk[], bids: Bid[], currentBlock: number): MaturityBucket[] {
+  const buckets = new Map<number, MaturityBucket>();
+  const bucket = (index: number): MaturityBucket => {
+    let b = buckets.get(index);
+    if (!b) {
+      b = {
+        index, label: bucketLabel(index),
+        bestBid: null, bestAsk: null, spread: null,
+        bidDepthSats: 0n, askDepthSats: 0n, bids: [], asks: [],
+      };
+      buckets.set(index, b);
+    }
+    return b;
+  };
+
+  for (const ask of asks) {
+    const b = bucket(bucketIndex(ask.maturityBlock, currentBlock));
+    const price = pricePerSbtc(ask.priceSats, ask.sbtcAmount);
+    b.asks.push(ask);
+    b.askDepthSats += ask.sbtcAmount;
+    if (b.bestAsk === null || price < b.bestAsk) b.bestAsk = price;
+  }
+
+  for (const bid of bids) {
+    const first = bucketIndex(bid.minMaturity, currentBlock);
+    const last = bucketIndex(bid.maxMaturity, currentBlock);
+    for (let i = first; i <= last; i++) {
+      const b = bucket(i);
+      b.bids.push(bid);
+      b.bidDepthSats += bid.remainingSats;
+      if (b.bestBid === null || bid.pricePerSbtc > b.bestBid) b.bestBid = bid.pricePerSbtc;
+    }
+  }
+
+  for (const b of buckets.values()) {
+    if (b.bestBid !== null && b.bestAsk !== null) b.spread = b.bestAsk - b.bestBid;
+  }
+  return [...buckets.values()].sort((a, b) => a.index - b.index);
+}
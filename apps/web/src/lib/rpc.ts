@@ -1,4 +1,6 @@
 import { callReadOnlyFunction } from "@stacks/transactions";
+import type { ReadOnlyCall } from "@satcurve/contracts";
+import { stacksNetwork } from "./stacks";
 
 type CallReadOnlyFunctionParams = Parameters<typeof callReadOnlyFunction>[0];
 
@@ -26,3 +28,17 @@ export async function callReadOnly(
     }
   }
 }
+
+/** Run a typed read-only call from @satcurve/contracts and decode its result. */
+export async function readContract<T>(call: ReadOnlyCall<T>, senderAddress: string): Promise<T> {
+  const { contractAddress, contractName, functionName, functionArgs, decode } = call;
+  const result = await callReadOnly({
+    contractAddress,
+    contractName,
+    functionName,
+    functionArgs,
+    network: stacksNetwork,
+    senderAddress,
+  });
+  return decode(result);
+}
@@ -0,0 +1,102 @@
+import type { TokenType } from "@satcurve/types";
+import { computeImpliedRate, yearsUntil } from "./bondValuation";
+
+/** A completed listing purchase or bid fill, as recorded by the indexer. */
+export interface Trade {
+  txid: string;
+  bondId: number;
+  tokenType: TokenType;
+  seller: string;
+  buyer: string;
+  /** What the seller received. */
+  priceSats: bigint;
+  /** Trade fee the buyer paid on top of priceSats. */
+  feeSats: bigint;
+  blockHeight: number;
+  /** Unix seconds. */
+  blockTime: number;
+  /** Face value and maturity of the bond traded; null if the indexer has not seen it. */
+  sbtcAmount: bigint | null;
+  maturityBlock: number | null;
+}
+
+/** Width of one candle: a day of ~5 s blocks. */
+export const CANDLE_BLOCKS = 17_280;
+
+/** Open, high, low and close trade price over one period of blocks. */
+export interface Candle {
+  startBlock: number;
+  /** blockTime of the period's first trade, unix seconds. */
+  startTime: number;
+  open: bigint;
+  high: bigint;
+  low: bigint;
+  close: bigint;
+  /** Sum of the trade prices. */
+  volumeSats: bigint;
+  trades: number;
+}
+
+/** A PT trade's implied rate, for charting over time. */
+export interface RatePoint {
+  bondId: number;
+  blockHeight: number;
+  blockTime: number;
+  /** Annual rate, as a decimal. */
+  rate: number;
+}
+
+/**
+ * The annual yield a PT trade locked in at its price, from the block it
+ * traded until maturity. Null for YT, for bonds the indexer has not seen, and
+ * where computeImpliedRate is undefined (at or above face, or matured).
+ */
+export function tradeImpliedRate(trade: Trade): number | null {
+  if (trade.tokenType !== "PT" || trade.sbtcAmount === null || trade.maturityBlock === null) return null;
+  return computeImpliedRate(trade.priceSats, trade.sbtcAmount, yearsUntil(trade.maturityBlock, trade.blockHeight));
+}
+
+/**
+ * Bucket trades into candles `periodBlocks` wide, oldest first. `trades` are
+ * newest first, as the indexer returns them, and should all be of one bond
+ * and token type: prices of different bonds are not comparable.
+ */
+export function buildCandles(trades: Trade[], periodBlocks = CANDLE_BLOCKS): Candle[] {
+  const candles: Candle[] = [];
+  for (const trade of [...trades].reverse()) {
+    const startBlock = trade.blockHeight - (trade.blockHeight % periodBlocks);
+    const price = trade.priceSats;
+    const last = candles[candles.length - 1];
+    if (last && last.startBlock === startBlock) {
+      if (price > last.high) last.high = price;
+      if (price < last.low) last.low = price;
+      last.close = price;
+      last.volumeSats += price;
+      last.trades += 1;
+    } else {
+      candles.push({
+        startBlock,
+        startTime: trade.blockTime,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volumeSats: price,
+        trades: 1,
+      });
+    }
+  }
+  return candles;
+}
+
+/** Implied rates of the PT trades among `trades` (newest first), oldest first. */
+export function impliedRateSeries(trades: Trade[]): RatePoint[] {
+  const points: RatePoint[] = [];
+  for (const trade of [...trades].reverse()) {
+    const rate = tradeImpliedRate(trade);
+    if (rate !== null) {
+      points.push({ bondId: trade.bondId, blockHeight: trade.blockHeight, blockTime: trade.blockTime, rate });
+    }
+  }
+  return points;
+}
@@ -0,0 +1,140 @@
+import type { ContractCall } from "@satcurve/contracts";
+import type { Bond } from "@satcurve/types";
+import { contractNameOf } from "./contracts";
+
+export type TrackedTxStatus = "pending" | "success" | "failed";
+
+/** Query groups a confirmed transaction makes stale. */
+export type TxScope = "bonds" | "listings" | "balance" | "vaults";
+
+/**
+ * A transaction submitted from this browser. Only JSON-safe fields are kept
+ * so the list survives reloads in localStorage.
+ */
+export interface TrackedTx {
+  txid: string;
+  contractAddress: string;
+  contractName: string;
+  functionName: string;
+  /** Bond the call acts on, when there is one. */
+  bondId: number | null;
+  status: TrackedTxStatus;
+  /** Plain-language failure reason, set when status is "failed". */
+  error: string | null;
+  /** ms since epoch. */
+  submittedAt: number;
+}
+
+const STORAGE_KEY = "satcurve:transactions";
+
+/** Settled entries kept for the drawer's history. */
+const MAX_SETTLED = 20;
+
+// Functions that move sBTC in or out of the caller's wallet.
+const BALANCE_FUNCTIONS = new Set([
+  "create-bond", "create-bond-in-series", "collect-yield", "redeem-principal", "combine", "buy-pt", "buy-yt",
+  "place-bid", "place-bond-bid", "cancel-bid", "sell-into-bid",
+  "add-liquidity", "remove-liquidity", "swap-pt-for-sbtc", "swap-sbtc-for-pt",
+  "wrap-yt", "claim", "redeem",
+]);
+
+export function scopesOf(tx: Pick<TrackedTx, "contractAddress" | "contractName" | "functionName">): TxScope[] {
+  const scopes: TxScope[] = ["bonds"];
+  // Deployed names are free-form, so the role comes from the configured ids.
+  const contract = contractNameOf(`${tx.contractAddress}.${tx.contractName}`);
+  // AMM pools are refreshed along with market listings.
+  if (contract === "market" || contract === "pt-amm") scopes.push("listings");
+  if (contract === "pt-vault" || contract === "yt-vault") scopes.push("vaults");
+  if (BALANCE_FUNCTIONS.has(tx.functionName)) scopes.push("balance");
+  return scopes;
+}
+
+export function newTrackedTx(txid: string, call: ContractCall, bondId: number | null): TrackedTx {
+  return {
+    txid,
+    contractAddress: call.contractAddress,
+    contractName: call.contractName,
+    functionName: call.functionName,
+    bondId,
+    status: "pending",
+    error: null,
+    submittedAt: Date.now(),
+  };
+}
+
+export function loadTransactions(): TrackedTx[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as TrackedTx[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTransactions(txs: TrackedTx[]): void {
+  const pending = txs.filter((t) => t.status === "pending");
+  const settled = txs.filter((t) => t.status !== "pending").slice(0, MAX_SETTLED);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...pending, ...settled]));
+  } catch (err) {
+    console.error("[transactions] could not persist:", err);
+  }
+}
+
+/**
+ * The bond as it will look once `pending` confirm. Chain state wins again
+ * as soon as a tx settles, so a failed tx simply drops its overlay.
+ */
+export function applyPendingTxs(bond: Bond, pending: TrackedTx[]): Bond {
+  let next = bond;
+  for (const tx of pending) {
+    if (tx.bondId !== Number(bond.tokenId) || tx.status !== "pending") continue;
+    switch (tx.functionName) {
+      case "collect-yield":
+        next = { ...next, yieldWithdrawn: next.yieldDeposited };
+        break;
+      case "redeem-principal":
+        next = { ...next, principalRedeemed: true, holdsPt: false };
+        break;
+      case "combine":
+        next = { ...next, combined: true, holdsPt: false, holdsYt: false };
+        break;
+      case "list-pt":
+        next = { ...next, ptListed: true, holdsPt: false };
+        break;
+      case "list-yt":
+        next = { ...next, ytListed: true, holdsYt: false };
+        break;
+      case "sell-into-bid":
+      case "swap-pt-for-sbtc":
+        next = { ...next, holdsPt: false };
+        break;
+      case "cancel-pt":
+        next = { ...next, ptListed: false, holdsPt: true };
+        break;
+      case "cancel-yt":
+        next = { ...next, ytListed: false, holdsYt: true };
+        break;
+      case "wrap-pt":
+        next = { ...next, holdsPt: false };
+        break;
+      case "wrap-yt":
+        // The YT's uncollected yield is paid out to the wrapper first.
+        next = { ...next, holdsYt: false, yieldWithdrawn: next.yieldDeposited };
+        break;
+      case "unwrap-pt":
+        next = { ...next, holdsPt: true };
+        break;
+      case "unwrap-yt":
+        next = { ...next, holdsYt: true, yieldWithdrawn: next.yieldDeposited };
+        break;
+      case "settle":
+        next = { ...next, principalRedeemed: true };
+        break;
+      case "harvest":
+        next = { ...next, yieldWithdrawn: next.yieldDeposited };
+        break;
+    }
+  }
+  return next;
+}
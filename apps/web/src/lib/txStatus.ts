@@ -0,0 +1,38 @@
+import { errorMessage, parseErrorCode } from "@satcurve/contracts";
+import type { ContractName } from "@satcurve/contracts";
+import { stacksNetwork } from "./stacks";
+
+/**
+ * "pending", "success", "abort_by_response", "abort_by_post_condition",
+ * or one of the "dropped_*" states of /extended/v1/tx/{txid}.
+ */
+export interface TxStatus {
+  status: string;
+  /** Clarity repr of the result, e.g. "(err u201)". Null while pending. */
+  resultRepr: string | null;
+}
+
+/** Look up a transaction. Null if the API does not know the txid yet. */
+export async function fetchTxStatus(txid: string): Promise<TxStatus | null> {
+  const res = await fetch(`${stacksNetwork.coreApiUrl}/extended/v1/tx/${txid}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Tx lookup failed: ${res.status}`);
+  const json = (await res.json()) as { tx_status: string; tx_result?: { repr: string } };
+  return { status: json.tx_status, resultRepr: json.tx_result?.repr ?? null };
+}
+
+/** Why a finished transaction failed, in plain language; null if it succeeded. */
+export function describeTxFailure(tx: TxStatus, contract: ContractName | null): string | null {
+  if (tx.status === "success") return null;
+  if (tx.status === "abort_by_response") {
+    const code = parseErrorCode(tx.resultRepr);
+    return code !== null ? errorMessage(contract, code) : "The contract rejected the transaction.";
+  }
+  if (tx.status === "abort_by_post_condition") {
+    return "A post-condition failed, so the transaction was reverted and no assets moved.";
+  }
+  if (tx.status.startsWith("dropped")) {
+    return "The transaction was dropped from the mempool and never confirmed.";
+  }
+  return `The transaction failed (${tx.status}).`;
+}
@@ -0,0 +1,208 @@
+// Term-structure valuation of a bond's PT and YT.
+//
+// A PT is one cash flow: its face value at maturity. A YT is the stacking
+// yield paid into bond-factory each PoX cycle until maturity. Both are
+// discounted on a zero curve rather than one flat rate, and their risk
+// metrics come from shifting that curve up and down by a basis point, so
+// the same code serves any set of cash flows.
+
+/**
+ * Stacks blocks per year under each day-count convention, at ~5 s blocks.
+ * Block heights are the only clock on-chain, so the convention is just how
+ * many of them make a year.
+ */
+export const DAY_COUNTS = {
+  "ACT/365": 6_307_200,
+  "ACT/360": 6_220_800,
+} as const;
+
+export type DayCount = keyof typeof DAY_COUNTS;
+
+/** One PoX reward cycle: 2,100 Bitcoin blocks of ~10 min, in ~5 s Stacks blocks. */
+export const CYCLE_BLOCKS = 252_000;
+
+const BP = 0.0001;
+
+/** How an annual rate compounds: continuously, or `perYear` times a year. */
+export type Compounding = { kind: "continuous" } | { kind: "periodic"; perYear: number };
+
+export const ANNUAL: Compounding = { kind: "periodic", perYear: 1 };
+export const CONTINUOUS: Compounding = { kind: "continuous" };
+/** Once per PoX cycle, as stacking rewards are paid. */
+export const PER_CYCLE: Compounding = { kind: "periodic", perYear: DAY_COUNTS["ACT/365"] / CYCLE_BLOCKS };
+
+/**
+ * A zero curve: the annual rate for money paid `years` from now, quoted with
+ * `compounding`. Points are sorted by tenor. Between them, continuously
+ * compounded rates are interpolated linearly, so requoting a curve with
+ * withCompounding never changes a price; past either end the rate is held flat.
+ */
+export interface TermStructure {
+  points: { years: number; rate: number }[];
+  compounding: Compounding;
+}
+
+/** A payment of `sats`, `years` from now. */
+export interface CashFlow {
+  years: number;
+  sats: number;
+}
+
+export interface RiskMetrics {
+  /** Present value of the cash flows, in sats. */
+  valueSats: number;
+  /** Value-weighted average time to the cash flows, in years. */
+  macaulayDuration: number;
+  /** Percentage change in value per unit change in rates, for a parallel shift of the curve. */
+  modifiedDuration: number;
+  convexity: number;
+  /** Sats lost when the whole curve rises by one basis point. */
+  dv01Sats: number;
+}
+
+export function yearFraction(blocks: number, dayCount: DayCount = "ACT/365"): number {
+  return Math.max(0, blocks) / DAY_COUNTS[dayCount];
+}
+
+/** The same curve at one rate for every tenor. */
+export function flatCurve(rate: number, compounding: Compounding = ANNUAL): TermStructure {
+  return { points: [{ years: 0, rate }], compounding };
+}
+
+function continuousRate(rate: number, compounding: Compounding): number {
+  return compounding.kind === "continuous" ? rate : compounding.perYear * Math.log1p(rate / compounding.perYear);
+}
+
+/** `rate` quoted with `from`, requoted with `to`: both discount a cash flow equally. */
+export function convertRate(rate: number, from: Compounding, to: Compounding): number {
+  const r = continuousRate(rate, from);
+  return to.kind === "continuous" ? r : to.perYear * Math.expm1(r / to.perYear);
+}
+
+/** `curve` requoted with `compounding`; prices off either are the same. */
+export function withCompounding(curve: TermStructure, compounding: Compounding): TermStructure {
+  return {
+    points: curve.points.map((p) => ({ years: p.years, rate: convertRate(p.rate, curve.compounding, compounding) })),
+    compounding,
+  };
+}
+
+export function zeroRate(curve: TermStructure, years: number): number {
+  const { points, compounding } = curve;
+  if (points.length === 0) throw new Error("A term structure needs at least one point");
+  const after = points.findIndex((p) => p.years >= years);
+  if (after === 0) return points[0]!.rate;
+  if (after === -1) return points[points.length - 1]!.rate;
+  const lo = points[after - 1]!;
+  const hi = points[after]!;
+  const rLo = continuousRate(lo.rate, compounding);
+  const rHi = continuousRate(hi.rate, compounding);
+  return convertRate(rLo + ((years - lo.years) / (hi.years - lo.years)) * (rHi - rLo), CONTINUOUS, compounding);
+}
+
+/** What one sat paid `years` from now is worth today, with the curve shifted by `shift`. */
+export function discountFactor(curve: TermStructure, years: number, shift = 0): number {
+  const r = zeroRate(curve, years) + shift;
+  const { compounding } = curve;
+  return compounding.kind === "continuous"
+    ? Math.exp(-r * years)
+    : Math.pow(1 + r / compounding.perYear, -compounding.perYear * years);
+}
+
+export function presentValue(flows: CashFlow[], curve: TermStructure, shift = 0): number {
+  return flows.reduce((sum, f) => sum + f.sats * discountFactor(curve, f.years, shift), 0);
+}
+
+/**
+ * Value and rate sensitivity of `flows` on `curve`. Duration and convexity
+ * are effective: measured by repricing with the curve a basis point higher
+ * and lower, in the curve's own compounding. All zero if nothing is owed.
+ */
+export function riskMetrics(flows: CashFlow[], curve: TermStructure): RiskMetrics {
+  const value = presentValue(flows, curve);
+  if (value <= 0) {
+    return { valueSats: 0, macaulayDuration: 0, modifiedDuration: 0, convexity: 0, dv01Sats: 0 };
+  }
+  const up = presentValue(flows, curve, BP);
+  const down = presentValue(flows, curve, -BP);
+  const weightedYears = flows.reduce((sum, f) => sum + f.years * f.sats * discountFactor(curve, f.years), 0);
+  return {
+    valueSats: value,
+    macaulayDuration: weightedYears / value,
+    modifiedDuration: (down - up) / (2 * value * BP),
+    convexity: (up + down - 2 * value) / (value * BP * BP),
+    dv01Sats: (down - up) / 2,
+  };
+}
+
+/** A PT's only cash flow: `faceSats` at maturity. None once matured. */
+export function ptCashFlows(
+  faceSats: bigint,
+  maturityBlock: number,
+  currentBlock: number,
+  dayCount: DayCount = "ACT/365",
+): CashFlow[] {
+  if (currentBlock >= maturityBlock) return [];
+  return [{ years: yearFraction(maturityBlock - currentBlock, dayCount), sats: Number(faceSats) }];
+}
+
+/**
+ * The stacking yield a YT can expect from now to maturity: one payment per
+ * PoX cycle on the bond's principal, at `stackingApr` compounded once per
+ * cycle. The last cycle is cut short at maturity and pays pro rata, as the
+ * relayer weights bonds by the blocks they were live. Cycles are counted
+ * from `currentBlock`, not from PoX cycle boundaries.
+ */
+export function ytCashFlows(
+  faceSats: bigint,
+  stackingApr: number,
+  maturityBlock: number,
+  currentBlock: number,
+  dayCount: DayCount = "ACT/365",
+): CashFlow[] {
+  const perCycle = Number(faceSats) * stackingApr * yearFraction(CYCLE_BLOCKS, dayCount);
+  const flows: CashFlow[] = [];
+  for (let start = currentBlock; start < maturityBlock; start += CYCLE_BLOCKS) {
+    const end = Math.min(start + CYCLE_BLOCKS, maturityBlock);
+    flows.push({
+      years: yearFraction(end - currentBlock, dayCount),
+      sats: (perCycle * (end - start)) / CYCLE_BLOCKS,
+    });
+  }
+  return flows;
+}
+
+/** The annual yield of `apr` once its per-cycle payments compound. */
+export function stackingApy(apr: number): number {
+  return convertRate(apr, PER_CYCLE, ANNUAL);
+}
+
+export interface BondRisk {
+  pt: RiskMetrics;
+  /** Includes the yield already deposited and not yet collected, owed now and so never discounted. */
+  yt: RiskMetrics & {
+    /** Sats the YT's value gains if the stacking APR rises one basis point. */
+    aprDv01Sats: number;
+  };
+}
+
+/** PT and YT risk for a bond with `faceSats` locked until `maturityBlock`. */
+export function bondRisk(
+  faceSats: bigint,
+  maturityBlock: number,
+  currentBlock: number,
+  uncollectedSats: bigint,
+  stackingApr: number,
+  curve: TermStructure,
+  dayCount: DayCount = "ACT/365",
+): BondRisk {
+  const yt = (apr: number): CashFlow[] => [
+    { years: 0, sats: Number(uncollectedSats) },
+    ...ytCashFlows(faceSats, apr, maturityBlock, currentBlock, dayCount),
+  ];
+  const ytRisk = riskMetrics(yt(stackingApr), curve);
+  return {
+    pt: riskMetrics(ptCashFlows(faceSats, maturityBlock, currentBlock, dayCount), curve),
+    yt: { ...ytRisk, aprDv01Sats: presentValue(yt(stackingApr + BP), curve) - ytRisk.valueSats },
+  };
+}
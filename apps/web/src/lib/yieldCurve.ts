@@ -0,0 +1,89 @@
+import { computeImpliedRate, yearsUntil } from "./bondValuation";
+import { ANNUAL } from "./valuation";
+import type { TermStructure } from "./valuation";
+import { BUCKET_BLOCKS, MAX_TERM_BLOCKS, bucketIndex, bucketLabel } from "./orderBook";
+import type { BookAsk } from "./orderBook";
+
+/** One tenor per order-book bucket, so out past the two-year maximum term: 0–3M … 24–27M. */
+export const TENOR_COUNT = Math.floor(MAX_TERM_BLOCKS / BUCKET_BLOCKS) + 1;
+
+/**
+ * Where a curve point's rate comes from: PT listings in its own bucket, a
+ * straight line between the nearest quoted buckets either side, or the
+ * nearest quoted bucket held flat past either end of the curve.
+ */
+export type CurvePointSource = "market" | "interpolated" | "extrapolated";
+
+export interface CurvePoint {
+  /** Bucket index, as in buildOrderBook. */
+  index: number;
+  /** e.g. "3–6M" from now. */
+  label: string;
+  /** Mid-point of the bucket, in years from now. */
+  years: number;
+  /** Annual rate, as a decimal. */
+  rate: number;
+  source: CurvePointSource;
+  /** PT listings that priced this bucket; zero unless source is "market". */
+  listings: number;
+  /** Their total face value. */
+  depthSats: bigint;
+}
+
+function tenorYears(index: number): number {
+  return yearsUntil((index + 0.5) * BUCKET_BLOCKS, 0);
+}
+
+/**
+ * The PT yield curve implied by `asks`. Each listing's rate comes from its
+ * price, face value and time left via computeImpliedRate; a bucket's rate is
+ * their average weighted by face value. Buckets nobody quotes are filled in
+ * from their neighbours. Empty if no listing implies a rate: matured bonds
+ * and PTs listed at or above face are left out.
+ */
+export function buildYieldCurve(asks: BookAsk[], currentBlock: number): CurvePoint[] {
+  const quoted = new Map<number, { weightedRate: number; listings: number; depthSats: bigint }>();
+  for (const ask of asks) {
+    const rate = computeImpliedRate(ask.priceSats, ask.sbtcAmount, yearsUntil(ask.maturityBlock, currentBlock));
+    if (rate === null) continue;
+    const index = bucketIndex(ask.maturityBlock, currentBlock);
+    const q = quoted.get(index) ?? { weightedRate: 0, listings: 0, depthSats: 0n };
+    q.weightedRate += rate * Number(ask.sbtcAmount);
+    q.listings += 1;
+    q.depthSats += ask.sbtcAmount;
+    quoted.set(index, q);
+  }
+  if (quoted.size === 0) return [];
+
+  const observed = [...quoted.entries()]
+    .map(([index, q]) => ({ index, rate: q.weightedRate / Number(q.depthSats) }))
+    .sort((a, b) => a.index - b.index);
+  const first = observed[0]!;
+  const last = observed[observed.length - 1]!;
+
+  return Array.from({ length: TENOR_COUNT }, (_, index): CurvePoint => {
+    const base = { index, label: bucketLabel(index), years: tenorYears(index) };
+    const q = quoted.get(index);
+    if (q) {
+      return { ...base, rate: q.weightedRate / Number(q.depthSats), source: "market", listings: q.listings, depthSats: q.depthSats };
+    }
+    const none = { listings: 0, depthSats: 0n };
+    if (index < first.index) return { ...base, rate: first.rate, source: "extrapolated", ...none };
+    if (index > last.index) return { ...base, rate: last.rate, source: "extrapolated", ...none };
+
+    const after = observed.findIndex((o) => o.index > index);
+    const lo = observed[after - 1]!;
+    const hi = observed[after]!;
+    const t = (index - lo.index) / (hi.index - lo.index);
+    return { ...base, rate: lo.rate + t * (hi.rate - lo.rate), source: "interpolated", ...none };
+  });
+}
+
+/**
+ * The curve's quoted buckets as a term structure for valuation, or null if
+ * none are quoted. computeImpliedRate's rates compound annually.
+ */
+export function curveTermStructure(curve: CurvePoint[]): TermStructure | null {
+  const points = curve.filter((p) => p.source === "market").map((p) => ({ years: p.years, rate: p.rate }));
+  return points.length > 0 ? { points, compounding: ANNUAL } : null;
+}
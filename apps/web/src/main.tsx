@@ -4,6 +4,7 @@ import { RouterProvider, createRouter } from "@tanstack/react-router";
 import "./index.css";
 import { routeTree } from "./routeTree";
 import { WalletProvider } from "./providers/WalletProvider";
+import { TransactionsProvider } from "./providers/TransactionsProvider";
 
 const router = createRouter({ routeTree });
 
@@ -16,7 +17,9 @@ declare module "@tanstack/react-router" {
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <WalletProvider>
-      <RouterProvider router={router} />
+      <TransactionsProvider>
+        <RouterProvider router={router} />
+      </TransactionsProvider>
     </WalletProvider>
   </StrictMode>
 );
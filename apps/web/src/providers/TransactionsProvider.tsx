@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback, useRef, type ReactNode } from "react";
+import type { ContractCall } from "@satcurve/contracts";
+import { TransactionsContext } from "./transactionsContext";
+import { contractNameOf } from "../lib/contracts";
+import { fetchTxStatus, describeTxFailure } from "../lib/txStatus";
+import {
+  loadTransactions,
+  saveTransactions,
+  newTrackedTx,
+  scopesOf,
+  type TrackedTx,
+  type TxScope,
+} from "../lib/transactions";
+import {
+  ToastProvider,
+  ToastViewport,
+  Toast,
+  ToastTitle,
+  ToastDescription,
+} from "../components/ui/toast";
+
+const POLL_INTERVAL_MS = 10_000;
+
+interface TxToast {
+  txid: string;
+  title: string;
+  description: string;
+  variant: "success" | "error";
+}
+
+type Settlement = Pick<TrackedTx, "txid" | "status" | "error">;
+
+export function TransactionsProvider({ children }: { children: ReactNode }) {
+  const [transactions, setTransactions] = useState<TrackedTx[]>(loadTransactions);
+  const [versions, setVersions] = useState<Record<TxScope, number>>({ bonds: 0, listings: 0, balance: 0, vaults: 0 });
+  const [toasts, setToasts] = useState<TxToast[]>([]);
+
+  // The poller reads records through a ref so it is not restarted on
+  // every status change.
+  const txRef = useRef(transactions);
+  useEffect(() => {
+    txRef.current = transactions;
+    saveTransactions(transactions);
+  }, [transactions]);
+
+  const trackTx = useCallback((txid: string, call: ContractCall, bondId: number | null = null) => {
+    setTransactions((txs) => (txs.some((t) => t.txid === txid) ? txs : [newTrackedTx(txid, call, bondId), ...txs]));
+  }, []);
+
+  const pendingFor = useCallback(
+    (bondId: number) => transactions.filter((t) => t.status === "pending" && t.bondId === bondId),
+    [transactions],
+  );
+
+  const clearSettled = useCallback(() => {
+    setTransactions((txs) => txs.filter((t) => t.status === "pending"));
+  }, []);
+
+  const pendingKey = transactions.filter((t) => t.status === "pending").map((t) => t.txid).join(",");
+
+  useEffect(() => {
+    if (!pendingKey) return;
+    const txids = pendingKey.split(",");
+
+    async function poll() {
+      const settled: Settlement[] = [];
+      for (const txid of txids) {
+        try {
+          const status = await fetchTxStatus(txid);
+          if (!status || status.status === "pending") continue;
+          const record = txRef.current.find((t) => t.txid === txid);
+          const contract = record ? contractNameOf(`${record.contractAddress}.${record.contractName}`) : null;
+          const failure = describeTxFailure(status, contract);
+          settled.push({ txid, status: failure ? "failed" : "success", error: failure });
+        } catch (err) {
+          // Keep watching; the API may be briefly unavailable.
+          console.error(`[TransactionsProvider] ${txid} lookup failed:`, err);
+        }
+      }
+      if (settled.length === 0) return;
+
+      const byTxid = new Map(settled.map((s) => [s.txid, s]));
+      const records = txRef.current.filter((t) => byTxid.has(t.txid));
+
+      setTransactions((txs) => txs.map((t) => ({ ...t, ...byTxid.get(t.txid) })));
+
+      const stale = new Set(records.filter((t) => byTxid.get(t.txid)!.status === "success").flatMap(scopesOf));
+      if (stale.size > 0) {
+        setVersions((v) => {
+          const next = { ...v };
+          for (const scope of stale) next[scope] += 1;
+          return next;
+        });
+      }
+
+      setToasts((current) => [
+        ...current,
+        ...records.map((t): TxToast => {
+          const { status, error } = byTxid.get(t.txid)!;
+          const label = `${t.contractName}.${t.functionName}`;
+          return status === "failed"
+            ? { txid: t.txid, title: `${label} failed`, description: error ?? "", variant: "error" }
+            : { txid: t.txid, title: `${label} confirmed`, description: `Transaction ${t.txid.slice(0, 10)}… succeeded.`, variant: "success" };
+        }),
+      ]);
+    }
+
+    void poll();
+    const interval = setInterval(() => void poll(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingKey]);
+
+  const dismiss = (txid: string) => setToasts((t) => t.filter((toast) => toast.txid !== txid));
+
+  return (
+    <TransactionsContext.Provider value={{ transactions, trackTx, pendingFor, versions, clearSettled }}>
+      <ToastProvider swipeDirection="right">
+        {children}
+        {toasts.map((toast) => (
+          <Toast
+            key={toast.txid}
+            variant={toast.variant}
+            // Failures stay until dismissed; confirmations fade on their own.
+            duration={toast.variant === "error" ? Infinity : 6_000}
+            onOpenChange={(open) => { if (!open) dismiss(toast.txid); }}
+          >
+            <ToastTitle className={toast.variant === "error" ? "text-error" : "text-success"}>
+              {toast.title}
+            </ToastTitle>
+            <ToastDescription>{toast.description}</ToastDescription>
+          </Toast>
+        ))}
+        <ToastViewport />
+      </ToastProvider>
+    </TransactionsContext.Provider>
+  );
+}
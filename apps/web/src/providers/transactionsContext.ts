@@ -0,0 +1,23 @@
+import { createContext } from "react";
+import type { ContractCall } from "@satcurve/contracts";
+import type { TrackedTx, TxScope } from "../lib/transactions";
+
+export interface TransactionsContextValue {
+  /** Newest first; pending and recently settled. */
+  transactions: TrackedTx[];
+  /**
+   * Follow a broadcast transaction until it confirms or fails. Pass the
+   * bond it acts on so that bond can show the pending action.
+   */
+  trackTx: (txid: string, call: ContractCall, bondId?: number | null) => void;
+  /** Pending transactions acting on a bond. */
+  pendingFor: (bondId: number) => TrackedTx[];
+  /**
+   * Bumped each time a transaction touching the scope confirms. Hooks list
+   * it as an effect dependency to refetch.
+   */
+  versions: Record<TxScope, number>;
+  clearSettled: () => void;
+}
+
+export const TransactionsContext = createContext<TransactionsContextValue | null>(null);
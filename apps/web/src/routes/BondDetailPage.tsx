@@ -1,12 +1,27 @@
 import { useState, useEffect, useCallback } from "react";
 import { useParams, Link } from "@tanstack/react-router";
 import { openContractCall } from "@stacks/connect";
-import { cvToValue, uintCV, PostConditionMode } from "@stacks/transactions";
-import { callReadOnly } from "../lib/rpc";
+import { PostConditionMode } from "@stacks/transactions";
+import {
+  cancelListingPostConditions,
+  collectYieldPostConditions,
+  combinePostConditions,
+  listPostConditions,
+  redeemPrincipalPostConditions,
+} from "@satcurve/contracts";
+import type { ContractCall } from "@satcurve/contracts";
+import { readContract } from "../lib/rpc";
 import { useWallet } from "../hooks/useWallet";
 import { useBlockHeight } from "../hooks/useBlockHeight";
+import { useTransactions } from "../hooks/useTransactions";
+import { useVaults } from "../hooks/useVaults";
 import { BlockTooltip } from "../components/BlockTooltip";
 import { TxButton } from "../components/TxButton";
+import { VaultActions } from "../components/VaultActions";
+import { ListingPriceEditor } from "../components/ListingPriceEditor";
+import { BuyListingDialog } from "../components/BuyListingDialog";
+import { BondTradeHistory } from "../components/BondTradeHistory";
+import { BondRiskMetrics } from "../components/BondRiskMetrics";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
@@ -20,17 +35,17 @@ import {
   DialogDescription,
   DialogFooter,
 } from "../components/ui/dialog";
-import { formatSats, formatUsd } from "../lib/format";
+import { formatSats, formatUsd, estimatedBlockDate, formatRelative } from "../lib/format";
 import { computeBondValuation, computeImpliedRate } from "../lib/bondValuation";
 import { useYieldOracle } from "../hooks/useYieldOracle";
+import { useFeeConfig } from "../hooks/useFeeConfig";
+import { useMarketListings } from "../hooks/useMarketListings";
+import { useYieldCurve } from "../hooks/useYieldCurve";
 import { stacksNetwork } from "../lib/stacks";
-import { CONTRACT_ADDRESSES } from "../lib/contracts";
-import type { Bond } from "@satcurve/types";
-
-function parseContractId(fullAddress: string) {
-  const parts = fullAddress.split(".");
-  return { contractAddress: parts[0] ?? "", contractName: parts[1] ?? "" };
-}
+import { bondFactory, market } from "../lib/contracts";
+import { applyPendingTxs } from "../lib/transactions";
+import { listingCost, listingLive } from "../lib/orderBook";
+import type { Bond, Listing, TokenType } from "@satcurve/types";
 
 type BondStatus = "active" | "matured" | "combined" | "redeemed";
 
@@ -41,6 +56,52 @@ function getBondStatus(bond: Bond, currentBlock: number): BondStatus {
   return "active";
 }
 
+/** How long a new listing stays buyable, in ~5 s blocks; null never expires. */
+const LISTING_EXPIRY_OPTIONS: { label: string; blocks: number | null }[] = [
+  { label: "Never", blocks: null },
+  { label: "1 day", blocks: 17_280 },
+  { label: "1 week", blocks: 120_960 },
+  { label: "30 days", blocks: 518_400 },
+];
+
+function ExpiryPicker({ value, onChange }: { value: number | null; onChange: (blocks: number | null) => void }) {
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <span className="text-text-muted mr-1">Expires</span>
+      {LISTING_EXPIRY_OPTIONS.map((option) => (
+        <button
+          key={option.label}
+          type="button"
+          onClick={() => onChange(option.blocks)}
+          className={`rounded border px-2 py-0.5 transition-colors ${
+            value === option.blocks
+              ? "border-brand bg-brand-muted text-brand"
+              : "border-border text-text-muted hover:border-muted-foreground"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ListingExpiry({ listing, currentBlock }: { listing: Listing; currentBlock: number }) {
+  if (listing.expiresAt === null) return null;
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-text-muted">Expires</span>
+      {listingLive(listing, currentBlock) ? (
+        <BlockTooltip block={listing.expiresAt} currentBlock={currentBlock}>
+          {formatRelative(estimatedBlockDate(listing.expiresAt, currentBlock))}
+        </BlockTooltip>
+      ) : (
+        <span className="text-error">Expired</span>
+      )}
+    </div>
+  );
+}
+
 const STATUS_BADGE: Record<BondStatus, { label: string; className: string }> = {
   active:   { label: "Active",   className: "border-success text-success" },
   matured:  { label: "Matured",  className: "border-brand text-brand" },
@@ -53,10 +114,13 @@ export function BondDetailPage() {
   const bondId = Number(params.bondId ?? "NaN");
   const { address } = useWallet();
   const currentBlock = useBlockHeight();
+  const { trackTx, pendingFor, versions } = useTransactions();
 
-  const [bond, setBond] = useState<Bond | null>(null);
+  const [chainBond, setBond] = useState<Bond | null>(null);
   const [isPtOwner, setIsPtOwner] = useState(false);
   const [isYtOwner, setIsYtOwner] = useState(false);
+  const [ptHolder, setPtHolder] = useState<string | null>(null);
+  const [ytHolder, setYtHolder] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [tick, setTick] = useState(0);
@@ -66,107 +130,56 @@ export function BondDetailPage() {
   const [combinePending, setCombinePending] = useState(false);
   const [showCombineDialog, setShowCombineDialog] = useState(false);
 
-  type Listing = { seller: string; priceSats: bigint } | null;
-  const [ptListing, setPtListing] = useState<Listing>(null);
-  const [ytListing, setYtListing] = useState<Listing>(null);
+  const [ptListing, setPtListing] = useState<Listing | null>(null);
+  const [ytListing, setYtListing] = useState<Listing | null>(null);
   const [ptListPrice, setPtListPrice] = useState("");
   const [ytListPrice, setYtListPrice] = useState("");
+  const [ptListExpiry, setPtListExpiry] = useState<number | null>(null);
+  const [ytListExpiry, setYtListExpiry] = useState<number | null>(null);
   const [ptListPending, setPtListPending] = useState(false);
   const [ytListPending, setYtListPending] = useState(false);
   const [ptCancelPending, setPtCancelPending] = useState(false);
   const [ytCancelPending, setYtCancelPending] = useState(false);
   const [ptBuyPending, setPtBuyPending] = useState(false);
   const [ytBuyPending, setYtBuyPending] = useState(false);
+  const [buyingType, setBuyingType] = useState<TokenType | null>(null);
+  const [ptRepricePending, setPtRepricePending] = useState(false);
+  const [ytRepricePending, setYtRepricePending] = useState(false);
 
   const { oracle } = useYieldOracle();
+  const { vaults } = useVaults(address);
+  const { feeConfig } = useFeeConfig();
+  const { nftListings } = useMarketListings();
+  const { curve: marketCurve } = useYieldCurve(nftListings, currentBlock);
 
   const refetch = useCallback(() => setTick((t) => t + 1), []);
 
   useEffect(() => {
     if (isNaN(bondId)) return;
 
-    const { contractAddress, contractName } = parseContractId(
-      CONTRACT_ADDRESSES.bondFactory,
-    );
-    if (!contractAddress || !contractName) return;
+    if (!bondFactory || !market) return;
+    const bf = bondFactory;
+    const mkt = market;
 
-    const senderAddress = address ?? contractAddress;
+    const senderAddress = address ?? bf.contractAddress;
     setLoading(true);
 
     async function load() {
       try {
-        const { contractAddress, contractName } = parseContractId(
-          CONTRACT_ADDRESSES.bondFactory,
-        );
-        const { contractAddress: mktCA, contractName: mktCN } = parseContractId(
-          CONTRACT_ADDRESSES.market,
-        );
-        const [bondRes, ptOwnerRes, ytOwnerRes, ptListRes, ytListRes] = await Promise.all([
-          callReadOnly({
-            contractAddress,
-            contractName,
-            functionName: "get-bond",
-            functionArgs: [uintCV(bondId)],
-            network: stacksNetwork,
-            senderAddress,
-          }),
-          callReadOnly({
-            contractAddress,
-            contractName,
-            functionName: "get-pt-owner",
-            functionArgs: [uintCV(bondId)],
-            network: stacksNetwork,
-            senderAddress,
-          }),
-          callReadOnly({
-            contractAddress,
-            contractName,
-            functionName: "get-yt-owner",
-            functionArgs: [uintCV(bondId)],
-            network: stacksNetwork,
-            senderAddress,
-          }),
-          callReadOnly({
-            contractAddress: mktCA,
-            contractName: mktCN,
-            functionName: "get-pt-listing",
-            functionArgs: [uintCV(bondId)],
-            network: stacksNetwork,
-            senderAddress,
-          }),
-          callReadOnly({
-            contractAddress: mktCA,
-            contractName: mktCN,
-            functionName: "get-yt-listing",
-            functionArgs: [uintCV(bondId)],
-            network: stacksNetwork,
-            senderAddress,
-          }),
+        const [bondData, ptOwner, ytOwner, ptMarketListing, ytMarketListing] = await Promise.all([
+          readContract(bf.getBond(bondId), senderAddress),
+          readContract(bf.getPtOwner(bondId), senderAddress),
+          readContract(bf.getYtOwner(bondId), senderAddress),
+          readContract(mkt.getPtListing(bondId), senderAddress),
+          readContract(mkt.getYtListing(bondId), senderAddress),
         ]);
 
-        // cvToValue(ResponseOkCV(TupleCV)) returns { type: "tuple", value: { field: { type, value } } }
-        const wrapper = cvToValue(bondRes) as { value: Record<string, { value: unknown }> };
-        const raw = wrapper.value;
-        // cvToValue(OptionalSomeCV(PrincipalCV)) → cvToJSON(principal) → { type: "principal", value: "ST1..." }
-        // Must unwrap .value to get the address string; returns null for none.
-        const ptOwnerRaw = cvToValue(ptOwnerRes) as { value: string } | null;
-        const ytOwnerRaw = cvToValue(ytOwnerRes) as { value: string } | null;
-        const ptOwner = ptOwnerRaw?.value ?? null;
-        const ytOwner = ytOwnerRaw?.value ?? null;
-
         const holdsPt = address !== null && ptOwner === address;
         const holdsYt = address !== null && ytOwner === address;
 
         setBond({
-          tokenId: BigInt(bondId),
+          ...bondData,
           owner: ptOwner ?? "",
-          sbtcAmount: BigInt(String(raw["sbtc-amount"]!.value)),
-          maturityBlock: Number(raw["maturity-block"]!.value),
-          createdBlock: Number(raw["created-block"]!.value),
-          principalRedeemed: Boolean(raw["principal-redeemed"]!.value),
-          combined: Boolean(raw["combined"]!.value),
-          yieldDeposited: BigInt(String(raw["yield-deposited"]!.value)),
-          yieldWithdrawn: BigInt(String(raw["yield-withdrawn"]!.value)),
           holdsPt,
           holdsYt,
           ptListed: false,
@@ -175,19 +188,11 @@ export function BondDetailPage() {
 
         setIsPtOwner(holdsPt);
         setIsYtOwner(holdsYt);
+        setPtHolder(ptOwner);
+        setYtHolder(ytOwner);
 
-        // Parse market listings — (optional { seller: principal, price-sats: uint })
-        // cvToValue on OptionalSome(Tuple) → { value: { field: { value } } }; None → null
-        const parseListing = (res: ReturnType<typeof cvToValue>) => {
-          const raw = res as { value: Record<string, { value: unknown }> } | null;
-          if (!raw?.value) return null;
-          return {
-            seller: String(raw.value["seller"]!.value),
-            priceSats: BigInt(String(raw.value["price-sats"]!.value)),
-          };
-        };
-        setPtListing(parseListing(cvToValue(ptListRes)));
-        setYtListing(parseListing(cvToValue(ytListRes)));
+        setPtListing(ptMarketListing);
+        setYtListing(ytMarketListing);
 
         setError(null);
       } catch (err) {
@@ -200,44 +205,24 @@ export function BondDetailPage() {
     void load();
     const interval = setInterval(() => void load(), 30_000);
     return () => clearInterval(interval);
-  }, [bondId, address, tick]);
-
-  function callBondFactory(
-    functionName: string,
-    args: ReturnType<typeof uintCV>[],
-    setPending: (v: boolean) => void,
-  ) {
-    const { contractAddress, contractName } = parseContractId(
-      CONTRACT_ADDRESSES.bondFactory,
-    );
-    setPending(true);
-    void openContractCall({
-      contractAddress,
-      contractName,
-      functionName,
-      functionArgs: args,
-      network: stacksNetwork,
-      postConditionMode: PostConditionMode.Allow,
-      onFinish: (data) => { console.log(`[BondDetailPage] ${functionName} txid:`, data.txId); setPending(false); refetch(); },
-      onCancel: () => setPending(false),
-    });
-  }
+  }, [bondId, address, tick, versions.bonds]);
 
-  function callMarket(
-    functionName: string,
-    args: ReturnType<typeof uintCV>[],
-    setPending: (v: boolean) => void,
-  ) {
-    const { contractAddress, contractName } = parseContractId(CONTRACT_ADDRESSES.market);
+  // Actions still in flight: the bond is shown as it will be once they
+  // confirm, and their buttons stay busy until then.
+  const pendingTxs = pendingFor(bondId);
+  const pendingFns = new Set(pendingTxs.map((t) => t.functionName));
+  const bond = chainBond && applyPendingTxs(chainBond, pendingTxs);
+
+  function callContract(call: ContractCall, setPending: (v: boolean) => void) {
     setPending(true);
     void openContractCall({
-      contractAddress,
-      contractName,
-      functionName,
-      functionArgs: args,
+      ...call,
       network: stacksNetwork,
-      postConditionMode: PostConditionMode.Allow,
-      onFinish: (data) => { console.log(`[BondDetailPage] market.${functionName} txid:`, data.txId); setPending(false); refetch(); },
+      postConditionMode: PostConditionMode.Deny,
+      onFinish: (data) => {
+        trackTx(data.txId, call, bondId);
+        setPending(false);
+      },
       onCancel: () => setPending(false),
     });
   }
@@ -268,6 +253,17 @@ export function BondDetailPage() {
   const { label, className } = status ? STATUS_BADGE[status] : { label: "", className: "" };
   const claimable = bond ? bond.yieldDeposited - bond.yieldWithdrawn : 0n;
   const isTerminated = status === "combined" || status === "redeemed";
+  const ptListingLive = ptListing !== null && currentBlock !== null && listingLive(ptListing, currentBlock);
+  const ytListingLive = ytListing !== null && currentBlock !== null && listingLive(ytListing, currentBlock);
+  const buyingListing = buyingType === "PT" ? ptListing : buyingType === "YT" ? ytListing : null;
+  const buyOrder = buyingType && buyingListing
+    ? { tokenType: buyingType, bondId, ...listingCost(buyingListing.priceSats, feeConfig ?? { feeBps: 0 }) }
+    : null;
+
+  /** expires-at for a listing made now that lasts `blocks`. */
+  function listingExpiresAt(blocks: number | null): number | null {
+    return blocks !== null && currentBlock !== null ? currentBlock + blocks : null;
+  }
 
   const valuation =
     bond && currentBlock !== null && oracle && !isTerminated
@@ -339,7 +335,9 @@ export function BondDetailPage() {
                       ? "You hold"
                       : ptListing && address === ptListing.seller
                         ? "For Sale"
-                        : "Sold"}
+                        : vaults.some((v) => v.contractId === ptHolder)
+                          ? "Wrapped"
+                          : "Sold"}
                   </span>
                 </div>
               </CardHeader>
@@ -409,9 +407,15 @@ export function BondDetailPage() {
                 {isPtOwner && status === "matured" && (
                   <TxButton
                     variant="outline"
-                    pending={redeemPending}
+                    pending={redeemPending || pendingFns.has("redeem-principal")}
                     onClick={() =>
-                      callBondFactory("redeem-principal", [uintCV(bondId)], setRedeemPending)
+                      bondFactory && address && callContract(
+                        {
+                          ...bondFactory.redeemPrincipal(bondId),
+                          postConditions: redeemPrincipalPostConditions(bondFactory, bondId, address, bond.sbtcAmount),
+                        },
+                        setRedeemPending,
+                      )
                     }
                     className="border-brand text-brand hover:bg-brand/10"
                   >
@@ -431,6 +435,7 @@ export function BondDetailPage() {
                             <span className="text-text-muted">Listed at</span>
                             <span className="font-mono font-semibold">{formatSats(ptListing.priceSats)} sBTC</span>
                           </div>
+                          {currentBlock !== null && <ListingExpiry listing={ptListing} currentBlock={currentBlock} />}
                           {valuation && valuation.yearsRemaining > 0 && (() => {
                             const implied = computeImpliedRate(ptListing.priceSats, bond.sbtcAmount, valuation.yearsRemaining);
                             return implied !== null ? (
@@ -440,21 +445,38 @@ export function BondDetailPage() {
                             ) : null;
                           })()}
                           {address === ptListing.seller ? (
-                            <TxButton
-                              variant="outline"
-                              size="sm"
-                              pending={ptCancelPending}
-                              onClick={() => callMarket("cancel-pt", [uintCV(bondId)], setPtCancelPending)}
-                              className="border-border text-text-muted hover:bg-secondary"
-                            >
-                              Cancel Listing
-                            </TxButton>
+                            <div className="flex gap-3 items-center flex-wrap">
+                              <TxButton
+                                variant="outline"
+                                size="sm"
+                                pending={ptCancelPending || pendingFns.has("cancel-pt")}
+                                onClick={() =>
+                                  market && callContract(
+                                    { ...market.cancelPt(bondId), postConditions: cancelListingPostConditions(market, "PT", bondId) },
+                                    setPtCancelPending,
+                                  )
+                                }
+                                className="border-border text-text-muted hover:bg-secondary"
+                              >
+                                Cancel Listing
+                              </TxButton>
+                              {ptListingLive && (
+                                <ListingPriceEditor
+                                  pending={ptRepricePending || pendingFns.has("update-pt-price")}
+                                  onSave={(price) =>
+                                    market && callContract(market.updatePtPrice(bondId, price), setPtRepricePending)
+                                  }
+                                />
+                              )}
+                            </div>
+                          ) : address && !ptListingLive ? (
+                            <p className="text-xs text-text-faint">This listing has expired and can no longer be bought.</p>
                           ) : address ? (
                             <TxButton
                               variant="outline"
                               size="sm"
-                              pending={ptBuyPending}
-                              onClick={() => callMarket("buy-pt", [uintCV(bondId)], setPtBuyPending)}
+                              pending={ptBuyPending || pendingFns.has("buy-pt")}
+                              onClick={() => setBuyingType("PT")}
                               className="border-brand text-brand hover:bg-brand/10"
                             >
                               Buy PT — {formatSats(ptListing.priceSats)} sBTC
@@ -462,27 +484,38 @@ export function BondDetailPage() {
                           ) : null}
                         </div>
                       ) : isPtOwner && status === "active" ? (
-                        <div className="flex gap-2 items-center">
-                          <input
-                            type="text"
-                            placeholder="Price in sBTC"
-                            value={ptListPrice}
-                            onChange={(e) => setPtListPrice(e.target.value)}
-                            className="flex-1 rounded border border-border bg-secondary px-3 py-1.5 text-sm text-text placeholder:text-text-faint focus:border-brand focus:outline-none"
-                          />
-                          <TxButton
-                            variant="outline"
-                            size="sm"
-                            pending={ptListPending}
-                            disabled={!parsePriceInput(ptListPrice)}
-                            onClick={() => {
-                              const price = parsePriceInput(ptListPrice);
-                              if (price) callMarket("list-pt", [uintCV(bondId), uintCV(price)], setPtListPending);
-                            }}
-                            className="border-border text-text hover:bg-secondary"
-                          >
-                            List PT
-                          </TxButton>
+                        <div className="space-y-2">
+                          <div className="flex gap-2 items-center">
+                            <input
+                              type="text"
+                              placeholder="Price in sBTC"
+                              value={ptListPrice}
+                              onChange={(e) => setPtListPrice(e.target.value)}
+                              className="flex-1 rounded border border-border bg-secondary px-3 py-1.5 text-sm text-text placeholder:text-text-faint focus:border-brand focus:outline-none"
+                            />
+                            <TxButton
+                              variant="outline"
+                              size="sm"
+                              pending={ptListPending || pendingFns.has("list-pt")}
+                              disabled={!parsePriceInput(ptListPrice)}
+                              onClick={() => {
+                                const price = parsePriceInput(ptListPrice);
+                                if (price && market && address) {
+                                  callContract(
+                                    {
+                                      ...market.listPt(bondId, price, listingExpiresAt(ptListExpiry)),
+                                      postConditions: listPostConditions(market, "PT", bondId, address),
+                                    },
+                                    setPtListPending,
+                                  );
+                                }
+                              }}
+                              className="border-border text-text hover:bg-secondary"
+                            >
+                              List PT
+                            </TxButton>
+                          </div>
+                          <ExpiryPicker value={ptListExpiry} onChange={setPtListExpiry} />
                         </div>
                       ) : (
                         <p className="text-xs text-text-faint">No active listing.</p>
@@ -490,6 +523,20 @@ export function BondDetailPage() {
                     </div>
                   </>
                 )}
+
+                {!isTerminated && (
+                  <VaultActions
+                    tokenType="PT"
+                    bond={bond}
+                    address={address}
+                    holder={ptHolder}
+                    isHolder={isPtOwner}
+                    matured={status === "matured"}
+                    vaults={vaults}
+                    pendingFns={pendingFns}
+                    callContract={callContract}
+                  />
+                )}
               </CardContent>
             </Card>
 
@@ -513,7 +560,9 @@ export function BondDetailPage() {
                       ? "You hold"
                       : ytListing && address === ytListing.seller
                         ? "For Sale"
-                        : "Sold"}
+                        : vaults.some((v) => v.contractId === ytHolder)
+                          ? "Wrapped"
+                          : "Sold"}
                   </span>
                 </div>
               </CardHeader>
@@ -618,10 +667,13 @@ export function BondDetailPage() {
                 {isYtOwner && !isTerminated && (
                   <TxButton
                     variant="outline"
-                    pending={collectPending}
+                    pending={collectPending || pendingFns.has("collect-yield")}
                     disabled={claimable === 0n}
                     onClick={() =>
-                      callBondFactory("collect-yield", [uintCV(bondId)], setCollectPending)
+                      bondFactory && callContract(
+                        { ...bondFactory.collectYield(bondId), postConditions: collectYieldPostConditions(bondFactory, claimable) },
+                        setCollectPending,
+                      )
                     }
                     className="border-border text-text hover:bg-secondary"
                   >
@@ -641,22 +693,40 @@ export function BondDetailPage() {
                             <span className="text-text-muted">Listed at</span>
                             <span className="font-mono font-semibold">{formatSats(ytListing.priceSats)} sBTC</span>
                           </div>
+                          {currentBlock !== null && <ListingExpiry listing={ytListing} currentBlock={currentBlock} />}
                           {address === ytListing.seller ? (
-                            <TxButton
-                              variant="outline"
-                              size="sm"
-                              pending={ytCancelPending}
-                              onClick={() => callMarket("cancel-yt", [uintCV(bondId)], setYtCancelPending)}
-                              className="border-border text-text-muted hover:bg-secondary"
-                            >
-                              Cancel Listing
-                            </TxButton>
+                            <div className="flex gap-3 items-center flex-wrap">
+                              <TxButton
+                                variant="outline"
+                                size="sm"
+                                pending={ytCancelPending || pendingFns.has("cancel-yt")}
+                                onClick={() =>
+                                  market && callContract(
+                                    { ...market.cancelYt(bondId), postConditions: cancelListingPostConditions(market, "YT", bondId) },
+                                    setYtCancelPending,
+                                  )
+                                }
+                                className="border-border text-text-muted hover:bg-secondary"
+                              >
+                                Cancel Listing
+                              </TxButton>
+                              {ytListingLive && (
+                                <ListingPriceEditor
+                                  pending={ytRepricePending || pendingFns.has("update-yt-price")}
+                                  onSave={(price) =>
+                                    market && callContract(market.updateYtPrice(bondId, price), setYtRepricePending)
+                                  }
+                                />
+                              )}
+                            </div>
+                          ) : address && !ytListingLive ? (
+                            <p className="text-xs text-text-faint">This listing has expired and can no longer be bought.</p>
                           ) : address ? (
                             <TxButton
                               variant="outline"
                               size="sm"
-                              pending={ytBuyPending}
-                              onClick={() => callMarket("buy-yt", [uintCV(bondId)], setYtBuyPending)}
+                              pending={ytBuyPending || pendingFns.has("buy-yt")}
+                              onClick={() => setBuyingType("YT")}
                               className="border-success text-success hover:bg-success/10"
                             >
                               Buy YT — {formatSats(ytListing.priceSats)} sBTC
@@ -664,27 +734,38 @@ export function BondDetailPage() {
                           ) : null}
                         </div>
                       ) : isYtOwner && status === "active" ? (
-                        <div className="flex gap-2 items-center">
-                          <input
-                            type="text"
-                            placeholder="Price in sBTC"
-                            value={ytListPrice}
-                            onChange={(e) => setYtListPrice(e.target.value)}
-                            className="flex-1 rounded border border-border bg-secondary px-3 py-1.5 text-sm text-text placeholder:text-text-faint focus:border-brand focus:outline-none"
-                          />
-                          <TxButton
-                            variant="outline"
-                            size="sm"
-                            pending={ytListPending}
-                            disabled={!parsePriceInput(ytListPrice)}
-                            onClick={() => {
-                              const price = parsePriceInput(ytListPrice);
-                              if (price) callMarket("list-yt", [uintCV(bondId), uintCV(price)], setYtListPending);
-                            }}
-                            className="border-border text-text hover:bg-secondary"
-                          >
-                            List YT
-                          </TxButton>
+                        <div className="space-y-2">
+                          <div className="flex gap-2 items-center">
+                            <input
+                              type="text"
+                              placeholder="Price in sBTC"
+                              value={ytListPrice}
+                              onChange={(e) => setYtListPrice(e.target.value)}
+                              className="flex-1 rounded border border-border bg-secondary px-3 py-1.5 text-sm text-text placeholder:text-text-faint focus:border-brand focus:outline-none"
+                            />
+                            <TxButton
+                              variant="outline"
+                              size="sm"
+                              pending={ytListPending || pendingFns.has("list-yt")}
+                              disabled={!parsePriceInput(ytListPrice)}
+                              onClick={() => {
+                                const price = parsePriceInput(ytListPrice);
+                                if (price && market && address) {
+                                  callContract(
+                                    {
+                                      ...market.listYt(bondId, price, listingExpiresAt(ytListExpiry)),
+                                      postConditions: listPostConditions(market, "YT", bondId, address),
+                                    },
+                                    setYtListPending,
+                                  );
+                                }
+                              }}
+                              className="border-border text-text hover:bg-secondary"
+                            >
+                              List YT
+                            </TxButton>
+                          </div>
+                          <ExpiryPicker value={ytListExpiry} onChange={setYtListExpiry} />
                         </div>
                       ) : (
                         <p className="text-xs text-text-faint">No active listing.</p>
@@ -692,6 +773,20 @@ export function BondDetailPage() {
                     </div>
                   </>
                 )}
+
+                {!isTerminated && (
+                  <VaultActions
+                    tokenType="YT"
+                    bond={bond}
+                    address={address}
+                    holder={ytHolder}
+                    isHolder={isYtOwner}
+                    matured={status === "matured"}
+                    vaults={vaults}
+                    pendingFns={pendingFns}
+                    callContract={callContract}
+                  />
+                )}
               </CardContent>
             </Card>
 
@@ -700,13 +795,26 @@ export function BondDetailPage() {
               <div className="flex">
                 <TxButton
                   variant="destructive"
-                  pending={combinePending}
+                  pending={combinePending || pendingFns.has("combine")}
                   onClick={() => setShowCombineDialog(true)}
                 >
                   Combine (Early Exit)
                 </TxButton>
               </div>
             )}
+
+            {status === "active" && currentBlock !== null && oracle && (
+              <BondRiskMetrics
+                sbtcAmount={bond.sbtcAmount}
+                maturityBlock={bond.maturityBlock}
+                currentBlock={currentBlock}
+                uncollectedSats={claimable}
+                aprBps={oracle.aprBps}
+                marketCurve={marketCurve}
+              />
+            )}
+
+            <BondTradeHistory bondId={bondId} />
           </>
         ) : null}
       </div>
@@ -732,10 +840,18 @@ export function BondDetailPage() {
             <TxButton
               variant="destructive"
               size="sm"
-              pending={combinePending}
+              pending={combinePending || pendingFns.has("combine")}
               onClick={() => {
                 setShowCombineDialog(false);
-                callBondFactory("combine", [uintCV(bondId)], setCombinePending);
+                if (bondFactory && bond && address) {
+                  callContract(
+                    {
+                      ...bondFactory.combine(bondId),
+                      postConditions: combinePostConditions(bondFactory, bondId, address, bond.sbtcAmount, claimable),
+                    },
+                    setCombinePending,
+                  );
+                }
               }}
             >
               Confirm Combine
@@ -743,6 +859,22 @@ export function BondDetailPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <BuyListingDialog
+        order={buyOrder}
+        feeConfig={feeConfig}
+        pending={buyOrder?.tokenType === "PT" ? ptBuyPending : ytBuyPending}
+        onClose={() => setBuyingType(null)}
+        onConfirm={(order) => {
+          setBuyingType(null);
+          if (market && address) {
+            callContract(
+              market.buy(order.tokenType, bondId, order.totalSats, address),
+              order.tokenType === "PT" ? setPtBuyPending : setYtBuyPending,
+            );
+          }
+        }}
+      />
     </>
   );
 }
@@ -1,74 +1,49 @@
 import { useState, useMemo } from "react";
 import { openContractCall } from "@stacks/connect";
-import { uintCV, PostConditionMode } from "@stacks/transactions";
+import { PostConditionMode } from "@stacks/transactions";
 import { useWallet } from "../hooks/useWallet";
 import { useBonds } from "../hooks/useBonds";
 import { useSbtcBalance } from "../hooks/useSbtcBalance";
 import { useBlockHeight } from "../hooks/useBlockHeight";
+import { useTransactions } from "../hooks/useTransactions";
+import { useVaults } from "../hooks/useVaults";
+import { useSeries } from "../hooks/useSeries";
 import { BondRow } from "../components/BondRow";
+import { VaultPositions } from "../components/VaultPositions";
 import { AmountInput } from "../components/AmountInput";
 import { TxButton } from "../components/TxButton";
 import { BlockTooltip } from "../components/BlockTooltip";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Skeleton } from "../components/ui/skeleton";
-import { formatSats, TERM_PRESET_BLOCKS } from "../lib/format";
+import { estimatedBlockDate, formatDate, formatSats, parseSbtcInput } from "../lib/format";
 import { stacksNetwork } from "../lib/stacks";
-import { CONTRACT_ADDRESSES } from "../lib/contracts";
-
-function parseContractId(fullAddress: string) {
-  const parts = fullAddress.split(".");
-  return { contractAddress: parts[0] ?? "", contractName: parts[1] ?? "" };
-}
-
-function parseSbtcInput(value: string): bigint | null {
-  const trimmed = value.trim();
-  if (!trimmed || trimmed === ".") return null;
-  const parts = trimmed.split(".");
-  if (parts.length > 2) return null;
-  const whole = parts[0] ?? "0";
-  const frac = (parts[1] ?? "").padEnd(8, "0").slice(0, 8);
-  try {
-    return BigInt(whole) * 100_000_000n + BigInt(frac);
-  } catch {
-    return null;
-  }
-}
-
-const TERM_OPTIONS = [
-  { label: "3M",     blocks: TERM_PRESET_BLOCKS["3M"]! },
-  { label: "6M",     blocks: TERM_PRESET_BLOCKS["6M"]! },
-  { label: "1Y",     blocks: TERM_PRESET_BLOCKS["1Y"]! },
-  { label: "2Y",     blocks: TERM_PRESET_BLOCKS["2Y"]! },
-  { label: "Custom", blocks: 0 },
-] as const;
-
-const MAX_TERM_BLOCKS = 12_614_400;
+import { bondFactory, vaultClient } from "../lib/contracts";
+import { YtVault, claimPostConditions, createBondPostConditions, redeemSharesPostConditions } from "@satcurve/contracts";
+import type { ContractCall } from "@satcurve/contracts";
 
 export function BondsPage() {
   const { address, isConnected } = useWallet();
   const currentBlock = useBlockHeight();
+  const { transactions, trackTx, pendingFor } = useTransactions();
   const { bonds, loading: bondsLoading, error: bondsError, refetch } = useBonds(address);
   const { balance: sbtcBalance } = useSbtcBalance(address);
+  const { vaults } = useVaults(address);
+  const { series, loading: seriesLoading, error: seriesError } = useSeries();
 
   const [amount, setAmount] = useState("");
-  const [selectedTerm, setSelectedTerm] = useState<string>("3M");
-  const [customBlocks, setCustomBlocks] = useState("");
+  const [selectedSeriesId, setSelectedSeriesId] = useState<number | null>(null);
   const [createPending, setCreatePending] = useState(false);
+  // Vaults with a wallet prompt open; confirmed-pending ones come from the tx store.
+  const [signing, setSigning] = useState<Set<string>>(new Set());
 
   const parsedAmount = parseSbtcInput(amount);
 
-  const termBlocks =
-    selectedTerm === "Custom"
-      ? parseInt(customBlocks, 10) || 0
-      : (TERM_PRESET_BLOCKS[selectedTerm] ?? 0);
-
-  const maturityBlock =
-    currentBlock !== null && termBlocks > 0 ? currentBlock + termBlocks : null;
-
-  const termError =
-    termBlocks > MAX_TERM_BLOCKS
-      ? "Maximum term is 2 years (12,614,400 blocks)"
-      : undefined;
+  // Series still taking bonds; the first one is picked until the user chooses.
+  const openSeries = series.filter(
+    (s) => s.active && currentBlock !== null && s.maturityBlock > currentBlock,
+  );
+  const selectedSeries =
+    openSeries.find((s) => s.seriesId === selectedSeriesId) ?? openSeries[0] ?? null;
 
   // Derived — auto-updates whenever amount OR sbtcBalance changes (e.g. balance loads after typing)
   const amountError = useMemo(() => {
@@ -82,37 +57,63 @@ export function BondsPage() {
 
   function handleCreateBond() {
     const sats = parsedAmount;
-    if (!sats || sats <= 0n || termBlocks <= 0 || termBlocks > MAX_TERM_BLOCKS) return;
+    if (!sats || sats <= 0n || !selectedSeries) return;
+    if (!bondFactory || !address) return;
 
-    const { contractAddress, contractName } = parseContractId(
-      CONTRACT_ADDRESSES.bondFactory
-    );
+    const call = {
+      ...bondFactory.createBondInSeries(sats, selectedSeries.seriesId),
+      postConditions: createBondPostConditions(bondFactory, address, sats),
+    };
     setCreatePending(true);
     void openContractCall({
-      contractAddress,
-      contractName,
-      functionName: "create-bond",
-      functionArgs: [uintCV(sats), uintCV(termBlocks)],
+      ...call,
       network: stacksNetwork,
-      postConditionMode: PostConditionMode.Allow,
+      postConditionMode: PostConditionMode.Deny,
       onFinish: (data) => {
-        console.log("[BondsPage] create-bond txid:", data.txId);
+        trackTx(data.txId, call);
         setCreatePending(false);
         setAmount("");
-        refetch();
       },
       onCancel: () => setCreatePending(false),
     });
   }
 
+  function callVault(contractId: string, call: ContractCall) {
+    const mark = (on: boolean) =>
+      setSigning((ids) => {
+        const next = new Set(ids);
+        if (on) next.add(contractId);
+        else next.delete(contractId);
+        return next;
+      });
+    mark(true);
+    void openContractCall({
+      ...call,
+      network: stacksNetwork,
+      postConditionMode: PostConditionMode.Deny,
+      onFinish: (data) => {
+        trackTx(data.txId, call);
+        mark(false);
+      },
+      onCancel: () => mark(false),
+    });
+  }
+
+  const positions = vaults.filter((v) => v.balance > 0n || v.claimable > 0n);
+  const busyVaults = new Set([
+    ...signing,
+    ...transactions
+      .filter((t) => t.status === "pending")
+      .map((t) => `${t.contractAddress}.${t.contractName}`),
+  ]);
+
   const canCreate =
     isConnected &&
     sbtcBalance !== null &&
     parsedAmount !== null &&
     parsedAmount > 0n &&
     amountError === undefined &&
-    termBlocks > 0 &&
-    termBlocks <= MAX_TERM_BLOCKS;
+    selectedSeries !== null;
 
   return (
     <div className="space-y-8">
@@ -138,47 +139,51 @@ export function BondsPage() {
                 disabled={createPending}
               />
 
-              {/* Term selector */}
+              {/* Series picker */}
               <div className="space-y-2">
-                <p className="text-xs text-text-muted uppercase tracking-wider">Term</p>
-                <div className="flex gap-2 flex-wrap">
-                  {TERM_OPTIONS.map((opt) => (
-                    <button
-                      key={opt.label}
-                      type="button"
-                      onClick={() => setSelectedTerm(opt.label)}
-                      className={`px-3 py-1.5 rounded text-sm border transition-colors ${
-                        selectedTerm === opt.label
-                          ? "border-brand text-brand bg-brand-muted"
-                          : "border-border text-text-muted hover:text-text hover:border-muted-foreground"
-                      }`}
-                    >
-                      {opt.label}
-                    </button>
-                  ))}
-                </div>
-                {selectedTerm === "Custom" && (
-                  <input
-                    type="number"
-                    min={1}
-                    max={MAX_TERM_BLOCKS}
-                    value={customBlocks}
-                    onChange={(e) => setCustomBlocks(e.target.value)}
-                    placeholder="Number of blocks"
-                    className="w-full rounded border border-border bg-secondary px-3 py-2 text-sm text-text placeholder:text-text-faint focus:border-brand focus:outline-none"
-                  />
-                )}
-                {termError && (
-                  <p className="text-xs text-error">{termError}</p>
+                <p className="text-xs text-text-muted uppercase tracking-wider">Maturity</p>
+                {seriesLoading ? (
+                  <Skeleton className="h-16 w-full bg-secondary" />
+                ) : seriesError ? (
+                  <p className="text-xs text-error">{seriesError}</p>
+                ) : openSeries.length === 0 ? (
+                  <p className="text-sm text-text-muted">
+                    No maturity series is open for new bonds right now.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                    {openSeries.map((s) => (
+                      <button
+                        key={s.seriesId}
+                        type="button"
+                        onClick={() => setSelectedSeriesId(s.seriesId)}
+                        className={`rounded border px-3 py-2 text-left transition-colors ${
+                          selectedSeries?.seriesId === s.seriesId
+                            ? "border-brand bg-brand-muted"
+                            : "border-border hover:border-muted-foreground"
+                        }`}
+                      >
+                        <p className={`text-sm font-semibold ${
+                          selectedSeries?.seriesId === s.seriesId ? "text-brand" : "text-text"
+                        }`}>
+                          {formatDate(estimatedBlockDate(s.maturityBlock, currentBlock ?? 0))}
+                        </p>
+                        <p className="text-xs text-text-muted">
+                          Open interest{" "}
+                          <span className="font-mono text-text">{formatSats(s.openInterest)}</span> sBTC
+                        </p>
+                      </button>
+                    ))}
+                  </div>
                 )}
               </div>
 
               {/* Maturity preview */}
-              {maturityBlock !== null && currentBlock !== null && !termError && (
+              {selectedSeries && currentBlock !== null && (
                 <p className="text-sm text-text-muted">
                   Maturity:{" "}
-                  <BlockTooltip block={maturityBlock} currentBlock={currentBlock}>
-                    Block #{maturityBlock.toLocaleString()}
+                  <BlockTooltip block={selectedSeries.maturityBlock} currentBlock={currentBlock}>
+                    Block #{selectedSeries.maturityBlock.toLocaleString()}
                   </BlockTooltip>
                 </p>
               )}
@@ -254,11 +259,41 @@ export function BondsPage() {
                 key={bond.tokenId.toString()}
                 bond={bond}
                 currentBlock={currentBlock ?? 0}
+                pending={pendingFor(Number(bond.tokenId))}
               />
             ))}
           </div>
         )}
       </section>
+
+      {/* Fungible PT / YT shares held in maturity-bucket vaults */}
+      {isConnected && positions.length > 0 && (
+        <section>
+          <h2 className="text-xl font-semibold mb-4">Vault Positions</h2>
+          <VaultPositions
+            vaults={positions}
+            currentBlock={currentBlock ?? 0}
+            busy={busyVaults}
+            onClaim={(contractId) => {
+              const vault = vaultClient(contractId);
+              const claimable = vaults.find((v) => v.contractId === contractId)?.claimable ?? 0n;
+              if (vault instanceof YtVault) {
+                callVault(contractId, { ...vault.claim(), postConditions: claimPostConditions(vault, claimable) });
+              }
+            }}
+            onRedeem={(contractId, shares) => {
+              const vault = vaultClient(contractId);
+              const claimable = vaults.find((v) => v.contractId === contractId)?.claimable ?? 0n;
+              if (vault && address) {
+                callVault(contractId, {
+                  ...vault.redeem(shares),
+                  postConditions: redeemSharesPostConditions(vault, address, shares, claimable),
+                });
+              }
+            }}
+          />
+        </section>
+      )}
     </div>
   );
 }
@@ -3,27 +3,13 @@ import { YieldChart } from "../components/YieldChart";
 import { StatsCard } from "../components/StatsCard";
 import { useOraclePrices } from "../hooks/useOraclePrices";
 import { useMarketListings } from "../hooks/useMarketListings";
+import { useYieldCurve } from "../hooks/useYieldCurve";
+import { useBlockHeight } from "../hooks/useBlockHeight";
 import { formatSats } from "../lib/format";
 import { Button } from "../components/ui/button";
 import { Card, CardContent } from "../components/ui/card";
 import { Badge } from "../components/ui/badge";
 import { Skeleton } from "../components/ui/skeleton";
-import type { YieldDataPoint } from "../components/YieldChart";
-
-const TERM_YEARS: Record<string, number> = {
-  "3M": 0.25,
-  "6M": 0.5,
-  "1Y": 1.0,
-  "2Y": 2.0,
-};
-
-function computeYieldCurve(stackingAprBps: bigint): YieldDataPoint[] {
-  const aprDecimal = Number(stackingAprBps) / 10_000;
-  return Object.entries(TERM_YEARS).map(([label, years]) => ({
-    maturity: label,
-    apy: parseFloat((aprDecimal * years * 100).toFixed(2)),
-  }));
-}
 
 function MarketPreviewRow({
   tokenType,
@@ -59,6 +45,8 @@ function MarketPreviewRow({
 export function HomePage() {
   const { btcPriceUsd, stackingAprBps, loading: oracleLoading } = useOraclePrices();
   const { nftListings, loading: marketLoading } = useMarketListings();
+  const currentBlock = useBlockHeight();
+  const { curve, loading: curveLoading } = useYieldCurve(nftListings, currentBlock);
 
   const apyDisplay =
     stackingAprBps !== null ? `${(Number(stackingAprBps) / 100).toFixed(2)}%` : null;
@@ -67,9 +55,6 @@ export function HomePage() {
       ? `$${(Number(btcPriceUsd) / 1_000_000).toLocaleString("en-US", { maximumFractionDigits: 0 })}`
       : null;
 
-  const yieldCurveData =
-    stackingAprBps !== null ? computeYieldCurve(stackingAprBps) : undefined;
-
   const previewListings = nftListings.slice(0, 3).map((l) => ({
     key: `nft-${l.tokenType}-${l.bondId}`,
     tokenType: l.tokenType,
@@ -116,7 +101,11 @@ export function HomePage() {
       {/* Yield Curve */}
       <section>
         <h2 className="text-xl font-semibold mb-4">Yield Curve</h2>
-        <YieldChart data={yieldCurveData} loading={oracleLoading} />
+        <YieldChart
+          curve={curve}
+          oracleAprBps={stackingAprBps}
+          loading={oracleLoading || marketLoading || curveLoading}
+        />
       </section>
 
       {/* How It Works */}
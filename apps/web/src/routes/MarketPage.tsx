@@ -1,47 +1,100 @@
 import { Link } from "@tanstack/react-router";
 import { openContractCall } from "@stacks/connect";
-import { uintCV, PostConditionMode } from "@stacks/transactions";
-import { useState } from "react";
+import { PostConditionMode } from "@stacks/transactions";
+import {
+  cancelBidPostConditions,
+  placeBidPostConditions,
+  sellIntoBidPostConditions,
+  swapPtForSbtcPostConditions,
+  swapSbtcForPtPostConditions,
+} from "@satcurve/contracts";
+import type { ContractCall } from "@satcurve/contracts";
+import { useState, useMemo } from "react";
 import { useWallet } from "../hooks/useWallet";
 import { useMarketListings } from "../hooks/useMarketListings";
+import { useOrderBook } from "../hooks/useOrderBook";
+import { useBonds } from "../hooks/useBonds";
+import { useSbtcBalance } from "../hooks/useSbtcBalance";
+import { useBlockHeight } from "../hooks/useBlockHeight";
+import { useAmmPools } from "../hooks/useAmmPools";
+import { useTransactions } from "../hooks/useTransactions";
+import { useTrades } from "../hooks/useTrades";
 import { TxButton } from "../components/TxButton";
-import { Card, CardContent } from "../components/ui/card";
+import { OrderBookTable } from "../components/OrderBookTable";
+import { PlaceBidForm } from "../components/PlaceBidForm";
+import { SwapPanel } from "../components/SwapPanel";
+import { ListingPriceEditor } from "../components/ListingPriceEditor";
+import { BuyListingDialog } from "../components/BuyListingDialog";
+import { TradeTable } from "../components/TradeTable";
+import { ImpliedRateChart } from "../components/ImpliedRateChart";
+import { BlockTooltip } from "../components/BlockTooltip";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Skeleton } from "../components/ui/skeleton";
 import { Badge } from "../components/ui/badge";
-import { formatSats } from "../lib/format";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs";
+import { formatSats, formatBlockNumber, estimatedBlockDate, formatRelative, shortAddress } from "../lib/format";
+import { buildOrderBook, bidAccepts, bidFillPrice, listingLive } from "../lib/orderBook";
+import { impliedRateSeries } from "../lib/trades";
 import { stacksNetwork } from "../lib/stacks";
-import { CONTRACT_ADDRESSES } from "../lib/contracts";
-import type { NftListing } from "../hooks/useMarketListings";
+import { market, ptAmm } from "../lib/contracts";
+import type { MarketListing } from "../hooks/useMarketListings";
+import type { Bid, Bond, TokenType } from "@satcurve/types";
 
-function parseContractId(fullAddress: string) {
-  const parts = fullAddress.split(".");
-  return { contractAddress: parts[0] ?? "", contractName: parts[1] ?? "" };
-}
-
-function shortAddress(addr: string) {
-  return `${addr.slice(0, 6)}…${addr.slice(-4)}`;
-}
+/** Most recent trades shown on the market-wide tape. */
+const TAPE_LENGTH = 100;
 
 export function MarketPage() {
   const { address, isConnected } = useWallet();
-  const { nftListings, loading, error, refetch } = useMarketListings();
+  const { nftListings, feeConfig, loading, error, refetch } = useMarketListings();
   const [pendingId, setPendingId] = useState<string | null>(null);
+  // Looked up in nftListings on every render, so the dialog shows the latest price and fee.
+  const [buying, setBuying] = useState<{ tokenType: TokenType; bondId: number } | null>(null);
+  const buyOrder = buying
+    ? nftListings.find((l) => l.tokenType === buying.tokenType && l.bondId === buying.bondId) ?? null
+    : null;
+  const { trackTx, pendingFor } = useTransactions();
+  const currentBlock = useBlockHeight();
+
+  // Expired listings stay escrowed until their seller cancels them, but only
+  // the seller has any use for seeing them.
+  const liveListings = useMemo(
+    () => (currentBlock !== null ? nftListings.filter((l) => listingLive(l, currentBlock)) : nftListings),
+    [nftListings, currentBlock],
+  );
+  const shownListings = useMemo(
+    () => nftListings.filter((l) => l.seller === address || liveListings.includes(l)),
+    [nftListings, liveListings, address],
+  );
+  const { bids, asks, loading: bookLoading, error: bookError } = useOrderBook(liveListings);
+  const { bonds } = useBonds(address);
+  const { balance: sbtcBalance } = useSbtcBalance(address);
+  const { pools, loading: poolsLoading, error: poolsError } = useAmmPools(address);
+
+  const tape = useTrades(undefined, TAPE_LENGTH);
+  const ratePoints = useMemo(() => impliedRateSeries(tape.trades), [tape.trades]);
 
-  function callMarket(
-    functionName: string,
-    args: ReturnType<typeof uintCV>[],
-    id: string,
-  ) {
-    const { contractAddress, contractName } = parseContractId(CONTRACT_ADDRESSES.market);
+  const buckets = useMemo(
+    () => (currentBlock !== null ? buildOrderBook(asks, bids, currentBlock) : []),
+    [asks, bids, currentBlock],
+  );
+
+  /** The first PT the user holds that `bid` would buy, with its payout. */
+  function sellablePt(bid: Bid): { bond: Bond; priceSats: bigint } | null {
+    for (const bond of bonds) {
+      if (!bond.holdsPt || !bidAccepts(bid, Number(bond.tokenId), bond.maturityBlock)) continue;
+      const priceSats = bidFillPrice(bid, bond.sbtcAmount);
+      if (priceSats > 0n && priceSats <= bid.remainingSats) return { bond, priceSats };
+    }
+    return null;
+  }
+
+  function callContract(call: ContractCall, id: string, bondId: number | null) {
     setPendingId(id);
     void openContractCall({
-      contractAddress,
-      contractName,
-      functionName,
-      functionArgs: args,
+      ...call,
       network: stacksNetwork,
-      postConditionMode: PostConditionMode.Allow,
-      onFinish: () => { setPendingId(null); refetch(); },
+      postConditionMode: PostConditionMode.Deny,
+      onFinish: (data) => { trackTx(data.txId, call, bondId); setPendingId(null); },
       onCancel: () => setPendingId(null),
     });
   }
@@ -51,108 +104,375 @@ export function MarketPage() {
       <div>
         <h1 className="text-3xl font-bold">Market</h1>
         <p className="text-sm text-text-muted mt-1">
-          Fixed-price P2P listings for PT and YT tokens.
+          P2P listings for PT and YT tokens, bids for PT by maturity, and AMM pools for swapping PT.
         </p>
       </div>
 
-      {loading ? (
-        <div className="space-y-3">
-          <Skeleton className="h-20 w-full bg-surface" />
-          <Skeleton className="h-20 w-full bg-surface" />
-        </div>
-      ) : error ? (
-        <Card className="bg-surface border-border">
-          <CardContent className="pt-6 space-y-2">
-            <p className="text-error text-sm">{error}</p>
-            <button onClick={refetch} className="text-xs text-text-muted underline hover:text-text">
-              Retry
-            </button>
-          </CardContent>
-        </Card>
-      ) : nftListings.length === 0 ? (
-          <Card className="bg-surface border-border">
-            <CardContent className="pt-6">
-              <p className="text-text-muted text-sm">No NFT bond listings right now.</p>
-              <p className="text-text-faint text-xs mt-1">
-                Go to a{" "}
-                <Link to="/bonds" className="underline hover:text-text">
-                  bond detail page
-                </Link>{" "}
-                to list your PT or YT for sale.
+      <Tabs defaultValue="book">
+        <TabsList>
+          <TabsTrigger value="book">Order Book</TabsTrigger>
+          <TabsTrigger value="swap">Swap</TabsTrigger>
+          <TabsTrigger value="trades">Trades</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="book" className="space-y-8">
+          {/* PT order book */}
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold">PT Order Book</h2>
+              <p className="text-xs text-text-faint mt-1">
+                Prices are sBTC per 1 sBTC of face value. A range bid counts toward every bucket it covers.
               </p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="space-y-3">
-            {nftListings.map((listing: NftListing) => {
-              const id = `nft-${listing.tokenType}-${listing.bondId}`;
-              const fnBuy = listing.tokenType === "PT" ? "buy-pt" : "buy-yt";
-              const isSelf = address === listing.seller;
-              return (
-                <Card key={id} className="bg-surface border-border">
-                  <CardContent className="pt-4 pb-4">
-                    <div className="flex items-center justify-between gap-4">
-                      <div className="flex items-center gap-3 min-w-0">
-                        <Badge
-                          variant="outline"
-                          className={
-                            listing.tokenType === "PT"
-                              ? "border-brand/40 text-brand"
-                              : "border-success/40 text-success"
-                          }
-                        >
-                          {listing.tokenType}
-                        </Badge>
-                        <Link
-                          to="/bonds/$bondId"
-                          params={{ bondId: String(listing.bondId) }}
-                          className="text-sm font-medium hover:text-brand transition-colors"
-                        >
-                          Bond #{String(listing.bondId).padStart(3, "0")}
-                        </Link>
-                        <span className="text-xs text-text-faint hidden sm:block">
-                          {isSelf ? "Your listing" : `by ${shortAddress(listing.seller)}`}
-                        </span>
-                      </div>
-                      <div className="flex items-center gap-3 shrink-0">
-                        <span className="font-mono text-sm font-semibold">
-                          {formatSats(listing.priceSats)} sBTC
-                        </span>
-                        {!isSelf && isConnected && (
-                          <TxButton
-                            variant="outline"
-                            size="sm"
-                            pending={pendingId === id}
-                            onClick={() =>
-                              callMarket(fnBuy, [uintCV(listing.bondId)], id)
-                            }
-                            className={
-                              listing.tokenType === "PT"
-                                ? "border-brand text-brand hover:bg-brand/10"
-                                : "border-success text-success hover:bg-success/10"
-                            }
-                          >
-                            Buy
-                          </TxButton>
-                        )}
-                        {isSelf && (
-                          <Link
-                            to="/bonds/$bondId"
-                            params={{ bondId: String(listing.bondId) }}
-                            className="text-xs text-text-muted underline hover:text-text"
-                          >
-                            Manage
-                          </Link>
-                        )}
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              );
-            })}
-          </div>
-        )
-      }
+            </div>
+            {bookLoading || currentBlock === null ? (
+              <Skeleton className="h-32 w-full bg-surface" />
+            ) : bookError ? (
+              <p className="text-error text-sm">{bookError}</p>
+            ) : buckets.length === 0 ? (
+              <p className="text-text-muted text-sm">No PT bids or asks yet.</p>
+            ) : (
+              <OrderBookTable buckets={buckets} />
+            )}
+
+            {bids.length > 0 && (
+              <div className="space-y-3">
+                {bids.map((bid) => {
+                  const id = `bid-${bid.bidId}`;
+                  const isSelf = address === bid.bidder;
+                  const sellable = !isSelf && isConnected ? sellablePt(bid) : null;
+                  return (
+                    <Card key={id} className="bg-surface border-border">
+                      <CardContent className="pt-4 pb-4">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="min-w-0 space-y-0.5">
+                            <p className="text-sm font-medium">
+                              Bid #{bid.bidId} ·{" "}
+                              {bid.bondId !== null ? (
+                                <Link
+                                  to="/bonds/$bondId"
+                                  params={{ bondId: String(bid.bondId) }}
+                                  className="hover:text-brand transition-colors"
+                                >
+                                  Bond #{String(bid.bondId).padStart(3, "0")}
+                                </Link>
+                              ) : (
+                                <span className="text-text-muted">
+                                  maturing blocks {formatBlockNumber(bid.minMaturity)}–{formatBlockNumber(bid.maxMaturity)}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-text-faint">
+                              {isSelf ? "Your bid" : `by ${shortAddress(bid.bidder)}`} ·{" "}
+                              {formatSats(bid.remainingSats)} sBTC left
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3 shrink-0">
+                            <span className="font-mono text-sm font-semibold text-success">
+                              {formatSats(bid.pricePerSbtc)}
+                            </span>
+                            {isSelf && (
+                              <TxButton
+                                variant="outline"
+                                size="sm"
+                                pending={pendingId === id}
+                                onClick={() =>
+                                  market && callContract(
+                                    {
+                                      ...market.cancelBid(bid.bidId),
+                                      postConditions: cancelBidPostConditions(market, bid.remainingSats),
+                                    },
+                                    id,
+                                    bid.bondId,
+                                  )
+                                }
+                              >
+                                Cancel
+                              </TxButton>
+                            )}
+                            {sellable && (
+                              <TxButton
+                                variant="outline"
+                                size="sm"
+                                pending={
+                                  pendingId === id ||
+                                  pendingFor(Number(sellable.bond.tokenId)).some((t) => t.functionName === "sell-into-bid")
+                                }
+                                onClick={() =>
+                                  market && address && callContract(
+                                    {
+                                      ...market.sellIntoBid(bid.bidId, sellable.bond.tokenId),
+                                      postConditions: sellIntoBidPostConditions(
+                                        market, sellable.bond.tokenId, address, sellable.priceSats,
+                                      ),
+                                    },
+                                    id,
+                                    Number(sellable.bond.tokenId),
+                                  )
+                                }
+                                className="border-success text-success hover:bg-success/10"
+                              >
+                                Sell #{sellable.bond.tokenId.toString().padStart(3, "0")} for {formatSats(sellable.priceSats)}
+                              </TxButton>
+                            )}
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+
+            {isConnected && currentBlock !== null && (
+              <Card className="bg-surface border-border">
+                <CardHeader>
+                  <CardTitle className="text-base">Place a PT Bid</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PlaceBidForm
+                    currentBlock={currentBlock}
+                    sbtcBalance={sbtcBalance}
+                    pending={pendingId === "place-bid"}
+                    onSubmit={(min, max, price, amount) =>
+                      market && address && callContract(
+                        {
+                          ...market.placeBid(min, max, price, amount),
+                          postConditions: placeBidPostConditions(market, address, amount),
+                        },
+                        "place-bid",
+                        null,
+                      )
+                    }
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </section>
+
+          <h2 className="text-xl font-semibold">Listings</h2>
+
+          {loading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-20 w-full bg-surface" />
+              <Skeleton className="h-20 w-full bg-surface" />
+            </div>
+          ) : error ? (
+            <Card className="bg-surface border-border">
+              <CardContent className="pt-6 space-y-2">
+                <p className="text-error text-sm">{error}</p>
+                <button onClick={refetch} className="text-xs text-text-muted underline hover:text-text">
+                  Retry
+                </button>
+              </CardContent>
+            </Card>
+          ) : shownListings.length === 0 ? (
+              <Card className="bg-surface border-border">
+                <CardContent className="pt-6">
+                  <p className="text-text-muted text-sm">No NFT bond listings right now.</p>
+                  <p className="text-text-faint text-xs mt-1">
+                    Go to a{" "}
+                    <Link to="/bonds" className="underline hover:text-text">
+                      bond detail page
+                    </Link>{" "}
+                    to list your PT or YT for sale.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {shownListings.map((listing: MarketListing) => {
+                  const id = `nft-${listing.tokenType}-${listing.bondId}`;
+                  const isSelf = address === listing.seller;
+                  const suffix = listing.tokenType.toLowerCase();
+                  const isLive = liveListings.includes(listing);
+                  const txPending = (fn: string) => pendingFor(listing.bondId).some((t) => t.functionName === fn);
+                  return (
+                    <Card key={id} className="bg-surface border-border">
+                      <CardContent className="pt-4 pb-4">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="flex items-center gap-3 min-w-0">
+                            <Badge
+                              variant="outline"
+                              className={
+                                listing.tokenType === "PT"
+                                  ? "border-brand/40 text-brand"
+                                  : "border-success/40 text-success"
+                              }
+                            >
+                              {listing.tokenType}
+                            </Badge>
+                            <Link
+                              to="/bonds/$bondId"
+                              params={{ bondId: String(listing.bondId) }}
+                              className="text-sm font-medium hover:text-brand transition-colors"
+                            >
+                              Bond #{String(listing.bondId).padStart(3, "0")}
+                            </Link>
+                            <span className="text-xs text-text-faint hidden sm:block">
+                              {isSelf ? "Your listing" : `by ${shortAddress(listing.seller)}`}
+                            </span>
+                            {listing.expiresAt !== null && currentBlock !== null && (
+                              <span className={`text-xs ${isLive ? "text-text-faint" : "text-error"}`}>
+                                {isLive ? (
+                                  <>
+                                    expires{" "}
+                                    <BlockTooltip block={listing.expiresAt} currentBlock={currentBlock}>
+                                      {formatRelative(estimatedBlockDate(listing.expiresAt, currentBlock))}
+                                    </BlockTooltip>
+                                  </>
+                                ) : (
+                                  "Expired"
+                                )}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3 shrink-0">
+                            <div className="text-right">
+                              <span className="font-mono text-sm font-semibold">
+                                {formatSats(listing.priceSats)} sBTC
+                              </span>
+                              {!isSelf && listing.feeSats > 0n && (
+                                <p className="text-xs text-text-faint font-mono">
+                                  {formatSats(listing.totalSats)} with fee
+                                </p>
+                              )}
+                            </div>
+                            {!isSelf && isConnected && (
+                              <TxButton
+                                variant="outline"
+                                size="sm"
+                                pending={pendingId === id || txPending(`buy-${suffix}`)}
+                                onClick={() => setBuying({ tokenType: listing.tokenType, bondId: listing.bondId })}
+                                className={
+                                  listing.tokenType === "PT"
+                                    ? "border-brand text-brand hover:bg-brand/10"
+                                    : "border-success text-success hover:bg-success/10"
+                                }
+                              >
+                                Buy
+                              </TxButton>
+                            )}
+                            {isSelf && isLive && (
+                              <ListingPriceEditor
+                                pending={pendingId === `${id}-price` || txPending(`update-${suffix}-price`)}
+                                onSave={(price) =>
+                                  market &&
+                                  callContract(
+                                    market.updatePrice(listing.tokenType, listing.bondId, price),
+                                    `${id}-price`,
+                                    listing.bondId,
+                                  )
+                                }
+                              />
+                            )}
+                            {isSelf && (
+                              <Link
+                                to="/bonds/$bondId"
+                                params={{ bondId: String(listing.bondId) }}
+                                className="text-xs text-text-muted underline hover:text-text"
+                              >
+                                Manage
+                              </Link>
+                            )}
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )
+          }
+        </TabsContent>
+
+        <TabsContent value="swap">
+          {poolsLoading || currentBlock === null ? (
+            <Skeleton className="h-32 w-full bg-surface" />
+          ) : poolsError ? (
+            <p className="text-error text-sm">{poolsError}</p>
+          ) : (
+            <SwapPanel
+              pools={pools}
+              bonds={bonds}
+              sbtcBalance={sbtcBalance}
+              currentBlock={currentBlock}
+              isConnected={isConnected}
+              pending={pendingId === "swap"}
+              onSell={(poolId, bondId, minOut) =>
+                ptAmm && address && callContract(
+                  {
+                    ...ptAmm.swapPtForSbtc(poolId, bondId, minOut),
+                    postConditions: swapPtForSbtcPostConditions(ptAmm, bondId, address, minOut),
+                  },
+                  "swap",
+                  bondId,
+                )
+              }
+              onBuy={(poolId, bondId, maxIn) =>
+                ptAmm && address && callContract(
+                  {
+                    ...ptAmm.swapSbtcForPt(poolId, bondId, maxIn),
+                    postConditions: swapSbtcForPtPostConditions(ptAmm, bondId, address, maxIn),
+                  },
+                  "swap",
+                  bondId,
+                )
+              }
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="trades" className="space-y-8">
+          {!tape.available ? (
+            <p className="text-text-muted text-sm">Trade history is served by the indexer, which is not configured.</p>
+          ) : tape.loading ? (
+            <Skeleton className="h-32 w-full bg-surface" />
+          ) : tape.error ? (
+            <p className="text-error text-sm">{tape.error}</p>
+          ) : tape.trades.length === 0 ? (
+            <p className="text-text-muted text-sm">No trades yet.</p>
+          ) : (
+            <>
+              {ratePoints.length > 0 && (
+                <section className="space-y-4">
+                  <div>
+                    <h2 className="text-xl font-semibold">PT Implied Rate</h2>
+                    <p className="text-xs text-text-faint mt-1">
+                      The annual yield each PT trade locked in, from its price, face value and time to maturity.
+                    </p>
+                  </div>
+                  <Card className="bg-surface border-border">
+                    <CardContent className="pt-4">
+                      <ImpliedRateChart points={ratePoints} />
+                    </CardContent>
+                  </Card>
+                </section>
+              )}
+              <section className="space-y-4">
+                <h2 className="text-xl font-semibold">Trade Tape</h2>
+                <TradeTable trades={tape.trades} showBond />
+              </section>
+            </>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <BuyListingDialog
+        order={buyOrder}
+        feeConfig={feeConfig}
+        pending={buyOrder !== null && pendingId === `nft-${buyOrder.tokenType}-${buyOrder.bondId}`}
+        onClose={() => setBuying(null)}
+        onConfirm={(order) => {
+          setBuying(null);
+          if (market && address) {
+            callContract(
+              market.buy(order.tokenType, order.bondId, order.totalSats, address),
+              `nft-${order.tokenType}-${order.bondId}`,
+              order.bondId,
+            );
+          }
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,65 @@
+// Parse the `err-*` constants of a .clar file and render errors.generated.ts.
+//
+// Each error constant must sit on one line and carry its user-facing message
+// as a trailing comment:
+//
+//   (define-constant err-not-matured (err u201))  ;; This bond has not reached maturity yet.
+
+export const CATALOG_CONTRACTS = ["bond-factory", "market", "pt-amm", "pt-vault", "yield-oracle", "yt-vault"] as const;
+
+export interface ParsedError {
+  code: number;
+  constant: string;
+  name: string;
+  message: string;
+}
+
+const ERROR_LINE = /^\(define-constant\s+(err-[a-z0-9-]+)\s+\(err u(\d+)\)\)\s*(?:;;\s*(.*?))?\s*$/;
+
+/** err-not-pt-owner → NotPtOwner */
+export function errorName(constant: string): string {
+  return constant
+    .replace(/^err-/, "")
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+export function parseErrors(contract: string, source: string): ParsedError[] {
+  const errors: ParsedError[] = [];
+  for (const line of source.split("\n")) {
+    const match = ERROR_LINE.exec(line.trim());
+    if (!match) continue;
+    const [, constant, code, message] = match;
+    if (!message) throw new Error(`${contract}.clar: ${constant} has no message comment`);
+    errors.push({ code: Number(code), constant: constant!, name: errorName(constant!), message });
+  }
+  if (errors.length === 0) throw new Error(`${contract}.clar: no error constants found`);
+  return errors.sort((a, b) => a.code - b.code);
+}
+
+/** Contents of src/errors.generated.ts for the given .clar sources. */
+export function renderErrorCatalog(sources: Record<string, string>): string {
+  const lines = [
+    "// Generated by scripts/generate-errors.ts from contracts/*.clar. Do not edit:",
+    "// change the error constant's comment and run `pnpm --filter @satcurve/contracts generate:errors`.",
+    "",
+    'import type { ContractName, ErrorInfo } from "./errors";',
+    "",
+    "export const CONTRACT_ERRORS: Record<ContractName, Record<number, ErrorInfo>> = {",
+  ];
+  for (const contract of CATALOG_CONTRACTS) {
+    const source = sources[contract];
+    if (source === undefined) throw new Error(`missing source for ${contract}.clar`);
+    lines.push(`  ${JSON.stringify(contract)}: {`);
+    for (const e of parseErrors(contract, source)) {
+      lines.push(
+        `    ${e.code}: { constant: ${JSON.stringify(e.constant)}, name: ${JSON.stringify(e.name)}, ` +
+        `message: ${JSON.stringify(e.message)} },`
+      );
+    }
+    lines.push("  },");
+  }
+  lines.push("};", "");
+  return lines.join("\n");
+}
@@ -0,0 +1,18 @@
+// Regenerate src/errors.generated.ts from the contracts' error constants.
+//
+//   pnpm --filter @satcurve/contracts generate:errors
+
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { CATALOG_CONTRACTS, renderErrorCatalog } from "./errorCatalog";
+
+const contractsDir = join(__dirname, "../../../contracts");
+const outFile = join(__dirname, "../src/errors.generated.ts");
+
+const sources: Record<string, string> = {};
+for (const contract of CATALOG_CONTRACTS) {
+  sources[contract] = readFileSync(join(contractsDir, `${contract}.clar`), "utf8");
+}
+
+writeFileSync(outFile, renderErrorCatalog(sources));
+console.log(`Wrote ${outFile}`);
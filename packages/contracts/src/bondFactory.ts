@@ -0,0 +1,118 @@
+// Client for bond-factory.clar
+
+import { listCV, principalCV, tupleCV, uintCV } from "@stacks/transactions";
+import type { BondData, Series } from "@satcurve/types";
+import { ContractClient } from "./client";
+import type { ContractCall, ReadOnlyCall } from "./client";
+import { decodeBond, decodeSeries, optional, principal, uint } from "./decode";
+
+type Uint = bigint | number;
+
+/** One entry of a deposit-yield-many batch. */
+export interface YieldDepositEntry {
+  bondId: Uint;
+  amount: Uint;
+}
+
+export class BondFactory extends ContractClient {
+  constructor(contractId: string) {
+    super("bond-factory", contractId);
+  }
+
+  // ===== Read-only =====
+
+  /** Throws ContractError BondNotFound (u200) for an unknown bond. */
+  getBond(bondId: Uint): ReadOnlyCall<BondData> {
+    return this.readOk("get-bond", [uintCV(bondId)], (cv) => decodeBond(BigInt(bondId), cv));
+  }
+
+  /** Current PT holder; null once burned (redeemed or combined). */
+  getPtOwner(bondId: Uint): ReadOnlyCall<string | null> {
+    return this.read("get-pt-owner", [uintCV(bondId)], (cv) => nullablePrincipal(optional(cv)));
+  }
+
+  /** Current YT holder; null once burned (combined). */
+  getYtOwner(bondId: Uint): ReadOnlyCall<string | null> {
+    return this.read("get-yt-owner", [uintCV(bondId)], (cv) => nullablePrincipal(optional(cv)));
+  }
+
+  getAvailableYield(bondId: Uint): ReadOnlyCall<bigint> {
+    return this.readOk("get-available-yield", [uintCV(bondId)], uint);
+  }
+
+  /** Number of bonds ever created; bond ids are 0 .. count - 1. */
+  getBondCount(): ReadOnlyCall<bigint> {
+    return this.readOk("get-bond-count", [], uint);
+  }
+
+  /** Throws ContractError SeriesNotFound (u210) for an unknown series. */
+  getSeries(seriesId: Uint): ReadOnlyCall<Series> {
+    return this.readOk("get-series", [uintCV(seriesId)], (cv) => decodeSeries(BigInt(seriesId), cv));
+  }
+
+  /** Number of series ever added; series ids are 0 .. count - 1. */
+  getSeriesCount(): ReadOnlyCall<bigint> {
+    return this.readOk("get-series-count", [], uint);
+  }
+
+  /** Series the bond was created into; null for a create-bond term. */
+  getBondSeries(bondId: Uint): ReadOnlyCall<number | null> {
+    return this.read("get-bond-series", [uintCV(bondId)], (cv) => {
+      const id = optional(cv);
+      return id ? Number(uint(id)) : null;
+    });
+  }
+
+  // ===== Public =====
+
+  createBond(sbtcAmount: Uint, termBlocks: Uint): ContractCall {
+    return this.call("create-bond", [uintCV(sbtcAmount), uintCV(termBlocks)]);
+  }
+
+  createBondInSeries(sbtcAmount: Uint, seriesId: Uint): ContractCall {
+    return this.call("create-bond-in-series", [uintCV(sbtcAmount), uintCV(seriesId)]);
+  }
+
+  addSeries(maturityBlock: Uint): ContractCall {
+    return this.call("add-series", [uintCV(maturityBlock)]);
+  }
+
+  closeSeries(seriesId: Uint): ContractCall {
+    return this.call("close-series", [uintCV(seriesId)]);
+  }
+
+  depositYield(bondId: Uint, amount: Uint): ContractCall {
+    return this.call("deposit-yield", [uintCV(bondId), uintCV(amount)]);
+  }
+
+  /** At most 50 entries per call. */
+  depositYieldMany(deposits: YieldDepositEntry[]): ContractCall {
+    return this.call("deposit-yield-many", [listCV(deposits.map((d) =>
+      tupleCV({ "bond-id": uintCV(d.bondId), amount: uintCV(d.amount) })
+    ))]);
+  }
+
+  collectYield(bondId: Uint): ContractCall {
+    return this.call("collect-yield", [uintCV(bondId)]);
+  }
+
+  redeemPrincipal(bondId: Uint): ContractCall {
+    return this.call("redeem-principal", [uintCV(bondId)]);
+  }
+
+  combine(bondId: Uint): ContractCall {
+    return this.call("combine", [uintCV(bondId)]);
+  }
+
+  transferPt(bondId: Uint, sender: string, recipient: string): ContractCall {
+    return this.call("transfer-pt", [uintCV(bondId), principalCV(sender), principalCV(recipient)]);
+  }
+
+  transferYt(bondId: Uint, sender: string, recipient: string): ContractCall {
+    return this.call("transfer-yt", [uintCV(bondId), principalCV(sender), principalCV(recipient)]);
+  }
+}
+
+function nullablePrincipal(cv: ReturnType<typeof optional>): string | null {
+  return cv ? principal(cv) : null;
+}
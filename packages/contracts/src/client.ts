@@ -0,0 +1,88 @@
+// Call descriptors shared by every contract client.
+//
+// Clients only describe calls; they never touch the network. A ContractCall
+// can be spread into @stacks/connect's openContractCall or signed with
+// makeContractCall, and a ReadOnlyCall is run with callReadOnlyFunction and
+// its result passed to `decode`.
+
+import { cvToHex, hexToCV } from "@stacks/transactions";
+import type { ClarityValue, PostCondition } from "@stacks/transactions";
+import type { ContractName } from "./errors";
+import { unwrapResponse } from "./decode";
+
+/** A public function call. */
+export interface ContractCall {
+  contractAddress: string;
+  contractName: string;
+  functionName: string;
+  functionArgs: ClarityValue[];
+  /**
+   * What the call moves out of each account (see postConditions.ts). Callers
+   * sign in PostConditionMode.Deny, so a call that moves assets aborts
+   * without these.
+   */
+  postConditions?: PostCondition[];
+}
+
+/** A read-only function call and the decoder for its result. */
+export interface ReadOnlyCall<T> extends ContractCall {
+  decode: (result: ClarityValue) => T;
+}
+
+/** Split "ST1ABC…XYZ.contract-name" into its address and name. */
+export function parseContractId(id: string): { contractAddress: string; contractName: string } {
+  const dot = id.lastIndexOf(".");
+  if (dot <= 0 || dot === id.length - 1) throw new Error(`Invalid contract id: "${id}"`);
+  return { contractAddress: id.slice(0, dot), contractName: id.slice(dot + 1) };
+}
+
+/** Function args hex-encoded, as POST /v2/contracts/call-read expects them. */
+export function encodeArgs(call: ContractCall): string[] {
+  return call.functionArgs.map((arg) => cvToHex(arg));
+}
+
+/** Decode the hex `result` of a /v2/contracts/call-read response. */
+export function decodeResultHex<T>(call: ReadOnlyCall<T>, hex: string): T {
+  return call.decode(hexToCV(hex));
+}
+
+/** Base class of the per-contract clients. */
+export abstract class ContractClient {
+  readonly contractId: string;
+  readonly contractAddress: string;
+  readonly contractName: string;
+  protected readonly contract: ContractName;
+
+  /**
+   * `contract` names the deployed source (used to map error codes), since
+   * the deployed contract name may differ, e.g. a versioned testnet deploy.
+   */
+  protected constructor(contract: ContractName, contractId: string) {
+    const { contractAddress, contractName } = parseContractId(contractId);
+    this.contract = contract;
+    this.contractId = contractId;
+    this.contractAddress = contractAddress;
+    this.contractName = contractName;
+  }
+
+  protected call(functionName: string, functionArgs: ClarityValue[]): ContractCall {
+    return { contractAddress: this.contractAddress, contractName: this.contractName, functionName, functionArgs };
+  }
+
+  protected read<T>(
+    functionName: string,
+    functionArgs: ClarityValue[],
+    decode: (result: ClarityValue) => T,
+  ): ReadOnlyCall<T> {
+    return { ...this.call(functionName, functionArgs), decode };
+  }
+
+  /** A read-only function returning a response: unwraps (ok …), throws ContractError on (err …). */
+  protected readOk<T>(
+    functionName: string,
+    functionArgs: ClarityValue[],
+    decode: (value: ClarityValue) => T,
+  ): ReadOnlyCall<T> {
+    return this.read(functionName, functionArgs, (result) => decode(unwrapResponse(this.contract, result)));
+  }
+}
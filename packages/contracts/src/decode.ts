@@ -0,0 +1,149 @@
+// Clarity value → TypeScript decoders for read-only results.
+//
+// Each helper checks the Clarity type it expects and throws otherwise, so a
+// contract change shows up as a clear error instead of an `undefined` deep
+// inside the UI.
+
+import { ClarityType, principalToString } from "@stacks/transactions";
+import type { ClarityValue, PrincipalCV } from "@stacks/transactions";
+import type { AmmPool, Bid, BondData, FeeConfig, Listing, Series } from "@satcurve/types";
+import { ContractError } from "./errors";
+import type { ContractName } from "./errors";
+
+type Fields = Record<string, ClarityValue>;
+
+/** The value inside (ok …); throws a ContractError for (err uN). */
+export function unwrapResponse(contract: ContractName, cv: ClarityValue): ClarityValue {
+  if (cv.type === ClarityType.ResponseOk) return cv.value;
+  if (cv.type === ClarityType.ResponseErr) {
+    if (cv.value.type !== ClarityType.UInt) throw new Error(`${contract} returned a non-uint error`);
+    throw new ContractError(contract, BigInt(cv.value.value));
+  }
+  throw new Error(`expected a response, got Clarity type ${cv.type}`);
+}
+
+/** The value inside (some …), or null for none. */
+export function optional(cv: ClarityValue): ClarityValue | null {
+  if (cv.type === ClarityType.OptionalNone) return null;
+  if (cv.type === ClarityType.OptionalSome) return cv.value;
+  throw new Error(`expected an optional, got Clarity type ${cv.type}`);
+}
+
+export function uint(cv: ClarityValue): bigint {
+  if (cv.type !== ClarityType.UInt) throw new Error(`expected a uint, got Clarity type ${cv.type}`);
+  return BigInt(cv.value);
+}
+
+export function bool(cv: ClarityValue): boolean {
+  if (cv.type === ClarityType.BoolTrue) return true;
+  if (cv.type === ClarityType.BoolFalse) return false;
+  throw new Error(`expected a bool, got Clarity type ${cv.type}`);
+}
+
+export function stringAscii(cv: ClarityValue): string {
+  if (cv.type !== ClarityType.StringASCII) throw new Error(`expected a string-ascii, got Clarity type ${cv.type}`);
+  return cv.data;
+}
+
+export function principal(cv: ClarityValue): string {
+  if (cv.type !== ClarityType.PrincipalStandard && cv.type !== ClarityType.PrincipalContract) {
+    throw new Error(`expected a principal, got Clarity type ${cv.type}`);
+  }
+  return principalToString(cv as PrincipalCV);
+}
+
+export function tuple(cv: ClarityValue): Fields {
+  if (cv.type !== ClarityType.Tuple) throw new Error(`expected a tuple, got Clarity type ${cv.type}`);
+  return cv.data;
+}
+
+function field(f: Fields, name: string): ClarityValue {
+  const value = f[name];
+  if (!value) throw new Error(`tuple field "${name}" is missing`);
+  return value;
+}
+
+/** bond-factory `bond-data` tuple. */
+export function decodeBond(bondId: bigint, cv: ClarityValue): BondData {
+  const f = tuple(cv);
+  return {
+    tokenId:           bondId,
+    sbtcAmount:        uint(field(f, "sbtc-amount")),
+    maturityBlock:     Number(uint(field(f, "maturity-block"))),
+    createdBlock:      Number(uint(field(f, "created-block"))),
+    principalRedeemed: bool(field(f, "principal-redeemed")),
+    combined:          bool(field(f, "combined")),
+    yieldDeposited:    uint(field(f, "yield-deposited")),
+    yieldWithdrawn:    uint(field(f, "yield-withdrawn")),
+  };
+}
+
+/** bond-factory `series` entry. */
+export function decodeSeries(seriesId: bigint, cv: ClarityValue): Series {
+  const f = tuple(cv);
+  return {
+    seriesId:      Number(seriesId),
+    maturityBlock: Number(uint(field(f, "maturity-block"))),
+    openInterest:  uint(field(f, "open-interest")),
+    active:        bool(field(f, "active")),
+  };
+}
+
+/** market `{ seller, price-sats, expires-at }` listing tuple. */
+export function decodeListing(cv: ClarityValue): Listing {
+  const f = tuple(cv);
+  const expiresAt = optional(field(f, "expires-at"));
+  return {
+    seller:    principal(field(f, "seller")),
+    priceSats: uint(field(f, "price-sats")),
+    expiresAt: expiresAt ? Number(uint(expiresAt)) : null,
+  };
+}
+
+/** market `bids` entry. */
+export function decodeBid(bidId: bigint, cv: ClarityValue): Bid {
+  const f = tuple(cv);
+  const bondId = optional(field(f, "bond-id"));
+  return {
+    bidId:         Number(bidId),
+    bidder:        principal(field(f, "bidder")),
+    bondId:        bondId ? Number(uint(bondId)) : null,
+    minMaturity:   Number(uint(field(f, "min-maturity"))),
+    maxMaturity:   Number(uint(field(f, "max-maturity"))),
+    pricePerSbtc:  uint(field(f, "price-per-sbtc")),
+    remainingSats: uint(field(f, "remaining-sats")),
+  };
+}
+
+/** market `get-fee-config` tuple. */
+export function decodeFeeConfig(cv: ClarityValue): FeeConfig {
+  const f = tuple(cv);
+  return {
+    feeBps:    Number(uint(field(f, "fee-bps"))),
+    maxFeeBps: Number(uint(field(f, "max-fee-bps"))),
+    treasury:  principal(field(f, "treasury")),
+  };
+}
+
+/** pt-amm `pools` entry. */
+export function decodePool(poolId: bigint, cv: ClarityValue): AmmPool {
+  const f = tuple(cv);
+  return {
+    poolId:        Number(poolId),
+    minMaturity:   Number(uint(field(f, "min-maturity"))),
+    maturityBlock: Number(uint(field(f, "maturity-block"))),
+    anchorRateBps: uint(field(f, "anchor-rate-bps")),
+    sbtcReserve:   uint(field(f, "sbtc-reserve")),
+    ptReserve:     uint(field(f, "pt-reserve")),
+    totalShares:   uint(field(f, "total-shares")),
+  };
+}
+
+/** pt-vault / yt-vault `get-maturity-range` tuple. */
+export function decodeMaturityRange(cv: ClarityValue): { minMaturity: number; maxMaturity: number } {
+  const f = tuple(cv);
+  return {
+    minMaturity: Number(uint(field(f, "min-maturity"))),
+    maxMaturity: Number(uint(field(f, "max-maturity"))),
+  };
+}
@@ -0,0 +1,87 @@
+// Generated by scripts/generate-errors.ts from contracts/*.clar. Do not edit:
+// change the error constant's comment and run `pnpm --filter @satcurve/contracts generate:errors`.
+
+import type { ContractName, ErrorInfo } from "./errors";
+
+export const CONTRACT_ERRORS: Record<ContractName, Record<number, ErrorInfo>> = {
+  "bond-factory": {
+    100: { constant: "err-unauthorized", name: "Unauthorized", message: "Only the contract owner can do this." },
+    200: { constant: "err-bond-not-found", name: "BondNotFound", message: "This bond does not exist." },
+    201: { constant: "err-not-matured", name: "NotMatured", message: "This bond has not reached maturity yet." },
+    202: { constant: "err-already-redeemed", name: "AlreadyRedeemed", message: "This bond's principal has already been redeemed." },
+    203: { constant: "err-not-pt-owner", name: "NotPtOwner", message: "Only the holder of the Principal Token (PT) can do this." },
+    204: { constant: "err-not-yt-owner", name: "NotYtOwner", message: "Only the holder of the Yield Token (YT) can do this." },
+    205: { constant: "err-invalid-amount", name: "InvalidAmount", message: "The amount must be greater than zero." },
+    206: { constant: "err-invalid-term", name: "InvalidTerm", message: "The term must be between one block and two years." },
+    207: { constant: "err-already-combined", name: "AlreadyCombined", message: "This bond has already been combined." },
+    208: { constant: "err-deposit-after-maturity", name: "DepositAfterMaturity", message: "Yield cannot be deposited into a matured bond." },
+    209: { constant: "err-combine-after-maturity", name: "CombineAfterMaturity", message: "A bond can only be combined before it matures." },
+    210: { constant: "err-series-not-found", name: "SeriesNotFound", message: "This maturity series does not exist." },
+    211: { constant: "err-series-closed", name: "SeriesClosed", message: "This maturity series is closed to new bonds." },
+    212: { constant: "err-invalid-series", name: "InvalidSeries", message: "A series must mature in the future and within two years." },
+    213: { constant: "err-series-matured", name: "SeriesMatured", message: "This maturity series has already matured." },
+    214: { constant: "err-series-exists", name: "SeriesExists", message: "A series with this maturity already exists." },
+  },
+  "market": {
+    400: { constant: "err-listing-not-found", name: "ListingNotFound", message: "This listing no longer exists." },
+    401: { constant: "err-already-listed", name: "AlreadyListed", message: "This token is already listed." },
+    402: { constant: "err-price-zero", name: "PriceZero", message: "The price must be greater than zero." },
+    403: { constant: "err-not-seller", name: "NotSeller", message: "Only the seller can change or cancel this listing." },
+    404: { constant: "err-bid-not-found", name: "BidNotFound", message: "This bid no longer exists." },
+    405: { constant: "err-not-bidder", name: "NotBidder", message: "Only the bidder can cancel this bid." },
+    406: { constant: "err-amount-zero", name: "AmountZero", message: "The bid amount must be greater than zero." },
+    407: { constant: "err-invalid-range", name: "InvalidRange", message: "The maturity range is empty: the first block is after the last." },
+    408: { constant: "err-price-above-face", name: "PriceAboveFace", message: "A PT bid cannot pay more than 1 sBTC per sBTC of face value." },
+    409: { constant: "err-bond-not-eligible", name: "BondNotEligible", message: "This bond does not match the bid." },
+    410: { constant: "err-bid-exhausted", name: "BidExhausted", message: "The bid has too little sBTC left to buy this PT." },
+    411: { constant: "err-invalid-expiry", name: "InvalidExpiry", message: "The listing must expire at a future block." },
+    412: { constant: "err-listing-expired", name: "ListingExpired", message: "This listing has expired." },
+    413: { constant: "err-price-above-max", name: "PriceAboveMax", message: "The listing now costs more than your maximum price." },
+    414: { constant: "err-unauthorized", name: "Unauthorized", message: "Only the contract owner can change the trade fee." },
+    415: { constant: "err-fee-too-high", name: "FeeTooHigh", message: "The trade fee cannot exceed the hard cap." },
+  },
+  "pt-amm": {
+    500: { constant: "err-unauthorized", name: "Unauthorized", message: "Only the contract owner can create pools." },
+    501: { constant: "err-pool-not-found", name: "PoolNotFound", message: "This pool does not exist." },
+    502: { constant: "err-invalid-range", name: "InvalidRange", message: "The pool's maturity range is empty." },
+    503: { constant: "err-pool-matured", name: "PoolMatured", message: "The pool's maturity is already in the past." },
+    504: { constant: "err-bond-not-eligible", name: "BondNotEligible", message: "This bond does not mature inside the pool's range." },
+    505: { constant: "err-pt-not-in-pool", name: "PtNotInPool", message: "The pool does not hold this PT." },
+    506: { constant: "err-slippage", name: "Slippage", message: "The price moved past your slippage limit." },
+    507: { constant: "err-insufficient-liquidity", name: "InsufficientLiquidity", message: "The pool does not have enough liquidity for this trade." },
+    508: { constant: "err-zero-liquidity", name: "ZeroLiquidity", message: "The deposit is too small to mint any LP shares." },
+    509: { constant: "err-insufficient-shares", name: "InsufficientShares", message: "You do not have that many LP shares." },
+    510: { constant: "err-exceeds-share", name: "ExceedsShare", message: "The PTs requested are worth more than your share of the pool." },
+    511: { constant: "err-zero-amount", name: "ZeroAmount", message: "The trade amount rounds to zero." },
+  },
+  "pt-vault": {
+    600: { constant: "err-unauthorized", name: "Unauthorized", message: "Only the contract owner can do this." },
+    601: { constant: "err-already-initialized", name: "AlreadyInitialized", message: "This vault has already been set up." },
+    602: { constant: "err-not-initialized", name: "NotInitialized", message: "This vault has not been set up yet." },
+    603: { constant: "err-invalid-range", name: "InvalidRange", message: "The vault's maturity range is empty." },
+    604: { constant: "err-bond-not-eligible", name: "BondNotEligible", message: "This bond does not mature inside the vault's range." },
+    605: { constant: "err-not-in-vault", name: "NotInVault", message: "The vault does not hold this PT." },
+    606: { constant: "err-not-matured", name: "NotMatured", message: "Shares can only be redeemed once every PT in the vault has matured." },
+    607: { constant: "err-not-settled", name: "NotSettled", message: "The vault has not redeemed enough matured PTs yet; call settle first." },
+    608: { constant: "err-not-token-owner", name: "NotTokenOwner", message: "Only the share owner can transfer them." },
+    609: { constant: "err-zero-amount", name: "ZeroAmount", message: "The amount must be greater than zero." },
+  },
+  "yield-oracle": {
+    100: { constant: "err-unauthorized", name: "Unauthorized", message: "Only the owner or an authorized relayer can update the oracle." },
+    101: { constant: "err-data-too-old", name: "DataTooOld", message: "The oracle data is out of date." },
+    102: { constant: "err-invalid-price", name: "InvalidPrice", message: "Prices must be greater than zero." },
+  },
+  "yt-vault": {
+    700: { constant: "err-unauthorized", name: "Unauthorized", message: "Only the contract owner can do this." },
+    701: { constant: "err-already-initialized", name: "AlreadyInitialized", message: "This vault has already been set up." },
+    702: { constant: "err-not-initialized", name: "NotInitialized", message: "This vault has not been set up yet." },
+    703: { constant: "err-invalid-range", name: "InvalidRange", message: "The vault's maturity range is empty." },
+    704: { constant: "err-bond-not-eligible", name: "BondNotEligible", message: "This bond does not mature inside the vault's range." },
+    705: { constant: "err-not-in-vault", name: "NotInVault", message: "The vault does not hold this YT." },
+    706: { constant: "err-not-matured", name: "NotMatured", message: "Shares can only be redeemed once every YT in the vault has matured." },
+    707: { constant: "err-bond-matured", name: "BondMatured", message: "A matured YT earns no more yield and cannot be wrapped." },
+    708: { constant: "err-not-token-owner", name: "NotTokenOwner", message: "Only the share owner can transfer them." },
+    709: { constant: "err-zero-amount", name: "ZeroAmount", message: "The amount must be greater than zero." },
+    710: { constant: "err-not-harvested", name: "NotHarvested", message: "The vault holds matured YTs whose yield has not been harvested yet; call harvest first." },
+  },
+};
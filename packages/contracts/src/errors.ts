@@ -0,0 +1,59 @@
+// Clarity error codes of the SatCurve contracts, by name.
+//
+// The catalog itself is generated from the `err-*` constants at the top of
+// each .clar file (see scripts/generate-errors.ts).
+
+import { CONTRACT_ERRORS } from "./errors.generated";
+
+export { CONTRACT_ERRORS };
+
+export type ContractName = "bond-factory" | "market" | "pt-amm" | "pt-vault" | "yield-oracle" | "yt-vault";
+
+export interface ErrorInfo {
+  /** Clarity constant, e.g. "err-not-matured". */
+  constant: string;
+  /** PascalCase name, e.g. "NotMatured". */
+  name: string;
+  /** Plain-language message suitable for showing to users. */
+  message: string;
+}
+
+export function lookupError(contract: ContractName, code: bigint): ErrorInfo | null {
+  return CONTRACT_ERRORS[contract][Number(code)] ?? null;
+}
+
+/**
+ * An (err uN) returned by a SatCurve contract. `name` is the error's name
+ * from CONTRACT_ERRORS (e.g. "BondNotFound"), or "ContractError" for a code
+ * the catalog does not know.
+ */
+export class ContractError extends Error {
+  readonly contract: ContractName;
+  readonly code: bigint;
+
+  constructor(contract: ContractName, code: bigint) {
+    const info = lookupError(contract, code);
+    super(info ? `${contract}: ${info.message} (u${code})` : `${contract} returned (err u${code})`);
+    this.name = info?.name ?? "ContractError";
+    this.contract = contract;
+    this.code = code;
+  }
+}
+
+/** "BondNotFound (u200)", or "err u999" for an unknown code. */
+export function describeError(contract: ContractName, code: bigint): string {
+  const info = lookupError(contract, code);
+  return info ? `${info.name} (u${code})` : `err u${code}`;
+}
+
+/** The user-facing message for a code, with a generic fallback. */
+export function errorMessage(contract: ContractName | null, code: bigint): string {
+  const info = contract ? lookupError(contract, code) : null;
+  return info?.message ?? `The contract rejected the transaction (error u${code}).`;
+}
+
+/** Extract N from an "(err uN)" result repr. */
+export function parseErrorCode(repr: string | null): bigint | null {
+  const match = repr ? /^\(err u(\d+)\)$/.exec(repr) : null;
+  return match ? BigInt(match[1]!) : null;
+}
@@ -0,0 +1,9 @@
+export * from "./client";
+export * from "./errors";
+export * from "./decode";
+export * from "./postConditions";
+export * from "./bondFactory";
+export * from "./market";
+export * from "./ptAmm";
+export * from "./vault";
+export * from "./yieldOracle";
@@ -0,0 +1,151 @@
+// Client for market.clar
+
+import { noneCV, principalCV, someCV, uintCV } from "@stacks/transactions";
+import type { Bid, FeeConfig, Listing, TokenType } from "@satcurve/types";
+import { ContractClient } from "./client";
+import type { ContractCall, ReadOnlyCall } from "./client";
+import { decodeBid, decodeFeeConfig, decodeListing, optional, uint } from "./decode";
+import { buyListingPostConditions } from "./postConditions";
+
+type Uint = bigint | number;
+
+export class Market extends ContractClient {
+  constructor(contractId: string) {
+    super("market", contractId);
+  }
+
+  // ===== Read-only =====
+
+  getPtListing(bondId: Uint): ReadOnlyCall<Listing | null> {
+    return this.read("get-pt-listing", [uintCV(bondId)], decodeOptionalListing);
+  }
+
+  getYtListing(bondId: Uint): ReadOnlyCall<Listing | null> {
+    return this.read("get-yt-listing", [uintCV(bondId)], decodeOptionalListing);
+  }
+
+  getListing(tokenType: TokenType, bondId: Uint): ReadOnlyCall<Listing | null> {
+    return tokenType === "PT" ? this.getPtListing(bondId) : this.getYtListing(bondId);
+  }
+
+  getBid(bidId: Uint): ReadOnlyCall<Bid | null> {
+    return this.read("get-bid", [uintCV(bidId)], (cv) => {
+      const some = optional(cv);
+      return some ? decodeBid(BigInt(bidId), some) : null;
+    });
+  }
+
+  /** Bids ever placed; ids run 0 … count-1, cancelled or filled ones read as null. */
+  getBidCount(): ReadOnlyCall<bigint> {
+    return this.readOk("get-bid-count", [], uint);
+  }
+
+  /** Trade fee charged to buyers on top of the listing price, and where it goes. */
+  getFeeConfig(): ReadOnlyCall<FeeConfig> {
+    return this.readOk("get-fee-config", [], decodeFeeConfig);
+  }
+
+  // ===== Public =====
+
+  /** `expiresAt` is the first block at which the listing can no longer be bought. */
+  listPt(bondId: Uint, priceSats: Uint, expiresAt: Uint | null = null): ContractCall {
+    return this.call("list-pt", [uintCV(bondId), uintCV(priceSats), optionalUint(expiresAt)]);
+  }
+
+  updatePtPrice(bondId: Uint, priceSats: Uint): ContractCall {
+    return this.call("update-pt-price", [uintCV(bondId), uintCV(priceSats)]);
+  }
+
+  cancelPt(bondId: Uint): ContractCall {
+    return this.call("cancel-pt", [uintCV(bondId)]);
+  }
+
+  /**
+   * Reverts rather than pay more than `maxPriceSats`, price and trade fee
+   * together; carries the buyer's post-conditions.
+   */
+  buyPt(bondId: Uint, maxPriceSats: Uint, buyer: string): ContractCall {
+    return {
+      ...this.call("buy-pt", [uintCV(bondId), uintCV(maxPriceSats)]),
+      postConditions: buyListingPostConditions(this, "PT", bondId, buyer, maxPriceSats),
+    };
+  }
+
+  /** `expiresAt` is the first block at which the listing can no longer be bought. */
+  listYt(bondId: Uint, priceSats: Uint, expiresAt: Uint | null = null): ContractCall {
+    return this.call("list-yt", [uintCV(bondId), uintCV(priceSats), optionalUint(expiresAt)]);
+  }
+
+  updateYtPrice(bondId: Uint, priceSats: Uint): ContractCall {
+    return this.call("update-yt-price", [uintCV(bondId), uintCV(priceSats)]);
+  }
+
+  cancelYt(bondId: Uint): ContractCall {
+    return this.call("cancel-yt", [uintCV(bondId)]);
+  }
+
+  /** Like buyPt: `maxPriceSats` bounds the price plus the trade fee. */
+  buyYt(bondId: Uint, maxPriceSats: Uint, buyer: string): ContractCall {
+    return {
+      ...this.call("buy-yt", [uintCV(bondId), uintCV(maxPriceSats)]),
+      postConditions: buyListingPostConditions(this, "YT", bondId, buyer, maxPriceSats),
+    };
+  }
+
+  // ===== Public: PT bids =====
+
+  /** Bid for any PT maturing in [minMaturity, maxMaturity]; escrows amountSats. */
+  placeBid(minMaturity: Uint, maxMaturity: Uint, pricePerSbtc: Uint, amountSats: Uint): ContractCall {
+    return this.call("place-bid", [uintCV(minMaturity), uintCV(maxMaturity), uintCV(pricePerSbtc), uintCV(amountSats)]);
+  }
+
+  placeBondBid(bondId: Uint, pricePerSbtc: Uint, amountSats: Uint): ContractCall {
+    return this.call("place-bond-bid", [uintCV(bondId), uintCV(pricePerSbtc), uintCV(amountSats)]);
+  }
+
+  cancelBid(bidId: Uint): ContractCall {
+    return this.call("cancel-bid", [uintCV(bidId)]);
+  }
+
+  sellIntoBid(bidId: Uint, bondId: Uint): ContractCall {
+    return this.call("sell-into-bid", [uintCV(bidId), uintCV(bondId)]);
+  }
+
+  // ===== Public: owner =====
+
+  /** Owner only; `feeBps` is capped at the contract's max-fee-bps. */
+  setFeeConfig(feeBps: Uint, treasury: string): ContractCall {
+    return this.call("set-fee-config", [uintCV(feeBps), principalCV(treasury)]);
+  }
+
+  // The PT and YT books are identical; these pick the side by token type.
+
+  list(tokenType: TokenType, bondId: Uint, priceSats: Uint, expiresAt: Uint | null = null): ContractCall {
+    return tokenType === "PT"
+      ? this.listPt(bondId, priceSats, expiresAt)
+      : this.listYt(bondId, priceSats, expiresAt);
+  }
+
+  updatePrice(tokenType: TokenType, bondId: Uint, priceSats: Uint): ContractCall {
+    return tokenType === "PT" ? this.updatePtPrice(bondId, priceSats) : this.updateYtPrice(bondId, priceSats);
+  }
+
+  cancel(tokenType: TokenType, bondId: Uint): ContractCall {
+    return tokenType === "PT" ? this.cancelPt(bondId) : this.cancelYt(bondId);
+  }
+
+  buy(tokenType: TokenType, bondId: Uint, maxPriceSats: Uint, buyer: string): ContractCall {
+    return tokenType === "PT"
+      ? this.buyPt(bondId, maxPriceSats, buyer)
+      : this.buyYt(bondId, maxPriceSats, buyer);
+  }
+}
+
+function decodeOptionalListing(cv: Parameters<typeof optional>[0]): Listing | null {
+  const some = optional(cv);
+  return some ? decodeListing(some) : null;
+}
+
+function optionalUint(value: Uint | null) {
+  return value === null ? noneCV() : someCV(uintCV(value));
+}
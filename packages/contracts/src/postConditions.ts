@@ -0,0 +1,281 @@
+// Post-conditions for every SatCurve call that moves sBTC, bond NFTs or vault
+// shares. Each builder lists what leaves each account, so the call can be
+// signed in PostConditionMode.Deny and a wallet can show it to the user.
+//
+// The contracts reach bond-factory and sbtc-token as `.bond-factory` and
+// `.sbtc-token`, so both are always deployed next to the calling contract
+// under those names. Mints are not transfers and take no post-condition:
+// create-bond's new PT and YT, and wrap's new shares, are checked by the
+// contracts alone. Burns count as the holder sending the asset.
+
+import {
+  FungibleConditionCode,
+  NonFungibleConditionCode,
+  createAssetInfo,
+  makeContractFungiblePostCondition,
+  makeContractNonFungiblePostCondition,
+  makeStandardFungiblePostCondition,
+  makeStandardNonFungiblePostCondition,
+  uintCV,
+} from "@stacks/transactions";
+import type { AssetInfo, PostCondition } from "@stacks/transactions";
+import type { TokenType } from "@satcurve/types";
+import type { ContractClient } from "./client";
+
+type Uint = bigint | number;
+
+/** A deployed contract, as every client describes itself. */
+type Contract = Pick<ContractClient, "contractAddress" | "contractName">;
+
+/** A wallet address, or a contract that sends from its own balance. */
+type Sender = string | Contract;
+
+/** sBTC as deployed by `deployer`. */
+export function sbtcAsset(deployer: string): AssetInfo {
+  return createAssetInfo(deployer, "sbtc-token", "sbtc-token");
+}
+
+/** bond-factory's principal-token (PT) or yield-token (YT) NFT. */
+export function bondAsset(deployer: string, tokenType: TokenType): AssetInfo {
+  return createAssetInfo(deployer, "bond-factory", tokenType === "PT" ? "principal-token" : "yield-token");
+}
+
+/** A vault's pt-share or yt-share token. */
+export function shareAsset(vault: Contract & { tokenType: TokenType }): AssetInfo {
+  return createAssetInfo(vault.contractAddress, vault.contractName, vault.tokenType === "PT" ? "pt-share" : "yt-share");
+}
+
+function sbtcSent(sender: Sender, code: FungibleConditionCode, amount: Uint, deployer: string): PostCondition {
+  return ftSent(sender, code, amount, sbtcAsset(deployer));
+}
+
+function ftSent(sender: Sender, code: FungibleConditionCode, amount: Uint, asset: AssetInfo): PostCondition {
+  return typeof sender === "string"
+    ? makeStandardFungiblePostCondition(sender, code, amount, asset)
+    : makeContractFungiblePostCondition(sender.contractAddress, sender.contractName, code, amount, asset);
+}
+
+function bondSent(sender: Sender, tokenType: TokenType, bondId: Uint, deployer: string): PostCondition {
+  const code = NonFungibleConditionCode.Sends;
+  const asset = bondAsset(deployer, tokenType);
+  return typeof sender === "string"
+    ? makeStandardNonFungiblePostCondition(sender, code, asset, uintCV(bondId))
+    : makeContractNonFungiblePostCondition(sender.contractAddress, sender.contractName, code, asset, uintCV(bondId));
+}
+
+// ===== bond-factory =====
+
+/** create-bond / create-bond-in-series: the sender escrows exactly `sbtcAmount`. */
+export function createBondPostConditions(bondFactory: Contract, sender: string, sbtcAmount: Uint): PostCondition[] {
+  return [sbtcSent(sender, FungibleConditionCode.Equal, sbtcAmount, bondFactory.contractAddress)];
+}
+
+/**
+ * deposit-yield / deposit-yield-many: the relayer pays at most `totalSats`.
+ * deposit-yield-many skips invalid entries and transfers only the rest.
+ */
+export function depositYieldPostConditions(bondFactory: Contract, sender: string, totalSats: Uint): PostCondition[] {
+  return [sbtcSent(sender, FungibleConditionCode.LessEqual, totalSats, bondFactory.contractAddress)];
+}
+
+/**
+ * collect-yield: bond-factory pays at least the `uncollectedSats` shown, more
+ * if a deposit lands first.
+ */
+export function collectYieldPostConditions(bondFactory: Contract, uncollectedSats: Uint): PostCondition[] {
+  return [sbtcSent(bondFactory, FungibleConditionCode.GreaterEqual, uncollectedSats, bondFactory.contractAddress)];
+}
+
+/** redeem-principal: the holder's PT is burned for exactly its `sbtcAmount`. */
+export function redeemPrincipalPostConditions(
+  bondFactory: Contract,
+  bondId: Uint,
+  holder: string,
+  sbtcAmount: Uint,
+): PostCondition[] {
+  const deployer = bondFactory.contractAddress;
+  return [
+    bondSent(holder, "PT", bondId, deployer),
+    sbtcSent(bondFactory, FungibleConditionCode.Equal, sbtcAmount, deployer),
+  ];
+}
+
+/** combine: PT and YT are burned for the principal plus at least the yield shown. */
+export function combinePostConditions(
+  bondFactory: Contract,
+  bondId: Uint,
+  holder: string,
+  sbtcAmount: bigint,
+  uncollectedSats: bigint,
+): PostCondition[] {
+  const deployer = bondFactory.contractAddress;
+  return [
+    bondSent(holder, "PT", bondId, deployer),
+    bondSent(holder, "YT", bondId, deployer),
+    sbtcSent(bondFactory, FungibleConditionCode.GreaterEqual, sbtcAmount + uncollectedSats, deployer),
+  ];
+}
+
+// ===== market =====
+
+/** list-pt / list-yt: the seller's NFT goes into escrow. */
+export function listPostConditions(market: Contract, tokenType: TokenType, bondId: Uint, seller: string): PostCondition[] {
+  return [bondSent(seller, tokenType, bondId, market.contractAddress)];
+}
+
+/** cancel-pt / cancel-yt: the market returns the escrowed NFT. */
+export function cancelListingPostConditions(market: Contract, tokenType: TokenType, bondId: Uint): PostCondition[] {
+  return [bondSent(market, tokenType, bondId, market.contractAddress)];
+}
+
+/**
+ * buy-pt / buy-yt: the buyer pays at most `maxPriceSats`, seller and treasury
+ * together, and the market releases the escrowed NFT.
+ */
+export function buyListingPostConditions(
+  market: Contract,
+  tokenType: TokenType,
+  bondId: Uint,
+  buyer: string,
+  maxPriceSats: Uint,
+): PostCondition[] {
+  const deployer = market.contractAddress;
+  return [
+    sbtcSent(buyer, FungibleConditionCode.LessEqual, maxPriceSats, deployer),
+    bondSent(market, tokenType, bondId, deployer),
+  ];
+}
+
+/** place-bid / place-bond-bid: the bidder escrows exactly `amountSats`. */
+export function placeBidPostConditions(market: Contract, bidder: string, amountSats: Uint): PostCondition[] {
+  return [sbtcSent(bidder, FungibleConditionCode.Equal, amountSats, market.contractAddress)];
+}
+
+/** cancel-bid: the refund is at most what was left, less any fill that lands first. */
+export function cancelBidPostConditions(market: Contract, remainingSats: Uint): PostCondition[] {
+  return [sbtcSent(market, FungibleConditionCode.LessEqual, remainingSats, market.contractAddress)];
+}
+
+/** sell-into-bid: the seller's PT goes to the bidder for exactly `priceSats`. */
+export function sellIntoBidPostConditions(
+  market: Contract,
+  bondId: Uint,
+  seller: string,
+  priceSats: Uint,
+): PostCondition[] {
+  const deployer = market.contractAddress;
+  return [
+    bondSent(seller, "PT", bondId, deployer),
+    sbtcSent(market, FungibleConditionCode.Equal, priceSats, deployer),
+  ];
+}
+
+// ===== pt-amm =====
+
+/** swap-pt-for-sbtc: the trader's PT for at least `minSbtcOut`. */
+export function swapPtForSbtcPostConditions(
+  ptAmm: Contract,
+  bondId: Uint,
+  trader: string,
+  minSbtcOut: Uint,
+): PostCondition[] {
+  const deployer = ptAmm.contractAddress;
+  return [
+    bondSent(trader, "PT", bondId, deployer),
+    sbtcSent(ptAmm, FungibleConditionCode.GreaterEqual, minSbtcOut, deployer),
+  ];
+}
+
+/** swap-sbtc-for-pt: at most `maxSbtcIn` for the pool's PT. */
+export function swapSbtcForPtPostConditions(
+  ptAmm: Contract,
+  bondId: Uint,
+  trader: string,
+  maxSbtcIn: Uint,
+): PostCondition[] {
+  const deployer = ptAmm.contractAddress;
+  return [
+    sbtcSent(trader, FungibleConditionCode.LessEqual, maxSbtcIn, deployer),
+    bondSent(ptAmm, "PT", bondId, deployer),
+  ];
+}
+
+// ===== pt-vault / yt-vault =====
+
+type VaultContract = Contract & { tokenType: TokenType };
+
+/**
+ * wrap-pt / wrap-yt: the owner's NFT goes into the vault. wrap-yt first pays
+ * the owner the YT's uncollected yield out of bond-factory.
+ */
+export function wrapPostConditions(
+  vault: VaultContract,
+  bondId: Uint,
+  owner: string,
+  uncollectedSats: Uint = 0,
+): PostCondition[] {
+  const deployer = vault.contractAddress;
+  const conditions = [bondSent(owner, vault.tokenType, bondId, deployer)];
+  if (vault.tokenType === "YT") {
+    conditions.push(sbtcSent(bondFactoryOf(vault), FungibleConditionCode.GreaterEqual, uncollectedSats, deployer));
+  }
+  return conditions;
+}
+
+/**
+ * unwrap-pt / unwrap-yt: `shares` are burned and the vault returns the NFT.
+ * unwrap-yt harvests the bond first, moving its yield into the vault.
+ */
+export function unwrapPostConditions(vault: VaultContract, bondId: Uint, owner: string, shares: Uint): PostCondition[] {
+  const deployer = vault.contractAddress;
+  const conditions = [
+    ftSent(owner, FungibleConditionCode.Equal, shares, shareAsset(vault)),
+    bondSent(vault, vault.tokenType, bondId, deployer),
+  ];
+  if (vault.tokenType === "YT") {
+    conditions.push(sbtcSent(bondFactoryOf(vault), FungibleConditionCode.GreaterEqual, 0, deployer));
+  }
+  return conditions;
+}
+
+/** settle: the vault's matured PT is burned for exactly its `sbtcAmount`. */
+export function settlePostConditions(ptVault: Contract, bondId: Uint, sbtcAmount: Uint): PostCondition[] {
+  const deployer = ptVault.contractAddress;
+  return [
+    bondSent(ptVault, "PT", bondId, deployer),
+    sbtcSent(bondFactoryOf(ptVault), FungibleConditionCode.Equal, sbtcAmount, deployer),
+  ];
+}
+
+/** harvest: bond-factory pays the vault at least the yield shown. */
+export function harvestPostConditions(ytVault: Contract, uncollectedSats: Uint): PostCondition[] {
+  return [sbtcSent(bondFactoryOf(ytVault), FungibleConditionCode.GreaterEqual, uncollectedSats, ytVault.contractAddress)];
+}
+
+/** claim: the vault pays at least the `claimableSats` shown. */
+export function claimPostConditions(ytVault: Contract, claimableSats: Uint): PostCondition[] {
+  return [sbtcSent(ytVault, FungibleConditionCode.GreaterEqual, claimableSats, ytVault.contractAddress)];
+}
+
+/**
+ * redeem: `shares` are burned. A PT vault pays exactly one sat per share; a
+ * YT vault pays at least the `claimableSats` shown.
+ */
+export function redeemSharesPostConditions(
+  vault: VaultContract,
+  owner: string,
+  shares: Uint,
+  claimableSats: Uint = 0,
+): PostCondition[] {
+  const deployer = vault.contractAddress;
+  return [
+    ftSent(owner, FungibleConditionCode.Equal, shares, shareAsset(vault)),
+    vault.tokenType === "PT"
+      ? sbtcSent(vault, FungibleConditionCode.Equal, shares, deployer)
+      : sbtcSent(vault, FungibleConditionCode.GreaterEqual, claimableSats, deployer),
+  ];
+}
+
+function bondFactoryOf(contract: Contract): Contract {
+  return { contractAddress: contract.contractAddress, contractName: "bond-factory" };
+}
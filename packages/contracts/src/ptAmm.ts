@@ -0,0 +1,86 @@
+// Client for pt-amm.clar
+//
+// Amounts are sats; PT amounts are face value (the bond's sbtc-amount).
+
+import { listCV, principalCV, uintCV } from "@stacks/transactions";
+import type { AmmPool } from "@satcurve/types";
+import { ContractClient } from "./client";
+import type { ContractCall, ReadOnlyCall } from "./client";
+import { decodePool, optional, uint } from "./decode";
+
+type Uint = bigint | number;
+
+export class PtAmm extends ContractClient {
+  constructor(contractId: string) {
+    super("pt-amm", contractId);
+  }
+
+  // ===== Read-only =====
+
+  getPool(poolId: Uint): ReadOnlyCall<AmmPool | null> {
+    return this.read("get-pool", [uintCV(poolId)], (cv) => {
+      const some = optional(cv);
+      return some ? decodePool(BigInt(poolId), some) : null;
+    });
+  }
+
+  /** Pools ever created; ids run 0 … count-1. */
+  getPoolCount(): ReadOnlyCall<bigint> {
+    return this.readOk("get-pool-count", [], uint);
+  }
+
+  getLpShares(poolId: Uint, owner: string): ReadOnlyCall<bigint> {
+    return this.read("get-lp-shares", [uintCV(poolId), principalCV(owner)], uint);
+  }
+
+  /** The pool escrowing a PT, or null. */
+  getPoolOfPt(bondId: Uint): ReadOnlyCall<number | null> {
+    return this.read("get-pool-of-pt", [uintCV(bondId)], (cv) => {
+      const some = optional(cv);
+      return some ? Number(uint(some)) : null;
+    });
+  }
+
+  /** Sats per 1e8 sats of face value at the current reserves. */
+  getSpotPrice(poolId: Uint): ReadOnlyCall<bigint> {
+    return this.readOk("get-spot-price", [uintCV(poolId)], uint);
+  }
+
+  /** sBTC received for selling ptFace of PT maturing at maturityBlock, after fees. */
+  quoteSellPt(poolId: Uint, ptFace: Uint, maturityBlock: Uint): ReadOnlyCall<bigint> {
+    return this.readOk("quote-sell-pt", [uintCV(poolId), uintCV(ptFace), uintCV(maturityBlock)], uint);
+  }
+
+  /** sBTC charged for buying ptFace of PT maturing at maturityBlock, after fees. */
+  quoteBuyPt(poolId: Uint, ptFace: Uint, maturityBlock: Uint): ReadOnlyCall<bigint> {
+    return this.readOk("quote-buy-pt", [uintCV(poolId), uintCV(ptFace), uintCV(maturityBlock)], uint);
+  }
+
+  // ===== Public =====
+
+  createPool(minMaturity: Uint, maturityBlock: Uint, anchorRateBps: Uint): ContractCall {
+    return this.call("create-pool", [uintCV(minMaturity), uintCV(maturityBlock), uintCV(anchorRateBps)]);
+  }
+
+  /** Deposit sBTC and up to 20 PTs; the part out of step with the pool's mix pays the swap fee. */
+  addLiquidity(poolId: Uint, bondIds: Uint[], sbtcAmount: Uint): ContractCall {
+    return this.call("add-liquidity", [uintCV(poolId), listCV(bondIds.map((id) => uintCV(id))), uintCV(sbtcAmount)]);
+  }
+
+  /** Burn shares, taking the named PTs and the rest of the share in sBTC. */
+  removeLiquidity(poolId: Uint, shares: Uint, bondIds: Uint[] = []): ContractCall {
+    return this.call("remove-liquidity", [uintCV(poolId), uintCV(shares), listCV(bondIds.map((id) => uintCV(id)))]);
+  }
+
+  swapPtForSbtc(poolId: Uint, bondId: Uint, minSbtcOut: Uint): ContractCall {
+    return this.call("swap-pt-for-sbtc", [uintCV(poolId), uintCV(bondId), uintCV(minSbtcOut)]);
+  }
+
+  swapSbtcForPt(poolId: Uint, bondId: Uint, maxSbtcIn: Uint): ContractCall {
+    return this.call("swap-sbtc-for-pt", [uintCV(poolId), uintCV(bondId), uintCV(maxSbtcIn)]);
+  }
+
+  redeemMatured(poolId: Uint, bondId: Uint): ContractCall {
+    return this.call("redeem-matured", [uintCV(poolId), uintCV(bondId)]);
+  }
+}
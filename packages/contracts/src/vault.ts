@@ -0,0 +1,118 @@
+// Clients for pt-vault.clar and yt-vault.clar
+//
+// Every maturity bucket is its own deployment of one of these sources, so a
+// client is built per vault contract id. Shares are SIP-010 tokens with 8
+// decimals; 1 share is 1 sat of bond face value.
+
+import { noneCV, principalCV, stringAsciiCV, uintCV } from "@stacks/transactions";
+import type { TokenType } from "@satcurve/types";
+import { ContractClient } from "./client";
+import type { ContractCall, ReadOnlyCall } from "./client";
+import { decodeMaturityRange, stringAscii, uint } from "./decode";
+
+type Uint = bigint | number;
+
+/** Calls both vault sources share: the SIP-010 surface, the bucket and redeem. */
+export abstract class Vault extends ContractClient {
+  abstract readonly tokenType: TokenType;
+
+  // ===== Read-only =====
+
+  getName(): ReadOnlyCall<string> {
+    return this.readOk("get-name", [], stringAscii);
+  }
+
+  getSymbol(): ReadOnlyCall<string> {
+    return this.readOk("get-symbol", [], stringAscii);
+  }
+
+  getBalance(owner: string): ReadOnlyCall<bigint> {
+    return this.readOk("get-balance", [principalCV(owner)], uint);
+  }
+
+  getTotalSupply(): ReadOnlyCall<bigint> {
+    return this.readOk("get-total-supply", [], uint);
+  }
+
+  /** Bonds maturing in [minMaturity, maxMaturity] can be wrapped. */
+  getMaturityRange(): ReadOnlyCall<{ minMaturity: number; maxMaturity: number }> {
+    return this.readOk("get-maturity-range", [], decodeMaturityRange);
+  }
+
+  // ===== Public =====
+
+  initialize(name: string, symbol: string, minMaturity: Uint, maxMaturity: Uint): ContractCall {
+    return this.call("initialize", [stringAsciiCV(name), stringAsciiCV(symbol), uintCV(minMaturity), uintCV(maxMaturity)]);
+  }
+
+  transfer(amount: Uint, sender: string, recipient: string): ContractCall {
+    return this.call("transfer", [uintCV(amount), principalCV(sender), principalCV(recipient), noneCV()]);
+  }
+
+  /** Burn shares for sBTC once the bucket's max-maturity has passed. */
+  redeem(shares: Uint): ContractCall {
+    return this.call("redeem", [uintCV(shares)]);
+  }
+
+  /** wrap-pt / wrap-yt: escrow the bond's token and mint its face value in shares. */
+  abstract wrap(bondId: Uint): ContractCall;
+
+  /** unwrap-pt / unwrap-yt: burn the bond's face value in shares for a token the vault holds. */
+  abstract unwrap(bondId: Uint): ContractCall;
+}
+
+export class PtVault extends Vault {
+  readonly tokenType = "PT";
+
+  constructor(contractId: string) {
+    super("pt-vault", contractId);
+  }
+
+  wrap(bondId: Uint): ContractCall {
+    return this.call("wrap-pt", [uintCV(bondId)]);
+  }
+
+  unwrap(bondId: Uint): ContractCall {
+    return this.call("unwrap-pt", [uintCV(bondId)]);
+  }
+
+  /** Redeem a matured PT the vault holds into the vault's sBTC. Anyone can call it. */
+  settle(bondId: Uint): ContractCall {
+    return this.call("settle", [uintCV(bondId)]);
+  }
+}
+
+export class YtVault extends Vault {
+  readonly tokenType = "YT";
+
+  constructor(contractId: string) {
+    super("yt-vault", contractId);
+  }
+
+  /** Harvested yield the owner can claim now. */
+  getClaimable(owner: string): ReadOnlyCall<bigint> {
+    return this.readOk("get-claimable", [principalCV(owner)], uint);
+  }
+
+  /** Vaulted YTs that still need a harvest after maturity before shares can be redeemed. */
+  getUnharvestedCount(): ReadOnlyCall<bigint> {
+    return this.readOk("get-unharvested-count", [], uint);
+  }
+
+  wrap(bondId: Uint): ContractCall {
+    return this.call("wrap-yt", [uintCV(bondId)]);
+  }
+
+  unwrap(bondId: Uint): ContractCall {
+    return this.call("unwrap-yt", [uintCV(bondId)]);
+  }
+
+  /** Collect a vaulted YT's yield for all shares. Anyone can call it. */
+  harvest(bondId: Uint): ContractCall {
+    return this.call("harvest", [uintCV(bondId)]);
+  }
+
+  claim(): ContractCall {
+    return this.call("claim", []);
+  }
+}
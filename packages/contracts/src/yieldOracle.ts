@@ -0,0 +1,110 @@
+// Client for yield-oracle.clar
+//
+// Prices are USD with 6 decimals (u95000000000 = $95,000); the APR is in
+// basis points.
+
+import { principalCV, uintCV } from "@stacks/transactions";
+import { ContractClient } from "./client";
+import type { ContractCall, ReadOnlyCall } from "./client";
+import { bool, uint } from "./decode";
+
+type Uint = bigint | number;
+
+export class YieldOracle extends ContractClient {
+  constructor(contractId: string) {
+    super("yield-oracle", contractId);
+  }
+
+  // ===== Read-only: BTC/USD =====
+
+  getBtcPrice(): ReadOnlyCall<bigint> {
+    return this.readOk("get-btc-price", [], uint);
+  }
+
+  getBtcUpdatedBlock(): ReadOnlyCall<bigint> {
+    return this.readOk("get-btc-updated-block", [], uint);
+  }
+
+  isBtcPriceFresh(): ReadOnlyCall<boolean> {
+    return this.read("is-btc-price-fresh", [], bool);
+  }
+
+  /** Throws ContractError DataTooOld (u101) when stale. */
+  getTrustedBtcPrice(): ReadOnlyCall<bigint> {
+    return this.readOk("get-trusted-btc-price", [], uint);
+  }
+
+  getMaxPriceAgeBlocks(): ReadOnlyCall<bigint> {
+    return this.readOk("get-max-price-age-blocks", [], uint);
+  }
+
+  // ===== Read-only: STX/USD =====
+
+  getStxPrice(): ReadOnlyCall<bigint> {
+    return this.readOk("get-stx-price", [], uint);
+  }
+
+  getStxUpdatedBlock(): ReadOnlyCall<bigint> {
+    return this.readOk("get-stx-updated-block", [], uint);
+  }
+
+  isStxPriceFresh(): ReadOnlyCall<boolean> {
+    return this.read("is-stx-price-fresh", [], bool);
+  }
+
+  /** Throws ContractError DataTooOld (u101) when stale. */
+  getTrustedStxPrice(): ReadOnlyCall<bigint> {
+    return this.readOk("get-trusted-stx-price", [], uint);
+  }
+
+  // ===== Read-only: Stacking APR =====
+
+  getStackingApr(): ReadOnlyCall<bigint> {
+    return this.readOk("get-stacking-apr", [], uint);
+  }
+
+  getStackingAprUpdatedBlock(): ReadOnlyCall<bigint> {
+    return this.readOk("get-stacking-apr-updated-block", [], uint);
+  }
+
+  isStackingAprFresh(): ReadOnlyCall<boolean> {
+    return this.read("is-stacking-apr-fresh", [], bool);
+  }
+
+  /** Throws ContractError DataTooOld (u101) when stale. */
+  getTrustedStackingApr(): ReadOnlyCall<bigint> {
+    return this.readOk("get-trusted-stacking-apr", [], uint);
+  }
+
+  // ===== Read-only: Relayer =====
+
+  isRelayerAuthorized(relayer: string): ReadOnlyCall<boolean> {
+    return this.readOk("is-relayer-authorized", [principalCV(relayer)], bool);
+  }
+
+  // ===== Public =====
+
+  setBtcPrice(price: Uint): ContractCall {
+    return this.call("set-btc-price", [uintCV(price)]);
+  }
+
+  setStxPrice(price: Uint): ContractCall {
+    return this.call("set-stx-price", [uintCV(price)]);
+  }
+
+  setPrices(btcPrice: Uint, stxPrice: Uint): ContractCall {
+    return this.call("set-prices", [uintCV(btcPrice), uintCV(stxPrice)]);
+  }
+
+  setStackingApr(aprBps: Uint): ContractCall {
+    return this.call("set-stacking-apr", [uintCV(aprBps)]);
+  }
+
+  authorizeRelayer(relayer: string): ContractCall {
+    return this.call("authorize-relayer", [principalCV(relayer)]);
+  }
+
+  revokeRelayer(relayer: string): ContractCall {
+    return this.call("revoke-relayer", [principalCV(relayer)]);
+  }
+}
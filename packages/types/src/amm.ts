@@ -0,0 +1,19 @@
+// Types for pt-amm.clar (PT / sBTC pools per maturity bucket)
+
+/**
+ * A `pools` entry. The pool accepts any PT maturing in
+ * [minMaturity, maturityBlock] and prices it off an implied rate anchored at
+ * `anchorRateBps`, so PT converges to face value at `maturityBlock`.
+ */
+export interface AmmPool {
+  poolId: number;
+  minMaturity: number;
+  maturityBlock: number;
+  anchorRateBps: bigint;
+  /** sBTC held by the pool, in sats. */
+  sbtcReserve: bigint;
+  /** Total face value of the PTs escrowed by the pool, in sats. */
+  ptReserve: bigint;
+  totalShares: bigint;
+}
+
@@ -25,6 +25,12 @@ export interface Bond {
   ytListed: boolean;           // user has this bond's YT listed on the market (escrowed)
 }
 
+/**
+ * A bond as returned by get-bond, without the fields that depend on the
+ * connected wallet.
+ */
+export type BondData = Omit<Bond, "owner" | "holdsPt" | "holdsYt" | "ptListed" | "ytListed">;
+
 /**
  * Claimable yield for a given bond (yieldDeposited - yieldWithdrawn).
  */
@@ -32,3 +38,18 @@ export interface BondClaimable {
   bondId: bigint;
   claimable: bigint;           // satoshis available to collect
 }
+
+/**
+ * A standard maturity listed by the bond-factory owner. Bonds created with
+ * create-bond-in-series all mature at `maturityBlock`.
+ *
+ * Mirrors the `series` map in bond-factory.clar.
+ */
+export interface Series {
+  seriesId: number;
+  maturityBlock: number;
+  /** Principal locked in the series' bonds that is not yet redeemed or combined (satoshis). */
+  openInterest: bigint;
+  /** False once the owner closes the series to new bonds. */
+  active: boolean;
+}
@@ -3,4 +3,9 @@ export interface ContractAddresses {
   yieldOracle: string;
   sbtcToken: string;
   market: string;
+  ptAmm: string;
+  /** One contract id per PT vault bucket. */
+  ptVaults: string[];
+  /** One contract id per YT vault bucket. */
+  ytVaults: string[];
 }
@@ -0,0 +1,503 @@
+// Print events emitted by bond-factory.clar, market.clar, pt-amm.clar and the
+// pt-vault / yt-vault instances.
+//
+// Every state-changing public function prints a tuple whose `topic` field
+// names the action. The unions below mirror those tuples field for field
+// (kebab-case Clarity names become camelCase, uints become bigint), and
+// decodeContractLog turns the hex `contract_log` value reported by the
+// Stacks API into one of them.
+
+import { hexToCV, principalToString, ClarityType } from "@stacks/transactions";
+import type { ClarityValue, PrincipalCV } from "@stacks/transactions";
+import type { TokenType } from "./market";
+
+// ===== bond-factory.clar =====
+
+export interface CreateBondEvent {
+  topic: "create-bond";
+  bondId: bigint;
+  owner: string;
+  sbtcAmount: bigint;
+  maturityBlock: bigint;
+  createdBlock: bigint;
+  /** Set by create-bond-in-series; null for a create-bond term. */
+  seriesId: bigint | null;
+}
+
+/** Printed by deposit-yield and once per credited entry of deposit-yield-many. */
+export interface DepositYieldEvent {
+  topic: "deposit-yield";
+  bondId: bigint;
+  amount: bigint;
+  /** Bond's cumulative yield-deposited after this deposit. */
+  yieldDeposited: bigint;
+}
+
+export interface CollectYieldEvent {
+  topic: "collect-yield";
+  bondId: bigint;
+  claimer: string;
+  amount: bigint;
+}
+
+export interface RedeemPrincipalEvent {
+  topic: "redeem-principal";
+  bondId: bigint;
+  recipient: string;
+  amount: bigint;
+}
+
+export interface CombineEvent {
+  topic: "combine";
+  bondId: bigint;
+  recipient: string;
+  principal: bigint;
+  yield: bigint;
+}
+
+/** Printed by transfer-pt / transfer-yt, including transfers made by the market. */
+export interface TransferEvent {
+  topic: "transfer";
+  tokenType: TokenType;
+  bondId: bigint;
+  sender: string;
+  recipient: string;
+}
+
+export interface AddSeriesEvent {
+  topic: "add-series";
+  seriesId: bigint;
+  maturityBlock: bigint;
+}
+
+export interface CloseSeriesEvent {
+  topic: "close-series";
+  seriesId: bigint;
+}
+
+export type BondFactoryEvent =
+  | CreateBondEvent
+  | DepositYieldEvent
+  | CollectYieldEvent
+  | RedeemPrincipalEvent
+  | CombineEvent
+  | TransferEvent
+  | AddSeriesEvent
+  | CloseSeriesEvent;
+
+// ===== market.clar =====
+
+export interface ListEvent {
+  topic: "list";
+  tokenType: TokenType;
+  bondId: bigint;
+  seller: string;
+  priceSats: bigint;
+  /** First block at which the listing can no longer be bought; null if it never expires. */
+  expiresAt: bigint | null;
+}
+
+/** Printed by update-pt-price / update-yt-price. */
+export interface UpdatePriceEvent {
+  topic: "update-price";
+  tokenType: TokenType;
+  bondId: bigint;
+  seller: string;
+  priceSats: bigint;
+}
+
+export interface CancelEvent {
+  topic: "cancel";
+  tokenType: TokenType;
+  bondId: bigint;
+  seller: string;
+}
+
+export interface BuyEvent {
+  topic: "buy";
+  tokenType: TokenType;
+  bondId: bigint;
+  seller: string;
+  buyer: string;
+  /** What the seller received. */
+  priceSats: bigint;
+  /** Trade fee the buyer paid the treasury on top of priceSats. */
+  feeSats: bigint;
+}
+
+/** Printed by set-fee-config. */
+export interface SetFeeConfigEvent {
+  topic: "set-fee-config";
+  feeBps: bigint;
+  treasury: string;
+}
+
+export interface PlaceBidEvent {
+  topic: "place-bid";
+  bidId: bigint;
+  bidder: string;
+  /** Set by place-bond-bid; null for a maturity-range bid. */
+  bondId: bigint | null;
+  minMaturity: bigint;
+  maxMaturity: bigint;
+  pricePerSbtc: bigint;
+  amountSats: bigint;
+}
+
+export interface CancelBidEvent {
+  topic: "cancel-bid";
+  bidId: bigint;
+  bidder: string;
+  refundSats: bigint;
+}
+
+/** Printed by sell-into-bid; `buyer` is the bidder. */
+export interface FillBidEvent {
+  topic: "fill-bid";
+  bidId: bigint;
+  bondId: bigint;
+  seller: string;
+  buyer: string;
+  priceSats: bigint;
+  /** Escrow left on the bid; 0 once it is fully spent and removed. */
+  remainingSats: bigint;
+}
+
+export type MarketEvent =
+  | ListEvent
+  | UpdatePriceEvent
+  | CancelEvent
+  | BuyEvent
+  | SetFeeConfigEvent
+  | PlaceBidEvent
+  | CancelBidEvent
+  | FillBidEvent;
+
+// ===== pt-amm.clar =====
+
+export interface CreatePoolEvent {
+  topic: "create-pool";
+  poolId: bigint;
+  minMaturity: bigint;
+  maturityBlock: bigint;
+  anchorRateBps: bigint;
+}
+
+export interface AddLiquidityEvent {
+  topic: "add-liquidity";
+  poolId: bigint;
+  provider: string;
+  sbtcAmount: bigint;
+  /** Total face value of the PTs deposited. */
+  ptFace: bigint;
+  shares: bigint;
+}
+
+export interface RemoveLiquidityEvent {
+  topic: "remove-liquidity";
+  poolId: bigint;
+  provider: string;
+  shares: bigint;
+  sbtcAmount: bigint;
+  /** Total face value of the PTs withdrawn. */
+  ptFace: bigint;
+}
+
+export interface SwapEvent {
+  topic: "swap";
+  poolId: bigint;
+  bondId: bigint;
+  trader: string;
+  direction: "sell-pt" | "buy-pt";
+  ptFace: bigint;
+  /** sBTC the trader received (sell-pt) or paid (buy-pt), fee included. */
+  sbtcAmount: bigint;
+}
+
+export interface RedeemMaturedEvent {
+  topic: "redeem-matured";
+  poolId: bigint;
+  bondId: bigint;
+  amount: bigint;
+}
+
+export type PtAmmEvent = CreatePoolEvent | AddLiquidityEvent | RemoveLiquidityEvent | SwapEvent | RedeemMaturedEvent;
+
+// ===== pt-vault.clar / yt-vault.clar =====
+// Every vault instance prints the same topics; `vault` says which source it
+// was deployed from and the emitting contract tells the buckets apart.
+
+export interface WrapEvent {
+  topic: "wrap";
+  vault: TokenType;
+  bondId: bigint;
+  owner: string;
+  shares: bigint;
+}
+
+export interface UnwrapEvent {
+  topic: "unwrap";
+  vault: TokenType;
+  bondId: bigint;
+  owner: string;
+  shares: bigint;
+}
+
+/** PT vaults only: a matured PT redeemed into the vault's sBTC. */
+export interface SettleEvent {
+  topic: "settle";
+  vault: TokenType;
+  bondId: bigint;
+  amount: bigint;
+}
+
+/** YT vaults only: a vaulted YT's yield collected for all shares. */
+export interface HarvestEvent {
+  topic: "harvest";
+  vault: TokenType;
+  bondId: bigint;
+  amount: bigint;
+}
+
+/** YT vaults only. */
+export interface ClaimEvent {
+  topic: "claim";
+  vault: TokenType;
+  owner: string;
+  amount: bigint;
+}
+
+export interface RedeemEvent {
+  topic: "redeem";
+  vault: TokenType;
+  owner: string;
+  shares: bigint;
+  /** sBTC paid out. */
+  amount: bigint;
+}
+
+export type VaultEvent = WrapEvent | UnwrapEvent | SettleEvent | HarvestEvent | ClaimEvent | RedeemEvent;
+
+export type SatCurveEvent = BondFactoryEvent | MarketEvent | PtAmmEvent | VaultEvent;
+
+// ===== Decoder =====
+
+/**
+ * Decode the hex value of a `contract_log` (print) event. Returns null for
+ * prints that are not SatCurve events (not a tuple, or an unknown topic);
+ * throws if a known topic is missing a field or has the wrong type.
+ */
+export function decodeContractLog(hex: string): SatCurveEvent | null {
+  const cv = hexToCV(hex);
+  if (cv.type !== ClarityType.Tuple) return null;
+  const f = cv.data;
+  const topic = f["topic"];
+  if (!topic || topic.type !== ClarityType.StringASCII) return null;
+
+  switch (topic.data) {
+    case "create-bond":
+      return {
+        topic: "create-bond",
+        bondId: uint(f, "bond-id"),
+        owner: principal(f, "owner"),
+        sbtcAmount: uint(f, "sbtc-amount"),
+        maturityBlock: uint(f, "maturity-block"),
+        createdBlock: uint(f, "created-block"),
+        seriesId: optionalUint(f, "series-id"),
+      };
+    case "deposit-yield":
+      return {
+        topic: "deposit-yield",
+        bondId: uint(f, "bond-id"),
+        amount: uint(f, "amount"),
+        yieldDeposited: uint(f, "yield-deposited"),
+      };
+    case "collect-yield":
+      return { topic: "collect-yield", bondId: uint(f, "bond-id"), claimer: principal(f, "claimer"), amount: uint(f, "amount") };
+    case "redeem-principal":
+      return { topic: "redeem-principal", bondId: uint(f, "bond-id"), recipient: principal(f, "recipient"), amount: uint(f, "amount") };
+    case "combine":
+      return {
+        topic: "combine",
+        bondId: uint(f, "bond-id"),
+        recipient: principal(f, "recipient"),
+        principal: uint(f, "principal"),
+        yield: uint(f, "yield"),
+      };
+    case "transfer":
+      return {
+        topic: "transfer",
+        tokenType: tokenType(f),
+        bondId: uint(f, "bond-id"),
+        sender: principal(f, "sender"),
+        recipient: principal(f, "recipient"),
+      };
+    case "add-series":
+      return { topic: "add-series", seriesId: uint(f, "series-id"), maturityBlock: uint(f, "maturity-block") };
+    case "close-series":
+      return { topic: "close-series", seriesId: uint(f, "series-id") };
+    case "list":
+      return {
+        topic: "list",
+        tokenType: tokenType(f),
+        bondId: uint(f, "bond-id"),
+        seller: principal(f, "seller"),
+        priceSats: uint(f, "price-sats"),
+        expiresAt: optionalUint(f, "expires-at"),
+      };
+    case "update-price":
+      return {
+        topic: "update-price",
+        tokenType: tokenType(f),
+        bondId: uint(f, "bond-id"),
+        seller: principal(f, "seller"),
+        priceSats: uint(f, "price-sats"),
+      };
+    case "cancel":
+      return { topic: "cancel", tokenType: tokenType(f), bondId: uint(f, "bond-id"), seller: principal(f, "seller") };
+    case "buy":
+      return {
+        topic: "buy",
+        tokenType: tokenType(f),
+        bondId: uint(f, "bond-id"),
+        seller: principal(f, "seller"),
+        buyer: principal(f, "buyer"),
+        priceSats: uint(f, "price-sats"),
+        feeSats: uint(f, "fee-sats"),
+      };
+    case "set-fee-config":
+      return { topic: "set-fee-config", feeBps: uint(f, "fee-bps"), treasury: principal(f, "treasury") };
+    case "place-bid":
+      return {
+        topic: "place-bid",
+        bidId: uint(f, "bid-id"),
+        bidder: principal(f, "bidder"),
+        bondId: optionalUint(f, "bond-id"),
+        minMaturity: uint(f, "min-maturity"),
+        maxMaturity: uint(f, "max-maturity"),
+        pricePerSbtc: uint(f, "price-per-sbtc"),
+        amountSats: uint(f, "amount-sats"),
+      };
+    case "cancel-bid":
+      return { topic: "cancel-bid", bidId: uint(f, "bid-id"), bidder: principal(f, "bidder"), refundSats: uint(f, "refund-sats") };
+    case "fill-bid":
+      return {
+        topic: "fill-bid",
+        bidId: uint(f, "bid-id"),
+        bondId: uint(f, "bond-id"),
+        seller: principal(f, "seller"),
+        buyer: principal(f, "buyer"),
+        priceSats: uint(f, "price-sats"),
+        remainingSats: uint(f, "remaining-sats"),
+      };
+    case "create-pool":
+      return {
+        topic: "create-pool",
+        poolId: uint(f, "pool-id"),
+        minMaturity: uint(f, "min-maturity"),
+        maturityBlock: uint(f, "maturity-block"),
+        anchorRateBps: uint(f, "anchor-rate-bps"),
+      };
+    case "add-liquidity":
+      return {
+        topic: "add-liquidity",
+        poolId: uint(f, "pool-id"),
+        provider: principal(f, "provider"),
+        sbtcAmount: uint(f, "sbtc-amount"),
+        ptFace: uint(f, "pt-face"),
+        shares: uint(f, "shares"),
+      };
+    case "remove-liquidity":
+      return {
+        topic: "remove-liquidity",
+        poolId: uint(f, "pool-id"),
+        provider: principal(f, "provider"),
+        shares: uint(f, "shares"),
+        sbtcAmount: uint(f, "sbtc-amount"),
+        ptFace: uint(f, "pt-face"),
+      };
+    case "swap":
+      return {
+        topic: "swap",
+        poolId: uint(f, "pool-id"),
+        bondId: uint(f, "bond-id"),
+        trader: principal(f, "trader"),
+        direction: direction(f),
+        ptFace: uint(f, "pt-face"),
+        sbtcAmount: uint(f, "sbtc-amount"),
+      };
+    case "redeem-matured":
+      return { topic: "redeem-matured", poolId: uint(f, "pool-id"), bondId: uint(f, "bond-id"), amount: uint(f, "amount") };
+    case "wrap":
+    case "unwrap":
+      return {
+        topic: topic.data,
+        vault: tokenType(f, "vault"),
+        bondId: uint(f, "bond-id"),
+        owner: principal(f, "owner"),
+        shares: uint(f, "shares"),
+      };
+    case "settle":
+    case "harvest":
+      return { topic: topic.data, vault: tokenType(f, "vault"), bondId: uint(f, "bond-id"), amount: uint(f, "amount") };
+    case "claim":
+      return { topic: "claim", vault: tokenType(f, "vault"), owner: principal(f, "owner"), amount: uint(f, "amount") };
+    case "redeem":
+      return {
+        topic: "redeem",
+        vault: tokenType(f, "vault"),
+        owner: principal(f, "owner"),
+        shares: uint(f, "shares"),
+        amount: uint(f, "amount"),
+      };
+    default:
+      return null;
+  }
+}
+
+type Fields = Record<string, ClarityValue>;
+
+function field(f: Fields, name: string): ClarityValue {
+  const value = f[name];
+  if (!value) throw new Error(`event field "${name}" is missing`);
+  return value;
+}
+
+function uint(f: Fields, name: string): bigint {
+  const value = field(f, name);
+  if (value.type !== ClarityType.UInt) throw new Error(`event field "${name}" is not a uint`);
+  return BigInt(value.value);
+}
+
+function optionalUint(f: Fields, name: string): bigint | null {
+  const value = field(f, name);
+  if (value.type === ClarityType.OptionalNone) return null;
+  if (value.type !== ClarityType.OptionalSome || value.value.type !== ClarityType.UInt) {
+    throw new Error(`event field "${name}" is not an optional uint`);
+  }
+  return BigInt(value.value.value);
+}
+
+function principal(f: Fields, name: string): string {
+  const value = field(f, name);
+  if (value.type !== ClarityType.PrincipalStandard && value.type !== ClarityType.PrincipalContract) {
+    throw new Error(`event field "${name}" is not a principal`);
+  }
+  return principalToString(value as PrincipalCV);
+}
+
+function tokenType(f: Fields, name = "token-type"): TokenType {
+  const value = field(f, name);
+  if (value.type !== ClarityType.StringASCII || (value.data !== "PT" && value.data !== "YT")) {
+    throw new Error(`event field "${name}" is not "PT" or "YT"`);
+  }
+  return value.data;
+}
+
+function direction(f: Fields): SwapEvent["direction"] {
+  const value = field(f, "direction");
+  if (value.type !== ClarityType.StringASCII || (value.data !== "sell-pt" && value.data !== "buy-pt")) {
+    throw new Error(`event field "direction" is not "sell-pt" or "buy-pt"`);
+  }
+  return value.data;
+}
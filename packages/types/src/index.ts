@@ -1,2 +1,7 @@
 export * from "./bond";
 export * from "./contracts";
+export * from "./market";
+export * from "./amm";
+export * from "./vault";
+export * from "./indexer";
+export * from "./events";
@@ -0,0 +1,79 @@
+// Response shapes of the @satcurve/indexer REST API.
+//
+// Amounts are satoshis encoded as decimal strings (JSON has no bigint).
+
+import type { TokenType } from "./market";
+
+/** An open market listing; the NFT is escrowed by market.clar. */
+export interface IndexedListing {
+  bondId: number;
+  tokenType: TokenType;
+  seller: string;
+  priceSats: string;
+  /** See Listing.expiresAt in market.ts. */
+  expiresAt: number | null;
+  listedBlock: number;
+  txid: string;
+}
+
+/** An open PT bid; see Bid in market.ts. */
+export interface IndexedBid {
+  bidId: number;
+  bidder: string;
+  bondId: number | null;
+  minMaturity: number;
+  maxMaturity: number;
+  pricePerSbtc: string;
+  remainingSats: string;
+  placedBlock: number;
+  txid: string;
+}
+
+/** A bond as last read from bond-factory.clar, plus who holds its NFTs. */
+export interface IndexedBond {
+  bondId: number;
+  sbtcAmount: string;
+  maturityBlock: number;
+  createdBlock: number;
+  principalRedeemed: boolean;
+  combined: boolean;
+  yieldDeposited: string;
+  yieldWithdrawn: string;
+  /** Current PT / YT holder; the market contract while listed, null once burned. */
+  ptOwner: string | null;
+  ytOwner: string | null;
+  ptListing: IndexedListing | null;
+  ytListing: IndexedListing | null;
+}
+
+/** A completed buy-pt / buy-yt, or a PT sold into a bid. */
+export interface IndexedSale {
+  txid: string;
+  bondId: number;
+  tokenType: TokenType;
+  seller: string;
+  buyer: string;
+  /** What the seller received. */
+  priceSats: string;
+  /** Trade fee the buyer paid on top of priceSats; "0" for bid fills. */
+  feeSats: string;
+  blockHeight: number;
+  blockTime: number;
+  /** Face value and maturity of the bond traded; null if it is not indexed. */
+  sbtcAmount: string | null;
+  maturityBlock: number | null;
+}
+
+/** One bond's share of a deposit-yield or deposit-yield-many transaction. */
+export interface IndexedYieldDeposit {
+  txid: string;
+  bondId: number;
+  amount: string;
+  blockHeight: number;
+}
+
+export interface IndexerStatus {
+  /** Last Stacks block whose contract transactions have been applied. */
+  lastBlockHeight: number;
+  bondCount: number;
+}
@@ -0,0 +1,46 @@
+// Types for market.clar (PT / YT listings and PT bids)
+
+export type TokenType = "PT" | "YT";
+
+/** A pt-listings / yt-listings entry. The NFT is escrowed by the market while listed. */
+export interface Listing {
+  seller: string;
+  priceSats: bigint;
+  /**
+   * First block at which the listing can no longer be bought or repriced,
+   * only cancelled; null for a listing that stays open until cancelled.
+   */
+  expiresAt: number | null;
+}
+
+/** A listing together with the NFT it sells. */
+export interface NftListing extends Listing {
+  bondId: number;
+  tokenType: TokenType;
+}
+
+/**
+ * A PT bid: sBTC escrowed by the market, paid out at `pricePerSbtc` sats
+ * per 1 sBTC of face value to whoever sells a matching PT into it.
+ */
+export interface Bid {
+  bidId: number;
+  bidder: string;
+  /** Set for a single-bond bid; null for a maturity-range bid. */
+  bondId: number | null;
+  minMaturity: number;
+  maxMaturity: number;
+  pricePerSbtc: bigint;
+  /** sBTC still escrowed; shrinks with every fill. */
+  remainingSats: bigint;
+}
+
+/**
+ * get-fee-config: every buy-pt / buy-yt pays `feeBps` of the listing price to
+ * `treasury`, on top of the price. The owner can raise it to `maxFeeBps` at most.
+ */
+export interface FeeConfig {
+  feeBps: number;
+  maxFeeBps: number;
+  treasury: string;
+}
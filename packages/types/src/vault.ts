@@ -0,0 +1,17 @@
+// Types for pt-vault.clar and yt-vault.clar (SIP-010 shares per maturity bucket)
+
+import type { TokenType } from "./market";
+
+/**
+ * A deployed vault instance. Each one takes the PTs or YTs of bonds maturing
+ * in [minMaturity, maxMaturity] and mints 1 share per sat of face value.
+ */
+export interface VaultInfo {
+  contractId: string;
+  tokenType: TokenType;
+  name: string;
+  symbol: string;
+  minMaturity: number;
+  maxMaturity: number;
+  totalSupply: bigint;
+}
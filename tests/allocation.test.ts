@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import {
+  allocateProportional,
+  activeBlocks,
+  timeWeightedShares,
+  BondTerm,
+  WeightedShare,
+} from "../apps/bot/src/allocation";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+/** Deterministic PRNG (mulberry32) so failures are reproducible. */
+function prng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBig(rand: () => number, max: number): bigint {
+  return BigInt(Math.floor(rand() * max));
+}
+
+function sum(values: bigint[]): bigint {
+  return values.reduce((a, b) => a + b, 0n);
+}
+
+// -----------------------------------------------------------------------
+
+describe("allocateProportional", () => {
+  it("splits exactly when shares divide evenly", () => {
+    const { shares, leftover } = allocateProportional(300n, [
+      { bondId: 0n, weight: 1n },
+      { bondId: 1n, weight: 2n },
+    ]);
+    expect(shares).toEqual([
+      { bondId: 0n, amount: 100n },
+      { bondId: 1n, amount: 200n },
+    ]);
+    expect(leftover).toBe(0n);
+  });
+
+  it("hands rounding dust to the largest remainders", () => {
+    // 100 * 1/3 = 33.33…, 100 * 2/3 = 66.66… — the 1-sat dust goes to bond 1.
+    const { shares } = allocateProportional(100n, [
+      { bondId: 0n, weight: 1n },
+      { bondId: 1n, weight: 2n },
+    ]);
+    expect(shares.map((s) => s.amount)).toEqual([33n, 67n]);
+  });
+
+  it("breaks remainder ties by input order", () => {
+    const { shares } = allocateProportional(2n, [
+      { bondId: 5n, weight: 1n },
+      { bondId: 6n, weight: 1n },
+      { bondId: 7n, weight: 1n },
+    ]);
+    expect(shares.map((s) => s.amount)).toEqual([1n, 1n, 0n]);
+  });
+
+  it("leaves everything over when there are no shares", () => {
+    const { shares, leftover } = allocateProportional(1_234n, []);
+    expect(shares).toEqual([]);
+    expect(leftover).toBe(1_234n);
+  });
+
+  it("leaves everything over when every weight is zero", () => {
+    const { shares, leftover } = allocateProportional(50n, [{ bondId: 0n, weight: 0n }]);
+    expect(shares).toEqual([{ bondId: 0n, amount: 0n }]);
+    expect(leftover).toBe(50n);
+  });
+
+  it("rejects negative totals and weights", () => {
+    expect(() => allocateProportional(-1n, [])).toThrow();
+    expect(() => allocateProportional(1n, [{ bondId: 0n, weight: -1n }])).toThrow();
+  });
+
+  it("never leaks a satoshi across thousands of random bond sets", () => {
+    const rand = prng(0x5a7c);
+    for (let run = 0; run < 5_000; run++) {
+      const count = 1 + Math.floor(rand() * 40);
+      const input: WeightedShare[] = Array.from({ length: count }, (_, i) => ({
+        bondId: BigInt(i),
+        // Mix dust-sized and multi-BTC bonds.
+        weight: rand() < 0.2 ? randomBig(rand, 1_000) : randomBig(rand, 10_000_000_000),
+      }));
+      const total = randomBig(rand, 100_000_000);
+      const totalWeight = sum(input.map((s) => s.weight));
+
+      const { shares, leftover } = allocateProportional(total, input);
+
+      expect(sum(shares.map((s) => s.amount)) + leftover).toBe(total);
+      if (totalWeight > 0n) {
+        expect(leftover).toBe(0n);
+        // Each share is within one satoshi of its exact proportional value.
+        shares.forEach((s, i) => {
+          const exactFloor = (input[i]!.weight * total) / totalWeight;
+          expect(s.amount - exactFloor >= 0n && s.amount - exactFloor <= 1n).toBe(true);
+        });
+      }
+    }
+  });
+});
+
+describe("time-weighted allocation", () => {
+  // A 2100-block cycle window.
+  const window = { start: 10_000n, end: 12_100n };
+
+  function bond(bondId: bigint, createdBlock: bigint, maturityBlock: bigint, sbtcAmount = 100_000_000n): BondTerm {
+    return { bondId, sbtcAmount, createdBlock, maturityBlock };
+  }
+
+  it("counts the full window for a bond live the whole cycle", () => {
+    expect(activeBlocks(bond(0n, 5_000n, 50_000n), window)).toBe(2_100n);
+  });
+
+  it("counts only blocks after creation for a bond created mid-cycle", () => {
+    expect(activeBlocks(bond(0n, 12_099n, 50_000n), window)).toBe(1n);
+    expect(activeBlocks(bond(0n, 11_000n, 50_000n), window)).toBe(1_100n);
+  });
+
+  it("counts only blocks before maturity for a bond maturing mid-cycle", () => {
+    expect(activeBlocks(bond(0n, 5_000n, 10_500n), window)).toBe(500n);
+  });
+
+  it("handles a bond that starts and matures inside the cycle", () => {
+    expect(activeBlocks(bond(0n, 10_100n, 10_400n), window)).toBe(300n);
+  });
+
+  it("gives zero weight to bonds outside the window", () => {
+    expect(activeBlocks(bond(0n, 1_000n, 10_000n), window)).toBe(0n);  // matured at start
+    expect(activeBlocks(bond(0n, 12_100n, 50_000n), window)).toBe(0n); // created at end
+  });
+
+  it("pays a bond created one block before the payout one block's worth", () => {
+    const bonds = [bond(0n, 5_000n, 50_000n), bond(1n, 12_099n, 50_000n)];
+    const { shares } = allocateProportional(2_101_000n, timeWeightedShares(bonds, window));
+    expect(shares.map((s) => s.amount)).toEqual([2_100_000n, 1_000n]);
+  });
+
+  it("weights by sats locked times blocks live", () => {
+    const bonds = [
+      bond(0n, 5_000n, 50_000n, 100n),  // 100 sats × 2100 blocks
+      bond(1n, 11_050n, 50_000n, 200n), // 200 sats × 1050 blocks
+      bond(2n, 5_000n, 11_050n, 400n),  // 400 sats × 1050 blocks
+    ];
+    expect(timeWeightedShares(bonds, window).map((s) => s.weight)).toEqual([210_000n, 210_000n, 420_000n]);
+
+    const { shares, leftover } = allocateProportional(1_000n, timeWeightedShares(bonds, window));
+    expect(shares.map((s) => s.amount)).toEqual([250n, 250n, 500n]);
+    expect(leftover).toBe(0n);
+  });
+
+  it("leaves everything over when no bond was live during the cycle", () => {
+    const bonds = [bond(0n, 1_000n, 9_000n), bond(1n, 13_000n, 50_000n)];
+    const { leftover } = allocateProportional(5_000n, timeWeightedShares(bonds, window));
+    expect(leftover).toBe(5_000n);
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeAll, beforeEach } from "vitest";
-import { Cl, ClarityType } from "@stacks/transactions";
+import { Cl, ClarityType, Pc } from "@stacks/transactions";
+// The builders make @stacks/transactions v6 post-conditions; Pc.fromHex reads their wire bytes back.
+import { serializePostCondition } from "../packages/contracts/node_modules/@stacks/transactions";
+import type { PostCondition } from "../packages/contracts/node_modules/@stacks/transactions";
+import { BondFactory, depositYieldPostConditions } from "../packages/contracts/src";
 
 // sBTC constants
 const SBTC = 100_000_000n; // 1 sBTC in satoshis
@@ -17,6 +21,8 @@ let wallet2: string;
 // Helpers
 // -----------------------------------------------------------------------
 
+type TxEvents = ReturnType<typeof simnet.callPublicFn>["events"];
+
 /** Advance the simnet by n blocks without any transactions. */
 function mine(n: bigint) {
   simnet.mineEmptyBlocks(Number(n));
@@ -48,6 +54,65 @@ function depositYield(bondId: bigint, amount: bigint, sender = deployer) {
   );
 }
 
+/** Batch-fund bond yield as deployer via deposit-yield-many. */
+function depositYieldMany(entries: Array<[bigint, bigint]>, sender = deployer) {
+  return simnet.callPublicFn(
+    "bond-factory",
+    "deposit-yield-many",
+    [Cl.list(entries.map(([bondId, amount]) =>
+      Cl.tuple({ "bond-id": Cl.uint(bondId), amount: Cl.uint(amount) })
+    ))],
+    sender
+  );
+}
+
+/** List a maturity series as `sender` (deployer by default). */
+function addSeries(maturityBlock: bigint, sender = deployer) {
+  return simnet.callPublicFn("bond-factory", "add-series", [Cl.uint(maturityBlock)], sender).result;
+}
+
+function createBondInSeries(sender: string, amount: bigint, seriesId: bigint) {
+  return simnet.callPublicFn(
+    "bond-factory", "create-bond-in-series", [Cl.uint(amount), Cl.uint(seriesId)], sender
+  ).result;
+}
+
+function openInterest(seriesId: bigint): bigint {
+  const { result } = simnet.callReadOnlyFn("bond-factory", "get-series", [Cl.uint(seriesId)], deployer);
+  return (result as any).value.value["open-interest"].value;
+}
+
+/**
+ * Whether the sBTC sent in `events` meets every fungible post-condition in
+ * `conditions`, as the VM checks them in PostConditionMode.Deny.
+ */
+function postConditionsHold(conditions: PostCondition[], events: TxEvents): boolean {
+  return conditions.every((pc) => {
+    const decoded = Pc.fromHex(Buffer.from(serializePostCondition(pc)).toString("hex"));
+    if (decoded.type !== "ft-postcondition") throw new Error(`unexpected ${decoded.type}`);
+    const sent = events
+      .filter((e: TxEvents[number]) =>
+        e.event === "ft_transfer_event" && e.data.sender === decoded.address && e.data.asset_identifier === decoded.asset)
+      .reduce((sum: bigint, e: TxEvents[number]) => sum + BigInt(e.data.amount), 0n);
+    const limit = BigInt(decoded.amount);
+    switch (decoded.condition) {
+      case "eq":  return sent === limit;
+      case "lte": return sent <= limit;
+      case "gte": return sent >= limit;
+      case "lt":  return sent < limit;
+      case "gt":  return sent > limit;
+    }
+  });
+}
+
+/** sBTC balance of `who`. */
+function sbtcBalance(who: string): bigint {
+  const { result } = simnet.callReadOnlyFn(
+    "sbtc-token", "get-balance", [Cl.principal(who)], deployer
+  );
+  return (result as any).value.value;
+}
+
 // -----------------------------------------------------------------------
 
 describe("bond-factory (v2)", () => {
@@ -240,6 +305,112 @@ describe("bond-factory (v2)", () => {
     });
   });
 
+  // =====================================================================
+  // deposit-yield-many
+  // =====================================================================
+  describe("deposit-yield-many", () => {
+    it("rejects non-owner caller", () => {
+      const bondId = createBond(wallet1);
+      const { result } = depositYieldMany([[bondId, 1_000_000n]], wallet1);
+      expect(result).toBeErr(Cl.uint(100));
+    });
+
+    it("credits every bond and transfers the summed amount once", () => {
+      const a = createBond(wallet1);
+      const b = createBond(wallet2, 2n * SBTC);
+      const before = sbtcBalance(deployer);
+
+      const { result, events } = depositYieldMany([[a, 1_000_000n], [b, 2_000_000n]]);
+      expect(result).toBeOk(Cl.tuple({
+        total: Cl.uint(3_000_000n),
+        results: Cl.list([Cl.ok(Cl.uint(1_000_000n)), Cl.ok(Cl.uint(2_000_000n))]),
+      }));
+      expect(events.filter((e: TxEvents[number]) => e.event === "ft_transfer_event")).toHaveLength(1);
+      expect(sbtcBalance(deployer)).toBe(before - 3_000_000n);
+
+      const { result: availA } = simnet.callReadOnlyFn(
+        "bond-factory", "get-available-yield", [Cl.uint(a)], deployer
+      );
+      expect(availA).toBeOk(Cl.uint(1_000_000n));
+    });
+
+    it("skips invalid entries and pays only the valid ones", () => {
+      const live = createBond(wallet1);
+      const matured = createBond(wallet1, SBTC, TERM_SHORT);
+      const combined = createBond(wallet2);
+      simnet.callPublicFn("bond-factory", "combine", [Cl.uint(combined)], wallet2);
+      mine(TERM_SHORT + 1n);
+      const before = sbtcBalance(deployer);
+
+      const { result } = depositYieldMany([
+        [live, 1_000_000n],
+        [999n, 1_000_000n],     // unknown bond
+        [matured, 1_000_000n],  // past maturity
+        [combined, 1_000_000n], // combined
+        [live, 0n],             // zero amount
+      ]);
+      expect(result).toBeOk(Cl.tuple({
+        total: Cl.uint(1_000_000n),
+        results: Cl.list([
+          Cl.ok(Cl.uint(1_000_000n)),
+          Cl.error(Cl.uint(200)),
+          Cl.error(Cl.uint(208)),
+          Cl.error(Cl.uint(207)),
+          Cl.error(Cl.uint(205)),
+        ]),
+      }));
+      expect(sbtcBalance(deployer)).toBe(before - 1_000_000n);
+
+      const { result: availMatured } = simnet.callReadOnlyFn(
+        "bond-factory", "get-available-yield", [Cl.uint(matured)], deployer
+      );
+      expect(availMatured).toBeOk(Cl.uint(0));
+    });
+
+    it("settles the valid entries within the relayer's post-condition when one is skipped", () => {
+      const a = createBond(wallet1);
+      const matured = createBond(wallet1, SBTC, TERM_SHORT);
+      const b = createBond(wallet2);
+      mine(TERM_SHORT + 1n);
+      // Planned before `matured` reached maturity.
+      const planned: Array<[bigint, bigint]> = [[a, 1_000_000n], [matured, 1_000_000n], [b, 2_000_000n]];
+      const plannedTotal = 4_000_000n;
+
+      const { result, events } = depositYieldMany(planned);
+      expect(result).toBeOk(Cl.tuple({
+        total: Cl.uint(3_000_000n),
+        results: Cl.list([Cl.ok(Cl.uint(1_000_000n)), Cl.error(Cl.uint(208)), Cl.ok(Cl.uint(2_000_000n))]),
+      }));
+
+      const bondFactory = new BondFactory(`${deployer}.bond-factory`);
+      expect(postConditionsHold(depositYieldPostConditions(bondFactory, deployer, plannedTotal), events)).toBe(true);
+      const { result: availB } = simnet.callReadOnlyFn(
+        "bond-factory", "get-available-yield", [Cl.uint(b)], deployer
+      );
+      expect(availB).toBeOk(Cl.uint(2_000_000n));
+    });
+
+    it("makes no transfer when every entry is invalid", () => {
+      const before = sbtcBalance(deployer);
+      const { result, events } = depositYieldMany([[998n, 1_000_000n], [999n, 1_000_000n]]);
+      expect(result).toBeOk(Cl.tuple({
+        total: Cl.uint(0),
+        results: Cl.list([Cl.error(Cl.uint(200)), Cl.error(Cl.uint(200))]),
+      }));
+      expect(events).toHaveLength(0);
+      expect(sbtcBalance(deployer)).toBe(before);
+    });
+
+    it("accumulates repeated entries for the same bond", () => {
+      const bondId = createBond(wallet1);
+      depositYieldMany([[bondId, 1_000_000n], [bondId, 500_000n]]);
+      const { result } = simnet.callReadOnlyFn(
+        "bond-factory", "get-available-yield", [Cl.uint(bondId)], deployer
+      );
+      expect(result).toBeOk(Cl.uint(1_500_000n));
+    });
+  });
+
   // =====================================================================
   // collect-yield
   // =====================================================================
@@ -535,6 +706,71 @@ describe("bond-factory (v2)", () => {
     });
   });
 
+  // =====================================================================
+  // Maturity series
+  // =====================================================================
+  describe("maturity series", () => {
+    it("add-series is owner-only and needs a unique maturity within two years", () => {
+      const height = BigInt(simnet.burnBlockHeight);
+      expect(addSeries(height + TERM_1Y, wallet1)).toBeErr(Cl.uint(100));
+      expect(addSeries(height)).toBeErr(Cl.uint(212));
+      expect(addSeries(height + 12_614_401n)).toBeErr(Cl.uint(212));
+
+      expect(addSeries(height + TERM_1Y)).toBeOk(Cl.uint(0));
+      expect(addSeries(height + TERM_1Y)).toBeErr(Cl.uint(214));
+      expect(addSeries(height + 2n * TERM_1Y)).toBeOk(Cl.uint(1));
+      expect(simnet.callReadOnlyFn("bond-factory", "get-series-count", [], deployer).result).toBeOk(Cl.uint(2));
+    });
+
+    it("create-bond-in-series matures at the series block and adds to open interest", () => {
+      const maturity = BigInt(simnet.burnBlockHeight) + TERM_1Y;
+      addSeries(maturity);
+
+      expect(createBondInSeries(wallet1, SBTC, 0n)).toBeOk(Cl.uint(0));
+      simnet.mineEmptyBlocks(10);
+      expect(createBondInSeries(wallet2, 2n * SBTC, 0n)).toBeOk(Cl.uint(1));
+
+      for (const bondId of [0n, 1n]) {
+        const { result } = simnet.callReadOnlyFn("bond-factory", "get-bond", [Cl.uint(bondId)], deployer);
+        expect((result as any).value.value["maturity-block"]).toEqual(Cl.uint(maturity));
+        expect(simnet.callReadOnlyFn("bond-factory", "get-bond-series", [Cl.uint(bondId)], deployer).result)
+          .toBeSome(Cl.uint(0));
+      }
+      expect(simnet.callReadOnlyFn("bond-factory", "get-series", [Cl.uint(0)], deployer).result).toBeOk(
+        Cl.tuple({ "maturity-block": Cl.uint(maturity), "open-interest": Cl.uint(3n * SBTC), active: Cl.bool(true) })
+      );
+      expect(simnet.callReadOnlyFn("bond-factory", "get-bond-series", [Cl.uint(createBond(wallet1))], deployer).result)
+        .toBeNone();
+    });
+
+    it("rejects unknown, closed and matured series and a zero amount", () => {
+      expect(createBondInSeries(wallet1, SBTC, 0n)).toBeErr(Cl.uint(210));
+
+      addSeries(BigInt(simnet.burnBlockHeight) + TERM_1Y);
+      expect(createBondInSeries(wallet1, 0n, 0n)).toBeErr(Cl.uint(205));
+      expect(simnet.callPublicFn("bond-factory", "close-series", [Cl.uint(0)], wallet1).result).toBeErr(Cl.uint(100));
+      expect(simnet.callPublicFn("bond-factory", "close-series", [Cl.uint(0)], deployer).result).toBeOk(Cl.bool(true));
+      expect(createBondInSeries(wallet1, SBTC, 0n)).toBeErr(Cl.uint(211));
+
+      addSeries(BigInt(simnet.burnBlockHeight) + TERM_SHORT);
+      mine(TERM_SHORT);
+      expect(createBondInSeries(wallet1, SBTC, 1n)).toBeErr(Cl.uint(213));
+    });
+
+    it("redeem-principal and combine release open interest", () => {
+      addSeries(BigInt(simnet.burnBlockHeight) + TERM_SHORT);
+      createBondInSeries(wallet1, SBTC, 0n);
+      createBondInSeries(wallet2, 2n * SBTC, 0n);
+
+      simnet.callPublicFn("bond-factory", "combine", [Cl.uint(1)], wallet2);
+      expect(openInterest(0n)).toBe(SBTC);
+
+      mine(TERM_SHORT);
+      simnet.callPublicFn("bond-factory", "redeem-principal", [Cl.uint(0)], wallet1);
+      expect(openInterest(0n)).toBe(0n);
+    });
+  });
+
   // =====================================================================
   // transfer-pt / transfer-yt
   // =====================================================================
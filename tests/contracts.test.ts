@@ -0,0 +1,334 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { readFileSync } from "fs";
+import { Cl, ClarityType } from "@stacks/transactions";
+import {
+  BondFactory,
+  Market,
+  PtAmm,
+  PtVault,
+  YieldOracle,
+  YtVault,
+  ContractError,
+  describeError,
+  errorMessage,
+  parseErrorCode,
+  encodeArgs,
+  decodeResultHex,
+  ContractCall,
+  ReadOnlyCall,
+} from "../packages/contracts/src";
+import { CATALOG_CONTRACTS, parseErrors, renderErrorCatalog } from "../packages/contracts/scripts/errorCatalog";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const SBTC    = 100_000_000n;
+const TERM_1Y = 6_307_200n;
+const PRICE   = 90_000_000n;
+
+let deployer: string;
+let wallet1:  string;
+let wallet2:  string;
+let bondFactory: BondFactory;
+let market: Market;
+let oracle: YieldOracle;
+let ptAmm: PtAmm;
+let ptVault: PtVault;
+let ytVault: YtVault;
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+// The clients build @stacks/transactions v6 values; simnet takes v7 ones.
+// Both serialize to the same bytes, so calls cross over as hex, the same
+// way they travel through /v2/contracts/call-read.
+
+function read<T>(call: ReadOnlyCall<T>, sender = deployer): T {
+  const args = encodeArgs(call).map((hex) => Cl.deserialize(hex));
+  const { result } = simnet.callReadOnlyFn(call.contractName, call.functionName, args, sender);
+  return decodeResultHex(call, Cl.serialize(result));
+}
+
+function send(call: ContractCall, sender: string) {
+  const args = encodeArgs(call).map((hex) => Cl.deserialize(hex));
+  return simnet.callPublicFn(call.contractName, call.functionName, args, sender).result;
+}
+
+function createBond(sender: string): bigint {
+  const result = send(bondFactory.createBond(SBTC, TERM_1Y), sender);
+  return (result as any).value.value;
+}
+
+// -----------------------------------------------------------------------
+
+describe("@satcurve/contracts clients", () => {
+  beforeAll(() => {
+    const accounts = simnet.getAccounts();
+    deployer = accounts.get("deployer")!;
+    wallet1  = accounts.get("wallet_1")!;
+    wallet2  = accounts.get("wallet_2")!;
+    bondFactory = new BondFactory(`${deployer}.bond-factory`);
+    market      = new Market(`${deployer}.market`);
+    oracle      = new YieldOracle(`${deployer}.yield-oracle`);
+    ptAmm       = new PtAmm(`${deployer}.pt-amm`);
+    ptVault     = new PtVault(`${deployer}.pt-vault`);
+    ytVault     = new YtVault(`${deployer}.yt-vault`);
+  });
+
+  beforeEach(() => {
+    const amount = Cl.uint(1_000_000_000n);
+    for (const who of [deployer, wallet1, wallet2]) {
+      simnet.callPublicFn("sbtc-token", "mint", [amount, Cl.principal(who)], deployer);
+    }
+  });
+
+  describe("bond-factory", () => {
+    it("decodes get-bond into BondData", () => {
+      const bondId = createBond(wallet1);
+      const bond = read(bondFactory.getBond(bondId));
+      expect(bond).toEqual({
+        tokenId: bondId,
+        sbtcAmount: SBTC,
+        maturityBlock: bond.createdBlock + Number(TERM_1Y),
+        createdBlock: bond.createdBlock,
+        principalRedeemed: false,
+        combined: false,
+        yieldDeposited: 0n,
+        yieldWithdrawn: 0n,
+      });
+      expect(read(bondFactory.getBondCount())).toBe(1n);
+    });
+
+    it("throws a named ContractError for (err u200)", () => {
+      expect.assertions(3);
+      try {
+        read(bondFactory.getBond(42));
+      } catch (err) {
+        expect(err).toBeInstanceOf(ContractError);
+        expect((err as ContractError).name).toBe("BondNotFound");
+        expect((err as ContractError).code).toBe(200n);
+      }
+    });
+
+    it("decodes PT / YT owners, null once burned", () => {
+      const bondId = createBond(wallet1);
+      expect(read(bondFactory.getPtOwner(bondId))).toBe(wallet1);
+      expect(read(bondFactory.getYtOwner(bondId))).toBe(wallet1);
+
+      send(bondFactory.combine(bondId), wallet1);
+      expect(read(bondFactory.getPtOwner(bondId))).toBeNull();
+      expect(read(bondFactory.getYtOwner(bondId))).toBeNull();
+    });
+
+    it("builds deposit-yield-many from entries", () => {
+      const a = createBond(wallet1);
+      const b = createBond(wallet2);
+      const result = send(bondFactory.depositYieldMany([
+        { bondId: a, amount: 100n },
+        { bondId: b, amount: 250n },
+      ]), deployer);
+      expect(result).toHaveProperty("type", ClarityType.ResponseOk);
+      expect(read(bondFactory.getAvailableYield(a))).toBe(100n);
+      expect(read(bondFactory.getAvailableYield(b))).toBe(250n);
+    });
+
+    it("decodes maturity series and a bond's series", () => {
+      const maturity = simnet.burnBlockHeight + Number(TERM_1Y);
+      send(bondFactory.addSeries(maturity), deployer);
+      const result = send(bondFactory.createBondInSeries(SBTC, 0), wallet1);
+      const bondId = (result as any).value.value as bigint;
+
+      expect(read(bondFactory.getSeriesCount())).toBe(1n);
+      expect(read(bondFactory.getSeries(0))).toEqual({
+        seriesId: 0, maturityBlock: maturity, openInterest: SBTC, active: true,
+      });
+      expect(read(bondFactory.getBondSeries(bondId))).toBe(0);
+      expect(read(bondFactory.getBondSeries(createBond(wallet1)))).toBeNull();
+      expect(() => read(bondFactory.getSeries(7))).toThrow(ContractError);
+    });
+  });
+
+  describe("market", () => {
+    it("decodes listings with their expiry, null when not listed", () => {
+      const bondId = createBond(wallet1);
+      send(market.list("PT", bondId, PRICE), wallet1);
+
+      expect(read(market.getPtListing(bondId))).toEqual({ seller: wallet1, priceSats: PRICE, expiresAt: null });
+      expect(read(market.getListing("YT", bondId))).toBeNull();
+
+      const expiresAt = simnet.burnBlockHeight + 100;
+      send(market.list("YT", bondId, PRICE, expiresAt), wallet1);
+      send(market.updatePrice("YT", bondId, PRICE / 2n), wallet1);
+      expect(read(market.getYtListing(bondId))).toEqual({ seller: wallet1, priceSats: PRICE / 2n, expiresAt });
+    });
+
+    it("decodes bids, null once fully filled", () => {
+      const bondId = createBond(wallet1);
+      send(market.placeBondBid(bondId, 95_000_000n, 95_000_000n), wallet2);
+
+      expect(read(market.getBidCount())).toBe(1n);
+      const bid = read(market.getBid(0));
+      expect(bid).toEqual({
+        bidId: 0,
+        bidder: wallet2,
+        bondId: Number(bondId),
+        minMaturity: bid!.maxMaturity,
+        maxMaturity: bid!.maxMaturity,
+        pricePerSbtc: 95_000_000n,
+        remainingSats: 95_000_000n,
+      });
+
+      expect(send(market.sellIntoBid(0, bondId), wallet1)).toEqual(Cl.ok(Cl.uint(95_000_000n)));
+      expect(read(market.getBid(0))).toBeNull();
+    });
+
+    it("buys at no more than the shown price, with the buyer's post-conditions", () => {
+      const bondId = createBond(wallet1);
+      send(market.list("PT", bondId, PRICE), wallet1);
+
+      const call = market.buyPt(bondId, PRICE - 1n, wallet2);
+      const [paid, released] = call.postConditions!;
+      expect(paid).toMatchObject({
+        amount: PRICE - 1n,
+        assetInfo: { assetName: { content: "sbtc-token" }, contractName: { content: "sbtc-token" } },
+      });
+      expect(released).toMatchObject({
+        assetInfo: { assetName: { content: "principal-token" }, contractName: { content: "bond-factory" } },
+      });
+
+      expect(send(call, wallet2)).toEqual(Cl.error(Cl.uint(413)));
+      expect(send(market.buy("PT", bondId, PRICE, wallet2), wallet2)).toEqual(Cl.ok(Cl.bool(true)));
+    });
+
+    it("decodes the fee config and lets the owner change it", () => {
+      expect(read(market.getFeeConfig())).toEqual({ feeBps: 0, maxFeeBps: 500, treasury: deployer });
+      expect(send(market.setFeeConfig(25, wallet1), wallet1)).toEqual(Cl.error(Cl.uint(414)));
+      send(market.setFeeConfig(25, wallet1), deployer);
+      expect(read(market.getFeeConfig())).toEqual({ feeBps: 25, maxFeeBps: 500, treasury: wallet1 });
+    });
+
+    it("maps market error codes by name", () => {
+      const result = send(market.buy("YT", 7, PRICE, wallet2), wallet2);
+      expect(result).toEqual(Cl.error(Cl.uint(400)));
+      expect(describeError("market", 400n)).toBe("ListingNotFound (u400)");
+      expect(new ContractError("market", 403n).name).toBe("NotSeller");
+    });
+  });
+
+  describe("pt-amm", () => {
+    it("decodes pools, LP shares and quotes", () => {
+      const maturity = simnet.burnBlockHeight + Number(TERM_1Y) * 2;
+      send(ptAmm.createPool(0, maturity, 500), deployer);
+      const bondId = createBond(wallet1);
+      send(ptAmm.addLiquidity(0, [bondId], 2n * SBTC), wallet1);
+
+      expect(read(ptAmm.getPoolCount())).toBe(1n);
+      const pool = read(ptAmm.getPool(0));
+      expect(pool).toEqual({
+        poolId: 0,
+        minMaturity: 0,
+        maturityBlock: maturity,
+        anchorRateBps: 500n,
+        sbtcReserve: 2n * SBTC,
+        ptReserve: SBTC,
+        totalShares: pool!.totalShares,
+      });
+      expect(read(ptAmm.getLpShares(0, wallet1))).toBe(pool!.totalShares);
+      expect(read(ptAmm.getPoolOfPt(bondId))).toBe(0);
+      expect(read(ptAmm.getPool(1))).toBeNull();
+
+      const sell = read(ptAmm.quoteSellPt(0, SBTC, maturity));
+      const buy = read(ptAmm.quoteBuyPt(0, SBTC, maturity));
+      expect(sell).toBeLessThan(read(ptAmm.getSpotPrice(0)));
+      expect(buy).toBeGreaterThan(sell);
+      expect(() => read(ptAmm.quoteBuyPt(0, 2n * SBTC, maturity))).toThrow(/enough liquidity/);
+    });
+  });
+
+  describe("vaults", () => {
+    it("reads SIP-010 metadata, balances and the maturity range", () => {
+      const maxMaturity = simnet.burnBlockHeight + Number(TERM_1Y) * 2;
+      send(ptVault.initialize("SatCurve PT 2y", "scPT2Y", 0, maxMaturity), deployer);
+      const bondId = createBond(wallet1);
+      expect(send(ptVault.wrap(bondId), wallet1)).toHaveProperty("type", ClarityType.ResponseOk);
+
+      expect(read(ptVault.getName())).toBe("SatCurve PT 2y");
+      expect(read(ptVault.getSymbol())).toBe("scPT2Y");
+      expect(read(ptVault.getMaturityRange())).toEqual({ minMaturity: 0, maxMaturity });
+      expect(read(ptVault.getBalance(wallet1))).toBe(SBTC);
+      expect(read(ptVault.getTotalSupply())).toBe(SBTC);
+      expect(send(ptVault.transfer(SBTC, wallet1, wallet2), wallet1)).toHaveProperty("type", ClarityType.ResponseOk);
+      expect(read(ptVault.getBalance(wallet2))).toBe(SBTC);
+    });
+
+    it("reads YT vault claimable yield and maps vault errors", () => {
+      send(ytVault.initialize("SatCurve YT 2y", "scYT2Y", 0, simnet.burnBlockHeight + Number(TERM_1Y) * 2), deployer);
+      const bondId = createBond(wallet1);
+      send(ytVault.wrap(bondId), wallet1);
+      send(bondFactory.depositYield(bondId, 1_000n), deployer);
+      send(ytVault.harvest(bondId), wallet2);
+
+      expect(read(ytVault.getClaimable(wallet1))).toBe(1_000n);
+      expect(read(ytVault.getUnharvestedCount())).toBe(1n);
+      expect(send(ytVault.claim(), wallet1)).toBeOk(Cl.uint(1_000n));
+      expect(describeError("pt-vault", 607n)).toBe("NotSettled (u607)");
+      expect(describeError("yt-vault", 707n)).toBe("BondMatured (u707)");
+      expect(describeError("yt-vault", 710n)).toBe("NotHarvested (u710)");
+    });
+  });
+
+  describe("yield-oracle", () => {
+    it("reads prices and the staleness window", () => {
+      send(oracle.setPrices(95_000_000_000n, 2_000_000n), deployer);
+      expect(read(oracle.getBtcPrice())).toBe(95_000_000_000n);
+      expect(read(oracle.getStxPrice())).toBe(2_000_000n);
+      expect(read(oracle.isBtcPriceFresh())).toBe(true);
+      expect(read(oracle.getMaxPriceAgeBlocks())).toBe(300n);
+      expect(read(oracle.isRelayerAuthorized(wallet1))).toBe(false);
+    });
+
+    it("throws DataTooOld for a stale trusted read", () => {
+      send(oracle.setPrices(95_000_000_000n, 2_000_000n), deployer);
+      simnet.mineEmptyBlocks(300);
+      expect(() => read(oracle.getTrustedBtcPrice())).toThrow(/out of date/);
+      expect(() => read(oracle.getTrustedStxPrice())).toThrowError(ContractError);
+    });
+
+    it("falls back to a generic error for unknown codes", () => {
+      const err = new ContractError("yield-oracle", 999n);
+      expect(err.name).toBe("ContractError");
+      expect(describeError("yield-oracle", 999n)).toBe("err u999");
+    });
+  });
+
+  describe("error catalog", () => {
+    it("errors.generated.ts is up to date with the .clar sources", () => {
+      const sources = Object.fromEntries(CATALOG_CONTRACTS.map((c) => [c, readFileSync(`contracts/${c}.clar`, "utf8")]));
+      const committed = readFileSync("packages/contracts/src/errors.generated.ts", "utf8");
+      expect(renderErrorCatalog(sources)).toBe(committed);
+    });
+
+    it("parses name and message from each constant", () => {
+      const source = [
+        "(define-constant err-not-matured     (err u201))  ;; Not yet.",
+        "(define-constant err-not-pt-owner    (err u203))  ;; Not yours.",
+        "(define-constant MAX-TERM-BLOCKS u100)",
+      ].join("\n");
+      expect(parseErrors("bond-factory", source)).toEqual([
+        { code: 201, constant: "err-not-matured", name: "NotMatured", message: "Not yet." },
+        { code: 203, constant: "err-not-pt-owner", name: "NotPtOwner", message: "Not yours." },
+      ]);
+      expect(() => parseErrors("market", "(define-constant err-x (err u1))")).toThrow(/no message/);
+    });
+
+    it("turns an aborted result into a plain-language message", () => {
+      expect(parseErrorCode("(err u209)")).toBe(209n);
+      expect(parseErrorCode("(ok true)")).toBeNull();
+      expect(errorMessage("bond-factory", 209n)).toBe("A bond can only be combined before it matures.");
+      expect(errorMessage("market", 401n)).toBe("This token is already listed.");
+      expect(errorMessage(null, 401n)).toMatch(/u401/);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { Cl, ClarityType, ClarityValue } from "@stacks/transactions";
+import { decodeContractLog, SatCurveEvent } from "../packages/types/src/events";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const SBTC       = 100_000_000n;
+const TERM_1Y    = 6_307_200n;
+const TERM_SHORT = 100n;
+const PRICE      = 90_000_000n;
+
+let deployer: string;
+let wallet1:  string;
+let wallet2:  string;
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+type TxEvents = ReturnType<typeof simnet.callPublicFn>["events"];
+
+/** Print events of a call, decoded through the same path an indexer uses. */
+function printed(events: TxEvents): SatCurveEvent[] {
+  return events
+    .filter((e: TxEvents[number]) => e.event === "print_event")
+    .map((e: TxEvents[number]) => decodeContractLog(Cl.serialize(e.data.value as ClarityValue))!);
+}
+
+function call(contract: string, fn: string, args: ClarityValue[], sender: string) {
+  const { result, events } = simnet.callPublicFn(contract, fn, args, sender);
+  expect(result).toHaveProperty("type", ClarityType.ResponseOk);
+  return printed(events);
+}
+
+function createBond(sender: string, term = TERM_1Y): bigint {
+  const { result } = simnet.callPublicFn("bond-factory", "create-bond", [Cl.uint(SBTC), Cl.uint(term)], sender);
+  return (result as any).value.value;
+}
+
+// -----------------------------------------------------------------------
+
+describe("contract print events", () => {
+  beforeAll(() => {
+    const accounts = simnet.getAccounts();
+    deployer = accounts.get("deployer")!;
+    wallet1  = accounts.get("wallet_1")!;
+    wallet2  = accounts.get("wallet_2")!;
+  });
+
+  beforeEach(() => {
+    const amount = Cl.uint(1_000_000_000n);
+    for (const who of [deployer, wallet1, wallet2]) {
+      simnet.callPublicFn("sbtc-token", "mint", [amount, Cl.principal(who)], deployer);
+    }
+  });
+
+  describe("bond-factory", () => {
+    it("create-bond", () => {
+      const { result, events } = simnet.callPublicFn(
+        "bond-factory", "create-bond", [Cl.uint(SBTC), Cl.uint(TERM_1Y)], wallet1
+      );
+      const bondId = (result as any).value.value as bigint;
+      const [event] = printed(events);
+      expect(event).toMatchObject({ topic: "create-bond", bondId, owner: wallet1, sbtcAmount: SBTC });
+      const created = event as Extract<SatCurveEvent, { topic: "create-bond" }>;
+      expect(created.maturityBlock - created.createdBlock).toBe(TERM_1Y);
+      expect(created.seriesId).toBeNull();
+    });
+
+    it("add-series, create-bond-in-series and close-series", () => {
+      const maturity = BigInt(simnet.burnBlockHeight) + TERM_1Y;
+      expect(call("bond-factory", "add-series", [Cl.uint(maturity)], deployer)).toEqual([
+        { topic: "add-series", seriesId: 0n, maturityBlock: maturity },
+      ]);
+      const [created] = call("bond-factory", "create-bond-in-series", [Cl.uint(SBTC), Cl.uint(0)], wallet1);
+      expect(created).toMatchObject({ topic: "create-bond", owner: wallet1, maturityBlock: maturity, seriesId: 0n });
+      expect(call("bond-factory", "close-series", [Cl.uint(0)], deployer)).toEqual([
+        { topic: "close-series", seriesId: 0n },
+      ]);
+    });
+
+    it("deposit-yield", () => {
+      const bondId = createBond(wallet1);
+      call("bond-factory", "deposit-yield", [Cl.uint(bondId), Cl.uint(1_000n)], deployer);
+      expect(call("bond-factory", "deposit-yield", [Cl.uint(bondId), Cl.uint(500n)], deployer)).toEqual([
+        { topic: "deposit-yield", bondId, amount: 500n, yieldDeposited: 1_500n },
+      ]);
+    });
+
+    it("deposit-yield-many prints one deposit-yield per credited entry", () => {
+      const a = createBond(wallet1);
+      const b = createBond(wallet2);
+      const events = call("bond-factory", "deposit-yield-many", [Cl.list([
+        Cl.tuple({ "bond-id": Cl.uint(a), amount: Cl.uint(100n) }),
+        Cl.tuple({ "bond-id": Cl.uint(999n), amount: Cl.uint(100n) }),
+        Cl.tuple({ "bond-id": Cl.uint(b), amount: Cl.uint(200n) }),
+      ])], deployer);
+      expect(events).toEqual([
+        { topic: "deposit-yield", bondId: a, amount: 100n, yieldDeposited: 100n },
+        { topic: "deposit-yield", bondId: b, amount: 200n, yieldDeposited: 200n },
+      ]);
+    });
+
+    it("collect-yield", () => {
+      const bondId = createBond(wallet1);
+      call("bond-factory", "deposit-yield", [Cl.uint(bondId), Cl.uint(1_000n)], deployer);
+      expect(call("bond-factory", "collect-yield", [Cl.uint(bondId)], wallet1)).toEqual([
+        { topic: "collect-yield", bondId, claimer: wallet1, amount: 1_000n },
+      ]);
+      // Nothing to collect: no state change, no event.
+      expect(call("bond-factory", "collect-yield", [Cl.uint(bondId)], wallet1)).toEqual([]);
+    });
+
+    it("redeem-principal", () => {
+      const bondId = createBond(wallet1, TERM_SHORT);
+      simnet.mineEmptyBlocks(Number(TERM_SHORT));
+      expect(call("bond-factory", "redeem-principal", [Cl.uint(bondId)], wallet1)).toEqual([
+        { topic: "redeem-principal", bondId, recipient: wallet1, amount: SBTC },
+      ]);
+    });
+
+    it("combine", () => {
+      const bondId = createBond(wallet1);
+      call("bond-factory", "deposit-yield", [Cl.uint(bondId), Cl.uint(700n)], deployer);
+      expect(call("bond-factory", "combine", [Cl.uint(bondId)], wallet1)).toEqual([
+        { topic: "combine", bondId, recipient: wallet1, principal: SBTC, yield: 700n },
+      ]);
+    });
+
+    it("transfer-pt and transfer-yt", () => {
+      const bondId = createBond(wallet1);
+      const args = [Cl.uint(bondId), Cl.principal(wallet1), Cl.principal(wallet2)];
+      expect(call("bond-factory", "transfer-pt", args, wallet1)).toEqual([
+        { topic: "transfer", tokenType: "PT", bondId, sender: wallet1, recipient: wallet2 },
+      ]);
+      expect(call("bond-factory", "transfer-yt", args, wallet1)).toEqual([
+        { topic: "transfer", tokenType: "YT", bondId, sender: wallet1, recipient: wallet2 },
+      ]);
+    });
+  });
+
+  describe("market", () => {
+    it("list, update-price, buy and cancel", () => {
+      const market = `${deployer}.market`;
+      const a = createBond(wallet1);
+      const b = createBond(wallet1);
+
+      expect(call("market", "list-pt", [Cl.uint(a), Cl.uint(PRICE), Cl.none()], wallet1)).toEqual([
+        { topic: "transfer", tokenType: "PT", bondId: a, sender: wallet1, recipient: market },
+        { topic: "list", tokenType: "PT", bondId: a, seller: wallet1, priceSats: PRICE, expiresAt: null },
+      ]);
+      expect(call("market", "update-pt-price", [Cl.uint(a), Cl.uint(PRICE + 1n)], wallet1)).toEqual([
+        { topic: "update-price", tokenType: "PT", bondId: a, seller: wallet1, priceSats: PRICE + 1n },
+      ]);
+
+      expect(call("market", "buy-pt", [Cl.uint(a), Cl.uint(PRICE + 1n)], wallet2)).toEqual([
+        { topic: "transfer", tokenType: "PT", bondId: a, sender: market, recipient: wallet2 },
+        { topic: "buy", tokenType: "PT", bondId: a, seller: wallet1, buyer: wallet2, priceSats: PRICE + 1n, feeSats: 0n },
+      ]);
+
+      expect(call("market", "set-fee-config", [Cl.uint(100), Cl.principal(wallet1)], deployer)).toEqual([
+        { topic: "set-fee-config", feeBps: 100n, treasury: wallet1 },
+      ]);
+
+      call("market", "list-yt", [Cl.uint(b), Cl.uint(PRICE), Cl.none()], wallet1);
+      expect(call("market", "cancel-yt", [Cl.uint(b)], wallet1)).toEqual([
+        { topic: "transfer", tokenType: "YT", bondId: b, sender: market, recipient: wallet1 },
+        { topic: "cancel", tokenType: "YT", bondId: b, seller: wallet1 },
+      ]);
+    });
+
+    it("place, fill and cancel bids", () => {
+      const bondId = createBond(wallet1);
+      const bidPrice = 95_000_000n;
+
+      expect(call("market", "place-bid", [Cl.uint(0), Cl.uint(10_000_000), Cl.uint(bidPrice), Cl.uint(2n * SBTC)], wallet2)).toEqual([
+        {
+          topic: "place-bid", bidId: 0n, bidder: wallet2, bondId: null,
+          minMaturity: 0n, maxMaturity: 10_000_000n, pricePerSbtc: bidPrice, amountSats: 2n * SBTC,
+        },
+      ]);
+
+      expect(call("market", "sell-into-bid", [Cl.uint(0), Cl.uint(bondId)], wallet1)).toEqual([
+        { topic: "transfer", tokenType: "PT", bondId, sender: wallet1, recipient: wallet2 },
+        {
+          topic: "fill-bid", bidId: 0n, bondId, seller: wallet1, buyer: wallet2,
+          priceSats: bidPrice, remainingSats: 2n * SBTC - bidPrice,
+        },
+      ]);
+
+      expect(call("market", "cancel-bid", [Cl.uint(0)], wallet2)).toEqual([
+        { topic: "cancel-bid", bidId: 0n, bidder: wallet2, refundSats: 2n * SBTC - bidPrice },
+      ]);
+
+      const [placed] = call("market", "place-bond-bid", [Cl.uint(bondId), Cl.uint(bidPrice), Cl.uint(SBTC)], wallet1);
+      expect(placed).toMatchObject({ topic: "place-bid", bidId: 1n, bondId });
+    });
+  });
+
+  describe("pt-amm", () => {
+    it("create-pool, add-liquidity, swap, redeem-matured and remove-liquidity", () => {
+      const amm = `${deployer}.pt-amm`;
+      const maturity = BigInt(simnet.burnBlockHeight) + TERM_1Y;
+      const pooled = createBond(wallet1, TERM_SHORT);
+      const traded = createBond(wallet2);
+
+      expect(call("pt-amm", "create-pool", [Cl.uint(0), Cl.uint(maturity), Cl.uint(500)], deployer)).toEqual([
+        { topic: "create-pool", poolId: 0n, minMaturity: 0n, maturityBlock: maturity, anchorRateBps: 500n },
+      ]);
+
+      const added = call("pt-amm", "add-liquidity", [Cl.uint(0), Cl.list([Cl.uint(pooled)]), Cl.uint(2n * SBTC)], wallet1);
+      expect(added[0]).toEqual({ topic: "transfer", tokenType: "PT", bondId: pooled, sender: wallet1, recipient: amm });
+      expect(added[1]).toMatchObject({ topic: "add-liquidity", poolId: 0n, provider: wallet1, sbtcAmount: 2n * SBTC, ptFace: SBTC });
+
+      const [, swap] = call("pt-amm", "swap-pt-for-sbtc", [Cl.uint(0), Cl.uint(traded), Cl.uint(0)], wallet2);
+      expect(swap).toMatchObject({ topic: "swap", poolId: 0n, bondId: traded, trader: wallet2, direction: "sell-pt", ptFace: SBTC });
+
+      simnet.mineEmptyBlocks(Number(TERM_SHORT));
+      expect(call("pt-amm", "redeem-matured", [Cl.uint(0), Cl.uint(pooled)], wallet2)).toContainEqual(
+        { topic: "redeem-matured", poolId: 0n, bondId: pooled, amount: SBTC },
+      );
+
+      const shares = (added[1] as { shares: bigint }).shares;
+      const removed = call("pt-amm", "remove-liquidity", [Cl.uint(0), Cl.uint(shares), Cl.list([Cl.uint(traded)])], wallet1);
+      expect(removed.at(-1)).toMatchObject({ topic: "remove-liquidity", poolId: 0n, provider: wallet1, shares, ptFace: SBTC });
+    });
+  });
+
+  describe("vaults", () => {
+    it("wrap, unwrap, settle and redeem on a PT vault", () => {
+      const vault = `${deployer}.pt-vault`;
+      const maxMaturity = BigInt(simnet.burnBlockHeight) + TERM_SHORT;
+      call("pt-vault", "initialize", [Cl.stringAscii("PT"), Cl.stringAscii("PT"), Cl.uint(0), Cl.uint(maxMaturity)], deployer);
+      const bondId = createBond(wallet1, TERM_SHORT);
+
+      expect(call("pt-vault", "wrap-pt", [Cl.uint(bondId)], wallet1)).toEqual([
+        { topic: "transfer", tokenType: "PT", bondId, sender: wallet1, recipient: vault },
+        { topic: "wrap", vault: "PT", bondId, owner: wallet1, shares: SBTC },
+      ]);
+      expect(call("pt-vault", "unwrap-pt", [Cl.uint(bondId)], wallet1)).toContainEqual(
+        { topic: "unwrap", vault: "PT", bondId, owner: wallet1, shares: SBTC },
+      );
+
+      call("pt-vault", "wrap-pt", [Cl.uint(bondId)], wallet1);
+      simnet.mineEmptyBlocks(Number(TERM_SHORT));
+      expect(call("pt-vault", "settle", [Cl.uint(bondId)], wallet2)).toContainEqual(
+        { topic: "settle", vault: "PT", bondId, amount: SBTC },
+      );
+      expect(call("pt-vault", "redeem", [Cl.uint(SBTC)], wallet1)).toEqual([
+        { topic: "redeem", vault: "PT", owner: wallet1, shares: SBTC, amount: SBTC },
+      ]);
+    });
+
+    it("harvest and claim on a YT vault", () => {
+      const maxMaturity = BigInt(simnet.burnBlockHeight) + TERM_1Y;
+      call("yt-vault", "initialize", [Cl.stringAscii("YT"), Cl.stringAscii("YT"), Cl.uint(0), Cl.uint(maxMaturity)], deployer);
+      const bondId = createBond(wallet1);
+      call("yt-vault", "wrap-yt", [Cl.uint(bondId)], wallet1);
+      call("bond-factory", "deposit-yield", [Cl.uint(bondId), Cl.uint(1_000n)], deployer);
+
+      expect(call("yt-vault", "harvest", [Cl.uint(bondId)], wallet2)).toContainEqual(
+        { topic: "harvest", vault: "YT", bondId, amount: 1_000n },
+      );
+      expect(call("yt-vault", "claim", [], wallet1)).toEqual([
+        { topic: "claim", vault: "YT", owner: wallet1, amount: 1_000n },
+      ]);
+    });
+  });
+
+  describe("decodeContractLog", () => {
+    it("accepts 0x-prefixed hex as reported by the Stacks API", () => {
+      const hex = "0x" + Cl.serialize(Cl.tuple({
+        topic: Cl.stringAscii("cancel"),
+        "token-type": Cl.stringAscii("PT"),
+        "bond-id": Cl.uint(3),
+        seller: Cl.principal(wallet1),
+      }));
+      expect(decodeContractLog(hex)).toEqual({ topic: "cancel", tokenType: "PT", bondId: 3n, seller: wallet1 });
+    });
+
+    it("returns null for prints that are not SatCurve events", () => {
+      expect(decodeContractLog(Cl.serialize(Cl.uint(1)))).toBeNull();
+      expect(decodeContractLog(Cl.serialize(Cl.tuple({ topic: Cl.stringAscii("other") })))).toBeNull();
+    });
+
+    it("throws when a known topic has a malformed field", () => {
+      const hex = Cl.serialize(Cl.tuple({ topic: Cl.stringAscii("cancel"), "bond-id": Cl.bool(true) }));
+      expect(() => decodeContractLog(hex)).toThrow();
+    });
+  });
+});
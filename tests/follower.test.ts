@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Cl } from "@stacks/transactions";
+import type { ClarityValue } from "@stacks/transactions";
+
+vi.hoisted(() => {
+  process.env.BOND_FACTORY_ADDRESS = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.bond-factory";
+  process.env.MARKET_ADDRESS = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.market";
+  process.env.LOG_LEVEL = "silent";
+  // Test files share one module cache; reload the indexer config with these settings.
+  vi.resetModules();
+});
+
+vi.mock("../apps/indexer/src/stacksApi", () => ({
+  fetchTipHeight: vi.fn(),
+  fetchContractTxs: vi.fn(),
+  fetchTxEvents: vi.fn(),
+  readBond: vi.fn(),
+}));
+
+import { ContractFollower } from "../apps/indexer/src/follower";
+import { IndexerDb } from "../apps/indexer/src/db";
+import { fetchContractTxs, fetchTipHeight, fetchTxEvents, readBond } from "../apps/indexer/src/stacksApi";
+import type { ContractCallTx } from "../apps/indexer/src/stacksApi";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+const BOND_FACTORY = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.bond-factory";
+const MARKET       = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.market";
+const SELLER       = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+
+/** What the API has indexed so far, per contract; newest first, as it pages them. */
+const chain = new Map<string, ContractCallTx[]>();
+let tip: number;
+
+function contractCall(contractId: string, fn: string, args: ClarityValue[], blockHeight: number): ContractCallTx {
+  return {
+    tx_id: `0x${contractId.length}${fn}${blockHeight}`,
+    tx_status: "success",
+    tx_type: "contract_call",
+    sender_address: SELLER,
+    block_height: blockHeight,
+    block_time: 1_700_000_000 + blockHeight,
+    tx_index: 0,
+    tx_result: { hex: `0x${Cl.serialize(Cl.ok(Cl.bool(true)))}`, repr: "(ok true)" },
+    contract_call: {
+      contract_id: contractId,
+      function_name: fn,
+      function_args: args.map((a, i) => ({ hex: `0x${Cl.serialize(a)}`, repr: "", name: `arg${i}` })),
+    },
+  };
+}
+
+function anchor(tx: ContractCallTx): void {
+  chain.set(tx.contract_call!.contract_id, [tx, ...(chain.get(tx.contract_call!.contract_id) ?? [])]);
+}
+
+const deposit = (bondId: number, height: number) =>
+  contractCall(BOND_FACTORY, "deposit-yield", [Cl.uint(bondId), Cl.uint(1_000)], height);
+const listPt = (bondId: number, height: number) =>
+  contractCall(MARKET, "list-pt", [Cl.uint(bondId), Cl.uint(90_000_000), Cl.none()], height);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  chain.clear();
+  tip = 0;
+  vi.mocked(fetchTipHeight).mockImplementation(async () => tip);
+  vi.mocked(fetchContractTxs).mockImplementation(async (contractId) => chain.get(contractId) ?? []);
+  vi.mocked(fetchTxEvents).mockResolvedValue({ nft: [], prints: [] });
+  vi.mocked(readBond).mockResolvedValue(null);
+});
+
+// -----------------------------------------------------------------------
+
+describe("following the chain", () => {
+  it("applies a block that arrives mid-poll only once every contract has it", async () => {
+    const db = new IndexerDb(join(mkdtempSync(join(tmpdir(), "satcurve-follower-")), "indexer.db"));
+    const follower = new ContractFollower(db);
+
+    anchor(deposit(0, 10));
+    tip = 10;
+    // Block 11 lands after bond-factory's txs were fetched and before the market's.
+    vi.mocked(fetchContractTxs).mockImplementationOnce(async (contractId) => {
+      const page = chain.get(contractId) ?? [];
+      anchor(deposit(1, 11));
+      anchor(listPt(1, 11));
+      tip = 11;
+      return page;
+    });
+
+    await follower.sync();
+    expect(db.lastBlockHeight()).toBe(10);
+    expect(db.listYieldDeposits().map((d) => d.bondId)).toEqual([0]);
+    expect(db.getListing("PT", 1)).toBeNull();
+
+    await follower.sync();
+    expect(db.lastBlockHeight()).toBe(11);
+    expect(db.listYieldDeposits().map((d) => d.bondId).sort()).toEqual([0, 1]);
+    expect(db.getListing("PT", 1)).toMatchObject({ seller: SELLER, priceSats: "90000000" });
+    db.close();
+  });
+
+  it("does nothing until the tip passes the cursor", async () => {
+    const db = new IndexerDb(join(mkdtempSync(join(tmpdir(), "satcurve-follower-")), "indexer.db"));
+    const follower = new ContractFollower(db);
+
+    await follower.sync();
+    expect(fetchContractTxs).not.toHaveBeenCalled();
+    expect(db.lastBlockHeight()).toBe(0);
+    db.close();
+  });
+});
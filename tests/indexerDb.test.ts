@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join } from "path";
+import { IndexerDb } from "../apps/indexer/src/db";
+
+// better-sqlite3 is a dependency of the indexer only.
+const Database = createRequire(import.meta.url)("../apps/indexer/node_modules/better-sqlite3") as new (path: string) => {
+  exec(sql: string): void;
+  close(): void;
+};
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+/** The listings and sales tables as the indexer created them before listings could expire or trades paid a fee. */
+const OLD_SCHEMA = `
+  CREATE TABLE listings (
+    token_type   TEXT    NOT NULL,
+    bond_id      INTEGER NOT NULL,
+    seller       TEXT    NOT NULL,
+    price_sats   TEXT    NOT NULL,
+    listed_block INTEGER NOT NULL,
+    txid         TEXT    NOT NULL,
+    PRIMARY KEY (token_type, bond_id)
+  );
+  CREATE TABLE sales (
+    txid         TEXT PRIMARY KEY,
+    token_type   TEXT    NOT NULL,
+    bond_id      INTEGER NOT NULL,
+    seller       TEXT    NOT NULL,
+    buyer        TEXT    NOT NULL,
+    price_sats   TEXT    NOT NULL,
+    block_height INTEGER NOT NULL,
+    block_time   INTEGER NOT NULL
+  );
+  INSERT INTO listings VALUES ('PT', 0, 'ST_SELLER', '90000000', 100, '0x01');
+  INSERT INTO sales VALUES ('0x02', 'YT', 1, 'ST_SELLER', 'ST_BUYER', '5000000', 110, 1700000000);
+`;
+
+function oldStore(): string {
+  const path = join(mkdtempSync(join(tmpdir(), "satcurve-indexer-")), "indexer.db");
+  const db = new Database(path);
+  db.exec(OLD_SCHEMA);
+  db.close();
+  return path;
+}
+
+// -----------------------------------------------------------------------
+
+describe("opening a store created with an older schema", () => {
+  it("adds the listing expiry and keeps existing listings open-ended", () => {
+    const db = new IndexerDb(oldStore());
+
+    expect(db.getListing("PT", 0)).toMatchObject({ priceSats: "90000000", expiresAt: null });
+
+    db.putListing({
+      bondId: 2, tokenType: "YT", seller: "ST_SELLER", priceSats: "4000000",
+      expiresAt: 500, listedBlock: 120, txid: "0x03",
+    });
+    expect(db.getListing("YT", 2)!.expiresAt).toBe(500);
+    db.close();
+  });
+
+  it("adds the trade fee and counts earlier sales as fee-free", () => {
+    const db = new IndexerDb(oldStore());
+    expect(db.listSales()).toMatchObject([{ txid: "0x02", feeSats: "0" }]);
+    db.close();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { YieldLedger } from "../apps/bot/src/ledger";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+const CYCLE = 84;
+
+function ledgerPath(): string {
+  return join(mkdtempSync(join(tmpdir(), "satcurve-ledger-")), "yield-ledger.json");
+}
+
+/** A ledger with cycle 84 planned for bonds 0, 1 and 2. */
+function plannedLedger(path = ledgerPath()): YieldLedger {
+  const ledger = new YieldLedger(path);
+  ledger.plan(
+    CYCLE,
+    [{ bondId: 0n, amount: 600n }, { bondId: 1n, amount: 0n }, { bondId: 2n, amount: 399n }],
+    { rewards: 1_000n, carriedIn: 0n, leftover: 1n },
+  );
+  return ledger;
+}
+
+// -----------------------------------------------------------------------
+
+describe("planning", () => {
+  it("records non-zero amounts once per cycle", () => {
+    const ledger = plannedLedger();
+
+    expect(ledger.list(CYCLE).map((e) => [e.bondId, e.amount, e.status])).toEqual([
+      [0n, 600n, "planned"],
+      [2n, 399n, "planned"],
+    ]);
+    expect(ledger.hasCycle(CYCLE)).toBe(true);
+
+    ledger.plan(CYCLE, [{ bondId: 5n, amount: 1_000n }]);
+    expect(ledger.list(CYCLE)).toHaveLength(2);
+  });
+
+  it("marks a cycle with nothing to pay as planned", () => {
+    const ledger = new YieldLedger(ledgerPath());
+    ledger.plan(CYCLE, [], { rewards: 0n, carriedIn: 0n, leftover: 0n });
+    expect(ledger.hasCycle(CYCLE)).toBe(true);
+    expect(ledger.unsent(CYCLE)).toEqual([]);
+  });
+});
+
+describe("entry lifecycle", () => {
+  it("moves an entry from planned through submitted to confirmed", () => {
+    const ledger = plannedLedger();
+
+    ledger.markSubmitted(CYCLE, 0n, "0xa");
+    expect(ledger.unsent(CYCLE).map((e) => e.bondId)).toEqual([2n]);
+    expect(ledger.inFlight(CYCLE)).toMatchObject([{ bondId: 0n, txid: "0xa", txids: ["0xa"] }]);
+
+    ledger.markConfirmed(CYCLE, 0n);
+    expect(ledger.inFlight(CYCLE)).toEqual([]);
+    expect(ledger.list(CYCLE)[0]!.status).toBe("confirmed");
+  });
+
+  it("keeps every txid of a fee-bumped submission", () => {
+    const ledger = plannedLedger();
+
+    ledger.markSubmitted(CYCLE, 0n, "0xa");
+    ledger.markSubmitted(CYCLE, 0n, "0xb");
+    ledger.markSubmitted(CYCLE, 0n, "0xb");
+
+    expect(ledger.list(CYCLE)[0]).toMatchObject({ status: "submitted", txid: "0xb", txids: ["0xa", "0xb"] });
+  });
+
+  it("re-sends a failed entry as a new submission", () => {
+    const ledger = plannedLedger();
+
+    ledger.markSubmitted(CYCLE, 0n, "0xa");
+    ledger.markFailed(CYCLE, 0n, "dropped");
+    expect(ledger.unsent(CYCLE)[0]).toMatchObject({ bondId: 0n, status: "failed", error: "dropped" });
+
+    ledger.markSubmitted(CYCLE, 0n, "0xc");
+    expect(ledger.list(CYCLE)[0]).toMatchObject({ status: "submitted", txids: ["0xc"], error: null });
+  });
+
+  it("rejects updates to an entry that was never planned", () => {
+    const ledger = plannedLedger();
+    expect(() => ledger.markSubmitted(CYCLE, 1n, "0xa")).toThrow(/No ledger entry/);
+    expect(() => ledger.markConfirmed(CYCLE + 1, 0n)).toThrow(/No ledger entry/);
+  });
+});
+
+describe("carry-over", () => {
+  it("carries the leftover of the latest earlier cycle", () => {
+    const ledger = new YieldLedger(ledgerPath());
+    ledger.plan(80, [], { rewards: 50n, carriedIn: 0n, leftover: 50n });
+    ledger.plan(82, [{ bondId: 0n, amount: 90n }], { rewards: 40n, carriedIn: 50n, leftover: 7n });
+    ledger.plan(90, [], { rewards: 0n, carriedIn: 0n, leftover: 1_000n });
+
+    expect(ledger.carryInto(80)).toBe(0n);
+    expect(ledger.carryInto(81)).toBe(50n);
+    // Cycles 83 and later read 82's leftover, skipping the unplanned ones between.
+    expect(ledger.carryInto(84)).toBe(7n);
+    expect(ledger.carryInto(90)).toBe(7n);
+  });
+});
+
+describe("persistence", () => {
+  it("reads back exactly what was written, with no temp file left behind", () => {
+    const path = ledgerPath();
+    const ledger = plannedLedger(path);
+    ledger.markSubmitted(CYCLE, 0n, "0xa");
+    ledger.markSubmitted(CYCLE, 0n, "0xb");
+    ledger.markFailed(CYCLE, 2n, "abort_by_response");
+
+    const reloaded = new YieldLedger(path);
+    expect(reloaded.list()).toEqual(ledger.list());
+    expect(reloaded.summary(CYCLE)).toEqual({ cycle: CYCLE, rewards: 1_000n, carriedIn: 0n, leftover: 1n });
+    expect(reloaded.carryInto(CYCLE + 1)).toBe(1n);
+    expect(existsSync(`${path}.tmp`)).toBe(false);
+
+    // Amounts are stored as decimal strings so they survive JSON.
+    const stored = JSON.parse(readFileSync(path, "utf-8"));
+    expect(stored.entries[0]).toMatchObject({ bondId: "0", amount: "600", txids: ["0xa", "0xb"] });
+  });
+
+  it("loads ledgers written before replacements and carry-over were tracked", () => {
+    const path = ledgerPath();
+    writeFileSync(path, JSON.stringify({
+      entries: [{
+        cycle: CYCLE, bondId: "3", amount: "250", txid: "0xold", status: "submitted",
+        error: null, updatedAt: "2026-01-01T00:00:00.000Z",
+      }],
+    }));
+
+    const ledger = new YieldLedger(path);
+    expect(ledger.inFlight(CYCLE)).toMatchObject([{ bondId: 3n, amount: 250n, txids: ["0xold"] }]);
+    expect(ledger.hasCycle(CYCLE)).toBe(true);
+    expect(ledger.summary(CYCLE)).toBeUndefined();
+    expect(ledger.carryInto(CYCLE + 1)).toBe(0n);
+  });
+});
@@ -8,6 +8,7 @@ import { Cl, ClarityType } from "@stacks/transactions";
 const SBTC         = 100_000_000n; // 1 sBTC in satoshis
 const TERM_1Y      = 6_307_200n;
 const PRICE        = 90_000_000n;  // 0.9 sBTC -- discounted PT price
+const BID_PRICE    = 95_000_000n;  // bids: sats per 1 sBTC of face value
 
 let deployer: string;
 let wallet1:  string;
@@ -17,6 +18,8 @@ let wallet2:  string;
 // Helpers
 // -----------------------------------------------------------------------
 
+type TxEvents = ReturnType<typeof simnet.callPublicFn>["events"];
+
 function mintSbtc() {
   const amount = Cl.uint(1_000_000_000n); // 10 sBTC
   simnet.callPublicFn("sbtc-token", "mint", [amount, Cl.principal(deployer)], deployer);
@@ -57,6 +60,27 @@ function sbtcBalance(address: string): bigint {
   return (result as any).value.value;
 }
 
+/** maturity-block of a bond. */
+function maturityOf(bondId: bigint): bigint {
+  const { result } = simnet.callReadOnlyFn("bond-factory", "get-bond", [Cl.uint(bondId)], deployer);
+  return (result as any).value.value["maturity-block"].value;
+}
+
+/** Place a range bid as `sender`. Returns bid-id. */
+function placeBid(sender: string, minMaturity: bigint, maxMaturity: bigint, amount: bigint, price = BID_PRICE): bigint {
+  const { result } = simnet.callPublicFn(
+    "market", "place-bid",
+    [Cl.uint(minMaturity), Cl.uint(maxMaturity), Cl.uint(price), Cl.uint(amount)],
+    sender
+  );
+  expect(result).toHaveProperty("type", ClarityType.ResponseOk);
+  return (result as any).value.value;
+}
+
+function getBid(bidId: bigint) {
+  return simnet.callReadOnlyFn("market", "get-bid", [Cl.uint(bidId)], deployer).result;
+}
+
 // -----------------------------------------------------------------------
 
 describe("market", () => {
@@ -99,7 +123,7 @@ describe("market", () => {
       expect(getPtOwner(bondId)).toBeSome(Cl.principal(wallet1));
 
       const { result } = simnet.callPublicFn(
-        "market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1
+        "market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1
       );
       expect(result).toBeOk(Cl.bool(true));
 
@@ -111,19 +135,19 @@ describe("market", () => {
         "market", "get-pt-listing", [Cl.uint(bondId)], deployer
       );
       expect(listing).toBeSome(
-        Cl.tuple({ seller: Cl.principal(wallet1), "price-sats": Cl.uint(PRICE) })
+        Cl.tuple({ seller: Cl.principal(wallet1), "price-sats": Cl.uint(PRICE), "expires-at": Cl.none() })
       );
     });
 
     it("buy-pt transfers sBTC to seller and NFT to buyer", () => {
       const bondId = createBond(wallet1);
-      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
 
       const sellerBefore = sbtcBalance(wallet1);
       const buyerBefore  = sbtcBalance(wallet2);
 
       const { result } = simnet.callPublicFn(
-        "market", "buy-pt", [Cl.uint(bondId)], wallet2
+        "market", "buy-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet2
       );
       expect(result).toBeOk(Cl.bool(true));
 
@@ -143,7 +167,7 @@ describe("market", () => {
 
     it("cancel-pt returns NFT to seller and clears listing", () => {
       const bondId = createBond(wallet1);
-      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
 
       const { result } = simnet.callPublicFn(
         "market", "cancel-pt", [Cl.uint(bondId)], wallet1
@@ -163,29 +187,29 @@ describe("market", () => {
     it("list-pt rejects price zero", () => {
       const bondId = createBond(wallet1);
       const { result } = simnet.callPublicFn(
-        "market", "list-pt", [Cl.uint(bondId), Cl.uint(0)], wallet1
+        "market", "list-pt", [Cl.uint(bondId), Cl.uint(0), Cl.none()], wallet1
       );
       expect(result).toBeErr(Cl.uint(402));
     });
 
     it("list-pt rejects already-listed bond", () => {
       const bondId = createBond(wallet1);
-      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
 
       // wallet1 no longer owns PT, so a second list will fail at NFT transfer
       // But bond-factory itself will reject: non-owner trying to transfer
       const bondId2 = createBond(wallet1);
-      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId2), Cl.uint(PRICE)], wallet1);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId2), Cl.uint(PRICE), Cl.none()], wallet1);
       // Second list of same bond-id (already listed) → err u401
       const { result } = simnet.callPublicFn(
-        "market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet2
+        "market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet2
       );
       expect(result).toBeErr(Cl.uint(401));
     });
 
     it("cancel-pt rejects caller who is not the seller", () => {
       const bondId = createBond(wallet1);
-      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
 
       const { result } = simnet.callPublicFn(
         "market", "cancel-pt", [Cl.uint(bondId)], wallet2
@@ -195,19 +219,19 @@ describe("market", () => {
 
     it("buy-pt rejects non-existent listing", () => {
       const { result } = simnet.callPublicFn(
-        "market", "buy-pt", [Cl.uint(999)], wallet2
+        "market", "buy-pt", [Cl.uint(999), Cl.uint(PRICE)], wallet2
       );
       expect(result).toBeErr(Cl.uint(400));
     });
 
     it("buy-pt rejects already-purchased listing", () => {
       const bondId = createBond(wallet1);
-      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1);
-      simnet.callPublicFn("market", "buy-pt", [Cl.uint(bondId)], wallet2);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
+      simnet.callPublicFn("market", "buy-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet2);
 
       // Second buy attempt — listing is gone
       const { result } = simnet.callPublicFn(
-        "market", "buy-pt", [Cl.uint(bondId)], wallet2
+        "market", "buy-pt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet2
       );
       expect(result).toBeErr(Cl.uint(400));
     });
@@ -224,7 +248,7 @@ describe("market", () => {
       expect(getYtOwner(bondId)).toBeSome(Cl.principal(wallet1));
 
       const { result } = simnet.callPublicFn(
-        "market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1
+        "market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1
       );
       expect(result).toBeOk(Cl.bool(true));
 
@@ -234,19 +258,19 @@ describe("market", () => {
         "market", "get-yt-listing", [Cl.uint(bondId)], deployer
       );
       expect(listing).toBeSome(
-        Cl.tuple({ seller: Cl.principal(wallet1), "price-sats": Cl.uint(PRICE) })
+        Cl.tuple({ seller: Cl.principal(wallet1), "price-sats": Cl.uint(PRICE), "expires-at": Cl.none() })
       );
     });
 
     it("buy-yt transfers sBTC to seller and NFT to buyer", () => {
       const bondId = createBond(wallet1);
-      simnet.callPublicFn("market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1);
+      simnet.callPublicFn("market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
 
       const sellerBefore = sbtcBalance(wallet1);
       const buyerBefore  = sbtcBalance(wallet2);
 
       const { result } = simnet.callPublicFn(
-        "market", "buy-yt", [Cl.uint(bondId)], wallet2
+        "market", "buy-yt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet2
       );
       expect(result).toBeOk(Cl.bool(true));
 
@@ -257,7 +281,7 @@ describe("market", () => {
 
     it("cancel-yt returns NFT to seller", () => {
       const bondId = createBond(wallet1);
-      simnet.callPublicFn("market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1);
+      simnet.callPublicFn("market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
 
       const { result } = simnet.callPublicFn(
         "market", "cancel-yt", [Cl.uint(bondId)], wallet1
@@ -269,14 +293,14 @@ describe("market", () => {
     it("list-yt rejects price zero", () => {
       const bondId = createBond(wallet1);
       const { result } = simnet.callPublicFn(
-        "market", "list-yt", [Cl.uint(bondId), Cl.uint(0)], wallet1
+        "market", "list-yt", [Cl.uint(bondId), Cl.uint(0), Cl.none()], wallet1
       );
       expect(result).toBeErr(Cl.uint(402));
     });
 
     it("cancel-yt rejects non-seller", () => {
       const bondId = createBond(wallet1);
-      simnet.callPublicFn("market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1);
+      simnet.callPublicFn("market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
 
       const { result } = simnet.callPublicFn(
         "market", "cancel-yt", [Cl.uint(bondId)], wallet2
@@ -286,9 +310,278 @@ describe("market", () => {
 
     it("buy-yt rejects non-existent listing", () => {
       const { result } = simnet.callPublicFn(
-        "market", "buy-yt", [Cl.uint(999)], wallet2
+        "market", "buy-yt", [Cl.uint(999), Cl.uint(PRICE)], wallet2
       );
       expect(result).toBeErr(Cl.uint(400));
     });
   });
+
+  // =====================================================================
+  // Listing expiry and repricing
+  // =====================================================================
+  describe("listing expiry and repricing", () => {
+    function list(fn: "list-pt" | "list-yt", bondId: bigint, expiresAt: bigint | null, sender = wallet1) {
+      const expiry = expiresAt === null ? Cl.none() : Cl.some(Cl.uint(expiresAt));
+      return simnet.callPublicFn("market", fn, [Cl.uint(bondId), Cl.uint(PRICE), expiry], sender).result;
+    }
+
+    it("stores the expiry and rejects one that is not in the future", () => {
+      const bondId = createBond(wallet1);
+      const height = BigInt(simnet.burnBlockHeight);
+      expect(list("list-pt", bondId, height)).toBeErr(Cl.uint(411));
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(wallet1));
+
+      expect(list("list-pt", bondId, height + 50n)).toBeOk(Cl.bool(true));
+      const { result } = simnet.callReadOnlyFn("market", "get-pt-listing", [Cl.uint(bondId)], deployer);
+      expect(result).toBeSome(Cl.tuple({
+        seller: Cl.principal(wallet1), "price-sats": Cl.uint(PRICE), "expires-at": Cl.some(Cl.uint(height + 50n)),
+      }));
+    });
+
+    it("buy rejects an expired listing, which the seller can still cancel", () => {
+      const bondId = createBond(wallet1);
+      list("list-yt", bondId, BigInt(simnet.burnBlockHeight) + 10n);
+      simnet.mineEmptyBlocks(10);
+
+      expect(simnet.callPublicFn("market", "buy-yt", [Cl.uint(bondId), Cl.uint(PRICE)], wallet2).result).toBeErr(Cl.uint(412));
+      expect(getYtOwner(bondId)).toBeSome(Cl.principal(`${deployer}.market`));
+      expect(simnet.callPublicFn("market", "cancel-yt", [Cl.uint(bondId)], wallet1).result).toBeOk(Cl.bool(true));
+      expect(getYtOwner(bondId)).toBeSome(Cl.principal(wallet1));
+    });
+
+    it("update-pt-price reprices in place and the buyer pays the new price", () => {
+      const bondId = createBond(wallet1);
+      list("list-pt", bondId, null);
+      const update = (price: bigint, sender: string) =>
+        simnet.callPublicFn("market", "update-pt-price", [Cl.uint(bondId), Cl.uint(price)], sender);
+
+      expect(update(PRICE + 1n, wallet2).result).toBeErr(Cl.uint(403));
+      expect(update(0n, wallet1).result).toBeErr(Cl.uint(402));
+      const { result, events } = update(PRICE + 1_000n, wallet1);
+      expect(result).toBeOk(Cl.bool(true));
+      expect(events.filter((e: TxEvents[number]) => e.event === "nft_transfer_event")).toHaveLength(0);
+
+      const sellerBefore = sbtcBalance(wallet1);
+      simnet.callPublicFn("market", "buy-pt", [Cl.uint(bondId), Cl.uint(PRICE + 1_000n)], wallet2);
+      expect(sbtcBalance(wallet1)).toBe(sellerBefore + PRICE + 1_000n);
+    });
+
+    it("buy reverts when the listing now costs more than the buyer's maximum", () => {
+      const bondId = createBond(wallet1);
+      list("list-pt", bondId, null);
+      // The seller relists higher while the buyer's transaction is pending.
+      simnet.callPublicFn("market", "cancel-pt", [Cl.uint(bondId)], wallet1);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(SBTC), Cl.none()], wallet1);
+
+      const buyerBefore = sbtcBalance(wallet2);
+      const buy = (max: bigint) =>
+        simnet.callPublicFn("market", "buy-pt", [Cl.uint(bondId), Cl.uint(max)], wallet2).result;
+      expect(buy(PRICE)).toBeErr(Cl.uint(413));
+      expect(sbtcBalance(wallet2)).toBe(buyerBefore);
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(`${deployer}.market`));
+
+      expect(buy(SBTC + 1n)).toBeOk(Cl.bool(true));
+      expect(sbtcBalance(wallet2)).toBe(buyerBefore - SBTC);
+    });
+
+    it("update-yt-price rejects missing and expired listings", () => {
+      const bondId = createBond(wallet1);
+      const update = () =>
+        simnet.callPublicFn("market", "update-yt-price", [Cl.uint(bondId), Cl.uint(PRICE)], wallet1).result;
+      expect(update()).toBeErr(Cl.uint(400));
+
+      list("list-yt", bondId, BigInt(simnet.burnBlockHeight) + 5n);
+      simnet.mineEmptyBlocks(5);
+      expect(update()).toBeErr(Cl.uint(412));
+    });
+  });
+
+  // =====================================================================
+  // Trade fee
+  // =====================================================================
+  describe("trade fee", () => {
+    const FEE_BPS = 100n; // 1%
+    const FEE     = PRICE / 100n;
+
+    function setFeeConfig(feeBps: bigint, treasury: string, sender = deployer) {
+      return simnet.callPublicFn("market", "set-fee-config", [Cl.uint(feeBps), Cl.principal(treasury)], sender).result;
+    }
+
+    function feeConfig() {
+      return simnet.callReadOnlyFn("market", "get-fee-config", [], deployer).result;
+    }
+
+    it("starts at zero, paid to the deployer", () => {
+      expect(feeConfig()).toBeOk(Cl.tuple({
+        "fee-bps": Cl.uint(0), "max-fee-bps": Cl.uint(500), treasury: Cl.principal(deployer),
+      }));
+    });
+
+    it("set-fee-config is owner only and capped at max-fee-bps", () => {
+      expect(setFeeConfig(FEE_BPS, wallet1, wallet1)).toBeErr(Cl.uint(414));
+      expect(setFeeConfig(501n, wallet1)).toBeErr(Cl.uint(415));
+
+      const { events } = simnet.callPublicFn(
+        "market", "set-fee-config", [Cl.uint(500), Cl.principal(wallet1)], deployer
+      );
+      expect(events[0].data.value).toStrictEqual(Cl.tuple({
+        topic: Cl.stringAscii("set-fee-config"), "fee-bps": Cl.uint(500), treasury: Cl.principal(wallet1),
+      }));
+      expect(feeConfig()).toBeOk(Cl.tuple({
+        "fee-bps": Cl.uint(500), "max-fee-bps": Cl.uint(500), treasury: Cl.principal(wallet1),
+      }));
+    });
+
+    it("the buyer pays the fee to the treasury on top of the seller's price", () => {
+      const bondId = createBond(wallet1);
+      simnet.callPublicFn("market", "list-yt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
+      setFeeConfig(FEE_BPS, deployer);
+
+      const sellerBefore   = sbtcBalance(wallet1);
+      const buyerBefore    = sbtcBalance(wallet2);
+      const treasuryBefore = sbtcBalance(deployer);
+      const { result } = simnet.callPublicFn("market", "buy-yt", [Cl.uint(bondId), Cl.uint(PRICE + FEE)], wallet2);
+      expect(result).toBeOk(Cl.bool(true));
+      expect(sbtcBalance(wallet1)).toBe(sellerBefore + PRICE);
+      expect(sbtcBalance(wallet2)).toBe(buyerBefore - PRICE - FEE);
+      expect(sbtcBalance(deployer)).toBe(treasuryBefore + FEE);
+      expect(getYtOwner(bondId)).toBeSome(Cl.principal(wallet2));
+    });
+
+    it("max-price-sats bounds the price plus the fee", () => {
+      const bondId = createBond(wallet1);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
+      setFeeConfig(FEE_BPS, deployer);
+
+      const buy = (max: bigint) =>
+        simnet.callPublicFn("market", "buy-pt", [Cl.uint(bondId), Cl.uint(max)], wallet2).result;
+      expect(buy(PRICE)).toBeErr(Cl.uint(413));
+      expect(buy(PRICE + FEE - 1n)).toBeErr(Cl.uint(413));
+      expect(buy(PRICE + FEE)).toBeOk(Cl.bool(true));
+    });
+
+    it("a treasury buying its own fee only pays the seller", () => {
+      const bondId = createBond(wallet1);
+      simnet.callPublicFn("market", "list-pt", [Cl.uint(bondId), Cl.uint(PRICE), Cl.none()], wallet1);
+      setFeeConfig(FEE_BPS, wallet2);
+
+      const buyerBefore = sbtcBalance(wallet2);
+      const { result } = simnet.callPublicFn("market", "buy-pt", [Cl.uint(bondId), Cl.uint(PRICE + FEE)], wallet2);
+      expect(result).toBeOk(Cl.bool(true));
+      expect(sbtcBalance(wallet2)).toBe(buyerBefore - PRICE);
+    });
+  });
+
+  // =====================================================================
+  // PT bids (partial fills)
+  // =====================================================================
+  describe("PT bids", () => {
+    it("place-bid escrows sBTC and stores the bid", () => {
+      const before = sbtcBalance(wallet2);
+      const bidId = placeBid(wallet2, 0n, 10_000_000n, 2n * SBTC);
+
+      expect(bidId).toBe(0n);
+      expect(sbtcBalance(wallet2)).toBe(before - 2n * SBTC);
+      expect(sbtcBalance(`${deployer}.market`)).toBe(2n * SBTC);
+      expect(getBid(bidId)).toBeSome(Cl.tuple({
+        bidder: Cl.principal(wallet2),
+        "bond-id": Cl.none(),
+        "min-maturity": Cl.uint(0),
+        "max-maturity": Cl.uint(10_000_000),
+        "price-per-sbtc": Cl.uint(BID_PRICE),
+        "remaining-sats": Cl.uint(2n * SBTC),
+      }));
+      expect(simnet.callReadOnlyFn("market", "get-bid-count", [], deployer).result).toBeOk(Cl.uint(1));
+    });
+
+    it("sell-into-bid fills one PT at a time until the escrow runs out", () => {
+      const a = createBond(wallet1);
+      const b = createBond(wallet1);
+      const c = createBond(wallet1);
+      const bidId = placeBid(wallet2, 0n, 10_000_000n, 2n * SBTC);
+      const sellerBefore = sbtcBalance(wallet1);
+
+      const first = simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(bidId), Cl.uint(a)], wallet1);
+      expect(first.result).toBeOk(Cl.uint(BID_PRICE));
+      expect(getPtOwner(a)).toBeSome(Cl.principal(wallet2));
+      expect(sbtcBalance(wallet1)).toBe(sellerBefore + BID_PRICE);
+
+      const second = simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(bidId), Cl.uint(b)], wallet1);
+      expect(second.result).toBeOk(Cl.uint(BID_PRICE));
+      expect((getBid(bidId) as any).value.value["remaining-sats"]).toEqual(Cl.uint(2n * SBTC - 2n * BID_PRICE));
+
+      // 0.1 sBTC left cannot pay 0.95 for a third PT.
+      const third = simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(bidId), Cl.uint(c)], wallet1);
+      expect(third.result).toBeErr(Cl.uint(410));
+      expect(getPtOwner(c)).toBeSome(Cl.principal(wallet1));
+    });
+
+    it("prices by face value and removes a fully spent bid", () => {
+      const bondId = createBond(wallet1, SBTC / 2n);
+      const bidId = placeBid(wallet2, 0n, 10_000_000n, BID_PRICE / 2n);
+
+      const { result } = simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(bidId), Cl.uint(bondId)], wallet1);
+      expect(result).toBeOk(Cl.uint(BID_PRICE / 2n));
+      expect(getBid(bidId)).toBeNone();
+    });
+
+    it("sell-into-bid rejects a bond maturing outside the bid range", () => {
+      const bondId = createBond(wallet1);
+      const maturity = maturityOf(bondId);
+      const bidId = placeBid(wallet2, maturity + 1n, maturity + 1_000n, SBTC);
+
+      const { result } = simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(bidId), Cl.uint(bondId)], wallet1);
+      expect(result).toBeErr(Cl.uint(409));
+    });
+
+    it("place-bond-bid only accepts the named bond", () => {
+      const wanted = createBond(wallet1);
+      const other  = createBond(wallet1);
+      const { result: placed } = simnet.callPublicFn(
+        "market", "place-bond-bid", [Cl.uint(wanted), Cl.uint(BID_PRICE), Cl.uint(SBTC)], wallet2
+      );
+      expect(placed).toBeOk(Cl.uint(0));
+      expect((getBid(0n) as any).value.value["bond-id"]).toEqual(Cl.some(Cl.uint(wanted)));
+
+      expect(simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(0), Cl.uint(other)], wallet1).result)
+        .toBeErr(Cl.uint(409));
+      expect(simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(0), Cl.uint(wanted)], wallet1).result)
+        .toBeOk(Cl.uint(BID_PRICE));
+    });
+
+    it("sell-into-bid rejects a caller who does not hold the PT", () => {
+      const bondId = createBond(wallet1);
+      const bidId = placeBid(wallet2, 0n, 10_000_000n, SBTC);
+
+      const { result } = simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(bidId), Cl.uint(bondId)], deployer);
+      expect(result).toHaveProperty("type", ClarityType.ResponseErr);
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(wallet1));
+    });
+
+    it("cancel-bid refunds the remaining escrow to the bidder only", () => {
+      const bondId = createBond(wallet1);
+      const bidId = placeBid(wallet2, 0n, 10_000_000n, 2n * SBTC);
+      simnet.callPublicFn("market", "sell-into-bid", [Cl.uint(bidId), Cl.uint(bondId)], wallet1);
+
+      expect(simnet.callPublicFn("market", "cancel-bid", [Cl.uint(bidId)], wallet1).result).toBeErr(Cl.uint(405));
+
+      const before = sbtcBalance(wallet2);
+      expect(simnet.callPublicFn("market", "cancel-bid", [Cl.uint(bidId)], wallet2).result).toBeOk(Cl.bool(true));
+      expect(sbtcBalance(wallet2)).toBe(before + 2n * SBTC - BID_PRICE);
+      expect(getBid(bidId)).toBeNone();
+      expect(simnet.callPublicFn("market", "cancel-bid", [Cl.uint(bidId)], wallet2).result).toBeErr(Cl.uint(404));
+    });
+
+    it("place-bid validates price, amount and range", () => {
+      const place = (min: bigint, max: bigint, price: bigint, amount: bigint) =>
+        simnet.callPublicFn("market", "place-bid", [Cl.uint(min), Cl.uint(max), Cl.uint(price), Cl.uint(amount)], wallet2).result;
+
+      expect(place(0n, 100n, 0n, SBTC)).toBeErr(Cl.uint(402));
+      expect(place(0n, 100n, SBTC + 1n, SBTC)).toBeErr(Cl.uint(408));
+      expect(place(0n, 100n, BID_PRICE, 0n)).toBeErr(Cl.uint(406));
+      expect(place(101n, 100n, BID_PRICE, SBTC)).toBeErr(Cl.uint(407));
+      expect(simnet.callPublicFn("market", "place-bond-bid", [Cl.uint(999), Cl.uint(BID_PRICE), Cl.uint(SBTC)], wallet2).result)
+        .toBeErr(Cl.uint(200));
+    });
+  });
 });
@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import { Cl, Pc } from "@stacks/transactions";
+// The builders make @stacks/transactions v6 post-conditions. Their wire bytes
+// are the same in v7, whose Pc.fromHex reads them back as plain objects.
+import { serializePostCondition } from "../packages/contracts/node_modules/@stacks/transactions";
+import type { PostCondition } from "../packages/contracts/node_modules/@stacks/transactions";
+import {
+  BondFactory,
+  Market,
+  PtAmm,
+  PtVault,
+  YtVault,
+  buyListingPostConditions,
+  cancelBidPostConditions,
+  cancelListingPostConditions,
+  claimPostConditions,
+  collectYieldPostConditions,
+  combinePostConditions,
+  createBondPostConditions,
+  depositYieldPostConditions,
+  harvestPostConditions,
+  listPostConditions,
+  placeBidPostConditions,
+  redeemPrincipalPostConditions,
+  redeemSharesPostConditions,
+  sellIntoBidPostConditions,
+  settlePostConditions,
+  swapPtForSbtcPostConditions,
+  swapSbtcForPtPostConditions,
+  unwrapPostConditions,
+  wrapPostConditions,
+} from "../packages/contracts/src";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const WALLET   = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const SBTC     = 100_000_000n;
+
+const SBTC_ASSET = `${DEPLOYER}.sbtc-token::sbtc-token`;
+const PT_ASSET   = `${DEPLOYER}.bond-factory::principal-token`;
+const YT_ASSET   = `${DEPLOYER}.bond-factory::yield-token`;
+
+const bondFactory = new BondFactory(`${DEPLOYER}.bond-factory`);
+const market      = new Market(`${DEPLOYER}.market`);
+const ptAmm       = new PtAmm(`${DEPLOYER}.pt-amm`);
+const ptVault     = new PtVault(`${DEPLOYER}.pt-vault`);
+const ytVault     = new YtVault(`${DEPLOYER}.yt-vault-2`);
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+function decode(conditions: PostCondition[]) {
+  return conditions.map((pc) => Pc.fromHex(Buffer.from(serializePostCondition(pc)).toString("hex")));
+}
+
+function sbtc(address: string, condition: string, amount: bigint) {
+  return { type: "ft-postcondition", address, condition, asset: SBTC_ASSET, amount: amount.toString() };
+}
+
+function nftSent(address: string, asset: string, bondId: number) {
+  return { type: "nft-postcondition", address, condition: "sent", asset, assetId: Cl.uint(bondId) };
+}
+
+function shares(address: string, asset: string, amount: bigint) {
+  return { type: "ft-postcondition", address, condition: "eq", asset, amount: amount.toString() };
+}
+
+// -----------------------------------------------------------------------
+
+describe("post-condition builders", () => {
+  describe("bond-factory", () => {
+    it("create-bond: exactly the amount leaves the creator", () => {
+      expect(decode(createBondPostConditions(bondFactory, WALLET, SBTC))).toEqual([
+        sbtc(WALLET, "eq", SBTC),
+      ]);
+    });
+
+    it("deposit-yield: at most the batch total leaves the relayer", () => {
+      expect(decode(depositYieldPostConditions(bondFactory, DEPLOYER, 12_345n))).toEqual([
+        sbtc(DEPLOYER, "lte", 12_345n),
+      ]);
+    });
+
+    it("collect-yield: bond-factory pays at least the yield shown", () => {
+      expect(decode(collectYieldPostConditions(bondFactory, 500n))).toEqual([
+        sbtc(bondFactory.contractId, "gte", 500n),
+      ]);
+    });
+
+    it("redeem-principal: the PT is burned for exactly its face value", () => {
+      expect(decode(redeemPrincipalPostConditions(bondFactory, 3, WALLET, SBTC))).toEqual([
+        nftSent(WALLET, PT_ASSET, 3),
+        sbtc(bondFactory.contractId, "eq", SBTC),
+      ]);
+    });
+
+    it("combine: PT and YT are burned for the principal plus the yield shown", () => {
+      expect(decode(combinePostConditions(bondFactory, 3, WALLET, SBTC, 700n))).toEqual([
+        nftSent(WALLET, PT_ASSET, 3),
+        nftSent(WALLET, YT_ASSET, 3),
+        sbtc(bondFactory.contractId, "gte", SBTC + 700n),
+      ]);
+    });
+  });
+
+  describe("market", () => {
+    it("list: the seller's NFT goes into escrow", () => {
+      expect(decode(listPostConditions(market, "PT", 4, WALLET))).toEqual([nftSent(WALLET, PT_ASSET, 4)]);
+      expect(decode(listPostConditions(market, "YT", 4, WALLET))).toEqual([nftSent(WALLET, YT_ASSET, 4)]);
+    });
+
+    it("cancel: the market returns the NFT", () => {
+      expect(decode(cancelListingPostConditions(market, "YT", 4))).toEqual([
+        nftSent(market.contractId, YT_ASSET, 4),
+      ]);
+    });
+
+    it("buy: at most the shown price leaves the buyer, and the market releases the NFT", () => {
+      expect(decode(buyListingPostConditions(market, "PT", 4, WALLET, 90_000_000n))).toEqual([
+        sbtc(WALLET, "lte", 90_000_000n),
+        nftSent(market.contractId, PT_ASSET, 4),
+      ]);
+      expect(decode(market.buyYt(4, 90_000_000n, WALLET).postConditions!)).toEqual([
+        sbtc(WALLET, "lte", 90_000_000n),
+        nftSent(market.contractId, YT_ASSET, 4),
+      ]);
+    });
+
+    it("bids: escrow in, refund and fill out", () => {
+      expect(decode(placeBidPostConditions(market, WALLET, SBTC))).toEqual([sbtc(WALLET, "eq", SBTC)]);
+      expect(decode(cancelBidPostConditions(market, SBTC))).toEqual([sbtc(market.contractId, "lte", SBTC)]);
+      expect(decode(sellIntoBidPostConditions(market, 5, WALLET, 95_000_000n))).toEqual([
+        nftSent(WALLET, PT_ASSET, 5),
+        sbtc(market.contractId, "eq", 95_000_000n),
+      ]);
+    });
+  });
+
+  describe("pt-amm", () => {
+    it("swaps bound the sBTC side by the slippage limit", () => {
+      expect(decode(swapPtForSbtcPostConditions(ptAmm, 6, WALLET, 80_000_000n))).toEqual([
+        nftSent(WALLET, PT_ASSET, 6),
+        sbtc(ptAmm.contractId, "gte", 80_000_000n),
+      ]);
+      expect(decode(swapSbtcForPtPostConditions(ptAmm, 6, WALLET, 92_000_000n))).toEqual([
+        sbtc(WALLET, "lte", 92_000_000n),
+        nftSent(ptAmm.contractId, PT_ASSET, 6),
+      ]);
+    });
+  });
+
+  describe("vaults", () => {
+    const PT_SHARE = `${DEPLOYER}.pt-vault::pt-share`;
+    const YT_SHARE = `${DEPLOYER}.yt-vault-2::yt-share`;
+
+    it("wrap: the NFT goes in; wrap-yt also pays out the YT's yield", () => {
+      expect(decode(wrapPostConditions(ptVault, 7, WALLET))).toEqual([nftSent(WALLET, PT_ASSET, 7)]);
+      expect(decode(wrapPostConditions(ytVault, 7, WALLET, 300n))).toEqual([
+        nftSent(WALLET, YT_ASSET, 7),
+        sbtc(bondFactory.contractId, "gte", 300n),
+      ]);
+    });
+
+    it("unwrap: shares are burned for the NFT; unwrap-yt harvests first", () => {
+      expect(decode(unwrapPostConditions(ptVault, 7, WALLET, SBTC))).toEqual([
+        shares(WALLET, PT_SHARE, SBTC),
+        nftSent(ptVault.contractId, PT_ASSET, 7),
+      ]);
+      expect(decode(unwrapPostConditions(ytVault, 7, WALLET, SBTC))).toEqual([
+        shares(WALLET, YT_SHARE, SBTC),
+        nftSent(ytVault.contractId, YT_ASSET, 7),
+        sbtc(bondFactory.contractId, "gte", 0n),
+      ]);
+    });
+
+    it("settle, harvest and claim move sBTC between the contracts and holders", () => {
+      expect(decode(settlePostConditions(ptVault, 7, SBTC))).toEqual([
+        nftSent(ptVault.contractId, PT_ASSET, 7),
+        sbtc(bondFactory.contractId, "eq", SBTC),
+      ]);
+      expect(decode(harvestPostConditions(ytVault, 400n))).toEqual([sbtc(bondFactory.contractId, "gte", 400n)]);
+      expect(decode(claimPostConditions(ytVault, 400n))).toEqual([sbtc(ytVault.contractId, "gte", 400n)]);
+    });
+
+    it("redeem: shares are burned for sats, one to one in a PT vault", () => {
+      expect(decode(redeemSharesPostConditions(ptVault, WALLET, SBTC))).toEqual([
+        shares(WALLET, PT_SHARE, SBTC),
+        sbtc(ptVault.contractId, "eq", SBTC),
+      ]);
+      expect(decode(redeemSharesPostConditions(ytVault, WALLET, SBTC, 250n))).toEqual([
+        shares(WALLET, YT_SHARE, SBTC),
+        sbtc(ytVault.contractId, "gte", 250n),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.LOG_LEVEL = "silent";
+  // Test files share one module cache; reload the logger with this level.
+  vi.resetModules();
+});
+
+import { aggregateQuotes, deviationBps, fetchQuotes, pushReason } from "../apps/bot/src/prices";
+import type { MarketPrices, OnChainPrices } from "../apps/bot/src/prices";
+import type { Asset, PriceSource } from "../apps/bot/src/priceSources";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+const MAX_DEVIATION_PCT = 2;
+const QUORUM = 2;
+
+const THRESHOLD_BPS = 50;
+const HEARTBEAT_MARGIN = 60;
+
+function quotes(...prices: number[]) {
+  return prices.map((price, i) => ({ source: `s${i}`, price }));
+}
+
+/** A source quoting fixed prices; an asset it has no price for fails. */
+function source(name: string, prices: Partial<Record<Asset, number>>): PriceSource {
+  return {
+    name,
+    fetchPrice: async (asset) => {
+      const price = prices[asset];
+      if (price === undefined) throw new Error(`${name} ${asset} unavailable`);
+      return price;
+    },
+  };
+}
+
+function market(btcUsd: bigint, stxUsd: bigint): MarketPrices {
+  return { btcUsd, stxUsd, sources: { btc: ["s0", "s1"], stx: ["s0", "s1"] } };
+}
+
+/** BTC at $100,000 and STX at $2, last updated `age` blocks ago with a 1,000-block staleness window. */
+function onChain(age: bigint, overrides: Partial<OnChainPrices> = {}): OnChainPrices {
+  return {
+    btcUsd: 100_000_000_000n,
+    stxUsd: 2_000_000n,
+    updatedBlock: 5_000n,
+    tipHeight: 5_000n + age,
+    maxAgeBlocks: 1_000n,
+    ...overrides,
+  };
+}
+
+// -----------------------------------------------------------------------
+
+describe("aggregateQuotes", () => {
+  it("prices at the median of the quotes near the overall median", () => {
+    const agg = aggregateQuotes(quotes(100, 101, 99.5, 130), MAX_DEVIATION_PCT, QUORUM, "BTC");
+
+    expect(agg.price).toBe(100);
+    expect(agg.used.map((q) => q.source)).toEqual(["s0", "s1", "s2"]);
+    expect(agg.rejected).toEqual([{ source: "s3", price: 130 }]);
+  });
+
+  it("keeps quotes exactly at the deviation limit", () => {
+    const agg = aggregateQuotes(quotes(98, 100, 102), MAX_DEVIATION_PCT, QUORUM, "BTC");
+    expect(agg.rejected).toEqual([]);
+    expect(agg.price).toBe(100);
+  });
+
+  it("averages the middle pair of an even number of quotes", () => {
+    expect(aggregateQuotes(quotes(100, 101), MAX_DEVIATION_PCT, QUORUM, "STX").price).toBe(100.5);
+  });
+
+  it("refuses to price with no quotes", () => {
+    expect(() => aggregateQuotes([], MAX_DEVIATION_PCT, QUORUM, "BTC")).toThrow(/BTC: only 0 source\(s\) responded/);
+  });
+
+  it("refuses to price below quorum", () => {
+    expect(() => aggregateQuotes(quotes(100), MAX_DEVIATION_PCT, QUORUM, "BTC")).toThrow(/quorum is 2/);
+  });
+
+  it("refuses to price when every quote is an outlier", () => {
+    expect(() => aggregateQuotes(quotes(100, 200), MAX_DEVIATION_PCT, QUORUM, "STX"))
+      .toThrow(/STX: only 0 source\(s\) within 2% of median \$150/);
+  });
+
+  it("refuses to price when outliers leave too few quotes", () => {
+    expect(() => aggregateQuotes(quotes(100, 101, 120, 130), MAX_DEVIATION_PCT, 3, "BTC"))
+      .toThrow(/only 0 source\(s\) within/);
+    expect(() => aggregateQuotes(quotes(100, 100.5, 101, 150), MAX_DEVIATION_PCT, 4, "BTC"))
+      .toThrow(/only 3 source\(s\) within/);
+  });
+});
+
+describe("fetchQuotes", () => {
+  it("keeps a source's quote for one asset when the other fails", async () => {
+    const sources = [
+      source("kraken", { BTC: 100_000, STX: 2 }),
+      source("coinbase", { BTC: 100_100 }),
+      source("binance", { STX: 2.01 }),
+    ];
+
+    expect(await fetchQuotes(sources, "BTC")).toEqual([
+      { source: "kraken", price: 100_000 },
+      { source: "coinbase", price: 100_100 },
+    ]);
+    expect(await fetchQuotes(sources, "STX")).toEqual([
+      { source: "kraken", price: 2 },
+      { source: "binance", price: 2.01 },
+    ]);
+  });
+
+  it("still meets quorum for the asset a failing source quoted", async () => {
+    const sources = [source("kraken", { BTC: 100_000, STX: 2 }), source("coinbase", { BTC: 100_100 })];
+
+    const btc = aggregateQuotes(await fetchQuotes(sources, "BTC"), MAX_DEVIATION_PCT, QUORUM, "BTC");
+    expect(btc.used.map((q) => q.source)).toEqual(["kraken", "coinbase"]);
+    const stx = await fetchQuotes(sources, "STX");
+    expect(() => aggregateQuotes(stx, MAX_DEVIATION_PCT, QUORUM, "STX")).toThrow(/STX: only 1 source\(s\) responded/);
+  });
+});
+
+describe("deviationBps", () => {
+  it("measures moves either way against the previous price", () => {
+    expect(deviationBps(1_005_000n, 1_000_000n)).toBe(50n);
+    expect(deviationBps(995_000n, 1_000_000n)).toBe(50n);
+    expect(deviationBps(1_000_000n, 0n)).toBe(0n);
+  });
+});
+
+describe("pushReason", () => {
+  const UNCHANGED = market(100_000_000_000n, 2_000_000n);
+
+  it("pushes when the oracle has never been set", () => {
+    expect(pushReason(UNCHANGED, onChain(0n, { btcUsd: 0n }), THRESHOLD_BPS, HEARTBEAT_MARGIN))
+      .toBe("oracle has no price yet");
+    expect(pushReason(UNCHANGED, onChain(0n, { stxUsd: 0n }), THRESHOLD_BPS, HEARTBEAT_MARGIN))
+      .toBe("oracle has no price yet");
+  });
+
+  it("skips unchanged prices until the heartbeat margin", () => {
+    expect(pushReason(UNCHANGED, onChain(939n), THRESHOLD_BPS, HEARTBEAT_MARGIN)).toBeNull();
+    expect(pushReason(UNCHANGED, onChain(940n), THRESHOLD_BPS, HEARTBEAT_MARGIN)).toMatch(/^heartbeat — last update 940 blocks ago/);
+  });
+
+  it("pushes a move of at least the threshold in either asset", () => {
+    const btcUp = market(100_500_000_000n, 2_000_000n);
+    const stxDown = market(100_000_000_000n, 1_990_000n);
+    const small = market(100_490_000_000n, 2_009_000n);
+
+    expect(pushReason(btcUp, onChain(1n), THRESHOLD_BPS, HEARTBEAT_MARGIN)).toBe("deviation — BTC 50 bps, STX 0 bps (threshold 50)");
+    expect(pushReason(stxDown, onChain(1n), THRESHOLD_BPS, HEARTBEAT_MARGIN)).toBe("deviation — BTC 0 bps, STX 50 bps (threshold 50)");
+    expect(pushReason(small, onChain(1n), THRESHOLD_BPS, HEARTBEAT_MARGIN)).toBeNull();
+  });
+
+  it("reports the heartbeat ahead of a deviation", () => {
+    const moved = market(110_000_000_000n, 2_000_000n);
+    expect(pushReason(moved, onChain(1_000n), THRESHOLD_BPS, HEARTBEAT_MARGIN)).toMatch(/^heartbeat/);
+  });
+});
@@ -0,0 +1,533 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { Cl, ClarityType } from "@stacks/transactions";
+import {
+  BPS,
+  FEE_BPS,
+  ONE,
+  ptPrice,
+  quoteBuyPt,
+  quoteSellPt,
+  spotPrice,
+  sharesForDeposit,
+  lpShareValue,
+  poolValue,
+} from "../apps/web/src/lib/amm";
+import type { AmmPool } from "../packages/types/src";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const SBTC     = 100_000_000n; // 1 sBTC in satoshis
+const TERM_1Y  = 6_307_200n;
+const TERM_2Y  = 12_614_400n;
+const ANCHOR   = 500n;         // 5% implied rate at a balanced pool
+
+let deployer: string;
+let wallet1:  string;
+let wallet2:  string;
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+/** Deterministic PRNG (mulberry32) so failures are reproducible. */
+function prng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBig(rand: () => number, max: number): bigint {
+  return BigInt(Math.floor(rand() * max));
+}
+
+function mintSbtc() {
+  const amount = Cl.uint(10_000_000_000n); // 100 sBTC
+  for (const who of [deployer, wallet1, wallet2]) {
+    simnet.callPublicFn("sbtc-token", "mint", [amount, Cl.principal(who)], deployer);
+  }
+}
+
+function createBond(sender: string, amount = SBTC, term = TERM_1Y): bigint {
+  const { result } = simnet.callPublicFn("bond-factory", "create-bond", [Cl.uint(amount), Cl.uint(term)], sender);
+  expect(result).toHaveProperty("type", ClarityType.ResponseOk);
+  return (result as any).value.value;
+}
+
+/** A pool taking every bond that matures within two years from now. */
+function createPool(anchor = ANCHOR): bigint {
+  const maturity = BigInt(simnet.burnBlockHeight) + TERM_2Y + 10n;
+  const { result } = simnet.callPublicFn(
+    "pt-amm", "create-pool", [Cl.uint(0), Cl.uint(maturity), Cl.uint(anchor)], deployer
+  );
+  expect(result).toHaveProperty("type", ClarityType.ResponseOk);
+  return (result as any).value.value;
+}
+
+function addLiquidity(sender: string, poolId: bigint, bondIds: bigint[], sbtc: bigint) {
+  return simnet.callPublicFn(
+    "pt-amm", "add-liquidity",
+    [Cl.uint(poolId), Cl.list(bondIds.map((id) => Cl.uint(id))), Cl.uint(sbtc)],
+    sender
+  ).result;
+}
+
+function getPool(poolId: bigint): AmmPool {
+  const { result } = simnet.callReadOnlyFn("pt-amm", "get-pool", [Cl.uint(poolId)], deployer);
+  const f = (result as any).value.value;
+  return {
+    poolId:        Number(poolId),
+    minMaturity:   Number(f["min-maturity"].value),
+    maturityBlock: Number(f["maturity-block"].value),
+    anchorRateBps: f["anchor-rate-bps"].value,
+    sbtcReserve:   f["sbtc-reserve"].value,
+    ptReserve:     f["pt-reserve"].value,
+    totalShares:   f["total-shares"].value,
+  };
+}
+
+function readUint(fn: string, args: ReturnType<typeof Cl.uint>[]) {
+  return simnet.callReadOnlyFn("pt-amm", fn, args, deployer).result;
+}
+
+function lpShares(poolId: bigint, owner: string): bigint {
+  const { result } = simnet.callReadOnlyFn(
+    "pt-amm", "get-lp-shares", [Cl.uint(poolId), Cl.principal(owner)], deployer
+  );
+  return (result as any).value;
+}
+
+function sbtcBalance(address: string): bigint {
+  const { result } = simnet.callReadOnlyFn("sbtc-token", "get-balance", [Cl.principal(address)], deployer);
+  return (result as any).value.value;
+}
+
+function maturityOf(bondId: bigint): number {
+  const { result } = simnet.callReadOnlyFn("bond-factory", "get-bond", [Cl.uint(bondId)], deployer);
+  return Number((result as any).value.value["maturity-block"].value);
+}
+
+function getPtOwner(bondId: bigint) {
+  return simnet.callReadOnlyFn("bond-factory", "get-pt-owner", [Cl.uint(bondId)], deployer).result;
+}
+
+/** A pool seeded with 2 sBTC and one 1-sBTC PT, by wallet1. */
+function seededPool(): { poolId: bigint; bondId: bigint } {
+  const poolId = createPool();
+  const bondId = createBond(wallet1);
+  expect(addLiquidity(wallet1, poolId, [bondId], 2n * SBTC)).toHaveProperty("type", ClarityType.ResponseOk);
+  return { poolId, bondId };
+}
+
+// -----------------------------------------------------------------------
+
+describe("pt-amm", () => {
+  beforeAll(() => {
+    const accounts = simnet.getAccounts();
+    deployer = accounts.get("deployer")!;
+    wallet1  = accounts.get("wallet_1")!;
+    wallet2  = accounts.get("wallet_2")!;
+  });
+
+  beforeEach(() => {
+    mintSbtc();
+  });
+
+  // =====================================================================
+  // Pools
+  // =====================================================================
+  describe("create-pool", () => {
+    it("assigns sequential ids and starts empty", () => {
+      expect(createPool()).toBe(0n);
+      expect(createPool()).toBe(1n);
+      expect(simnet.callReadOnlyFn("pt-amm", "get-pool-count", [], deployer).result).toBeOk(Cl.uint(2));
+
+      const pool = getPool(0n);
+      expect(pool.anchorRateBps).toBe(ANCHOR);
+      expect(pool.sbtcReserve).toBe(0n);
+      expect(pool.ptReserve).toBe(0n);
+      expect(pool.totalShares).toBe(0n);
+    });
+
+    it("is owner-only and rejects empty or past ranges", () => {
+      const h = BigInt(simnet.burnBlockHeight);
+      const call = (min: bigint, max: bigint, sender = deployer) =>
+        simnet.callPublicFn("pt-amm", "create-pool", [Cl.uint(min), Cl.uint(max), Cl.uint(ANCHOR)], sender).result;
+
+      expect(call(0n, h + 100n, wallet1)).toBeErr(Cl.uint(500));
+      expect(call(h + 200n, h + 100n)).toBeErr(Cl.uint(502));
+      expect(call(0n, 1n)).toBeErr(Cl.uint(503));
+    });
+  });
+
+  // =====================================================================
+  // Liquidity
+  // =====================================================================
+  describe("liquidity", () => {
+    it("first deposit mints shares equal to its value at spot and escrows the PT", () => {
+      const poolId = createPool();
+      const bondId = createBond(wallet1);
+      const before = getPool(poolId);
+      const expected = sharesForDeposit(before, 2n * SBTC, SBTC, simnet.burnBlockHeight);
+
+      expect(addLiquidity(wallet1, poolId, [bondId], 2n * SBTC)).toBeOk(Cl.uint(expected));
+      expect(lpShares(poolId, wallet1)).toBe(expected);
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(`${deployer}.pt-amm`));
+      expect(readUint("get-pool-of-pt", [Cl.uint(bondId)])).toBeSome(Cl.uint(poolId));
+
+      const pool = getPool(poolId);
+      expect(pool.sbtcReserve).toBe(2n * SBTC);
+      expect(pool.ptReserve).toBe(SBTC);
+      expect(pool.totalShares).toBe(expected);
+    });
+
+    it("later deposits mint pro rata to pool value", () => {
+      const { poolId } = seededPool();
+      const pool = getPool(poolId);
+      const expected = sharesForDeposit(pool, SBTC, 0n, simnet.burnBlockHeight);
+
+      expect(addLiquidity(wallet2, poolId, [], SBTC)).toBeOk(Cl.uint(expected));
+      expect(lpShares(poolId, wallet2)).toBe(expected);
+    });
+
+    it("rejects PTs outside the pool's maturity range", () => {
+      const h = BigInt(simnet.burnBlockHeight);
+      simnet.callPublicFn("pt-amm", "create-pool", [Cl.uint(0), Cl.uint(h + 1_000n), Cl.uint(ANCHOR)], deployer);
+      const bondId = createBond(wallet1);
+
+      expect(addLiquidity(wallet1, 0n, [bondId], 0n)).toBeErr(Cl.uint(504));
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(wallet1));
+    });
+
+    it("rejects a deposit worth nothing", () => {
+      const poolId = createPool();
+      expect(addLiquidity(wallet1, poolId, [], 0n)).toBeErr(Cl.uint(508));
+    });
+
+    it("remove-liquidity returns named PTs and the rest of the share in sBTC", () => {
+      const { poolId, bondId } = seededPool();
+      const shares = lpShares(poolId, wallet1);
+      const balance = sbtcBalance(wallet1);
+
+      const { result } = simnet.callPublicFn(
+        "pt-amm", "remove-liquidity", [Cl.uint(poolId), Cl.uint(shares), Cl.list([Cl.uint(bondId)])], wallet1
+      );
+      expect(result).toBeOk(Cl.tuple({ "sbtc-amount": Cl.uint(2n * SBTC), "pt-face": Cl.uint(SBTC) }));
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(wallet1));
+      expect(sbtcBalance(wallet1)).toBe(balance + 2n * SBTC);
+      expect(readUint("get-pool-of-pt", [Cl.uint(bondId)])).toBeNone();
+
+      const pool = getPool(poolId);
+      expect(pool.sbtcReserve).toBe(0n);
+      expect(pool.ptReserve).toBe(0n);
+      expect(pool.totalShares).toBe(0n);
+    });
+
+    it("remove-liquidity sells an unclaimed PT share at the post-trade price, less the fee", () => {
+      const { poolId } = seededPool();
+      addLiquidity(wallet2, poolId, [], 3n * SBTC);
+      const pool = getPool(poolId);
+      const shares = lpShares(poolId, wallet1) / 2n;
+      const sbtcShare = (pool.sbtcReserve * shares) / pool.totalShares;
+      const ptShare = (pool.ptReserve * shares) / pool.totalShares;
+      // The PT stays in the pool; only the sBTC paid out leaves it.
+      const price = spotPrice({ ...pool, sbtcReserve: pool.sbtcReserve - sbtcShare }, simnet.burnBlockHeight);
+
+      const { result } = simnet.callPublicFn(
+        "pt-amm", "remove-liquidity", [Cl.uint(poolId), Cl.uint(shares), Cl.list([])], wallet1
+      );
+      expect(result).toBeOk(Cl.tuple({
+        "sbtc-amount": Cl.uint(sbtcShare + (((ptShare * price) / ONE) * (BPS - FEE_BPS)) / BPS),
+        "pt-face": Cl.uint(0),
+      }));
+    });
+
+    it("adding a PT and withdrawing sBTC pays no more than selling it", () => {
+      for (const seedSbtc of [2n * SBTC, 20n * SBTC]) {
+        const { poolId } = seededPool();
+        addLiquidity(wallet1, poolId, [], seedSbtc - 2n * SBTC);
+        const bondId = createBond(wallet2);
+        const sale = quoteSellPt(getPool(poolId), SBTC, maturityOf(bondId), simnet.burnBlockHeight);
+        expect(sale.ok).toBe(true);
+
+        const balance = sbtcBalance(wallet2);
+        addLiquidity(wallet2, poolId, [bondId], 0n);
+        simnet.callPublicFn(
+          "pt-amm", "remove-liquidity", [Cl.uint(poolId), Cl.uint(lpShares(poolId, wallet2)), Cl.list([])], wallet2
+        );
+        expect(sbtcBalance(wallet2) - balance).toBeLessThanOrEqual(sale.ok ? sale.sbtc : 0n);
+      }
+    });
+
+    it("adding sBTC and withdrawing a PT costs no less than buying it", () => {
+      const poolId = createPool();
+      const bondIds = [createBond(wallet1), createBond(wallet1)];
+      addLiquidity(wallet1, poolId, bondIds, 2n * SBTC);
+      const purchase = quoteBuyPt(getPool(poolId), SBTC, maturityOf(bondIds[0]!), simnet.burnBlockHeight);
+      expect(purchase.ok).toBe(true);
+
+      // Twice the pool's value buys a share of more than one bond's face.
+      const deposit = 2n * poolValue(getPool(poolId), simnet.burnBlockHeight);
+      const balance = sbtcBalance(wallet2);
+      addLiquidity(wallet2, poolId, [], deposit);
+      const shares = lpShares(poolId, wallet2);
+      const after = getPool(poolId);
+      expect((after.ptReserve * shares) / after.totalShares).toBeGreaterThan(SBTC);
+
+      simnet.callPublicFn(
+        "pt-amm", "remove-liquidity", [Cl.uint(poolId), Cl.uint(shares), Cl.list([Cl.uint(bondIds[0]!)])], wallet2
+      );
+      expect(getPtOwner(bondIds[0]!)).toBeSome(Cl.principal(wallet2));
+      expect(balance - sbtcBalance(wallet2)).toBeGreaterThanOrEqual(purchase.ok ? purchase.sbtc : 0n);
+    });
+
+    it("remove-liquidity rejects more shares than held, or PTs beyond the share", () => {
+      const { poolId, bondId } = seededPool();
+      addLiquidity(wallet2, poolId, [], 3n * SBTC);
+      const shares = lpShares(poolId, wallet2);
+
+      const remove = (amount: bigint, ids: bigint[], sender = wallet2) => simnet.callPublicFn(
+        "pt-amm", "remove-liquidity", [Cl.uint(poolId), Cl.uint(amount), Cl.list(ids.map((id) => Cl.uint(id)))], sender
+      ).result;
+
+      expect(remove(shares + 1n, [])).toBeErr(Cl.uint(509));
+      expect(remove(shares / 10n, [bondId])).toBeErr(Cl.uint(510));
+      expect(remove(shares, [42n])).toBeErr(Cl.uint(505));
+    });
+  });
+
+  // =====================================================================
+  // Swaps
+  // =====================================================================
+  describe("swaps", () => {
+    it("swap-pt-for-sbtc pays the quote and takes the PT", () => {
+      const { poolId } = seededPool();
+      const bondId = createBond(wallet2);
+      const quote = quoteSellPt(getPool(poolId), SBTC, maturityOf(bondId), simnet.burnBlockHeight);
+      expect(quote.ok).toBe(true);
+      const out = quote.ok ? quote.sbtc : 0n;
+      const balance = sbtcBalance(wallet2);
+
+      const { result } = simnet.callPublicFn(
+        "pt-amm", "swap-pt-for-sbtc", [Cl.uint(poolId), Cl.uint(bondId), Cl.uint(out)], wallet2
+      );
+      expect(result).toBeOk(Cl.uint(out));
+      expect(out).toBeLessThan(SBTC);
+      expect(sbtcBalance(wallet2)).toBe(balance + out);
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(`${deployer}.pt-amm`));
+
+      const pool = getPool(poolId);
+      expect(pool.ptReserve).toBe(2n * SBTC);
+      expect(pool.sbtcReserve).toBe(2n * SBTC - out);
+    });
+
+    it("swap-pt-for-sbtc enforces min-sbtc-out", () => {
+      const { poolId } = seededPool();
+      const bondId = createBond(wallet2);
+      const { result } = simnet.callPublicFn(
+        "pt-amm", "swap-pt-for-sbtc", [Cl.uint(poolId), Cl.uint(bondId), Cl.uint(SBTC)], wallet2
+      );
+      expect(result).toBeErr(Cl.uint(506));
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(wallet2));
+    });
+
+    it("swap-pt-for-sbtc fails when the pool lacks sBTC", () => {
+      const poolId = createPool();
+      addLiquidity(wallet1, poolId, [createBond(wallet1)], 0n);
+      const bondId = createBond(wallet2);
+      const { result } = simnet.callPublicFn(
+        "pt-amm", "swap-pt-for-sbtc", [Cl.uint(poolId), Cl.uint(bondId), Cl.uint(0)], wallet2
+      );
+      expect(result).toBeErr(Cl.uint(507));
+    });
+
+    it("swap-sbtc-for-pt charges the quote and delivers the PT", () => {
+      const { poolId, bondId } = seededPool();
+      const quote = quoteBuyPt(getPool(poolId), SBTC, maturityOf(bondId), simnet.burnBlockHeight);
+      const cost = quote.ok ? quote.sbtc : 0n;
+      const balance = sbtcBalance(wallet2);
+
+      const { result } = simnet.callPublicFn(
+        "pt-amm", "swap-sbtc-for-pt", [Cl.uint(poolId), Cl.uint(bondId), Cl.uint(cost)], wallet2
+      );
+      expect(result).toBeOk(Cl.uint(cost));
+      expect(sbtcBalance(wallet2)).toBe(balance - cost);
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(wallet2));
+      expect(readUint("get-pool-of-pt", [Cl.uint(bondId)])).toBeNone();
+      expect(getPool(poolId).ptReserve).toBe(0n);
+    });
+
+    it("swap-sbtc-for-pt enforces max-sbtc-in and pool membership", () => {
+      const { poolId, bondId } = seededPool();
+      const other = createBond(wallet2);
+      const swap = (id: bigint, max: bigint) => simnet.callPublicFn(
+        "pt-amm", "swap-sbtc-for-pt", [Cl.uint(poolId), Cl.uint(id), Cl.uint(max)], wallet2
+      ).result;
+
+      expect(swap(bondId, 1n)).toBeErr(Cl.uint(506));
+      expect(swap(other, SBTC)).toBeErr(Cl.uint(505));
+    });
+
+    it("prices a PT at its own maturity, so a matured one never sells below face", () => {
+      const poolId = createPool();
+      const matured = createBond(wallet1, SBTC, 100n);
+      const longer = createBond(wallet1);
+      addLiquidity(wallet1, poolId, [matured, longer], 2n * SBTC);
+      simnet.mineEmptyBlocks(100);
+
+      const pool = getPool(poolId);
+      const quote = quoteBuyPt(pool, SBTC, maturityOf(matured), simnet.burnBlockHeight);
+      const longerQuote = quoteBuyPt(pool, SBTC, maturityOf(longer), simnet.burnBlockHeight);
+      expect(quote).toEqual({ ok: true, sbtc: (SBTC * (BPS + FEE_BPS)) / BPS });
+      expect(longerQuote.ok && longerQuote.sbtc < SBTC).toBe(true);
+
+      const balance = sbtcBalance(wallet2);
+      expect(simnet.callPublicFn(
+        "pt-amm", "swap-sbtc-for-pt", [Cl.uint(poolId), Cl.uint(matured), Cl.uint(SBTC * 2n)], wallet2
+      ).result).toBeOk(Cl.uint(quote.ok ? quote.sbtc : 0n));
+      expect(simnet.callPublicFn("bond-factory", "redeem-principal", [Cl.uint(matured)], wallet2).result)
+        .toBeOk(Cl.uint(SBTC));
+      expect(sbtcBalance(wallet2)).toBeLessThan(balance);
+    });
+
+    it("pays more for a PT that matures before the pool", () => {
+      const { poolId } = seededPool();
+      const sooner = createBond(wallet2, SBTC, 1_000n);
+      const pool = getPool(poolId);
+      const quote = quoteSellPt(pool, SBTC, maturityOf(sooner), simnet.burnBlockHeight);
+      const atPool = quoteSellPt(pool, SBTC, pool.maturityBlock, simnet.burnBlockHeight);
+      expect(quote.ok && atPool.ok && quote.sbtc > atPool.sbtc).toBe(true);
+
+      expect(simnet.callPublicFn(
+        "pt-amm", "swap-pt-for-sbtc", [Cl.uint(poolId), Cl.uint(sooner), Cl.uint(0)], wallet2
+      ).result).toBeOk(Cl.uint(quote.ok ? quote.sbtc : 0n));
+    });
+
+    it("buying back right after selling costs more than the sale paid", () => {
+      const { poolId } = seededPool();
+      const bondId = createBond(wallet2);
+      const sold = simnet.callPublicFn(
+        "pt-amm", "swap-pt-for-sbtc", [Cl.uint(poolId), Cl.uint(bondId), Cl.uint(0)], wallet2
+      ).result;
+      const bought = simnet.callPublicFn(
+        "pt-amm", "swap-sbtc-for-pt", [Cl.uint(poolId), Cl.uint(bondId), Cl.uint(SBTC)], wallet2
+      ).result;
+      expect((bought as any).value.value).toBeGreaterThan((sold as any).value.value);
+    });
+  });
+
+  // =====================================================================
+  // Maturity
+  // =====================================================================
+  describe("maturity", () => {
+    it("spot price converges to face value at the pool's maturity", () => {
+      const h = BigInt(simnet.burnBlockHeight);
+      simnet.callPublicFn("pt-amm", "create-pool", [Cl.uint(0), Cl.uint(h + 3_000n), Cl.uint(ANCHOR)], deployer);
+      addLiquidity(wallet1, 0n, [createBond(wallet1, SBTC, 2_000n)], 2n * SBTC);
+      const spot = () => (readUint("get-spot-price", [Cl.uint(0)]) as any).value.value as bigint;
+
+      const early = spot();
+      simnet.mineEmptyBlocks(2_000);
+      const later = spot();
+      expect(early).toBeLessThan(later);
+      expect(later).toBeLessThan(ONE);
+
+      simnet.mineEmptyBlocks(getPool(0n).maturityBlock - simnet.burnBlockHeight);
+      expect(spot()).toBe(ONE);
+    });
+
+    it("redeem-matured moves a matured PT's face value to the sBTC side", () => {
+      const poolId = createPool();
+      const bondId = createBond(wallet1, SBTC, 100n);
+      addLiquidity(wallet1, poolId, [bondId], SBTC);
+
+      expect(simnet.callPublicFn("pt-amm", "redeem-matured", [Cl.uint(poolId), Cl.uint(bondId)], wallet2).result)
+        .toBeErr(Cl.uint(201));
+
+      simnet.mineEmptyBlocks(100);
+      expect(simnet.callPublicFn("pt-amm", "redeem-matured", [Cl.uint(poolId), Cl.uint(bondId)], wallet2).result)
+        .toBeOk(Cl.uint(SBTC));
+
+      const pool = getPool(poolId);
+      expect(pool.ptReserve).toBe(0n);
+      expect(pool.sbtcReserve).toBe(2n * SBTC);
+      expect(readUint("get-pool-of-pt", [Cl.uint(bondId)])).toBeNone();
+    });
+  });
+
+  // =====================================================================
+  // apps/web/src/lib/amm.ts mirrors the contract
+  // =====================================================================
+  describe("TS pricing mirror", () => {
+    it("matches on-chain quotes across random pools, sizes and times", () => {
+      const rand = prng(0x5a7c);
+      for (let p = 0; p < 6; p++) {
+        const poolId = createPool(randomBig(rand, 2_000));
+        const bonds = Array.from({ length: 1 + Math.floor(rand() * 3) }, () =>
+          createBond(wallet1, 1_000n + randomBig(rand, 3 * Number(SBTC))));
+        addLiquidity(wallet1, poolId, bonds, randomBig(rand, 5 * Number(SBTC)));
+
+        for (let t = 0; t < 3; t++) {
+          const pool = getPool(poolId);
+          const height = simnet.burnBlockHeight;
+          expect(readUint("get-spot-price", [Cl.uint(poolId)])).toBeOk(Cl.uint(spotPrice(pool, height)));
+
+          for (let q = 0; q < 20; q++) {
+            const face = rand() < 0.1 ? randomBig(rand, 100) : randomBig(rand, 4 * Number(SBTC));
+            // Anything from already matured to maturing with the pool.
+            const maturity = Math.floor(rand() * (pool.maturityBlock + 1));
+            const sell = quoteSellPt(pool, face, maturity, height);
+            const buy = quoteBuyPt(pool, face, maturity, height);
+            const onSell = readUint("quote-sell-pt", [Cl.uint(poolId), Cl.uint(face), Cl.uint(maturity)]);
+            const onBuy = readUint("quote-buy-pt", [Cl.uint(poolId), Cl.uint(face), Cl.uint(maturity)]);
+
+            expect(onSell).toEqual(sell.ok ? Cl.ok(Cl.uint(sell.sbtc)) : Cl.error(Cl.uint(sell.error === "zero-amount" ? 511 : 507)));
+            expect(onBuy).toEqual(buy.ok ? Cl.ok(Cl.uint(buy.sbtc)) : Cl.error(Cl.uint(buy.error === "zero-amount" ? 511 : 507)));
+          }
+          simnet.mineEmptyBlocks(Math.floor(rand() * 1_000));
+        }
+      }
+    });
+
+    it("prices PT below face before maturity and at face after", () => {
+      const rand = prng(7);
+      for (let i = 0; i < 2_000; i++) {
+        const rate = randomBig(rand, 5_000);
+        const blocks = randomBig(rand, Number(TERM_2Y));
+        const price = ptPrice(rate, blocks);
+        expect(price).toBeLessThanOrEqual(ONE);
+        expect(ptPrice(rate, blocks + 1_000n)).toBeLessThanOrEqual(price);
+        expect(ptPrice(rate, 0n)).toBe(ONE);
+      }
+    });
+
+    it("never quotes a buy below the sell for the same face", () => {
+      const rand = prng(11);
+      for (let i = 0; i < 2_000; i++) {
+        const pool = {
+          anchorRateBps: randomBig(rand, 2_000),
+          maturityBlock: 1 + Math.floor(rand() * Number(TERM_2Y)),
+          sbtcReserve: randomBig(rand, 50 * Number(SBTC)),
+          ptReserve: randomBig(rand, 50 * Number(SBTC)),
+        };
+        const face = 1n + randomBig(rand, Number(SBTC));
+        const sell = quoteSellPt(pool, face, pool.maturityBlock, 0);
+        const buy = quoteBuyPt(pool, face, pool.maturityBlock, 0);
+        if (sell.ok && buy.ok) expect(buy.sbtc).toBeGreaterThan(sell.sbtc);
+      }
+    });
+
+    it("values LP shares at their slice of the pool", () => {
+      const { poolId } = seededPool();
+      const pool = getPool(poolId);
+      const shares = lpShares(poolId, wallet1);
+      const height = simnet.burnBlockHeight;
+      expect(lpShareValue(pool, shares, height)).toBe(pool.sbtcReserve + (pool.ptReserve * spotPrice(pool, height)) / ONE);
+      expect(lpShareValue(pool, shares / 2n, height)).toBeLessThanOrEqual(lpShareValue(pool, shares, height) / 2n);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { Cl, ClarityType } from "@stacks/transactions";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const SBTC    = 100_000_000n; // 1 sBTC in satoshis
+const TERM    = 100n;         // short enough to mine through
+const BUCKET  = 200n;         // the vault takes bonds maturing within BUCKET blocks
+
+let deployer: string;
+let wallet1:  string;
+let wallet2:  string;
+let vault:    string;
+let maxMaturity: bigint;
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+/** Deterministic PRNG (mulberry32) so failures are reproducible. */
+function prng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBig(rand: () => number, max: number): bigint {
+  return BigInt(Math.floor(rand() * max));
+}
+
+function initialize(min: bigint, max: bigint, sender = deployer) {
+  return simnet.callPublicFn(
+    "pt-vault", "initialize",
+    [Cl.stringAscii("SatCurve PT bucket"), Cl.stringAscii("scPT"), Cl.uint(min), Cl.uint(max)],
+    sender
+  ).result;
+}
+
+function createBond(sender: string, amount = SBTC, term = TERM): bigint {
+  const { result } = simnet.callPublicFn("bond-factory", "create-bond", [Cl.uint(amount), Cl.uint(term)], sender);
+  expect(result).toHaveProperty("type", ClarityType.ResponseOk);
+  return (result as any).value.value;
+}
+
+function call(fn: string, args: ReturnType<typeof Cl.uint>[], sender: string) {
+  return simnet.callPublicFn("pt-vault", fn, args, sender).result;
+}
+
+function shares(owner: string): bigint {
+  const { result } = simnet.callReadOnlyFn("pt-vault", "get-balance", [Cl.principal(owner)], deployer);
+  return (result as any).value.value;
+}
+
+function totalSupply(): bigint {
+  const { result } = simnet.callReadOnlyFn("pt-vault", "get-total-supply", [], deployer);
+  return (result as any).value.value;
+}
+
+function sbtcBalance(address: string): bigint {
+  const { result } = simnet.callReadOnlyFn("sbtc-token", "get-balance", [Cl.principal(address)], deployer);
+  return (result as any).value.value;
+}
+
+function getPtOwner(bondId: bigint) {
+  return simnet.callReadOnlyFn("bond-factory", "get-pt-owner", [Cl.uint(bondId)], deployer).result;
+}
+
+function mineToMaturity() {
+  simnet.mineEmptyBlocks(Number(maxMaturity) - simnet.burnBlockHeight);
+}
+
+// -----------------------------------------------------------------------
+
+describe("pt-vault", () => {
+  beforeAll(() => {
+    const accounts = simnet.getAccounts();
+    deployer = accounts.get("deployer")!;
+    wallet1  = accounts.get("wallet_1")!;
+    wallet2  = accounts.get("wallet_2")!;
+    vault    = `${deployer}.pt-vault`;
+  });
+
+  beforeEach(() => {
+    const amount = Cl.uint(10_000_000_000n); // 100 sBTC
+    for (const who of [deployer, wallet1, wallet2]) {
+      simnet.callPublicFn("sbtc-token", "mint", [amount, Cl.principal(who)], deployer);
+    }
+    maxMaturity = BigInt(simnet.burnBlockHeight) + BUCKET;
+    expect(initialize(0n, maxMaturity)).toBeOk(Cl.bool(true));
+  });
+
+  // =====================================================================
+  // Setup
+  // =====================================================================
+  describe("initialize", () => {
+    it("sets the SIP-010 metadata and maturity range once, owner only", () => {
+      expect(simnet.callReadOnlyFn("pt-vault", "get-name", [], deployer).result).toBeOk(Cl.stringAscii("SatCurve PT bucket"));
+      expect(simnet.callReadOnlyFn("pt-vault", "get-symbol", [], deployer).result).toBeOk(Cl.stringAscii("scPT"));
+      expect(simnet.callReadOnlyFn("pt-vault", "get-decimals", [], deployer).result).toBeOk(Cl.uint(8));
+      expect(simnet.callReadOnlyFn("pt-vault", "get-maturity-range", [], deployer).result).toBeOk(
+        Cl.tuple({ "min-maturity": Cl.uint(0), "max-maturity": Cl.uint(maxMaturity) })
+      );
+
+      expect(initialize(0n, 1n, wallet1)).toBeErr(Cl.uint(600));
+      expect(initialize(0n, 1n)).toBeErr(Cl.uint(601));
+    });
+  });
+
+  // =====================================================================
+  // Wrap / unwrap
+  // =====================================================================
+  describe("wrap-pt", () => {
+    it("escrows the PT and mints its face value in shares", () => {
+      const bondId = createBond(wallet1, 3n * SBTC);
+
+      expect(call("wrap-pt", [Cl.uint(bondId)], wallet1)).toBeOk(Cl.uint(3n * SBTC));
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(vault));
+      expect(shares(wallet1)).toBe(3n * SBTC);
+      expect(totalSupply()).toBe(3n * SBTC);
+    });
+
+    it("rejects bonds maturing outside the range", () => {
+      const bondId = createBond(wallet1, SBTC, BUCKET + 10n);
+      expect(call("wrap-pt", [Cl.uint(bondId)], wallet1)).toBeErr(Cl.uint(604));
+      expect(getPtOwner(bondId)).toBeSome(Cl.principal(wallet1));
+    });
+
+    it("rejects a caller who does not hold the PT", () => {
+      const bondId = createBond(wallet1);
+      expect(call("wrap-pt", [Cl.uint(bondId)], wallet2)).toHaveProperty("type", ClarityType.ResponseErr);
+      expect(shares(wallet2)).toBe(0n);
+    });
+  });
+
+  describe("unwrap-pt", () => {
+    it("takes any PT the vault holds for the same face value in shares", () => {
+      const a = createBond(wallet1);
+      const b = createBond(wallet2);
+      call("wrap-pt", [Cl.uint(a)], wallet1);
+      call("wrap-pt", [Cl.uint(b)], wallet2);
+
+      // PTs in a bucket are fungible: wallet2 leaves with wallet1's bond.
+      expect(call("unwrap-pt", [Cl.uint(a)], wallet2)).toBeOk(Cl.uint(SBTC));
+      expect(getPtOwner(a)).toBeSome(Cl.principal(wallet2));
+      expect(shares(wallet2)).toBe(0n);
+      expect(totalSupply()).toBe(SBTC);
+    });
+
+    it("needs enough shares and a PT the vault holds", () => {
+      const small = createBond(wallet1, SBTC);
+      const large = createBond(wallet2, 2n * SBTC);
+      call("wrap-pt", [Cl.uint(small)], wallet1);
+      call("wrap-pt", [Cl.uint(large)], wallet2);
+
+      expect(call("unwrap-pt", [Cl.uint(large)], wallet1)).toHaveProperty("type", ClarityType.ResponseErr);
+      expect(getPtOwner(large)).toBeSome(Cl.principal(vault));
+
+      const outside = createBond(wallet1);
+      expect(call("unwrap-pt", [Cl.uint(outside)], wallet1)).toBeErr(Cl.uint(605));
+    });
+  });
+
+  describe("transfer", () => {
+    it("moves shares only on the owner's say-so", () => {
+      const bondId = createBond(wallet1);
+      call("wrap-pt", [Cl.uint(bondId)], wallet1);
+      const transfer = (amount: bigint, sender: string, caller: string) =>
+        simnet.callPublicFn(
+          "pt-vault", "transfer",
+          [Cl.uint(amount), Cl.principal(sender), Cl.principal(wallet2), Cl.none()],
+          caller
+        ).result;
+
+      expect(transfer(SBTC / 4n, wallet1, wallet2)).toBeErr(Cl.uint(608));
+      expect(transfer(SBTC / 4n, wallet1, wallet1)).toBeOk(Cl.bool(true));
+      expect(shares(wallet1)).toBe((3n * SBTC) / 4n);
+      expect(shares(wallet2)).toBe(SBTC / 4n);
+    });
+  });
+
+  // =====================================================================
+  // Maturity
+  // =====================================================================
+  describe("settle and redeem", () => {
+    it("pays shares out 1:1 once the bucket has matured and been settled", () => {
+      const bondId = createBond(wallet1);
+      call("wrap-pt", [Cl.uint(bondId)], wallet1);
+
+      expect(call("settle", [Cl.uint(bondId)], wallet2)).toBeErr(Cl.uint(201));
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeErr(Cl.uint(606));
+
+      mineToMaturity();
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeErr(Cl.uint(607));
+      expect(call("settle", [Cl.uint(bondId)], wallet2)).toBeOk(Cl.uint(SBTC));
+      expect(sbtcBalance(vault)).toBe(SBTC);
+
+      const before = sbtcBalance(wallet1);
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeOk(Cl.uint(SBTC));
+      expect(sbtcBalance(wallet1)).toBe(before + SBTC);
+      expect(totalSupply()).toBe(0n);
+      expect(call("redeem", [Cl.uint(0)], wallet1)).toBeErr(Cl.uint(609));
+    });
+
+    it("settle only takes PTs the vault holds", () => {
+      const bondId = createBond(wallet1);
+      mineToMaturity();
+      expect(call("settle", [Cl.uint(bondId)], wallet1)).toBeErr(Cl.uint(605));
+    });
+  });
+
+  // =====================================================================
+  // Invariant
+  // =====================================================================
+  describe("solvency", () => {
+    it("every share redeems for one sat after random wraps, unwraps and transfers", () => {
+      const rand = prng(17);
+      const holders = [deployer, wallet1, wallet2];
+      const wrapped: bigint[] = [];
+
+      for (let step = 0; step < 30; step++) {
+        const who = holders[Math.floor(rand() * holders.length)]!;
+        const roll = rand();
+        if (roll < 0.5 || wrapped.length === 0) {
+          const bondId = createBond(who, 1_000n + randomBig(rand, Number(SBTC)), 1n + randomBig(rand, Number(BUCKET)));
+          expect(call("wrap-pt", [Cl.uint(bondId)], who)).toHaveProperty("type", ClarityType.ResponseOk);
+          wrapped.push(bondId);
+        } else if (roll < 0.75) {
+          const i = Math.floor(rand() * wrapped.length);
+          const { result } = simnet.callPublicFn("pt-vault", "unwrap-pt", [Cl.uint(wrapped[i]!)], who);
+          if (result.type === ClarityType.ResponseOk) wrapped.splice(i, 1);
+        } else {
+          const to = holders[Math.floor(rand() * holders.length)]!;
+          const amount = randomBig(rand, Number(shares(who)) + 1);
+          simnet.callPublicFn("pt-vault", "transfer", [Cl.uint(amount), Cl.principal(who), Cl.principal(to), Cl.none()], who);
+        }
+      }
+
+      mineToMaturity();
+      for (const bondId of wrapped) {
+        expect(call("settle", [Cl.uint(bondId)], deployer)).toHaveProperty("type", ClarityType.ResponseOk);
+      }
+      expect(sbtcBalance(vault)).toBe(totalSupply());
+
+      for (const who of holders) {
+        const held = shares(who);
+        if (held > 0n) expect(call("redeem", [Cl.uint(held)], who)).toBeOk(Cl.uint(held));
+      }
+      expect(totalSupply()).toBe(0n);
+      expect(sbtcBalance(vault)).toBe(0n);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Cl, cvToString } from "@stacks/transactions";
+import type { ClarityValue } from "@stacks/transactions";
+
+vi.hoisted(() => {
+  process.env.BOND_FACTORY_ADDRESS = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.bond-factory";
+  process.env.YIELD_ORACLE_ADDRESS = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.yield-oracle";
+  process.env.LOG_LEVEL = "silent";
+  // Test files share one module cache; reload the bot config with these settings.
+  vi.resetModules();
+});
+
+vi.mock("../apps/bot/src/stacks", () => ({
+  fetchTx: vi.fn(),
+  fetchTipHeight: vi.fn(),
+  read: vi.fn(),
+  getBotAddress: () => "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+}));
+
+import { Relayer } from "../apps/bot/src/relayer";
+import { YieldLedger } from "../apps/bot/src/ledger";
+import { txManager } from "../apps/bot/src/transactions";
+import type { SubmittedTx, TxResult } from "../apps/bot/src/transactions";
+import { fetchTx } from "../apps/bot/src/stacks";
+import type { TxLookup } from "../apps/bot/src/stacks";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+const CYCLE    = 84;
+const ORIGINAL = "0xaaaa";
+const BUMPED   = "0xbbbb";
+const RESENT   = "0xcccc";
+
+const lookups = new Map<string, TxLookup | null>();
+
+function ledgerPath(): string {
+  return join(mkdtempSync(join(tmpdir(), "satcurve-relayer-")), "yield-ledger.json");
+}
+
+/** A ledger with 1,000 sats planned for bond 0 and nothing sent yet. */
+function plannedLedger(path: string): YieldLedger {
+  const ledger = new YieldLedger(path);
+  ledger.plan(CYCLE, [{ bondId: 0n, amount: 1_000n }], { rewards: 1_000n, carriedIn: 0n, leftover: 0n });
+  return ledger;
+}
+
+/** A ledger left behind by a run that bumped the fee on bond 0's deposit and then stopped. */
+function ledgerAfterRbf(path: string, txids: string[]): void {
+  const ledger = plannedLedger(path);
+  for (const txid of txids) ledger.markSubmitted(CYCLE, 0n, txid);
+}
+
+/** The repr the API reports for a deposit-yield-many: one response per entry and the total paid. */
+function depositManyRepr(results: ClarityValue[], total: bigint): string {
+  return cvToString(Cl.ok(Cl.tuple({ results: Cl.list(results), total: Cl.uint(total) })));
+}
+
+/** Broadcast deposits as RESENT and have waitForResult end with `result`. */
+function sendDeposits(result: Partial<TxResult>): void {
+  const tx = { txid: RESENT, txids: [RESENT], nonce: 7n } as SubmittedTx;
+  vi.mocked(txManager.submit).mockResolvedValue(tx);
+  vi.spyOn(txManager, "waitForResult").mockResolvedValue({
+    txid: RESENT, resultRepr: null, errorCode: null, blockHeight: null, nonce: 7n, fee: 0n, status: "success", ...result,
+  });
+}
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+  lookups.clear();
+  vi.mocked(fetchTx).mockImplementation(async (txid) => lookups.get(txid) ?? null);
+  vi.spyOn(txManager, "submit").mockRejectedValue(new Error("no deposit expected"));
+});
+
+// -----------------------------------------------------------------------
+
+describe("restart after replace-by-fee", () => {
+  it("settles a deposit paid by the replacement", async () => {
+    const path = ledgerPath();
+    ledgerAfterRbf(path, [ORIGINAL, BUMPED]);
+    lookups.set(ORIGINAL, { status: "dropped_replace_by_fee", resultRepr: null, blockHeight: null });
+    lookups.set(BUMPED, { status: "success", resultRepr: depositManyRepr([Cl.ok(Cl.uint(1_000))], 1_000n), blockHeight: 120 });
+
+    await new Relayer(new YieldLedger(path)).distributeYield({ cycle: CYCLE, totalBondRewards: 1_000n });
+
+    const [entry] = new YieldLedger(path).list(CYCLE);
+    expect(entry).toMatchObject({ status: "confirmed", txids: [ORIGINAL, BUMPED] });
+    expect(txManager.submit).not.toHaveBeenCalled();
+  });
+
+  it("keeps waiting while the replacement is pending", async () => {
+    const path = ledgerPath();
+    ledgerAfterRbf(path, [ORIGINAL, BUMPED]);
+    lookups.set(ORIGINAL, { status: "dropped_replace_by_fee", resultRepr: null, blockHeight: null });
+    lookups.set(BUMPED, { status: "pending", resultRepr: null, blockHeight: null });
+
+    await expect(new Relayer(new YieldLedger(path)).distributeYield({ cycle: CYCLE, totalBondRewards: 1_000n }))
+      .rejects.toThrow(/0 deposits failed, 1 unconfirmed/);
+
+    expect(new YieldLedger(path).list(CYCLE)[0]!.status).toBe("submitted");
+    expect(txManager.submit).not.toHaveBeenCalled();
+  });
+
+  it("never re-deposits when replaced by a txid the ledger does not know", async () => {
+    const path = ledgerPath();
+    ledgerAfterRbf(path, [ORIGINAL]);
+    lookups.set(ORIGINAL, { status: "dropped_replace_by_fee", resultRepr: null, blockHeight: null });
+
+    await expect(new Relayer(new YieldLedger(path)).distributeYield({ cycle: CYCLE, totalBondRewards: 1_000n }))
+      .rejects.toThrow(/0 deposits failed, 1 unconfirmed/);
+
+    expect(new YieldLedger(path).list(CYCLE)[0]!.status).toBe("submitted");
+    expect(txManager.submit).not.toHaveBeenCalled();
+  });
+
+  it("re-deposits once every txid was dropped without a replacement", async () => {
+    const path = ledgerPath();
+    ledgerAfterRbf(path, [ORIGINAL, BUMPED]);
+    lookups.set(ORIGINAL, { status: "dropped_stale_garbage_collect", resultRepr: null, blockHeight: null });
+    lookups.set(BUMPED, { status: "dropped_stale_garbage_collect", resultRepr: null, blockHeight: null });
+
+    await expect(new Relayer(new YieldLedger(path)).distributeYield({ cycle: CYCLE, totalBondRewards: 1_000n }))
+      .rejects.toThrow(/1 deposits failed/);
+
+    expect(txManager.submit).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("retrying a cycle", () => {
+  it("fails the cycle while a deposit is unconfirmed, then settles it on the retry", async () => {
+    const path = ledgerPath();
+    plannedLedger(path);
+    sendDeposits({ status: "timeout" });
+    const relayer = new Relayer(new YieldLedger(path));
+
+    await expect(relayer.distributeYield({ cycle: CYCLE, totalBondRewards: 1_000n }))
+      .rejects.toThrow(/0 deposits failed, 1 unconfirmed/);
+    expect(new YieldLedger(path).list(CYCLE)[0]).toMatchObject({ status: "submitted", txids: [RESENT] });
+
+    lookups.set(RESENT, { status: "success", resultRepr: depositManyRepr([Cl.ok(Cl.uint(1_000))], 1_000n), blockHeight: 130 });
+    await relayer.distributeYield({ cycle: CYCLE, totalBondRewards: 1_000n });
+
+    expect(new YieldLedger(path).list(CYCLE)[0]!.status).toBe("confirmed");
+    expect(txManager.submit).toHaveBeenCalledTimes(1);
+  });
+
+  it("confirms the paid entries of a batch and records the skipped ones without failing the cycle", async () => {
+    const path = ledgerPath();
+    new YieldLedger(path).plan(
+      CYCLE,
+      [{ bondId: 0n, amount: 600n }, { bondId: 1n, amount: 400n }],
+      { rewards: 1_000n, carriedIn: 0n, leftover: 0n },
+    );
+    // Bond 1 matured between planning and the deposit.
+    sendDeposits({ status: "success", resultRepr: depositManyRepr([Cl.ok(Cl.uint(600)), Cl.error(Cl.uint(208))], 600n) });
+
+    await new Relayer(new YieldLedger(path)).distributeYield({ cycle: CYCLE, totalBondRewards: 1_000n });
+
+    const [paid, skipped] = new YieldLedger(path).list(CYCLE);
+    expect(paid).toMatchObject({ bondId: 0n, status: "confirmed" });
+    expect(skipped).toMatchObject({ bondId: 1n, status: "failed", error: `tx ${RESENT}: DepositAfterMaturity (u208)` });
+  });
+
+  it("fails the cycle when a batch aborts on-chain", async () => {
+    const path = ledgerPath();
+    plannedLedger(path);
+    sendDeposits({ status: "abort_by_response", resultRepr: "(err u1)", errorCode: 1n });
+
+    await expect(new Relayer(new YieldLedger(path)).distributeYield({ cycle: CYCLE, totalBondRewards: 1_000n }))
+      .rejects.toThrow(/1 deposits failed, 0 unconfirmed/);
+
+    expect(new YieldLedger(path).list(CYCLE)[0]!.status).toBe("failed");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCandles,
+  impliedRateSeries,
+  tradeImpliedRate,
+  CANDLE_BLOCKS,
+  Trade,
+} from "../apps/web/src/lib/trades";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+const SBTC            = 100_000_000n;
+const BLOCKS_PER_YEAR = 6_307_200;
+
+let nextTx = 0;
+
+function trade(blockHeight: number, priceSats: bigint, overrides: Partial<Trade> = {}): Trade {
+  return {
+    txid: `0x${(nextTx++).toString(16)}`,
+    bondId: 0,
+    tokenType: "PT",
+    seller: "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5",
+    buyer: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG",
+    priceSats,
+    feeSats: 0n,
+    blockHeight,
+    blockTime: 1_700_000_000 + blockHeight * 5,
+    sbtcAmount: SBTC,
+    maturityBlock: BLOCKS_PER_YEAR,
+    ...overrides,
+  };
+}
+
+// -----------------------------------------------------------------------
+
+describe("tradeImpliedRate", () => {
+  it("is the yield from the trade's block to maturity at its price", () => {
+    expect(tradeImpliedRate(trade(0, 95_000_000n))).toBeCloseTo(100 / 95 - 1, 10);
+    // Half a year left: the same discount implies a higher annual rate.
+    const half = tradeImpliedRate(trade(BLOCKS_PER_YEAR / 2, 95_000_000n))!;
+    expect(half).toBeCloseTo(Math.pow(100 / 95, 2) - 1, 10);
+  });
+
+  it("is null for YT, unindexed bonds, prices at face and matured bonds", () => {
+    expect(tradeImpliedRate(trade(0, 5_000_000n, { tokenType: "YT" }))).toBeNull();
+    expect(tradeImpliedRate(trade(0, 95_000_000n, { sbtcAmount: null, maturityBlock: null }))).toBeNull();
+    expect(tradeImpliedRate(trade(0, SBTC))).toBeNull();
+    expect(tradeImpliedRate(trade(BLOCKS_PER_YEAR, 95_000_000n))).toBeNull();
+  });
+});
+
+describe("buildCandles", () => {
+  it("takes trades newest first and returns candles oldest first", () => {
+    const day = CANDLE_BLOCKS;
+    const trades = [
+      trade(2 * day + 10, 97_000_000n),
+      trade(day + 300, 96_000_000n),
+      trade(day + 200, 91_000_000n),
+      trade(day + 100, 94_000_000n),
+      trade(5, 90_000_000n),
+    ];
+
+    expect(buildCandles(trades)).toEqual([
+      {
+        startBlock: 0, startTime: trades[4]!.blockTime,
+        open: 90_000_000n, high: 90_000_000n, low: 90_000_000n, close: 90_000_000n,
+        volumeSats: 90_000_000n, trades: 1,
+      },
+      {
+        startBlock: day, startTime: trades[3]!.blockTime,
+        open: 94_000_000n, high: 96_000_000n, low: 91_000_000n, close: 96_000_000n,
+        volumeSats: 281_000_000n, trades: 3,
+      },
+      {
+        startBlock: 2 * day, startTime: trades[0]!.blockTime,
+        open: 97_000_000n, high: 97_000_000n, low: 97_000_000n, close: 97_000_000n,
+        volumeSats: 97_000_000n, trades: 1,
+      },
+    ]);
+  });
+
+  it("is empty without trades", () => {
+    expect(buildCandles([])).toEqual([]);
+  });
+});
+
+describe("impliedRateSeries", () => {
+  it("keeps the PT trades with a defined rate, oldest first", () => {
+    const trades = [
+      trade(300, 96_000_000n, { bondId: 2 }),
+      trade(200, 4_000_000n, { tokenType: "YT" }),
+      trade(100, 95_000_000n, { bondId: 1 }),
+    ];
+    expect(impliedRateSeries(trades).map((p) => [p.bondId, p.blockHeight])).toEqual([[1, 100], [2, 300]]);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.hoisted(() => {
+  process.env.LOG_LEVEL = "silent";
+  // Test files share one module cache; reload the manager against this file's stacks mock.
+  vi.resetModules();
+});
+
+vi.mock("../apps/bot/src/stacks", () => ({
+  buildContractCall: vi.fn(),
+  broadcast: vi.fn(),
+  fetchNextNonce: vi.fn(),
+  fetchTipHeight: vi.fn(),
+  fetchTx: vi.fn(),
+  BroadcastError: class BroadcastError extends Error {
+    constructor(label: string, readonly error: string, readonly reason: string) {
+      super(`Broadcast failed [${label}]: ${error} — ${reason}`);
+    }
+  },
+}));
+
+import { TxManager } from "../apps/bot/src/transactions";
+import type { ContractCallRequest, SubmittedTx } from "../apps/bot/src/transactions";
+import { config } from "../apps/bot/src/config";
+import {
+  buildContractCall,
+  broadcast,
+  BroadcastError,
+  fetchNextNonce,
+  fetchTipHeight,
+  fetchTx,
+} from "../apps/bot/src/stacks";
+import type { TxLookup } from "../apps/bot/src/stacks";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+const BROADCAST_HEIGHT = 100;
+const FEE = BigInt(config.relayer.feeMicroStx);
+
+const REQUEST: ContractCallRequest = {
+  contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+  contractName: "bond-factory",
+  functionName: "deposit-yield",
+  functionArgs: [],
+};
+
+/** Each broadcast returns the next txid; `rejections` are thrown first, in order. */
+let broadcasts: string[];
+let rejections: Error[];
+const lookups = new Map<string, TxLookup | null>();
+let tip: number;
+
+/** Every (nonce, fee) pair signed, in order. */
+function signed(): Array<[bigint, bigint]> {
+  return vi.mocked(buildContractCall).mock.calls.map(([, nonce, fee]) => [nonce, fee]);
+}
+
+function pending(txid = "0xa", fee = FEE): SubmittedTx {
+  return { request: REQUEST, nonce: 7n, fee, txid, txids: [txid], broadcastHeight: BROADCAST_HEIGHT };
+}
+
+/** Run waitForResult to completion, skipping the poll interval. */
+async function settle(manager: TxManager, tx: SubmittedTx, onReplace?: (txid: string) => void) {
+  const result = manager.waitForResult(tx, onReplace);
+  await vi.runAllTimersAsync();
+  return result;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setTimeout"] });
+  vi.clearAllMocks();
+  broadcasts = ["0xa", "0xb", "0xc"];
+  rejections = [];
+  lookups.clear();
+  tip = BROADCAST_HEIGHT;
+
+  vi.mocked(buildContractCall).mockResolvedValue({} as Awaited<ReturnType<typeof buildContractCall>>);
+  vi.mocked(broadcast).mockImplementation(async () => {
+    const rejection = rejections.shift();
+    if (rejection) throw rejection;
+    return broadcasts.shift()!;
+  });
+  vi.mocked(fetchNextNonce).mockResolvedValue(7n);
+  vi.mocked(fetchTipHeight).mockImplementation(async () => tip);
+  vi.mocked(fetchTx).mockImplementation(async (txid) => lookups.get(txid) ?? null);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// -----------------------------------------------------------------------
+
+describe("nonces", () => {
+  it("reads the nonce once and counts up locally", async () => {
+    const manager = new TxManager();
+
+    const txs = await Promise.all([manager.submit(REQUEST), manager.submit(REQUEST), manager.submit(REQUEST)]);
+
+    expect(txs.map((tx) => [tx.nonce, tx.txid])).toEqual([[7n, "0xa"], [8n, "0xb"], [9n, "0xc"]]);
+    expect(fetchNextNonce).toHaveBeenCalledTimes(1);
+    expect(txs[0]).toMatchObject({ fee: FEE, txids: ["0xa"], broadcastHeight: BROADCAST_HEIGHT });
+  });
+
+  it("resyncs from the node after a nonce rejection", async () => {
+    const manager = new TxManager();
+    rejections = [new BroadcastError("bond-factory::deposit-yield", "ConflictingNonceInMempool", "")];
+
+    await expect(manager.submit(REQUEST)).rejects.toThrow(/ConflictingNonceInMempool/);
+    vi.mocked(fetchNextNonce).mockResolvedValue(12n);
+    const tx = await manager.submit(REQUEST);
+
+    expect(tx.nonce).toBe(12n);
+    expect(fetchNextNonce).toHaveBeenCalledTimes(2);
+  });
+
+  it("reuses the nonce after any other rejection", async () => {
+    const manager = new TxManager();
+    rejections = [new BroadcastError("bond-factory::deposit-yield", "NotEnoughFunds", "")];
+
+    await expect(manager.submit(REQUEST)).rejects.toThrow(/NotEnoughFunds/);
+    const tx = await manager.submit(REQUEST);
+
+    expect(signed().map(([nonce]) => nonce)).toEqual([7n, 7n]);
+    expect(tx.nonce).toBe(7n);
+    expect(fetchNextNonce).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("replace-by-fee", () => {
+  it("waits out the mempool before bumping the fee", async () => {
+    const tx = pending();
+    lookups.set("0xa", { status: "success", resultRepr: "(ok u0)", blockHeight: 101 });
+    tip = BROADCAST_HEIGHT + config.relayer.rbfAfterBlocks - 1;
+
+    const result = await settle(new TxManager(), tx);
+
+    expect(result).toMatchObject({ txid: "0xa", status: "success", fee: FEE, errorCode: null });
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it("rebroadcasts a lingering tx with the same nonce and a higher fee", async () => {
+    const tx = pending();
+    const replaced: string[] = [];
+    lookups.set("0xa", { status: "pending", resultRepr: null, blockHeight: null });
+    tip = BROADCAST_HEIGHT + config.relayer.rbfAfterBlocks;
+    broadcasts = ["0xb"];
+
+    vi.mocked(broadcast).mockImplementationOnce(async () => {
+      // The replacement is mined by the next poll.
+      lookups.set("0xa", { status: "dropped_replace_by_fee", resultRepr: null, blockHeight: null });
+      lookups.set("0xb", { status: "abort_by_response", resultRepr: "(err u208)", blockHeight: 130 });
+      return "0xb";
+    });
+    const result = await settle(new TxManager(), tx, (txid) => replaced.push(txid));
+
+    const bumped = (FEE * BigInt(100 + config.relayer.rbfFeeBumpPct)) / 100n;
+    expect(signed()).toEqual([[7n, bumped]]);
+    expect(replaced).toEqual(["0xb"]);
+    expect(tx).toMatchObject({ txid: "0xb", txids: ["0xa", "0xb"], fee: bumped, broadcastHeight: tip });
+    expect(result).toMatchObject({ txid: "0xb", status: "abort_by_response", errorCode: 208n, nonce: 7n, fee: bumped });
+  });
+
+  it("returns the original when it is mined after a replacement", async () => {
+    const tx = { ...pending("0xb"), txids: ["0xa", "0xb"] };
+    lookups.set("0xa", { status: "success", resultRepr: "(ok u0)", blockHeight: 125 });
+    lookups.set("0xb", { status: "dropped_replace_across_fork", resultRepr: null, blockHeight: null });
+
+    const result = await settle(new TxManager(), tx);
+
+    expect(result).toMatchObject({ txid: "0xa", status: "success", blockHeight: 125 });
+  });
+
+  it("stops bumping at the fee cap", async () => {
+    const tx = pending("0xa", BigInt(config.relayer.maxFeeMicroStx));
+    lookups.set("0xa", { status: "pending", resultRepr: null, blockHeight: null });
+    tip = BROADCAST_HEIGHT + config.relayer.rbfAfterBlocks;
+
+    vi.mocked(fetchTipHeight).mockImplementation(async () => {
+      // Mined on the poll after the first capped bump.
+      if (tx.broadcastHeight === tip) lookups.set("0xa", { status: "success", resultRepr: "(ok u0)", blockHeight: tip });
+      return tip;
+    });
+    const result = await settle(new TxManager(), tx);
+
+    expect(broadcast).not.toHaveBeenCalled();
+    expect(tx).toMatchObject({ txids: ["0xa"], broadcastHeight: tip });
+    expect(result.status).toBe("success");
+  });
+
+  it("keeps the original when the replacement is rejected", async () => {
+    const tx = pending();
+    const replaced: string[] = [];
+    lookups.set("0xa", { status: "pending", resultRepr: null, blockHeight: null });
+    tip = BROADCAST_HEIGHT + config.relayer.rbfAfterBlocks;
+
+    vi.mocked(broadcast).mockImplementationOnce(async () => {
+      lookups.set("0xa", { status: "success", resultRepr: "(ok u0)", blockHeight: tip });
+      throw new BroadcastError("bond-factory::deposit-yield", "ConflictingNonceInMempool", "");
+    });
+    const result = await settle(new TxManager(), tx, (txid) => replaced.push(txid));
+
+    expect(replaced).toEqual([]);
+    expect(tx).toMatchObject({ txid: "0xa", txids: ["0xa"], fee: FEE });
+    expect(result).toMatchObject({ txid: "0xa", status: "success" });
+  });
+
+  it("reports a tx as dropped only once every txid is", async () => {
+    const tx = { ...pending("0xb"), txids: ["0xa", "0xb"] };
+    lookups.set("0xa", { status: "dropped_replace_by_fee", resultRepr: null, blockHeight: null });
+    lookups.set("0xb", { status: "dropped_stale_garbage_collect", resultRepr: null, blockHeight: null });
+
+    const result = await settle(new TxManager(), tx);
+
+    expect(result).toMatchObject({ txid: "0xb", status: "dropped", resultRepr: null });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  ANNUAL,
+  CONTINUOUS,
+  CYCLE_BLOCKS,
+  DAY_COUNTS,
+  PER_CYCLE,
+  bondRisk,
+  convertRate,
+  flatCurve,
+  presentValue,
+  ptCashFlows,
+  riskMetrics,
+  stackingApy,
+  withCompounding,
+  yearFraction,
+  ytCashFlows,
+  zeroRate,
+} from "../apps/web/src/lib/valuation";
+import type { TermStructure } from "../apps/web/src/lib/valuation";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+const SBTC            = 100_000_000n;
+const BLOCKS_PER_YEAR = DAY_COUNTS["ACT/365"];
+const NOW             = 1_000;
+
+// -----------------------------------------------------------------------
+
+describe("term structure", () => {
+  const curve: TermStructure = {
+    points: [{ years: 0.5, rate: 0.04 }, { years: 1.5, rate: 0.06 }],
+    compounding: ANNUAL,
+  };
+
+  it("interpolates between points and holds the ends flat", () => {
+    expect(zeroRate(curve, 0.1)).toBe(0.04);
+    // Halfway in continuously compounded terms.
+    expect(zeroRate(curve, 1)).toBeCloseTo(Math.sqrt(1.04 * 1.06) - 1, 12);
+    expect(zeroRate(curve, 2)).toBe(0.06);
+  });
+
+  it("requotes rates between compounding conventions without changing prices", () => {
+    expect(convertRate(0.05, ANNUAL, CONTINUOUS)).toBeCloseTo(Math.log(1.05), 12);
+    expect(convertRate(convertRate(0.05, ANNUAL, PER_CYCLE), PER_CYCLE, ANNUAL)).toBeCloseTo(0.05, 12);
+
+    const flows = ptCashFlows(SBTC, NOW + BLOCKS_PER_YEAR, NOW);
+    const value = presentValue(flows, curve);
+    expect(presentValue(flows, withCompounding(curve, CONTINUOUS))).toBeCloseTo(value, 4);
+    expect(presentValue(flows, withCompounding(curve, PER_CYCLE))).toBeCloseTo(value, 4);
+  });
+
+  it("counts a year as 365 or 360 days of blocks", () => {
+    expect(yearFraction(BLOCKS_PER_YEAR)).toBe(1);
+    expect(yearFraction(BLOCKS_PER_YEAR, "ACT/360")).toBeCloseTo(365 / 360, 12);
+    expect(yearFraction(-5)).toBe(0);
+  });
+});
+
+describe("PT risk", () => {
+  const years = 2;
+  const flows = ptCashFlows(SBTC, NOW + years * BLOCKS_PER_YEAR, NOW);
+
+  it("matches the zero-coupon formulas under annual compounding", () => {
+    const r = 0.05;
+    const m = riskMetrics(flows, flatCurve(r));
+    expect(m.valueSats).toBeCloseTo(Number(SBTC) / Math.pow(1 + r, years), 2);
+    expect(m.macaulayDuration).toBeCloseTo(years, 10);
+    expect(m.modifiedDuration).toBeCloseTo(years / (1 + r), 6);
+    expect(m.convexity).toBeCloseTo((years * (years + 1)) / Math.pow(1 + r, 2), 3);
+    expect(m.dv01Sats).toBeCloseTo(m.valueSats * m.modifiedDuration * 0.0001, 2);
+  });
+
+  it("has duration t and convexity t² under continuous compounding", () => {
+    const m = riskMetrics(flows, flatCurve(0.05, CONTINUOUS));
+    expect(m.modifiedDuration).toBeCloseTo(years, 6);
+    expect(m.convexity).toBeCloseTo(years * years, 3);
+  });
+
+  it("is worth nothing once matured", () => {
+    expect(ptCashFlows(SBTC, NOW, NOW)).toEqual([]);
+    expect(riskMetrics([], flatCurve(0.05)).valueSats).toBe(0);
+  });
+});
+
+describe("YT risk", () => {
+  it("pays the APR on the principal each cycle, pro rata in the last", () => {
+    const maturity = NOW + 2 * CYCLE_BLOCKS + CYCLE_BLOCKS / 2;
+    const flows = ytCashFlows(SBTC, 0.08, maturity, NOW);
+    const perCycle = Number(SBTC) * 0.08 * (CYCLE_BLOCKS / BLOCKS_PER_YEAR);
+
+    expect(flows).toHaveLength(3);
+    expect(flows[0]!.sats).toBeCloseTo(perCycle, 6);
+    expect(flows[2]!.sats).toBeCloseTo(perCycle / 2, 6);
+    expect(flows[2]!.years).toBeCloseTo((maturity - NOW) / BLOCKS_PER_YEAR, 12);
+    expect(stackingApy(0.08)).toBeGreaterThan(0.08);
+  });
+
+  it("counts uncollected yield at face and prices the stacking APR", () => {
+    const maturity = NOW + BLOCKS_PER_YEAR;
+    const curve = flatCurve(0.05);
+    const risk = bondRisk(SBTC, maturity, NOW, 40_000n, 0.08, curve);
+    const expected = presentValue(ytCashFlows(SBTC, 0.08, maturity, NOW), curve);
+
+    expect(risk.yt.valueSats).toBeCloseTo(40_000 + expected, 4);
+    expect(risk.yt.aprDv01Sats).toBeCloseTo(expected / 800, 4);
+    // Paid out through the year, the YT is shorter than the PT.
+    expect(risk.yt.macaulayDuration).toBeLessThan(risk.pt.macaulayDuration / 2 + 0.05);
+    expect(risk.pt.dv01Sats).toBeGreaterThan(risk.yt.dv01Sats);
+  });
+});
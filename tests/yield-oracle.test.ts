@@ -93,6 +93,11 @@ describe("yield-oracle", () => {
       const { result } = simnet.callReadOnlyFn(CONTRACT, "get-trusted-btc-price", [], deployer);
       expect(result).toBeErr(Cl.uint(101));
     });
+
+    it("get-max-price-age-blocks exposes the 300-block staleness window", () => {
+      const { result } = simnet.callReadOnlyFn(CONTRACT, "get-max-price-age-blocks", [], deployer);
+      expect(result).toBeOk(Cl.uint(300));
+    });
   });
 
   // =========================================================================
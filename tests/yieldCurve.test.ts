@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { buildYieldCurve, TENOR_COUNT } from "../apps/web/src/lib/yieldCurve";
+import { BUCKET_BLOCKS, BookAsk } from "../apps/web/src/lib/orderBook";
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+const SBTC            = 100_000_000n;
+const BLOCKS_PER_YEAR = 6_307_200;
+const NOW             = 1_000;
+
+function ask(maturityBlock: number, priceSats: bigint, sbtcAmount = SBTC): BookAsk {
+  return { bondId: 0, seller: "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5", priceSats, sbtcAmount, maturityBlock };
+}
+
+/** Price of `face` that implies `rate` over `blocks`. */
+function priced(rate: number, blocks: number, face = SBTC): bigint {
+  return BigInt(Math.round(Number(face) / Math.pow(1 + rate, blocks / BLOCKS_PER_YEAR)));
+}
+
+// -----------------------------------------------------------------------
+
+describe("buildYieldCurve", () => {
+  it("is empty until a PT is listed below face", () => {
+    expect(buildYieldCurve([], NOW)).toEqual([]);
+    expect(buildYieldCurve([ask(NOW + BUCKET_BLOCKS, SBTC), ask(NOW - 1, 90_000_000n)], NOW)).toEqual([]);
+  });
+
+  it("weights each bucket's rate by face value and reports its liquidity", () => {
+    const blocks = BUCKET_BLOCKS + 100; // bucket 1, "3–6M"
+    const curve = buildYieldCurve([
+      ask(NOW + blocks, priced(0.04, blocks), SBTC),
+      ask(NOW + blocks, priced(0.08, blocks, 3n * SBTC), 3n * SBTC),
+    ], NOW);
+
+    expect(curve).toHaveLength(TENOR_COUNT);
+    const point = curve[1]!;
+    expect(point).toMatchObject({ label: "3–6M", source: "market", listings: 2, depthSats: 4n * SBTC });
+    expect(point.rate).toBeCloseTo(0.07, 6);
+  });
+
+  it("interpolates between quoted buckets and holds the ends flat", () => {
+    const near = BUCKET_BLOCKS + 10;     // bucket 1
+    const far  = 4 * BUCKET_BLOCKS + 10; // bucket 4
+    const curve = buildYieldCurve([ask(NOW + near, priced(0.03, near)), ask(NOW + far, priced(0.06, far))], NOW);
+
+    expect(curve.map((p) => p.source)).toEqual([
+      "extrapolated", "market", "interpolated", "interpolated", "market",
+      "extrapolated", "extrapolated", "extrapolated", "extrapolated",
+    ]);
+    expect(curve[0]!.rate).toBeCloseTo(0.03, 6);
+    expect(curve[2]!.rate).toBeCloseTo(0.04, 6);
+    expect(curve[3]!.rate).toBeCloseTo(0.05, 6);
+    expect(curve[8]!.rate).toBeCloseTo(0.06, 6);
+    expect(curve[2]).toMatchObject({ listings: 0, depthSats: 0n });
+  });
+});
@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { Cl, ClarityType } from "@stacks/transactions";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const SBTC    = 100_000_000n; // 1 sBTC in satoshis
+const TERM    = 100n;         // short enough to mine through
+const BUCKET  = 200n;         // the vault takes bonds maturing within BUCKET blocks
+
+let deployer: string;
+let wallet1:  string;
+let wallet2:  string;
+let vault:    string;
+let maxMaturity: bigint;
+
+// -----------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------
+
+/** Deterministic PRNG (mulberry32) so failures are reproducible. */
+function prng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBig(rand: () => number, max: number): bigint {
+  return BigInt(Math.floor(rand() * max));
+}
+
+function createBond(sender: string, amount = SBTC, term = TERM): bigint {
+  const { result } = simnet.callPublicFn("bond-factory", "create-bond", [Cl.uint(amount), Cl.uint(term)], sender);
+  expect(result).toHaveProperty("type", ClarityType.ResponseOk);
+  return (result as any).value.value;
+}
+
+/** The relayer's deposit-yield, made by the deployer. */
+function depositYield(bondId: bigint, amount: bigint) {
+  const { result } = simnet.callPublicFn("bond-factory", "deposit-yield", [Cl.uint(bondId), Cl.uint(amount)], deployer);
+  expect(result).toHaveProperty("type", ClarityType.ResponseOk);
+}
+
+function call(fn: string, args: ReturnType<typeof Cl.uint>[], sender: string) {
+  return simnet.callPublicFn("yt-vault", fn, args, sender).result;
+}
+
+function wrap(bondId: bigint, sender: string) {
+  expect(call("wrap-yt", [Cl.uint(bondId)], sender)).toHaveProperty("type", ClarityType.ResponseOk);
+}
+
+function shares(owner: string): bigint {
+  const { result } = simnet.callReadOnlyFn("yt-vault", "get-balance", [Cl.principal(owner)], deployer);
+  return (result as any).value.value;
+}
+
+function claimable(owner: string): bigint {
+  const { result } = simnet.callReadOnlyFn("yt-vault", "get-claimable", [Cl.principal(owner)], deployer);
+  return (result as any).value.value;
+}
+
+function unharvested(): bigint {
+  const { result } = simnet.callReadOnlyFn("yt-vault", "get-unharvested-count", [], deployer);
+  return (result as any).value.value;
+}
+
+/** Mine until the bucket's max-maturity has passed. */
+function matureBucket() {
+  simnet.mineEmptyBlocks(Number(maxMaturity) - simnet.burnBlockHeight);
+}
+
+function sbtcBalance(address: string): bigint {
+  const { result } = simnet.callReadOnlyFn("sbtc-token", "get-balance", [Cl.principal(address)], deployer);
+  return (result as any).value.value;
+}
+
+function getYtOwner(bondId: bigint) {
+  return simnet.callReadOnlyFn("bond-factory", "get-yt-owner", [Cl.uint(bondId)], deployer).result;
+}
+
+function transfer(amount: bigint, sender: string, recipient: string) {
+  return simnet.callPublicFn(
+    "yt-vault", "transfer",
+    [Cl.uint(amount), Cl.principal(sender), Cl.principal(recipient), Cl.none()],
+    sender
+  ).result;
+}
+
+// -----------------------------------------------------------------------
+
+describe("yt-vault", () => {
+  beforeAll(() => {
+    const accounts = simnet.getAccounts();
+    deployer = accounts.get("deployer")!;
+    wallet1  = accounts.get("wallet_1")!;
+    wallet2  = accounts.get("wallet_2")!;
+    vault    = `${deployer}.yt-vault`;
+  });
+
+  beforeEach(() => {
+    const amount = Cl.uint(10_000_000_000n); // 100 sBTC
+    for (const who of [deployer, wallet1, wallet2]) {
+      simnet.callPublicFn("sbtc-token", "mint", [amount, Cl.principal(who)], deployer);
+    }
+    maxMaturity = BigInt(simnet.burnBlockHeight) + BUCKET;
+    const { result } = simnet.callPublicFn(
+      "yt-vault", "initialize",
+      [Cl.stringAscii("SatCurve YT bucket"), Cl.stringAscii("scYT"), Cl.uint(0), Cl.uint(maxMaturity)],
+      deployer
+    );
+    expect(result).toBeOk(Cl.bool(true));
+  });
+
+  // =====================================================================
+  // Wrap / unwrap
+  // =====================================================================
+  describe("wrap-yt", () => {
+    it("pays out the YT's earlier yield, escrows it and mints its face value in shares", () => {
+      const bondId = createBond(wallet1, 2n * SBTC);
+      depositYield(bondId, 5_000n);
+      const before = sbtcBalance(wallet1);
+
+      expect(call("wrap-yt", [Cl.uint(bondId)], wallet1)).toBeOk(Cl.uint(2n * SBTC));
+      expect(sbtcBalance(wallet1)).toBe(before + 5_000n);
+      expect(getYtOwner(bondId)).toBeSome(Cl.principal(vault));
+      expect(shares(wallet1)).toBe(2n * SBTC);
+      expect(claimable(wallet1)).toBe(0n);
+    });
+
+    it("rejects matured bonds and bonds outside the range", () => {
+      const outside = createBond(wallet1, SBTC, BUCKET + 10n);
+      expect(call("wrap-yt", [Cl.uint(outside)], wallet1)).toBeErr(Cl.uint(704));
+
+      const matured = createBond(wallet1);
+      simnet.mineEmptyBlocks(Number(TERM));
+      expect(call("wrap-yt", [Cl.uint(matured)], wallet1)).toBeErr(Cl.uint(707));
+    });
+  });
+
+  describe("unwrap-yt", () => {
+    it("harvests the bond first so its vaulted yield stays with all holders", () => {
+      const a = createBond(wallet1, SBTC);
+      const b = createBond(wallet2, 3n * SBTC);
+      wrap(a, wallet1);
+      wrap(b, wallet2);
+      depositYield(b, 4_000n);
+
+      expect(call("unwrap-yt", [Cl.uint(b)], wallet2)).toBeOk(Cl.uint(3n * SBTC));
+      expect(getYtOwner(b)).toBeSome(Cl.principal(wallet2));
+      expect(claimable(wallet1)).toBe(1_000n);
+      expect(claimable(wallet2)).toBe(3_000n);
+    });
+
+    it("rejects a YT the vault does not hold", () => {
+      const bondId = createBond(wallet1);
+      expect(call("unwrap-yt", [Cl.uint(bondId)], wallet1)).toBeErr(Cl.uint(705));
+    });
+  });
+
+  // =====================================================================
+  // Yield
+  // =====================================================================
+  describe("harvest and claim", () => {
+    it("spreads a bond's yield over every share", () => {
+      const a = createBond(wallet1, SBTC);
+      const b = createBond(wallet2, 3n * SBTC);
+      wrap(a, wallet1);
+      wrap(b, wallet2);
+      depositYield(a, 4_000n);
+
+      expect(call("harvest", [Cl.uint(a)], deployer)).toBeOk(Cl.uint(4_000n));
+      expect(call("harvest", [Cl.uint(a)], deployer)).toBeOk(Cl.uint(0));
+      expect(claimable(wallet1)).toBe(1_000n);
+      expect(claimable(wallet2)).toBe(3_000n);
+
+      const before = sbtcBalance(wallet2);
+      expect(call("claim", [], wallet2)).toBeOk(Cl.uint(3_000n));
+      expect(sbtcBalance(wallet2)).toBe(before + 3_000n);
+      expect(call("claim", [], wallet2)).toBeOk(Cl.uint(0));
+      expect(claimable(wallet2)).toBe(0n);
+    });
+
+    it("gives late wrappers nothing of earlier harvests", () => {
+      const a = createBond(wallet1);
+      wrap(a, wallet1);
+      depositYield(a, 1_000n);
+      call("harvest", [Cl.uint(a)], deployer);
+
+      const b = createBond(wallet2);
+      wrap(b, wallet2);
+      expect(claimable(wallet1)).toBe(1_000n);
+      expect(claimable(wallet2)).toBe(0n);
+    });
+
+    it("leaves yield earned before a transfer with the sender", () => {
+      const a = createBond(wallet1);
+      wrap(a, wallet1);
+      depositYield(a, 1_000n);
+      call("harvest", [Cl.uint(a)], deployer);
+
+      expect(transfer(SBTC, wallet1, wallet2)).toBeOk(Cl.bool(true));
+      depositYield(a, 500n);
+      call("harvest", [Cl.uint(a)], deployer);
+      expect(claimable(wallet1)).toBe(1_000n);
+      expect(claimable(wallet2)).toBe(500n);
+      expect(transfer(1n, wallet1, wallet2)).toHaveProperty("type", ClarityType.ResponseErr);
+    });
+
+    it("harvest only takes YTs the vault holds", () => {
+      const bondId = createBond(wallet1);
+      expect(call("harvest", [Cl.uint(bondId)], deployer)).toBeErr(Cl.uint(705));
+    });
+  });
+
+  // =====================================================================
+  // Maturity
+  // =====================================================================
+  describe("redeem", () => {
+    it("burns shares after the bucket matures and pays what is left to claim", () => {
+      const bondId = createBond(wallet1);
+      wrap(bondId, wallet1);
+      depositYield(bondId, 2_000n);
+      call("harvest", [Cl.uint(bondId)], deployer);
+
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeErr(Cl.uint(706));
+      matureBucket();
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeErr(Cl.uint(710));
+      expect(call("harvest", [Cl.uint(bondId)], deployer)).toBeOk(Cl.uint(0));
+
+      const before = sbtcBalance(wallet1);
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeOk(Cl.uint(2_000n));
+      expect(sbtcBalance(wallet1)).toBe(before + 2_000n);
+      expect(shares(wallet1)).toBe(0n);
+      expect(call("redeem", [Cl.uint(0)], wallet1)).toBeErr(Cl.uint(709));
+    });
+
+    it("waits for every YT's post-maturity harvest so an early redeemer keeps their share", () => {
+      const a = createBond(wallet1, SBTC);
+      const b = createBond(wallet2, 3n * SBTC);
+      wrap(a, wallet1);
+      wrap(b, wallet2);
+      depositYield(a, 4_000n);
+      matureBucket();
+
+      expect(unharvested()).toBe(2n);
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeErr(Cl.uint(710));
+      expect(call("harvest", [Cl.uint(a)], deployer)).toBeOk(Cl.uint(4_000n));
+      expect(call("harvest", [Cl.uint(a)], deployer)).toBeOk(Cl.uint(0));
+      expect(unharvested()).toBe(1n);
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeErr(Cl.uint(710));
+
+      expect(call("harvest", [Cl.uint(b)], deployer)).toBeOk(Cl.uint(0));
+      expect(unharvested()).toBe(0n);
+      expect(call("redeem", [Cl.uint(SBTC)], wallet1)).toBeOk(Cl.uint(1_000n));
+      expect(call("redeem", [Cl.uint(3n * SBTC)], wallet2)).toBeOk(Cl.uint(3_000n));
+    });
+
+    it("stops waiting on a YT once it is unwrapped, harvested or not", () => {
+      const a = createBond(wallet1);
+      const b = createBond(wallet1);
+      wrap(a, wallet1);
+      wrap(b, wallet1);
+      expect(call("unwrap-yt", [Cl.uint(a)], wallet1)).toHaveProperty("type", ClarityType.ResponseOk);
+      expect(unharvested()).toBe(1n);
+
+      matureBucket();
+      call("harvest", [Cl.uint(b)], deployer);
+      expect(call("unwrap-yt", [Cl.uint(b)], wallet1)).toHaveProperty("type", ClarityType.ResponseOk);
+      expect(unharvested()).toBe(0n);
+    });
+  });
+
+  // =====================================================================
+  // Invariant
+  // =====================================================================
+  describe("solvency", () => {
+    it("claimable yield never exceeds the vault's sBTC and loses at most a sat per harvest", () => {
+      const rand = prng(29);
+      const holders = [deployer, wallet1, wallet2];
+      const wrapped: bigint[] = [];
+      let harvested = 0n;
+      let harvests = 0n;
+      let claimed = 0n;
+
+      for (let step = 0; step < 40; step++) {
+        const who = holders[Math.floor(rand() * holders.length)]!;
+        const roll = rand();
+        if (roll < 0.3 || wrapped.length === 0) {
+          const bondId = createBond(who, 1_000n + randomBig(rand, Number(SBTC)), BUCKET);
+          wrap(bondId, who);
+          wrapped.push(bondId);
+        } else if (roll < 0.6) {
+          const bondId = wrapped[Math.floor(rand() * wrapped.length)]!;
+          depositYield(bondId, 1n + randomBig(rand, 100_000));
+          const { result } = simnet.callPublicFn("yt-vault", "harvest", [Cl.uint(bondId)], who);
+          harvested += (result as any).value.value;
+          harvests++;
+        } else if (roll < 0.75) {
+          const { result } = simnet.callPublicFn("yt-vault", "claim", [], who);
+          claimed += (result as any).value.value;
+        } else {
+          const to = holders[Math.floor(rand() * holders.length)]!;
+          transfer(randomBig(rand, Number(shares(who)) + 1), who, to);
+        }
+
+        const owed = holders.reduce((sum, h) => sum + claimable(h), 0n);
+        expect(owed).toBeLessThanOrEqual(sbtcBalance(vault));
+        expect(harvested - claimed - owed).toBeLessThanOrEqual(harvests);
+      }
+    });
+  });
+});